@@ -0,0 +1,13 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getCurrentUser } from '@/lib/auth';
+
+export const dynamic = 'force-dynamic';
+
+export async function GET(request: NextRequest) {
+  const user = await getCurrentUser(request);
+
+  return NextResponse.json({
+    success: true,
+    user,
+  });
+}
@@ -0,0 +1,61 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { prisma } from '@/lib/prisma';
+import {
+  createSession,
+  normalizeEmail,
+  setSessionCookie,
+  verifyPassword,
+} from '@/lib/auth';
+
+export async function POST(request: NextRequest) {
+  try {
+    let body;
+    try {
+      body = await request.json();
+    } catch {
+      return NextResponse.json(
+        { error: 'Invalid JSON in request body' },
+        { status: 400 }
+      );
+    }
+
+    const { email, password } = body;
+
+    if (typeof email !== 'string' || typeof password !== 'string' || !email.trim() || !password) {
+      return NextResponse.json(
+        { error: 'Email and password are required' },
+        { status: 400 }
+      );
+    }
+
+    const user = await prisma.user.findUnique({
+      where: { email: normalizeEmail(email) },
+    });
+
+    // Same response for unknown email and wrong password
+    if (!user || !(await verifyPassword(password, user.passwordHash))) {
+      return NextResponse.json(
+        { error: 'Invalid email or password' },
+        { status: 401 }
+      );
+    }
+
+    const session = await createSession(user.id, request.headers.get('user-agent'));
+
+    const response = NextResponse.json({
+      success: true,
+      user: { id: user.id, email: user.email, name: user.name },
+    });
+    setSessionCookie(response, session.token, session.expiresAt);
+    return response;
+  } catch (error) {
+    console.error('Sign-in error:', error);
+    return NextResponse.json(
+      {
+        error: 'Failed to sign in',
+        details: error instanceof Error ? error.message : 'Unknown error'
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,15 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { clearSessionCookie, destroySession } from '@/lib/auth';
+
+export async function POST(request: NextRequest) {
+  try {
+    await destroySession(request);
+  } catch (error) {
+    // The cookie is cleared regardless so the client is signed out locally
+    console.error('Sign-out error:', error);
+  }
+
+  const response = NextResponse.json({ success: true });
+  clearSessionCookie(response);
+  return response;
+}
@@ -0,0 +1,68 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { prisma } from '@/lib/prisma';
+import {
+  createSession,
+  hashPassword,
+  normalizeEmail,
+  setSessionCookie,
+  validateCredentials,
+} from '@/lib/auth';
+
+export async function POST(request: NextRequest) {
+  try {
+    let body;
+    try {
+      body = await request.json();
+    } catch {
+      return NextResponse.json(
+        { error: 'Invalid JSON in request body' },
+        { status: 400 }
+      );
+    }
+
+    const { email, password, name } = body;
+
+    const validationError = validateCredentials(email, password);
+    if (validationError) {
+      return NextResponse.json({ error: validationError }, { status: 400 });
+    }
+
+    const normalizedEmail = normalizeEmail(email);
+
+    const existing = await prisma.user.findUnique({
+      where: { email: normalizedEmail },
+      select: { id: true },
+    });
+
+    if (existing) {
+      return NextResponse.json(
+        { error: 'An account with this email already exists' },
+        { status: 409 }
+      );
+    }
+
+    const user = await prisma.user.create({
+      data: {
+        email: normalizedEmail,
+        name: typeof name === 'string' && name.trim() ? name.trim() : null,
+        passwordHash: await hashPassword(password),
+      },
+      select: { id: true, email: true, name: true },
+    });
+
+    const session = await createSession(user.id, request.headers.get('user-agent'));
+
+    const response = NextResponse.json({ success: true, user }, { status: 201 });
+    setSessionCookie(response, session.token, session.expiresAt);
+    return response;
+  } catch (error) {
+    console.error('Sign-up error:', error);
+    return NextResponse.json(
+      {
+        error: 'Failed to create account',
+        details: error instanceof Error ? error.message : 'Unknown error'
+      },
+      { status: 500 }
+    );
+  }
+}
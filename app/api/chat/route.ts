@@ -1,5 +1,19 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { performEnhancedRAG } from '@/lib/rag';
+import { performEnhancedRAG, retrieveRAGContext, rewriteFollowUpQuery, NO_RESULTS_ANSWER, type RAGSource } from '@/lib/rag';
+import { streamLLMWithRAG, type LLMMessage } from '@/lib/llm';
+import { formatSSE } from '@/lib/sse';
+import { answerDisplayLength, buildCitations, type Citation } from '@/lib/citations';
+import type { ChunkLocation } from '@/lib/chunking';
+import { parsePdfIds, parseResultCount, MAX_SCOPE_PDFS, type SearchScope } from '@/lib/vector-search';
+import { getCurrentUser } from '@/lib/auth';
+import { findInaccessiblePdfIds } from '@/lib/access';
+import { withCollectionPdfIds } from '@/lib/collections';
+import {
+  appendConversationTurn,
+  createConversation,
+  getConversationForUser,
+  loadConversationHistory,
+} from '@/lib/conversations';
 
 // CORS headers
 const corsHeaders = {
@@ -15,8 +29,13 @@ export async function OPTIONS() {
 
 export interface ChatRequest {
   query: string;
-  pdfId: string;
-  k?: number; // Number of chunks to retrieve (default: 5)
+  pdfId?: string;
+  pdfIds?: string[]; // Chat across several documents at once (combined with pdfId)
+  collectionId?: string; // Chat across every document in one of the user's collections
+  k?: number; // Number of chunks to retrieve (default: 5, at most MAX_RESULT_COUNT)
+  stream?: boolean; // Respond with Server-Sent Events instead of JSON
+  conversationId?: string; // Continue an existing conversation (signed-in users)
+  rerank?: boolean; // Set false to skip the reranking stage (default: RERANK_MODE)
 }
 
 export interface ChatResponse {
@@ -25,14 +44,55 @@ export interface ChatResponse {
   sources: Array<{
     id: string;
     pageNum: number;
+    location: ChunkLocation | null;
+    sectionPath: string | null;
     content: string;
     snippet: string;
+    pdfId: string;
     pdfTitle: string;
     similarity?: number;
+    score?: number;
+    rerankScore?: number;
   }>;
+  citations: Citation[];
   query: string;
-  pdfId: string;
+  rewrittenQuery?: string;
+  pdfId: string | null; // set when the chat is scoped to a single document
+  pdfIds: string[];
   retrievedChunks: number;
+  conversationId: string | null;
+}
+
+// One question within a (possibly anonymous) conversation
+interface ChatTurn {
+  query: string;
+  scope: SearchScope;
+  k: number;
+  history: LLMMessage[];
+  conversationId: string | null;
+  rerank?: boolean;
+}
+
+/**
+ * Persist a turn; failures are logged rather than failing an answer the user already has
+ */
+async function saveTurn(
+  turn: ChatTurn,
+  answer: string,
+  sources: RAGSource[],
+  citations: Citation[],
+  rewrittenQuery?: string
+) {
+  if (!turn.conversationId || !answer) return;
+  try {
+    await appendConversationTurn(
+      turn.conversationId,
+      { content: turn.query, rewrittenQuery },
+      { content: answer, sources: JSON.parse(JSON.stringify(sources)), citations: JSON.parse(JSON.stringify(citations)) }
+    );
+  } catch (error) {
+    console.error('Failed to save conversation turn:', error);
+  }
 }
 
 export async function POST(request: NextRequest) {
@@ -47,33 +107,112 @@ export async function POST(request: NextRequest) {
       );
     }
 
-    const { query, pdfId, k = 5 }: ChatRequest = requestData;
+    const { query, pdfId, pdfIds: requestedPdfIds, collectionId, k: requestedK, stream = false, conversationId, rerank }: ChatRequest = requestData;
+    const k = parseResultCount(requestedK);
 
     // Validate input
-    if (!query || query.trim().length === 0) {
+    if (typeof query !== 'string' || query.trim().length === 0) {
       return NextResponse.json(
         { error: 'Query is required' },
         { status: 400, headers: corsHeaders }
       );
     }
 
-    if (!pdfId) {
+    const requestedIds = parsePdfIds(pdfId, requestedPdfIds);
+    if (!requestedIds) {
+      return NextResponse.json(
+        { error: `pdfIds must be an array of at most ${MAX_SCOPE_PDFS} PDF IDs` },
+        { status: 400, headers: corsHeaders }
+      );
+    }
+
+    if (requestedIds.length === 0 && !collectionId) {
       return NextResponse.json(
         { error: 'PDF ID is required' },
         { status: 400, headers: corsHeaders }
       );
     }
 
+    const user = await getCurrentUser(request);
+    const userId = user?.id ?? null;
+
+    const inaccessible = await findInaccessiblePdfIds(requestedIds, userId);
+    if (inaccessible.length > 0) {
+      return NextResponse.json(
+        { error: 'PDF not found', details: inaccessible.join(', ') },
+        { status: 404, headers: corsHeaders }
+      );
+    }
+
+    // A collection adds every document in it the user can read
+    const pdfIds = await withCollectionPdfIds(requestedIds, collectionId, userId);
+    if (!pdfIds) {
+      return NextResponse.json(
+        { error: 'Collection not found' },
+        { status: 404, headers: corsHeaders }
+      );
+    }
+    if (pdfIds.length === 0) {
+      return NextResponse.json(
+        { error: 'The collection has no documents to chat with' },
+        { status: 400, headers: corsHeaders }
+      );
+    }
+
+    // Single-document conversations stay tied to their document
+    const conversationPdfId = pdfIds.length === 1 ? pdfIds[0] : null;
+
+    // Signed-in users get persistent conversations; anonymous chats are single-turn
+    let turn: ChatTurn = { query, scope: { userId, pdfIds }, k, history: [], conversationId: null, rerank };
+    if (user) {
+      if (conversationId) {
+        const conversation = await getConversationForUser(conversationId, user.id);
+        if (!conversation) {
+          return NextResponse.json(
+            { error: 'Conversation not found' },
+            { status: 404, headers: corsHeaders }
+          );
+        }
+        if (conversation.pdfId && conversation.pdfId !== conversationPdfId) {
+          return NextResponse.json(
+            { error: 'Conversation belongs to a different document' },
+            { status: 400, headers: corsHeaders }
+          );
+        }
+        turn = { ...turn, conversationId: conversation.id, history: await loadConversationHistory(conversation.id) };
+      } else {
+        const conversation = await createConversation(user.id, conversationPdfId, query);
+        turn = { ...turn, conversationId: conversation.id };
+      }
+    }
+
+    if (stream) {
+      return new Response(createChatStream(turn, request.signal), {
+        headers: {
+          ...corsHeaders,
+          'Content-Type': 'text/event-stream; charset=utf-8',
+          'Cache-Control': 'no-cache, no-transform',
+          'Connection': 'keep-alive',
+          'X-Accel-Buffering': 'no', // Disable proxy buffering so tokens arrive immediately
+        },
+      });
+    }
+
     // Perform Enhanced RAG workflow
-    const ragResult = await performEnhancedRAG(query, pdfId, k, 0.3);
+    const ragResult = await performEnhancedRAG(query, turn.scope, k, 0.3, turn.history, { rerank });
+    await saveTurn(turn, ragResult.answer, ragResult.sources, ragResult.citations, ragResult.rewrittenQuery);
 
     const response: ChatResponse = {
       success: true,
       answer: ragResult.answer,
       sources: ragResult.sources,
+      citations: ragResult.citations,
       query: ragResult.query,
-      pdfId: ragResult.pdfId || pdfId,
-      retrievedChunks: ragResult.retrievedChunks
+      rewrittenQuery: ragResult.rewrittenQuery,
+      pdfId: conversationPdfId,
+      pdfIds,
+      retrievedChunks: ragResult.retrievedChunks,
+      conversationId: turn.conversationId
     };
 
     return NextResponse.json(response, { headers: corsHeaders });
@@ -90,13 +229,106 @@ export async function POST(request: NextRequest) {
   }
 }
 
+/**
+ * SSE stream for /api/chat: a `conversation` event, `token` events with text
+ * deltas as the model produces them, then one `sources` event, then `done`.
+ * Failures are reported as an `error` event since the response status has
+ * already been sent. A stopped answer is saved with the text produced so far.
+ */
+function createChatStream(turn: ChatTurn, requestSignal: AbortSignal): ReadableStream<Uint8Array> {
+  const { query, scope, k, history, rerank } = turn;
+  const encoder = new TextEncoder();
+  const abortController = new AbortController();
+  requestSignal.addEventListener('abort', () => abortController.abort());
+
+  return new ReadableStream<Uint8Array>({
+    async start(controller) {
+      const send = (event: string, data: unknown) => {
+        controller.enqueue(encoder.encode(formatSSE(event, data)));
+      };
+
+      let reply = '';
+      let sent = 0; // characters of the reply sent as tokens
+      let sources: RAGSource[] = [];
+      let rewrittenQuery: string | undefined;
+      let failed = false;
+
+      try {
+        send('conversation', { conversationId: turn.conversationId });
+
+        // Follow-ups are searched in their standalone form but answered as asked
+        const retrievalQuery = await rewriteFollowUpQuery(query, history);
+        rewrittenQuery = retrievalQuery !== query ? retrievalQuery : undefined;
+        const context = await retrieveRAGContext(retrievalQuery, scope, k, 0.3, { rerank });
+        sources = context.sources;
+
+        if (sources.length === 0) {
+          reply = NO_RESULTS_ANSWER;
+          send('token', { text: reply });
+          sent = reply.length;
+        } else {
+          // The citations block at the end of the reply is kept out of the tokens
+          const tokens = streamLLMWithRAG(query, context.ragChunks, { history, signal: abortController.signal });
+          for await (const text of tokens) {
+            reply += text;
+            const visible = answerDisplayLength(reply);
+            if (visible > sent) {
+              send('token', { text: reply.slice(sent, visible) });
+              sent = visible;
+            }
+          }
+        }
+
+        const { answer, citations } = buildCitations(reply, sources);
+        if (answer.length > sent) {
+          // Text held back in case it started the citations block
+          send('token', { text: answer.slice(sent) });
+        }
+
+        send('sources', {
+          sources,
+          citations,
+          query,
+          rewrittenQuery,
+          pdfIds: scope.pdfIds,
+          retrievedChunks: sources.length,
+        });
+        send('done', {});
+      } catch (error) {
+        if (!abortController.signal.aborted) {
+          failed = true;
+          console.error('Chat stream error:', error);
+          send('error', {
+            error: 'Failed to process chat request',
+            details: error instanceof Error ? error.message : 'Unknown error'
+          });
+        }
+      } finally {
+        if (!failed) {
+          const { answer, citations } = buildCitations(reply, sources);
+          await saveTurn(turn, answer, sources, citations, rewrittenQuery);
+        }
+        try {
+          controller.close();
+        } catch {
+          // Already closed because the client cancelled the stream
+        }
+      }
+    },
+    cancel() {
+      // Client disconnected or pressed stop: stop generating upstream
+      abortController.abort();
+    },
+  });
+}
+
 // GET endpoint for testing chat functionality
 export async function GET(request: NextRequest) {
   try {
     const { searchParams } = new URL(request.url);
     const query = searchParams.get('query') || searchParams.get('q');
     const pdfId = searchParams.get('pdfId');
-    const k = parseInt(searchParams.get('k') || '5');
+    const k = parseResultCount(searchParams.get('k'));
 
     if (!query) {
       return NextResponse.json(
@@ -112,9 +344,10 @@ export async function GET(request: NextRequest) {
       );
     }
 
-    // Process as POST request
+    // Process as POST request (forwarding headers so the session cookie is kept)
     const response = await POST(new NextRequest('http://localhost', {
       method: 'POST',
+      headers: request.headers,
       body: JSON.stringify({ query, pdfId, k })
     }));
 
@@ -0,0 +1,244 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { prisma } from '@/lib/prisma';
+import { getCurrentUser } from '@/lib/auth';
+import { findInaccessiblePdfIds, pdfAccessWhere } from '@/lib/access';
+import {
+  getOwnedCollection,
+  isCollectionKind,
+  parseCollectionDescription,
+  parseCollectionName,
+  serializeCollection,
+} from '@/lib/collections';
+
+// CORS headers
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Methods': 'GET, PATCH, DELETE, OPTIONS',
+  'Access-Control-Allow-Headers': 'Content-Type, Authorization',
+};
+
+// Handle OPTIONS request for CORS preflight
+export async function OPTIONS() {
+  return NextResponse.json({}, { headers: corsHeaders });
+}
+
+async function loadCollection(id: string, userId: string) {
+  return prisma.collection.findFirst({
+    where: { id, ownerId: userId },
+    include: {
+      documents: {
+        where: pdfAccessWhere(userId),
+        select: { id: true, title: true, format: true, archivedAt: true, createdAt: true },
+        orderBy: { title: 'asc' },
+      },
+    },
+  });
+}
+
+type LoadedCollection = NonNullable<Awaited<ReturnType<typeof loadCollection>>>;
+
+function formatCollection(collection: LoadedCollection) {
+  return {
+    success: true,
+    collection: {
+      ...serializeCollection({ ...collection, _count: { documents: collection.documents.length } }),
+      documents: collection.documents,
+    },
+  };
+}
+
+// GET /api/collections/[id] - a collection and the documents in it the user can read
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+    const user = await getCurrentUser(request);
+    if (!user) {
+      return NextResponse.json(
+        { error: 'Authentication required' },
+        { status: 401, headers: corsHeaders }
+      );
+    }
+
+    const collection = await loadCollection(id, user.id);
+    if (!collection) {
+      return NextResponse.json(
+        { error: 'Collection not found' },
+        { status: 404, headers: corsHeaders }
+      );
+    }
+
+    return NextResponse.json(formatCollection(collection), { headers: corsHeaders });
+  } catch (error) {
+    console.error('Error fetching collection:', error);
+    return NextResponse.json(
+      {
+        error: 'Failed to fetch collection',
+        details: error instanceof Error ? error.message : 'Unknown error'
+      },
+      { status: 500, headers: corsHeaders }
+    );
+  }
+}
+
+interface UpdateCollectionRequest {
+  name?: unknown;
+  description?: unknown;
+  kind?: unknown;
+  pdfIds?: unknown; // Replaces the documents in the collection when provided
+}
+
+// PATCH /api/collections/[id] - rename or describe a collection, or set its documents
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+    const user = await getCurrentUser(request);
+    if (!user) {
+      return NextResponse.json(
+        { error: 'Authentication required' },
+        { status: 401, headers: corsHeaders }
+      );
+    }
+
+    let body: UpdateCollectionRequest;
+    try {
+      body = await request.json();
+    } catch {
+      return NextResponse.json(
+        { error: 'Invalid JSON in request body' },
+        { status: 400, headers: corsHeaders }
+      );
+    }
+
+    const name = body.name === undefined ? undefined : parseCollectionName(body.name);
+    if (name === null) {
+      return NextResponse.json(
+        { error: 'Name must be between 1 and 100 characters' },
+        { status: 400, headers: corsHeaders }
+      );
+    }
+
+    const description = parseCollectionDescription(body.description);
+    if (body.description !== undefined && description === undefined) {
+      return NextResponse.json(
+        { error: 'Description must be a string of at most 1000 characters' },
+        { status: 400, headers: corsHeaders }
+      );
+    }
+
+    const kind = body.kind;
+    if (kind !== undefined && !isCollectionKind(kind)) {
+      return NextResponse.json(
+        { error: 'Kind must be "course" or "folder"' },
+        { status: 400, headers: corsHeaders }
+      );
+    }
+
+    const pdfIds = body.pdfIds;
+    if (pdfIds !== undefined && (!Array.isArray(pdfIds) || pdfIds.some(pdfId => typeof pdfId !== 'string'))) {
+      return NextResponse.json(
+        { error: 'pdfIds must be an array of PDF IDs' },
+        { status: 400, headers: corsHeaders }
+      );
+    }
+
+    const collection = await getOwnedCollection(id, user.id);
+    if (!collection) {
+      return NextResponse.json(
+        { error: 'Collection not found' },
+        { status: 404, headers: corsHeaders }
+      );
+    }
+
+    if (name && name !== collection.name) {
+      const existing = await prisma.collection.findUnique({
+        where: { ownerId_name: { ownerId: user.id, name } },
+        select: { id: true },
+      });
+      if (existing) {
+        return NextResponse.json(
+          { error: 'A collection with this name already exists', collectionId: existing.id },
+          { status: 409, headers: corsHeaders }
+        );
+      }
+    }
+
+    // Only documents the user can read may be filed
+    const documentIds = pdfIds ? [...new Set(pdfIds as string[])] : undefined;
+    if (documentIds && documentIds.length > 0) {
+      const inaccessible = await findInaccessiblePdfIds(documentIds, user.id);
+      if (inaccessible.length > 0) {
+        return NextResponse.json(
+          { error: 'PDF not found', details: `Unknown PDF IDs: ${inaccessible.join(', ')}` },
+          { status: 404, headers: corsHeaders }
+        );
+      }
+    }
+
+    await prisma.collection.update({
+      where: { id },
+      data: {
+        ...(name !== undefined && { name }),
+        ...(body.description !== undefined && { description }),
+        ...(kind !== undefined && { kind }),
+        ...(documentIds && { documents: { set: documentIds.map(pdfId => ({ id: pdfId })) } }),
+      },
+    });
+
+    const updated = await loadCollection(id, user.id);
+    return NextResponse.json(formatCollection(updated!), { headers: corsHeaders });
+  } catch (error) {
+    console.error('Error updating collection:', error);
+    return NextResponse.json(
+      {
+        error: 'Failed to update collection',
+        details: error instanceof Error ? error.message : 'Unknown error'
+      },
+      { status: 500, headers: corsHeaders }
+    );
+  }
+}
+
+// DELETE /api/collections/[id] - delete a collection; its documents are kept
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+    const user = await getCurrentUser(request);
+    if (!user) {
+      return NextResponse.json(
+        { error: 'Authentication required' },
+        { status: 401, headers: corsHeaders }
+      );
+    }
+
+    const { count } = await prisma.collection.deleteMany({
+      where: { id, ownerId: user.id },
+    });
+
+    if (count === 0) {
+      return NextResponse.json(
+        { error: 'Collection not found' },
+        { status: 404, headers: corsHeaders }
+      );
+    }
+
+    return NextResponse.json({ success: true, id }, { headers: corsHeaders });
+  } catch (error) {
+    console.error('Error deleting collection:', error);
+    return NextResponse.json(
+      {
+        error: 'Failed to delete collection',
+        details: error instanceof Error ? error.message : 'Unknown error'
+      },
+      { status: 500, headers: corsHeaders }
+    );
+  }
+}
@@ -0,0 +1,153 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { prisma } from '@/lib/prisma';
+import { getCurrentUser } from '@/lib/auth';
+import { pdfAccessWhere } from '@/lib/access';
+import {
+  isCollectionKind,
+  parseCollectionDescription,
+  parseCollectionName,
+  serializeCollection,
+} from '@/lib/collections';
+
+// CORS headers
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Methods': 'GET, POST, OPTIONS',
+  'Access-Control-Allow-Headers': 'Content-Type, Authorization',
+};
+
+// Handle OPTIONS request for CORS preflight
+export async function OPTIONS() {
+  return NextResponse.json({}, { headers: corsHeaders });
+}
+
+// GET /api/collections - the signed-in user's collections and tags
+export async function GET(request: NextRequest) {
+  try {
+    const user = await getCurrentUser(request);
+    if (!user) {
+      return NextResponse.json(
+        { error: 'Authentication required' },
+        { status: 401, headers: corsHeaders }
+      );
+    }
+
+    // Counts only include documents the user can still read
+    const readable = { where: pdfAccessWhere(user.id) };
+    const [collections, tags] = await Promise.all([
+      prisma.collection.findMany({
+        where: { ownerId: user.id },
+        include: { _count: { select: { documents: readable } } },
+        orderBy: { name: 'asc' },
+      }),
+      prisma.tag.findMany({
+        where: { ownerId: user.id },
+        include: { _count: { select: { documents: readable } } },
+        orderBy: { name: 'asc' },
+      }),
+    ]);
+
+    return NextResponse.json({
+      success: true,
+      collections: collections.map(serializeCollection),
+      tags: tags.map(tag => ({ name: tag.name, documentCount: tag._count.documents })),
+    }, { headers: corsHeaders });
+  } catch (error) {
+    console.error('Error fetching collections:', error);
+    return NextResponse.json(
+      {
+        error: 'Failed to fetch collections',
+        details: error instanceof Error ? error.message : 'Unknown error'
+      },
+      { status: 500, headers: corsHeaders }
+    );
+  }
+}
+
+interface CreateCollectionRequest {
+  name?: unknown;
+  description?: unknown;
+  kind?: unknown;
+}
+
+// POST /api/collections - create a course or folder
+export async function POST(request: NextRequest) {
+  try {
+    const user = await getCurrentUser(request);
+    if (!user) {
+      return NextResponse.json(
+        { error: 'Authentication required' },
+        { status: 401, headers: corsHeaders }
+      );
+    }
+
+    let body: CreateCollectionRequest;
+    try {
+      body = await request.json();
+    } catch {
+      return NextResponse.json(
+        { error: 'Invalid JSON in request body' },
+        { status: 400, headers: corsHeaders }
+      );
+    }
+
+    const name = parseCollectionName(body.name);
+    if (!name) {
+      return NextResponse.json(
+        { error: 'Name must be between 1 and 100 characters' },
+        { status: 400, headers: corsHeaders }
+      );
+    }
+
+    const description = body.description === undefined ? null : parseCollectionDescription(body.description);
+    if (description === undefined) {
+      return NextResponse.json(
+        { error: 'Description must be a string of at most 1000 characters' },
+        { status: 400, headers: corsHeaders }
+      );
+    }
+
+    const kind = body.kind ?? 'folder';
+    if (!isCollectionKind(kind)) {
+      return NextResponse.json(
+        { error: 'Kind must be "course" or "folder"' },
+        { status: 400, headers: corsHeaders }
+      );
+    }
+
+    const existing = await prisma.collection.findUnique({
+      where: { ownerId_name: { ownerId: user.id, name } },
+      select: { id: true },
+    });
+    if (existing) {
+      return NextResponse.json(
+        { error: 'A collection with this name already exists', collectionId: existing.id },
+        { status: 409, headers: corsHeaders }
+      );
+    }
+
+    const collection = await prisma.collection.create({
+      data: {
+        ownerId: user.id,
+        name,
+        description,
+        kind,
+      },
+    });
+
+    console.log(`📁 Created ${collection.kind} "${collection.name}" for user ${user.id}`);
+    return NextResponse.json(
+      { success: true, collection: serializeCollection(collection) },
+      { status: 201, headers: corsHeaders }
+    );
+  } catch (error) {
+    console.error('Error creating collection:', error);
+    return NextResponse.json(
+      {
+        error: 'Failed to create collection',
+        details: error instanceof Error ? error.message : 'Unknown error'
+      },
+      { status: 500, headers: corsHeaders }
+    );
+  }
+}
@@ -0,0 +1,117 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { prisma } from '@/lib/prisma';
+import { getCurrentUser } from '@/lib/auth';
+
+// CORS headers
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Methods': 'GET, DELETE, OPTIONS',
+  'Access-Control-Allow-Headers': 'Content-Type, Authorization',
+};
+
+// Handle OPTIONS request for CORS preflight
+export async function OPTIONS() {
+  return NextResponse.json({}, { headers: corsHeaders });
+}
+
+// GET /api/conversations/[id] - resume a conversation with all of its messages
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+    const user = await getCurrentUser(request);
+    if (!user) {
+      return NextResponse.json(
+        { error: 'Authentication required' },
+        { status: 401, headers: corsHeaders }
+      );
+    }
+
+    const conversation = await prisma.conversation.findFirst({
+      where: { id, userId: user.id },
+      include: {
+        messages: {
+          orderBy: { createdAt: 'asc' },
+          select: {
+            id: true,
+            role: true,
+            content: true,
+            rewrittenQuery: true,
+            sources: true,
+            citations: true,
+            createdAt: true,
+          },
+        },
+      },
+    });
+
+    if (!conversation) {
+      return NextResponse.json(
+        { error: 'Conversation not found' },
+        { status: 404, headers: corsHeaders }
+      );
+    }
+
+    return NextResponse.json({
+      success: true,
+      conversation: {
+        id: conversation.id,
+        title: conversation.title,
+        pdfId: conversation.pdfId,
+        createdAt: conversation.createdAt,
+        updatedAt: conversation.updatedAt,
+        messages: conversation.messages,
+      },
+    }, { headers: corsHeaders });
+  } catch (error) {
+    console.error('Error fetching conversation:', error);
+    return NextResponse.json(
+      {
+        error: 'Failed to fetch conversation',
+        details: error instanceof Error ? error.message : 'Unknown error'
+      },
+      { status: 500, headers: corsHeaders }
+    );
+  }
+}
+
+// DELETE /api/conversations/[id] - delete a conversation and its messages
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+    const user = await getCurrentUser(request);
+    if (!user) {
+      return NextResponse.json(
+        { error: 'Authentication required' },
+        { status: 401, headers: corsHeaders }
+      );
+    }
+
+    const { count } = await prisma.conversation.deleteMany({
+      where: { id, userId: user.id },
+    });
+
+    if (count === 0) {
+      return NextResponse.json(
+        { error: 'Conversation not found' },
+        { status: 404, headers: corsHeaders }
+      );
+    }
+
+    return NextResponse.json({ success: true, id }, { headers: corsHeaders });
+  } catch (error) {
+    console.error('Error deleting conversation:', error);
+    return NextResponse.json(
+      {
+        error: 'Failed to delete conversation',
+        details: error instanceof Error ? error.message : 'Unknown error'
+      },
+      { status: 500, headers: corsHeaders }
+    );
+  }
+}
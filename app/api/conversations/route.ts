@@ -0,0 +1,69 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { prisma } from '@/lib/prisma';
+import { getCurrentUser } from '@/lib/auth';
+
+// CORS headers
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Methods': 'GET, OPTIONS',
+  'Access-Control-Allow-Headers': 'Content-Type, Authorization',
+};
+
+// Handle OPTIONS request for CORS preflight
+export async function OPTIONS() {
+  return NextResponse.json({}, { headers: corsHeaders });
+}
+
+// GET /api/conversations?pdfId= - the signed-in user's conversations, most recent first
+export async function GET(request: NextRequest) {
+  try {
+    const user = await getCurrentUser(request);
+    if (!user) {
+      return NextResponse.json(
+        { error: 'Authentication required' },
+        { status: 401, headers: corsHeaders }
+      );
+    }
+
+    const { searchParams } = new URL(request.url);
+    const pdfId = searchParams.get('pdfId');
+
+    const conversations = await prisma.conversation.findMany({
+      where: {
+        userId: user.id,
+        ...(pdfId && { pdfId }),
+      },
+      orderBy: { updatedAt: 'desc' },
+      take: 50,
+      select: {
+        id: true,
+        title: true,
+        pdfId: true,
+        createdAt: true,
+        updatedAt: true,
+        _count: { select: { messages: true } },
+      },
+    });
+
+    return NextResponse.json({
+      success: true,
+      conversations: conversations.map(conversation => ({
+        id: conversation.id,
+        title: conversation.title,
+        pdfId: conversation.pdfId,
+        createdAt: conversation.createdAt,
+        updatedAt: conversation.updatedAt,
+        messageCount: conversation._count.messages,
+      })),
+    }, { headers: corsHeaders });
+  } catch (error) {
+    console.error('Error fetching conversations:', error);
+    return NextResponse.json(
+      {
+        error: 'Failed to fetch conversations',
+        details: error instanceof Error ? error.message : 'Unknown error'
+      },
+      { status: 500, headers: corsHeaders }
+    );
+  }
+}
@@ -1,6 +1,10 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { prisma } from '@/lib/prisma';
-import { generateBatchEmbeddings, formatVectorForDB } from '@/lib/embeddings';
+import { getCurrentUser } from '@/lib/auth';
+import { canAccessPdf, canManagePdf } from '@/lib/access';
+import { generateBatchEmbeddingsSettled } from '@/lib/embeddings';
+import { getActiveEmbeddingVersion, saveChunkEmbeddings, versionProvider } from '@/lib/embedding-versions';
+import { ensureVectorIndexes } from '@/lib/vector-index';
 
 // CORS headers
 const corsHeaders = {
@@ -25,25 +29,25 @@ export async function POST(request: NextRequest) {
       );
     }
 
-    // Get chunks that need embeddings
-    let chunks;
-    if (chunkIds && chunkIds.length > 0) {
-      // Generate embeddings for specific chunks
-      chunks = await prisma.$queryRaw<Array<{id: string, content: string}>>`
-        SELECT id, content FROM "Chunk" 
-        WHERE id = ANY(${chunkIds}) 
-        AND "pdfId" = ${pdfId} 
-        AND embedding IS NULL
-      `;
-    } else {
-      // Generate embeddings for all chunks without embeddings for this PDF
-      chunks = await prisma.$queryRaw<Array<{id: string, content: string}>>`
-        SELECT id, content FROM "Chunk" 
-        WHERE "pdfId" = ${pdfId} 
-        AND embedding IS NULL
-      `;
+    const user = await getCurrentUser(request);
+    if (!(await canManagePdf(pdfId, user?.id ?? null))) {
+      return NextResponse.json(
+        { error: 'PDF not found' },
+        { status: 404, headers: corsHeaders }
+      );
     }
 
+    // Get chunks that need embeddings in the active embedding version
+    const version = await getActiveEmbeddingVersion();
+    const chunks = await prisma.chunk.findMany({
+      where: {
+        pdfId,
+        ...(Array.isArray(chunkIds) && chunkIds.length > 0 && { id: { in: chunkIds } }),
+        embeddings: { none: { versionId: version.id } },
+      },
+      select: { id: true, content: true },
+    });
+
     if (chunks.length === 0) {
       return NextResponse.json({
         success: true,
@@ -55,27 +59,38 @@ export async function POST(request: NextRequest) {
     // Extract text content for embedding generation
     const texts = chunks.map(chunk => chunk.content);
     
-    // Generate embeddings in batches
+    // Generate embeddings in batches; chunks that fail are reported, the rest saved
     console.log(`Generating embeddings for ${chunks.length} chunks...`);
-    const embeddings = await generateBatchEmbeddings(texts);
+    const { embeddings, failures } = await generateBatchEmbeddingsSettled(texts, versionProvider(version));
     
-    // Update chunks with embeddings in database
-    const updatePromises = chunks.map((chunk, index) => {
-      const vectorString = formatVectorForDB(embeddings[index]);
-      
-      return prisma.$executeRaw`
-        UPDATE "Chunk" 
-        SET embedding = ${vectorString}::vector 
-        WHERE id = ${chunk.id}
-      `;
-    });
+    // Store the embeddings under the active version
+    await saveChunkEmbeddings(prisma, version, chunks.flatMap((chunk, index) => {
+      const embedding = embeddings[index];
+      return embedding ? [{ chunkId: chunk.id, embedding }] : [];
+    }));
+    await ensureVectorIndexes();
 
-    await Promise.all(updatePromises);
+    const failed = failures.map(failure => ({ chunkId: chunks[failure.index].id, error: failure.error }));
+    if (failed.length === chunks.length) {
+      return NextResponse.json(
+        {
+          error: 'Failed to generate embeddings',
+          details: failed[0].error,
+          failed,
+        },
+        { status: 502, headers: corsHeaders }
+      );
+    }
 
+    const processedCount = chunks.length - failed.length;
     return NextResponse.json({
       success: true,
-      message: `Successfully generated embeddings for ${chunks.length} chunks`,
-      processedCount: chunks.length,
+      message: failed.length > 0
+        ? `Generated embeddings for ${processedCount} chunks; ${failed.length} failed`
+        : `Successfully generated embeddings for ${chunks.length} chunks`,
+      processedCount,
+      failedCount: failed.length,
+      failed,
       pdfId: pdfId,
     }, { headers: corsHeaders });
   } catch (error) {
@@ -103,18 +118,24 @@ export async function GET(request: NextRequest) {
       );
     }
 
+    const user = await getCurrentUser(request);
+    if (!(await canAccessPdf(pdfId, user?.id ?? null))) {
+      return NextResponse.json(
+        { error: 'PDF not found' },
+        { status: 404, headers: corsHeaders }
+      );
+    }
+
     // Get embedding statistics for the PDF
     const totalChunks = await prisma.chunk.count({
       where: { pdfId: pdfId },
     });
 
-    const embeddedChunks = await prisma.$queryRaw<Array<{count: bigint}>>`
-      SELECT COUNT(*) as count FROM "Chunk" 
-      WHERE "pdfId" = ${pdfId} 
-      AND embedding IS NOT NULL
-    `;
-
-    const embeddedCount = Number(embeddedChunks[0]?.count || 0);
+    // Only vectors in the active embedding version are searchable
+    const version = await getActiveEmbeddingVersion();
+    const embeddedCount = await prisma.chunkEmbedding.count({
+      where: { versionId: version.id, chunk: { pdfId } },
+    });
 
     const pendingChunks = totalChunks - embeddedCount;
 
@@ -123,6 +144,7 @@ export async function GET(request: NextRequest) {
       totalChunks: totalChunks,
       embeddedChunks: embeddedCount,
       pendingChunks: pendingChunks,
+      embeddingVersion: { id: version.id, model: version.model, dimensions: version.dimensions },
       isComplete: pendingChunks === 0,
       completionPercentage: totalChunks > 0 ? Math.round((embeddedCount / totalChunks) * 100) : 0,
     }, { headers: corsHeaders });
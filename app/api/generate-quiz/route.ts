@@ -1,6 +1,10 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { prisma } from '@/lib/prisma';
-import { askGemini } from '@/lib/gemini';
+import { askLLM } from '@/lib/llm';
+import { getCurrentUser } from '@/lib/auth';
+import { findInaccessiblePdfIds } from '@/lib/access';
+import { withCollectionPdfIds } from '@/lib/collections';
+import { formatLocation, type ChunkLocation } from '@/lib/chunking';
 
 // CORS headers
 const corsHeaders = {
@@ -22,6 +26,7 @@ interface QuizQuestion {
   expectedAnswer?: string;
   explanation: string;
   pageReference?: number;
+  sectionReference?: string;
   difficulty?: string;
 }
 
@@ -29,7 +34,7 @@ interface DatabaseQuestion {
   qtype: string;
   stem: string;
   explanation: string;
-  source: Array<{ pdfId: string; page: number; snippet: string }>;
+  source: Array<{ pdfId: string; page: number; section: string | null; snippet: string }>;
   maxScore: number;
   mcqOptions?: string[];
   correctOptionIndex?: number;
@@ -66,7 +71,7 @@ async function generateQuizFromDocuments(pdfIds: string[], numMCQ: number, numSA
 
     // Prepare context from chunks
     const contextText = chunks.map((chunk) => 
-      `[Document: ${chunk.pdf.title} - Page ${chunk.pageNum}]\n${chunk.content}`
+      `[Document: ${chunk.pdf.title} - ${formatLocation(chunk.pageNum, chunk.location as ChunkLocation | null)}${chunk.sectionPath ? ` - Section: ${chunk.sectionPath}` : ''}]\n${chunk.content}`
     ).join('\n\n---\n\n');
 
     console.log(`Context length: ${contextText.length} characters`);
@@ -95,6 +100,7 @@ Return a valid JSON object with this exact structure:
       "correctIndex": 0,
       "explanation": "Why this answer is correct...",
       "pageReference": 1,
+      "sectionReference": "3.2 Backpropagation",
       "difficulty": "medium"
     },
     {
@@ -103,6 +109,7 @@ Return a valid JSON object with this exact structure:
       "expectedAnswer": "Brief expected answer",
       "explanation": "Explanation of the answer...",
       "pageReference": 2,
+      "sectionReference": "3.2 Backpropagation",
       "difficulty": "medium"
     },
     {
@@ -111,6 +118,7 @@ Return a valid JSON object with this exact structure:
       "expectedAnswer": "Detailed expected answer with multiple points",
       "explanation": "Rubric for evaluating the answer...",
       "pageReference": 3,
+      "sectionReference": "3 Neural Networks",
       "difficulty": "hard"
     }
   ]
@@ -119,7 +127,7 @@ Return a valid JSON object with this exact structure:
 QUALITY GUIDELINES:
 - Questions should test understanding, not just memorization
 - Use varied difficulty levels (easy, medium, hard)
-- Reference specific pages when possible
+- Reference specific pages when possible (pageReference is the number in the source label: the page, slide, section or first line), and the section (the last heading shown in the source label) when one is given; omit sectionReference otherwise
 - MCQ options should be plausible but clearly have one best answer
 - Short answers should be 1-3 sentences
 - Long answers should require 1-2 paragraphs
@@ -128,7 +136,7 @@ QUALITY GUIDELINES:
 Generate the quiz now:`;
 
     console.log('Generating quiz with AI...');
-    const aiResponse = await askGemini(quizPrompt);
+    const aiResponse = await askLLM(quizPrompt);
     
     // Parse the AI response
     let quizData;
@@ -157,6 +165,7 @@ Generate the quiz now:`;
       source: [{
         pdfId: pdfIds[0], // Primary source
         page: q.pageReference || 1,
+        section: q.sectionReference || null,
         snippet: q.stem.substring(0, 100) + '...'
       }],
       maxScore: q.type === 'mcq' ? 4 : q.type === 'saq' ? 6 : 10,
@@ -175,18 +184,50 @@ Generate the quiz now:`;
 
 export async function POST(req: NextRequest) {
   try {
+    const user = await getCurrentUser(req);
+    if (!user) {
+      return NextResponse.json(
+        { error: 'Authentication required' },
+        { status: 401 }
+      );
+    }
+
     const body = await req.json();
     
     // Handle both test format and UI format
     const title = body.title || 'Generated Quiz';
-    const pdfIds = body.pdfIds || (body.pdfId ? [body.pdfId] : []);
+    const requestedIds: string[] = body.pdfIds || (body.pdfId ? [body.pdfId] : []);
     const num_mcq = body.num_mcq || body.numMCQ || 3;
     const num_saq = body.num_saq || body.numSAQ || 2; 
     const num_laq = body.num_laq || body.numLAQ || 1;
     
+    if (requestedIds.length === 0 && !body.collectionId) {
+      return NextResponse.json(
+        { error: 'At least one PDF ID or a collectionId is required' },
+        { status: 400 }
+      );
+    }
+
+    // Quizzes may only be generated from documents the user can read
+    const inaccessible = await findInaccessiblePdfIds(requestedIds, user.id);
+    if (inaccessible.length > 0) {
+      return NextResponse.json(
+        { error: 'PDF not found', details: `Unknown PDF IDs: ${inaccessible.join(', ')}` },
+        { status: 404 }
+      );
+    }
+
+    // A collection adds every document in it the user can read
+    const pdfIds = await withCollectionPdfIds(requestedIds, body.collectionId, user.id);
+    if (!pdfIds) {
+      return NextResponse.json(
+        { error: 'Collection not found' },
+        { status: 404 }
+      );
+    }
     if (pdfIds.length === 0) {
       return NextResponse.json(
-        { error: 'At least one PDF ID is required' },
+        { error: 'The collection has no documents to generate a quiz from' },
         { status: 400 }
       );
     }
@@ -209,6 +250,7 @@ export async function POST(req: NextRequest) {
     const savedQuiz = await prisma.quiz.create({
       data: {
         title: title,
+        createdBy: user.id,
         questions: {
           create: questionsData.map((q: DatabaseQuestion) => ({
             qtype: q.qtype,
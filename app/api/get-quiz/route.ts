@@ -1,5 +1,7 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { prisma } from '@/lib/prisma';
+import { getCurrentUser } from '@/lib/auth';
+import { quizAccessWhere } from '@/lib/access';
 
 export async function GET(req: NextRequest) {
   try {
@@ -13,8 +15,9 @@ export async function GET(req: NextRequest) {
       );
     }
 
-    const quiz = await prisma.quiz.findUnique({
-      where: { id: quizId },
+    const user = await getCurrentUser(req);
+    const quiz = await prisma.quiz.findFirst({
+      where: { AND: [{ id: quizId }, quizAccessWhere(user?.id ?? null)] },
       include: {
         questions: {
           include: {
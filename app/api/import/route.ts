@@ -0,0 +1,125 @@
+import { NextRequest, NextResponse, after } from 'next/server';
+import { getCurrentUser } from '@/lib/auth';
+import { drainJobQueue, isInlineProcessingEnabled } from '@/lib/jobs';
+import { CHUNKING_SETTINGS_RULES, parseChunkingSettings } from '@/lib/chunking';
+import { storeDocument } from '@/lib/documents';
+import { DUPLICATE_ACTIONS, contentHash, duplicateUploadResponse, findExactDuplicate, parseDuplicateAction } from '@/lib/duplicates';
+import { UrlImportError, fetchDocumentFromUrl, parseImportUrl } from '@/lib/url-import';
+
+// Downloading counts against the same 10s Vercel Hobby limit as uploads;
+// extraction and embedding run in the ingestion worker
+export const runtime = 'nodejs';
+export const maxDuration = 10; // Vercel Hobby limit - DO NOT INCREASE
+export const dynamic = 'force-dynamic';
+
+/**
+ * Import a document (a PDF, web article or any other supported format) from
+ * a URL. The server downloads it and queues it for ingestion like an upload.
+ */
+export async function POST(request: NextRequest) {
+  const corsHeaders = {
+    'Access-Control-Allow-Origin': '*',
+    'Access-Control-Allow-Methods': 'POST, OPTIONS',
+    'Access-Control-Allow-Headers': 'Content-Type',
+  };
+
+  const user = await getCurrentUser(request);
+  if (!user) {
+    return NextResponse.json(
+      { error: 'Authentication required' },
+      { status: 401, headers: corsHeaders }
+    );
+  }
+
+  try {
+    const body = await request.json().catch(() => null);
+
+    const url = parseImportUrl(body?.url);
+    if (!url) {
+      return NextResponse.json(
+        { error: 'Invalid URL', details: 'Provide an absolute http:// or https:// URL' },
+        { status: 400, headers: corsHeaders }
+      );
+    }
+
+    const chunking = parseChunkingSettings(body.chunkingStrategy, body.chunkSize, body.chunkOverlap);
+    if (!chunking) {
+      return NextResponse.json(
+        { error: 'Invalid chunking settings', details: CHUNKING_SETTINGS_RULES },
+        { status: 400, headers: corsHeaders }
+      );
+    }
+
+    const onDuplicate = parseDuplicateAction(body.onDuplicate);
+    if (!onDuplicate) {
+      return NextResponse.json(
+        { error: 'Invalid onDuplicate', details: `Use one of: ${DUPLICATE_ACTIONS.join(', ')}` },
+        { status: 400, headers: corsHeaders }
+      );
+    }
+
+    console.log(`🌐 Importing ${url}`);
+    const fetched = await fetchDocumentFromUrl(url);
+    console.log(`✅ Downloaded ${fetched.format.toUpperCase()} from ${fetched.url} (${fetched.data.length} bytes)`);
+
+    if (onDuplicate !== 'upload') {
+      const duplicate = await findExactDuplicate(contentHash(fetched.data), user.id);
+      if (duplicate) {
+        const { status, body } = duplicateUploadResponse(duplicate, onDuplicate);
+        return NextResponse.json(body, { status, headers: corsHeaders });
+      }
+    }
+
+    const { document: pdfRecord, job } = await storeDocument({
+      title: fetched.title,
+      url: fetched.url,
+      data: fetched.data,
+      format: fetched.format,
+      ownerId: user.id,
+      chunking,
+    });
+    console.log(`✅ Import complete. Queued ingestion job ${job.id}`);
+
+    if (isInlineProcessingEnabled()) {
+      after(() => drainJobQueue());
+    }
+
+    return NextResponse.json({
+      success: true,
+      pdfId: pdfRecord.id,
+      title: fetched.title,
+      url: fetched.url,
+      fileSize: fetched.data.length,
+      format: fetched.format,
+      message: 'Document imported successfully. Processing in the background...',
+      chunking,
+      jobId: job.id,
+    }, { headers: corsHeaders });
+  } catch (error) {
+    if (error instanceof UrlImportError) {
+      console.error('❌ Import failed:', error.message);
+      return NextResponse.json(
+        { error: 'Failed to import URL', details: error.message },
+        { status: error.status, headers: corsHeaders }
+      );
+    }
+
+    console.error('❌ Import error:', error);
+    return NextResponse.json(
+      { error: 'Failed to import URL', details: error instanceof Error ? error.message : 'Unknown error' },
+      { status: 500, headers: corsHeaders }
+    );
+  }
+}
+
+export async function OPTIONS() {
+  return new NextResponse(null, {
+    status: 204,
+    headers: {
+      'Access-Control-Allow-Origin': '*',
+      'Access-Control-Allow-Methods': 'POST, OPTIONS',
+      'Access-Control-Allow-Headers': 'Content-Type, Authorization',
+      'Access-Control-Max-Age': '86400',
+    },
+  });
+}
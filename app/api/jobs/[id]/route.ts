@@ -0,0 +1,54 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { prisma } from '@/lib/prisma';
+import { getCurrentUser } from '@/lib/auth';
+import { canAccessPdf } from '@/lib/access';
+import { serializeJob } from '@/lib/jobs';
+
+export const dynamic = 'force-dynamic';
+
+// CORS headers
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Methods': 'GET, OPTIONS',
+  'Access-Control-Allow-Headers': 'Content-Type, Authorization',
+};
+
+// Handle OPTIONS request for CORS preflight
+export async function OPTIONS() {
+  return NextResponse.json({}, { headers: corsHeaders });
+}
+
+// GET /api/jobs/[id] - status and progress of a background processing job
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+    const user = await getCurrentUser(request);
+
+    const job = await prisma.ingestionJob.findUnique({ where: { id } });
+
+    // Jobs are visible to whoever can read their document
+    if (!job || !(await canAccessPdf(job.pdfId, user?.id ?? null))) {
+      return NextResponse.json(
+        { error: 'Job not found' },
+        { status: 404, headers: corsHeaders }
+      );
+    }
+
+    return NextResponse.json(
+      { success: true, job: serializeJob(job) },
+      { headers: { ...corsHeaders, 'Cache-Control': 'no-store' } }
+    );
+  } catch (error) {
+    console.error('Error fetching job:', error);
+    return NextResponse.json(
+      {
+        error: 'Failed to fetch job',
+        details: error instanceof Error ? error.message : 'Unknown error'
+      },
+      { status: 500, headers: corsHeaders }
+    );
+  }
+}
@@ -0,0 +1,134 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getCurrentUser } from '@/lib/auth';
+import { canAccessPdf } from '@/lib/access';
+import { getDocumentLabels, parseTagNames, setDocumentCollections, setDocumentTags } from '@/lib/collections';
+
+// CORS headers
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Methods': 'GET, PUT, OPTIONS',
+  'Access-Control-Allow-Headers': 'Content-Type, Authorization',
+};
+
+// Handle OPTIONS request for CORS preflight
+export async function OPTIONS() {
+  return NextResponse.json({}, { headers: corsHeaders });
+}
+
+interface LabelsRequest {
+  collectionIds?: unknown; // Replaces the user's collections holding the document when provided
+  tags?: unknown; // Replaces the user's tags on the document when provided
+}
+
+// GET /api/pdf/[id]/labels - the signed-in user's collections and tags on a document
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+    const user = await getCurrentUser(request);
+    if (!user) {
+      return NextResponse.json(
+        { error: 'Authentication required' },
+        { status: 401, headers: corsHeaders }
+      );
+    }
+
+    if (!(await canAccessPdf(id, user.id))) {
+      return NextResponse.json(
+        { error: 'PDF not found' },
+        { status: 404, headers: corsHeaders }
+      );
+    }
+
+    const labels = (await getDocumentLabels([id], user.id)).get(id)!;
+    return NextResponse.json({ success: true, pdfId: id, ...labels }, { headers: corsHeaders });
+  } catch (error) {
+    console.error('Error fetching PDF labels:', error);
+    return NextResponse.json(
+      {
+        error: 'Failed to fetch collections and tags',
+        details: error instanceof Error ? error.message : 'Unknown error'
+      },
+      { status: 500, headers: corsHeaders }
+    );
+  }
+}
+
+// PUT /api/pdf/[id]/labels - file a document in collections and/or tag it.
+// Any document the user can read can be organised; only their own labels change.
+export async function PUT(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+    const user = await getCurrentUser(request);
+    if (!user) {
+      return NextResponse.json(
+        { error: 'Authentication required' },
+        { status: 401, headers: corsHeaders }
+      );
+    }
+
+    let body: LabelsRequest;
+    try {
+      body = await request.json();
+    } catch {
+      return NextResponse.json(
+        { error: 'Invalid JSON in request body' },
+        { status: 400, headers: corsHeaders }
+      );
+    }
+
+    const collectionIds = body.collectionIds;
+    if (collectionIds !== undefined && (!Array.isArray(collectionIds) || collectionIds.some(c => typeof c !== 'string'))) {
+      return NextResponse.json(
+        { error: 'collectionIds must be an array of collection IDs' },
+        { status: 400, headers: corsHeaders }
+      );
+    }
+
+    const tags = body.tags === undefined ? undefined : parseTagNames(body.tags);
+    if (tags === null) {
+      return NextResponse.json(
+        { error: 'Tags must be an array of at most 20 names of up to 40 characters' },
+        { status: 400, headers: corsHeaders }
+      );
+    }
+
+    if (!(await canAccessPdf(id, user.id))) {
+      return NextResponse.json(
+        { error: 'PDF not found' },
+        { status: 404, headers: corsHeaders }
+      );
+    }
+
+    if (collectionIds) {
+      const unknown = await setDocumentCollections(id, user.id, [...new Set(collectionIds as string[])]);
+      if (unknown.length > 0) {
+        return NextResponse.json(
+          { error: 'Collection not found', details: `Unknown collection IDs: ${unknown.join(', ')}` },
+          { status: 404, headers: corsHeaders }
+        );
+      }
+    }
+
+    if (tags) {
+      await setDocumentTags(id, user.id, tags);
+    }
+
+    const labels = (await getDocumentLabels([id], user.id)).get(id)!;
+    return NextResponse.json({ success: true, pdfId: id, ...labels }, { headers: corsHeaders });
+  } catch (error) {
+    console.error('Error updating PDF labels:', error);
+    return NextResponse.json(
+      {
+        error: 'Failed to update collections and tags',
+        details: error instanceof Error ? error.message : 'Unknown error'
+      },
+      { status: 500, headers: corsHeaders }
+    );
+  }
+}
@@ -1,11 +1,26 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { prisma } from '@/lib/prisma';
+import { getCurrentUser } from '@/lib/auth';
+import { pdfAccessWhere } from '@/lib/access';
+import {
+  documentFileSize,
+  parseDocumentTitle,
+  purgeDate,
+  purgeDocument,
+  restoreDocument,
+  streamDocumentFile,
+  trashDocument,
+} from '@/lib/documents';
+import { parseRangeHeader } from '@/lib/file-storage';
+import { readableNearDuplicates } from '@/lib/duplicates';
+import type { DocumentMetadata } from '@/lib/extractors';
 
 // CORS headers
 const corsHeaders = {
   'Access-Control-Allow-Origin': '*',
-  'Access-Control-Allow-Methods': 'GET, OPTIONS',
-  'Access-Control-Allow-Headers': 'Content-Type, Authorization',
+  'Access-Control-Allow-Methods': 'GET, PATCH, DELETE, OPTIONS',
+  'Access-Control-Allow-Headers': 'Content-Type, Authorization, Range',
+  'Access-Control-Expose-Headers': 'Accept-Ranges, Content-Length, Content-Range',
 };
 
 export async function GET(
@@ -19,15 +34,22 @@ export async function GET(
 
     console.log(`PDF API called with ID: ${id}, download: ${download}`);
 
-    // If download parameter is true, fetch with file data
+    // PDFs the caller may not read are reported as missing
+    const user = await getCurrentUser(request);
+    const accessWhere = { AND: [{ id }, pdfAccessWhere(user?.id ?? null)] };
+
+    // If download parameter is true, stream the file from storage
     if (download) {
-      const pdf = await prisma.pDF.findUnique({
-        where: { id },
+      const pdf = await prisma.document.findFirst({
+        where: accessWhere,
         select: {
           id: true,
           title: true,
+          visibility: true,
+          storageKey: true,
           fileData: true,
           mimeType: true,
+          format: true,
         }
       });
 
@@ -39,44 +61,67 @@ export async function GET(
         );
       }
 
-      // Check if PDF has file data in database
-      if (pdf.fileData) {
-        console.log(`Serving PDF from database: ${pdf.title}, size: ${pdf.fileData.length} bytes`);
-        
-        // Convert Buffer to Uint8Array for NextResponse
-        const uint8Array = new Uint8Array(pdf.fileData);
-        
-        return new NextResponse(uint8Array, {
-          headers: {
-            'Content-Type': pdf.mimeType || 'application/pdf',
-            'Content-Disposition': `inline; filename="${encodeURIComponent(pdf.title)}"`,
-            'Cache-Control': 'public, max-age=31536000',
-            'Accept-Ranges': 'bytes',
-            'Content-Length': pdf.fileData.length.toString(),
-            ...corsHeaders,
-          },
-        });
-      } else {
-        console.error(`PDF ${id} has no file data in database`);
+      const size = await documentFileSize(pdf);
+      if (size === null) {
+        console.error(`PDF ${id} has no stored file`);
         return NextResponse.json(
           { 
             error: 'PDF file data not found',
-            hint: 'This PDF may have been uploaded before database storage was implemented'
+            hint: 'The file is missing from storage. Re-upload the document.'
           },
           { status: 404, headers: corsHeaders }
         );
       }
+
+      const fileHeaders = {
+        'Content-Type': pdf.mimeType || 'application/pdf',
+        // Only PDFs are viewed in place; uploaded HTML must never render on our origin
+        'Content-Disposition': `${pdf.format === 'pdf' ? 'inline' : 'attachment'}; filename="${encodeURIComponent(pdf.title)}"`,
+        'X-Content-Type-Options': 'nosniff',
+        'Cache-Control': pdf.visibility === 'public' ? 'public, max-age=31536000' : 'private, max-age=3600',
+        'Accept-Ranges': 'bytes',
+        ...corsHeaders,
+      };
+
+      // PDF viewers fetch large files in ranges
+      const range = parseRangeHeader(request.headers.get('range'), size);
+      if (range === null) {
+        return new NextResponse(null, {
+          status: 416,
+          headers: { ...fileHeaders, 'Content-Range': `bytes */${size}` },
+        });
+      }
+
+      console.log(`Serving ${pdf.storageKey ? 'stored' : 'database'} file: ${pdf.title}, ${range ? `bytes ${range.start}-${range.end} of ` : ''}${size} bytes`);
+
+      const body = await streamDocumentFile(pdf, range);
+      return new NextResponse(body, {
+        status: range ? 206 : 200,
+        headers: {
+          ...fileHeaders,
+          'Content-Length': String(range ? range.end - range.start + 1 : size),
+          ...(range && { 'Content-Range': `bytes ${range.start}-${range.end}/${size}` }),
+        },
+      });
     }
 
     // Default: return PDF metadata as JSON (without file data)
-    const pdf = await prisma.pDF.findUnique({
-      where: { id },
+    const pdf = await prisma.document.findFirst({
+      where: accessWhere,
       select: {
         id: true,
         title: true,
         url: true,
         fileSize: true,
         mimeType: true,
+        format: true,
+        visibility: true,
+        ownerId: true,
+        metadata: true,
+        chunkingStrategy: true,
+        chunkingOptions: true,
+        chunksVersion: true,
+        archivedAt: true,
         createdAt: true
       }
     });
@@ -89,6 +134,13 @@ export async function GET(
       );
     }
 
+    // Near duplicates were found with the owner's access; only show the caller what they can read
+    const metadata = pdf.metadata as DocumentMetadata | null;
+    if (metadata?.nearDuplicates) {
+      const nearDuplicates = (await readableNearDuplicates([pdf], user?.id ?? null)).get(pdf.id) ?? [];
+      pdf.metadata = JSON.parse(JSON.stringify({ ...metadata, nearDuplicates }));
+    }
+
     console.log(`Returning PDF metadata for: ${pdf.title}`);
     return NextResponse.json({
       success: true,
@@ -106,13 +158,170 @@ export async function GET(
   }
 }
 
+interface UpdateRequest {
+  title?: unknown;
+  archived?: unknown;
+  deleted?: unknown; // false restores the document from the trash
+}
+
+// PATCH /api/pdf/[id] - rename, archive/unarchive or restore a document (owner only)
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+    const user = await getCurrentUser(request);
+    if (!user) {
+      return NextResponse.json(
+        { error: 'Authentication required' },
+        { status: 401, headers: corsHeaders }
+      );
+    }
+
+    let body: UpdateRequest;
+    try {
+      body = await request.json();
+    } catch {
+      return NextResponse.json(
+        { error: 'Invalid JSON in request body' },
+        { status: 400, headers: corsHeaders }
+      );
+    }
+
+    const title = body.title === undefined ? undefined : parseDocumentTitle(body.title);
+    if (title === null) {
+      return NextResponse.json(
+        { error: 'Title must be between 1 and 200 characters' },
+        { status: 400, headers: corsHeaders }
+      );
+    }
+
+    if (body.archived !== undefined && typeof body.archived !== 'boolean') {
+      return NextResponse.json(
+        { error: 'archived must be true or false' },
+        { status: 400, headers: corsHeaders }
+      );
+    }
+
+    if (body.deleted !== undefined && body.deleted !== false) {
+      return NextResponse.json(
+        { error: 'deleted can only be set to false, to restore a document. Use DELETE to delete one.' },
+        { status: 400, headers: corsHeaders }
+      );
+    }
+
+    // Documents in the trash are found too, so they can be restored
+    const pdf = await prisma.document.findFirst({
+      where: { id, ownerId: user.id },
+      select: { id: true, archivedAt: true, deletedAt: true },
+    });
+    if (!pdf) {
+      return NextResponse.json(
+        { error: 'PDF not found' },
+        { status: 404, headers: corsHeaders }
+      );
+    }
+
+    if (pdf.deletedAt && body.deleted !== false) {
+      return NextResponse.json(
+        { error: 'Document is in the trash', details: 'Restore it (deleted: false) before changing it.' },
+        { status: 409, headers: corsHeaders }
+      );
+    }
+
+    const job = pdf.deletedAt ? await restoreDocument(id) : null;
+
+    const updated = await prisma.document.update({
+      where: { id },
+      data: {
+        ...(title !== undefined && { title }),
+        ...(body.archived !== undefined && { archivedAt: body.archived ? pdf.archivedAt ?? new Date() : null }),
+      },
+      select: { id: true, title: true, archivedAt: true, deletedAt: true },
+    });
+
+    console.log(`📝 Updated document ${id}${pdf.deletedAt ? ' (restored from trash)' : ''}`);
+    return NextResponse.json({
+      success: true,
+      pdf: updated,
+      jobId: job?.id ?? null,
+    }, { headers: corsHeaders });
+  } catch (error) {
+    console.error('Error updating PDF:', error);
+    return NextResponse.json(
+      {
+        error: 'Failed to update PDF',
+        details: error instanceof Error ? error.message : 'Unknown error'
+      },
+      { status: 500, headers: corsHeaders }
+    );
+  }
+}
+
+// DELETE /api/pdf/[id] - move a document to the trash, or with
+// ?permanent=true delete it and its file, chunks and embeddings now (owner only)
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+    const permanent = new URL(request.url).searchParams.get('permanent') === 'true';
+    const user = await getCurrentUser(request);
+    if (!user) {
+      return NextResponse.json(
+        { error: 'Authentication required' },
+        { status: 401, headers: corsHeaders }
+      );
+    }
+
+    const pdf = await prisma.document.findFirst({
+      where: { id, ownerId: user.id },
+      select: { id: true, title: true, storageKey: true, deletedAt: true },
+    });
+    if (!pdf) {
+      return NextResponse.json(
+        { error: 'PDF not found' },
+        { status: 404, headers: corsHeaders }
+      );
+    }
+
+    if (permanent) {
+      await purgeDocument(pdf);
+      console.log(`🗑️ Permanently deleted document ${id}: ${pdf.title}`);
+      return NextResponse.json({ success: true, id, purged: true }, { headers: corsHeaders });
+    }
+
+    // Deleting a document that's already in the trash keeps its original date
+    const deletedAt = pdf.deletedAt ?? await trashDocument(id);
+    console.log(`🗑️ Moved document ${id} to the trash: ${pdf.title}`);
+    return NextResponse.json({
+      success: true,
+      id,
+      purged: false,
+      deletedAt,
+      purgeAt: purgeDate(deletedAt),
+    }, { headers: corsHeaders });
+  } catch (error) {
+    console.error('Error deleting PDF:', error);
+    return NextResponse.json(
+      {
+        error: 'Failed to delete PDF',
+        details: error instanceof Error ? error.message : 'Unknown error'
+      },
+      { status: 500, headers: corsHeaders }
+    );
+  }
+}
+
 // Add explicit OPTIONS handler to prevent 405 errors
 export async function OPTIONS() {
   return new NextResponse(null, {
     status: 200,
     headers: {
       ...corsHeaders,
-      'Allow': 'GET, OPTIONS',
+      'Allow': 'GET, PATCH, DELETE, OPTIONS',
     },
   });
 }
\ No newline at end of file
@@ -0,0 +1,136 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { prisma } from '@/lib/prisma';
+import { getCurrentUser } from '@/lib/auth';
+import { updateSharing, validateShareRequest, type ShareRequest } from '@/lib/access';
+
+// CORS headers
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Methods': 'GET, PUT, OPTIONS',
+  'Access-Control-Allow-Headers': 'Content-Type, Authorization',
+};
+
+// Handle OPTIONS request for CORS preflight
+export async function OPTIONS() {
+  return NextResponse.json({}, { headers: corsHeaders });
+}
+
+// Sharing can't be changed from the trash; a restore would make the changes live
+async function loadOwnedPdf(id: string, userId: string) {
+  return prisma.document.findFirst({
+    where: { id, ownerId: userId, deletedAt: null },
+    select: {
+      id: true,
+      visibility: true,
+      shares: {
+        select: { user: { select: { email: true, name: true } } },
+        orderBy: { createdAt: 'asc' },
+      },
+    },
+  });
+}
+
+type OwnedPdf = NonNullable<Awaited<ReturnType<typeof loadOwnedPdf>>>;
+
+function formatSharing(pdf: OwnedPdf) {
+  return {
+    success: true,
+    pdfId: pdf.id,
+    visibility: pdf.visibility,
+    sharedWith: pdf.shares.map(share => share.user),
+  };
+}
+
+// GET /api/pdf/[id]/share - current visibility and share list (owner only)
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+    const user = await getCurrentUser(request);
+    if (!user) {
+      return NextResponse.json(
+        { error: 'Authentication required' },
+        { status: 401, headers: corsHeaders }
+      );
+    }
+
+    const pdf = await loadOwnedPdf(id, user.id);
+    if (!pdf) {
+      return NextResponse.json(
+        { error: 'PDF not found' },
+        { status: 404, headers: corsHeaders }
+      );
+    }
+
+    return NextResponse.json(formatSharing(pdf), { headers: corsHeaders });
+  } catch (error) {
+    console.error('Error fetching PDF sharing:', error);
+    return NextResponse.json(
+      {
+        error: 'Failed to fetch sharing settings',
+        details: error instanceof Error ? error.message : 'Unknown error'
+      },
+      { status: 500, headers: corsHeaders }
+    );
+  }
+}
+
+// PUT /api/pdf/[id]/share - update visibility and/or share list (owner only)
+export async function PUT(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+    const user = await getCurrentUser(request);
+    if (!user) {
+      return NextResponse.json(
+        { error: 'Authentication required' },
+        { status: 401, headers: corsHeaders }
+      );
+    }
+
+    let body: ShareRequest;
+    try {
+      body = await request.json();
+    } catch {
+      return NextResponse.json(
+        { error: 'Invalid JSON in request body' },
+        { status: 400, headers: corsHeaders }
+      );
+    }
+
+    const validationError = validateShareRequest(body);
+    if (validationError) {
+      return NextResponse.json(
+        { error: validationError },
+        { status: 400, headers: corsHeaders }
+      );
+    }
+
+    const updated = await updateSharing('pdf', id, user.id, body);
+    if (!updated) {
+      return NextResponse.json(
+        { error: 'PDF not found' },
+        { status: 404, headers: corsHeaders }
+      );
+    }
+
+    const pdf = await loadOwnedPdf(id, user.id);
+    return NextResponse.json(
+      { ...formatSharing(pdf!), unknownEmails: updated.unknownEmails },
+      { headers: corsHeaders }
+    );
+  } catch (error) {
+    console.error('Error updating PDF sharing:', error);
+    return NextResponse.json(
+      {
+        error: 'Failed to update sharing settings',
+        details: error instanceof Error ? error.message : 'Unknown error'
+      },
+      { status: 500, headers: corsHeaders }
+    );
+  }
+}
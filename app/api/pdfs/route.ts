@@ -1,5 +1,13 @@
-import { NextResponse } from 'next/server';
+import { NextRequest, NextResponse } from 'next/server';
+import type { Prisma } from '@prisma/client';
 import { prisma } from '@/lib/prisma';
+import { getCurrentUser } from '@/lib/auth';
+import { pdfAccessWhere } from '@/lib/access';
+import { getLatestJobs } from '@/lib/jobs';
+import { purgeDate } from '@/lib/documents';
+import { getDocumentLabels, normalizeTag } from '@/lib/collections';
+import { readableNearDuplicates } from '@/lib/duplicates';
+import type { DocumentMetadata } from '@/lib/extractors';
 
 // CORS headers
 const corsHeaders = {
@@ -13,18 +21,82 @@ export async function OPTIONS() {
   return NextResponse.json({}, { headers: corsHeaders });
 }
 
-export async function GET() {
+// Which part of the library to list: the default shelf, archived documents,
+// or the caller's own documents in the trash
+const VIEWS = ['library', 'archived', 'trash'] as const;
+type LibraryView = (typeof VIEWS)[number];
+
+function viewWhere(view: LibraryView, userId: string | null): Prisma.DocumentWhereInput {
+  switch (view) {
+    case 'library':
+      return { AND: [pdfAccessWhere(userId), { archivedAt: null }] };
+    case 'archived':
+      return { AND: [pdfAccessWhere(userId), { archivedAt: { not: null } }] };
+    case 'trash':
+      return { ownerId: userId, deletedAt: { not: null } };
+  }
+}
+
+export async function GET(request: NextRequest) {
   try {
-    const pdfs = await prisma.pDF.findMany({
+    const user = await getCurrentUser(request);
+    const userId = user?.id ?? null;
+
+    const { searchParams } = new URL(request.url);
+    const view = searchParams.get('view') || 'library';
+    if (!VIEWS.includes(view as LibraryView)) {
+      return NextResponse.json(
+        { error: 'view must be "library", "archived" or "trash"' },
+        { status: 400, headers: corsHeaders }
+      );
+    }
+    const collectionId = searchParams.get('collectionId');
+    const tag = searchParams.get('tag');
+
+    // The trash, collections and tags are all per user
+    if ((view === 'trash' || collectionId || tag) && !userId) {
+      return NextResponse.json(
+        { error: 'Authentication required' },
+        { status: 401, headers: corsHeaders }
+      );
+    }
+
+    // Optional filters: one of the caller's collections, one of their tags,
+    // and words in the title
+    const filters: Prisma.DocumentWhereInput[] = [];
+    if (collectionId && userId) {
+      filters.push({ collections: { some: { id: collectionId, ownerId: userId } } });
+    }
+    if (tag && userId) {
+      filters.push({ tags: { some: { name: normalizeTag(tag), ownerId: userId } } });
+    }
+    const titleQuery = searchParams.get('q')?.trim();
+    if (titleQuery) {
+      filters.push({ title: { contains: titleQuery, mode: 'insensitive' } });
+    }
+
+    // Only list PDFs the caller owns, was shared on, or that are public;
+    // the trash only ever holds the caller's own
+    const pdfs = await prisma.document.findMany({
+      where: { AND: [viewWhere(view as LibraryView, userId), ...filters] },
       orderBy: {
         createdAt: 'desc'
       },
       select: {
         id: true,
         title: true,
+        url: true,
         createdAt: true,
         fileSize: true,
         mimeType: true,
+        format: true,
+        visibility: true,
+        ownerId: true,
+        metadata: true,
+        chunkingStrategy: true,
+        chunksVersion: true,
+        archivedAt: true,
+        deletedAt: true,
         chunks: {
           select: {
             id: true
@@ -33,17 +105,43 @@ export async function GET() {
       }
     });
 
+    const [latestJobs, labels, nearDuplicates] = await Promise.all([
+      getLatestJobs(pdfs.map(pdf => pdf.id)),
+      getDocumentLabels(pdfs.map(pdf => pdf.id), userId),
+      readableNearDuplicates(pdfs, userId),
+    ]);
+
     // Transform to include processing status
     // Use database storage - construct URL to API endpoint instead of file path
     const pdfsWithStatus = pdfs.map(pdf => ({
       id: pdf.id,
       title: pdf.title,
       url: `/api/pdf/${pdf.id}?download=true`, // URL to retrieve PDF from database
+      sourceUrl: pdf.url || null, // Where an imported document was downloaded from
       createdAt: pdf.createdAt,
       hasChunks: pdf.chunks.length > 0,
       chunksCount: pdf.chunks.length,
+      chunkingStrategy: pdf.chunkingStrategy,
+      chunksVersion: pdf.chunksVersion,
+      // Latest background processing job, if any
+      jobId: latestJobs.get(pdf.id)?.id ?? null,
+      processingStatus: latestJobs.get(pdf.id)?.status ?? null,
+      // Pages whose text came from OCR rather than the PDF's text layer
+      ocrPages: (pdf.metadata as DocumentMetadata | null)?.ocr?.pages.length ?? 0,
+      // Other documents with mostly the same text, found during ingestion
+      nearDuplicates: nearDuplicates.get(pdf.id) ?? [],
       fileSize: pdf.fileSize,
-      mimeType: pdf.mimeType
+      mimeType: pdf.mimeType,
+      format: pdf.format,
+      visibility: pdf.visibility,
+      archivedAt: pdf.archivedAt,
+      deletedAt: pdf.deletedAt,
+      // Documents in the trash are purged for good on this date
+      purgeAt: pdf.deletedAt ? purgeDate(pdf.deletedAt) : null,
+      // The caller's own collections and tags on the document
+      collections: labels.get(pdf.id)?.collections ?? [],
+      tags: labels.get(pdf.id)?.tags ?? [],
+      isOwner: userId !== null && pdf.ownerId === userId
     }));
 
     return NextResponse.json({
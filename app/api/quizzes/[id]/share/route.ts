@@ -0,0 +1,135 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { prisma } from '@/lib/prisma';
+import { getCurrentUser } from '@/lib/auth';
+import { updateSharing, validateShareRequest, type ShareRequest } from '@/lib/access';
+
+// CORS headers
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Methods': 'GET, PUT, OPTIONS',
+  'Access-Control-Allow-Headers': 'Content-Type, Authorization',
+};
+
+// Handle OPTIONS request for CORS preflight
+export async function OPTIONS() {
+  return NextResponse.json({}, { headers: corsHeaders });
+}
+
+async function loadOwnedQuiz(id: string, userId: string) {
+  return prisma.quiz.findFirst({
+    where: { id, createdBy: userId },
+    select: {
+      id: true,
+      visibility: true,
+      shares: {
+        select: { user: { select: { email: true, name: true } } },
+        orderBy: { createdAt: 'asc' },
+      },
+    },
+  });
+}
+
+type OwnedQuiz = NonNullable<Awaited<ReturnType<typeof loadOwnedQuiz>>>;
+
+function formatSharing(quiz: OwnedQuiz) {
+  return {
+    success: true,
+    quizId: quiz.id,
+    visibility: quiz.visibility,
+    sharedWith: quiz.shares.map(share => share.user),
+  };
+}
+
+// GET /api/quizzes/[id]/share - current visibility and share list (owner only)
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+    const user = await getCurrentUser(request);
+    if (!user) {
+      return NextResponse.json(
+        { error: 'Authentication required' },
+        { status: 401, headers: corsHeaders }
+      );
+    }
+
+    const quiz = await loadOwnedQuiz(id, user.id);
+    if (!quiz) {
+      return NextResponse.json(
+        { error: 'Quiz not found' },
+        { status: 404, headers: corsHeaders }
+      );
+    }
+
+    return NextResponse.json(formatSharing(quiz), { headers: corsHeaders });
+  } catch (error) {
+    console.error('Error fetching quiz sharing:', error);
+    return NextResponse.json(
+      {
+        error: 'Failed to fetch sharing settings',
+        details: error instanceof Error ? error.message : 'Unknown error'
+      },
+      { status: 500, headers: corsHeaders }
+    );
+  }
+}
+
+// PUT /api/quizzes/[id]/share - update visibility and/or share list (owner only)
+export async function PUT(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+    const user = await getCurrentUser(request);
+    if (!user) {
+      return NextResponse.json(
+        { error: 'Authentication required' },
+        { status: 401, headers: corsHeaders }
+      );
+    }
+
+    let body: ShareRequest;
+    try {
+      body = await request.json();
+    } catch {
+      return NextResponse.json(
+        { error: 'Invalid JSON in request body' },
+        { status: 400, headers: corsHeaders }
+      );
+    }
+
+    const validationError = validateShareRequest(body);
+    if (validationError) {
+      return NextResponse.json(
+        { error: validationError },
+        { status: 400, headers: corsHeaders }
+      );
+    }
+
+    const updated = await updateSharing('quiz', id, user.id, body);
+    if (!updated) {
+      return NextResponse.json(
+        { error: 'Quiz not found' },
+        { status: 404, headers: corsHeaders }
+      );
+    }
+
+    const quiz = await loadOwnedQuiz(id, user.id);
+    return NextResponse.json(
+      { ...formatSharing(quiz!), unknownEmails: updated.unknownEmails },
+      { headers: corsHeaders }
+    );
+  } catch (error) {
+    console.error('Error updating quiz sharing:', error);
+    return NextResponse.json(
+      {
+        error: 'Failed to update sharing settings',
+        details: error instanceof Error ? error.message : 'Unknown error'
+      },
+      { status: 500, headers: corsHeaders }
+    );
+  }
+}
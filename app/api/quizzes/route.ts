@@ -1,9 +1,15 @@
-import { NextResponse } from 'next/server';
+import { NextRequest, NextResponse } from 'next/server';
 import { prisma } from '@/lib/prisma';
+import { getCurrentUser } from '@/lib/auth';
+import { quizAccessWhere } from '@/lib/access';
 
-export async function GET() {
+export async function GET(req: NextRequest) {
   try {
+    const user = await getCurrentUser(req);
+    const userId = user?.id ?? null;
+
     const quizzes = await prisma.quiz.findMany({
+      where: quizAccessWhere(userId),
       orderBy: {
         createdAt: 'desc'
       },
@@ -28,7 +34,9 @@ export async function GET() {
         numMcq: quiz.numMcq,
         numSaq: quiz.numSaq,
         numLaq: quiz.numLaq,
-        metadata: quiz.metadata
+        metadata: quiz.metadata,
+        visibility: quiz.visibility,
+        isOwner: userId !== null && quiz.createdBy === userId
       }))
     });
   } catch (error) {
@@ -1,4 +1,5 @@
 import { NextResponse } from "next/server";
+import { getLLMProvider } from "@/lib/llm";
 
 interface YouTubeVideo {
   id: {
@@ -28,33 +29,18 @@ interface YouTubeSearchResponse {
   };
 }
 
-// Generate smart search queries using Gemini
+// Generate smart search queries using the configured LLM provider
 async function generateSearchQueries(topic: string): Promise<string[]> {
   try {
-    const geminiPrompt = `Given the educational topic: "${topic}"
+    const prompt = `Given the educational topic: "${topic}"
 
 Generate 3 concise YouTube search queries that best help a student learn this concept. 
 Focus on educational content, tutorials, and explanations.
 Return ONLY the search queries, one per line, without numbering or additional text.`;
 
-    const response = await fetch(
-      `https://generativelanguage.googleapis.com/v1beta/models/gemini-1.5-flash-latest:generateContent?key=${process.env.GEMINI_API_KEY}`,
-      {
-        method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({
-          contents: [{ parts: [{ text: geminiPrompt }] }],
-        }),
-      }
-    );
-
-    if (!response.ok) {
-      console.warn('Gemini API failed, using original topic');
-      return [topic];
-    }
-
-    const data = await response.json();
-    const generatedText = data?.candidates?.[0]?.content?.parts?.[0]?.text;
+    const generatedText = await getLLMProvider().generate([
+      { role: 'user', content: prompt },
+    ]);
     
     if (generatedText) {
       const queries = generatedText
@@ -65,7 +51,7 @@ Return ONLY the search queries, one per line, without numbering or additional te
       return queries.length > 0 ? queries : [topic];
     }
   } catch (error) {
-    console.error('Error generating search queries with Gemini:', error);
+    console.error('Error generating search queries with LLM:', error);
   }
   
   return [topic];
@@ -180,13 +166,13 @@ export async function POST(req: Request) {
       );
     }
 
-    // Generate smart queries with Gemini (optional)
+    // Generate smart queries with the LLM (optional; `useGemini` kept for existing clients)
     let searchQueries = [searchTopic];
-    if (useGemini && process.env.GEMINI_API_KEY) {
+    if (useGemini && getLLMProvider().isConfigured()) {
       try {
         searchQueries = await generateSearchQueries(searchTopic);
-      } catch (geminiError) {
-        console.warn('Gemini query generation failed, using original topic:', geminiError);
+      } catch (llmError) {
+        console.warn('LLM query generation failed, using original topic:', llmError);
         // Continue with original topic
       }
     }
@@ -1,5 +1,19 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { searchSimilarChunks, globalSemanticSearch, getRelevantContext } from '@/lib/vector-search';
+import {
+  searchSimilarChunks,
+  globalSemanticSearch,
+  getRelevantContext,
+  hybridSearch,
+  parsePdfIds,
+  parseExcludedChunkIds,
+  parseResultCount,
+  parseSimilarityThreshold,
+  MAX_SCOPE_PDFS,
+  MAX_EXCLUDED_CHUNKS,
+} from '@/lib/vector-search';
+import { getCurrentUser } from '@/lib/auth';
+import { findInaccessiblePdfIds } from '@/lib/access';
+import { withCollectionPdfIds } from '@/lib/collections';
 
 // CORS headers
 const corsHeaders = {
@@ -15,44 +29,101 @@ export async function OPTIONS() {
 
 export async function POST(request: NextRequest) {
   try {
-    const { query, pdfId, searchType = 'semantic', limit = 5, threshold = 0.7 } = await request.json();
+    const { query, pdfId, pdfIds: requestedPdfIds, collectionId, excludeChunkIds: requestedExclusions, searchType = 'semantic', limit: requestedLimit, threshold: requestedThreshold } = await request.json();
+    const limit = parseResultCount(requestedLimit);
     
-    if (!query || query.trim().length === 0) {
+    if (typeof query !== 'string' || query.trim().length === 0) {
       return NextResponse.json(
         { error: 'Query is required' },
         { status: 400 }
       );
     }
 
+    const threshold = parseSimilarityThreshold(requestedThreshold);
+    if (threshold === null) {
+      return NextResponse.json(
+        { error: 'threshold must be a number from 0 to 1' },
+        { status: 400 }
+      );
+    }
+
+    const requestedIds = parsePdfIds(pdfId, requestedPdfIds);
+    if (!requestedIds) {
+      return NextResponse.json(
+        { error: `pdfIds must be an array of at most ${MAX_SCOPE_PDFS} PDF IDs` },
+        { status: 400 }
+      );
+    }
+
+    // Chunks already shown, e.g. when fetching more results
+    const excludeChunkIds = parseExcludedChunkIds(requestedExclusions);
+    if (!excludeChunkIds) {
+      return NextResponse.json(
+        { error: `excludeChunkIds must be an array of at most ${MAX_EXCLUDED_CHUNKS} chunk IDs` },
+        { status: 400 }
+      );
+    }
+
+    const user = await getCurrentUser(request);
+    const userId = user?.id ?? null;
+
+    if (requestedIds.length > 0 && (await findInaccessiblePdfIds(requestedIds, userId)).length > 0) {
+      return NextResponse.json(
+        { error: 'PDF not found' },
+        { status: 404 }
+      );
+    }
+
+    // A collection adds every document in it the user can read
+    const pdfIds = await withCollectionPdfIds(requestedIds, collectionId, userId);
+    if (!pdfIds) {
+      return NextResponse.json(
+        { error: 'Collection not found' },
+        { status: 404 }
+      );
+    }
+    if (collectionId && pdfIds.length === 0) {
+      return NextResponse.json(
+        { error: 'The collection has no documents to search' },
+        { status: 400 }
+      );
+    }
+
     let results;
 
     switch (searchType) {
       case 'semantic':
-        if (pdfId) {
-          results = await searchSimilarChunks(query, pdfId, limit, threshold);
+        if (pdfIds.length > 0) {
+          results = await searchSimilarChunks(query, { userId, pdfIds, excludeChunkIds }, limit, threshold ?? 0.7);
         } else {
-          results = await globalSemanticSearch(query, limit, threshold);
+          results = await globalSemanticSearch(query, userId, limit, threshold ?? 0.7, excludeChunkIds);
         }
         break;
+
+      case 'hybrid':
+        // Vector + full-text rankings fused with reciprocal rank fusion; the
+        // vector side uses a looser default threshold since fusion re-ranks
+        results = await hybridSearch(query, { userId, pdfIds, excludeChunkIds }, limit, threshold ?? 0.3);
+        break;
         
       case 'context':
-        if (!pdfId) {
+        if (pdfIds.length !== 1) {
           return NextResponse.json(
-            { error: 'PDF ID is required for context search' },
+            { error: 'A single PDF ID is required for context search' },
             { status: 400 }
           );
         }
-        const context = await getRelevantContext(query, pdfId, limit);
+        const context = await getRelevantContext(query, pdfIds[0], userId, limit);
         return NextResponse.json({
           success: true,
           context: context,
           query: query,
-          pdfId: pdfId,
+          pdfId: pdfIds[0],
         });
         
       default:
         return NextResponse.json(
-          { error: 'Invalid search type. Use "semantic" or "context"' },
+          { error: 'Invalid search type. Use "semantic", "hybrid" or "context"' },
           { status: 400 }
         );
     }
@@ -64,6 +135,8 @@ export async function POST(request: NextRequest) {
       searchType: searchType,
       resultCount: results.length,
       pdfId: pdfId || null,
+      pdfIds,
+      collectionId: collectionId || null,
     });
   } catch (error) {
     console.error('Search error:', error);
@@ -77,13 +150,16 @@ export async function POST(request: NextRequest) {
   }
 }
 
-// GET endpoint: /api/search?q=&pdfId=&k=5
+// GET endpoint: /api/search?q=&pdfId=&collectionId=&exclude=&k=5 (repeat pdfId to search several PDFs,
+// exclude to leave out chunks already shown)
 export async function GET(request: NextRequest) {
   try {
     const { searchParams } = new URL(request.url);
     const query = searchParams.get('q');
-    const pdfId = searchParams.get('pdfId');
-    const k = parseInt(searchParams.get('k') || '5'); // Changed from 'limit' to 'k' as per spec
+    const requestedIds = parsePdfIds(undefined, searchParams.getAll('pdfId'));
+    const collectionId = searchParams.get('collectionId');
+    const excludeChunkIds = parseExcludedChunkIds(searchParams.getAll('exclude'));
+    const k = parseResultCount(searchParams.get('k')); // Changed from 'limit' to 'k' as per spec
     
     if (!query || query.trim().length === 0) {
       return NextResponse.json(
@@ -92,12 +168,50 @@ export async function GET(request: NextRequest) {
       );
     }
 
+    if (!requestedIds) {
+      return NextResponse.json(
+        { error: `At most ${MAX_SCOPE_PDFS} pdfId parameters are allowed` },
+        { status: 400 }
+      );
+    }
+
+    if (!excludeChunkIds) {
+      return NextResponse.json(
+        { error: `At most ${MAX_EXCLUDED_CHUNKS} exclude parameters are allowed` },
+        { status: 400 }
+      );
+    }
+
+    const user = await getCurrentUser(request);
+    const userId = user?.id ?? null;
+
+    if (requestedIds.length > 0 && (await findInaccessiblePdfIds(requestedIds, userId)).length > 0) {
+      return NextResponse.json(
+        { error: 'PDF not found' },
+        { status: 404 }
+      );
+    }
+
+    const pdfIds = await withCollectionPdfIds(requestedIds, collectionId, userId);
+    if (!pdfIds) {
+      return NextResponse.json(
+        { error: 'Collection not found' },
+        { status: 404 }
+      );
+    }
+    if (collectionId && pdfIds.length === 0) {
+      return NextResponse.json(
+        { error: 'The collection has no documents to search' },
+        { status: 400 }
+      );
+    }
+
     // Embed query text with Gemini embeddings and perform vector search
     let results;
-    if (pdfId) {
-      results = await searchSimilarChunks(query, pdfId, k, 0.3);
+    if (pdfIds.length > 0) {
+      results = await searchSimilarChunks(query, { userId, pdfIds, excludeChunkIds }, k, 0.3);
     } else {
-      results = await globalSemanticSearch(query, k, 0.3);
+      results = await globalSemanticSearch(query, userId, k, 0.3, excludeChunkIds);
     }
 
     // Format results to include page numbers and snippets
@@ -105,8 +219,11 @@ export async function GET(request: NextRequest) {
       id: result.id,
       content: result.content,
       pageNum: result.pageNum,
+      location: result.location,
+      sectionPath: result.sectionPath,
       similarity: result.similarity,
       pdfId: result.pdfId,
+      pdfTitle: result.pdfTitle,
       // Add snippet preview (first 200 chars)
       snippet: result.content.length > 200 
         ? result.content.substring(0, 200) + '...' 
@@ -118,7 +235,9 @@ export async function GET(request: NextRequest) {
       results: formattedResults,
       query: query,
       resultCount: formattedResults.length,
-      pdfId: pdfId || null,
+      pdfId: pdfIds.length === 1 ? pdfIds[0] : null,
+      pdfIds,
+      collectionId,
       k: k
     });
   } catch (error) {
@@ -1,10 +1,11 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { prisma } from '@/lib/prisma';
-import { askGemini } from '@/lib/gemini';
+import { askLLM } from '@/lib/llm';
+import { getCurrentUser } from '@/lib/auth';
+import { quizAccessWhere } from '@/lib/access';
 
 interface SubmitQuizRequest {
   quizId: string;
-  userId: string;
   answers: Array<{
     questionId: string;
     type: 'mcq' | 'saq' | 'laq';
@@ -22,12 +23,21 @@ interface QuestionScore {
 
 export async function POST(req: NextRequest) {
   try {
+    const user = await getCurrentUser(req);
+    if (!user) {
+      return NextResponse.json(
+        { error: 'Authentication required' },
+        { status: 401 }
+      );
+    }
+    const userId = user.id;
+
     const body: SubmitQuizRequest = await req.json();
-    const { quizId, userId, answers } = body;
+    const { quizId, answers } = body;
 
     // Fetch quiz with questions and options
-    const quiz = await prisma.quiz.findUnique({
-      where: { id: quizId },
+    const quiz = await prisma.quiz.findFirst({
+      where: { AND: [{ id: quizId }, quizAccessWhere(userId)] },
       include: {
         questions: {
           include: {
@@ -110,7 +120,7 @@ Grading Guidelines:
 Return only the JSON object, no other text.
           `.trim();
 
-          const llmResponse = await askGemini(gradePrompt);
+          const llmResponse = await askLLM(gradePrompt);
           
           // Parse LLM response
           let llmGrade;
@@ -1,5 +1,6 @@
 import { NextResponse } from 'next/server';
 import { listAvailableModels } from '@/lib/gemini';
+import { getLLMProvider } from '@/lib/llm';
 
 export async function GET() {
   try {
@@ -13,6 +14,8 @@ export async function GET() {
       success: true,
       apiKeyPresent: !!process.env.GEMINI_API_KEY,
       availableModels: models,
+      llmProvider: getLLMProvider().name,
+      llmConfigured: getLLMProvider().isConfigured(),
       message: 'Gemini API test completed'
     });
   } catch (error) {
@@ -1,5 +1,11 @@
-import { NextRequest, NextResponse } from 'next/server';
-import { prisma } from '@/lib/prisma';
+import { NextRequest, NextResponse, after } from 'next/server';
+import { getCurrentUser } from '@/lib/auth';
+import { drainJobQueue, isInlineProcessingEnabled } from '@/lib/jobs';
+import { CHUNKING_SETTINGS_RULES, parseChunkingSettings } from '@/lib/chunking';
+import { ACCEPTED_FILE_EXTENSIONS, detectDocumentFormat } from '@/lib/document-formats';
+import { storeDocument } from '@/lib/documents';
+import { getEmbeddingProvider } from '@/lib/embeddings';
+import { DUPLICATE_ACTIONS, contentHash, duplicateUploadResponse, findExactDuplicate, parseDuplicateAction } from '@/lib/duplicates';
 
 // Route configuration for serverless deployment
 // IMPORTANT: Vercel Hobby plan limits:
@@ -38,8 +44,19 @@ export async function POST(request: NextRequest) {
     );
   }
 
-  if (!process.env.GEMINI_API_KEY) {
-    console.warn('⚠️ GEMINI_API_KEY not configured - embeddings will be skipped');
+  const embeddingProvider = getEmbeddingProvider();
+  if (!embeddingProvider.isConfigured()) {
+    console.warn(`⚠️ ${embeddingProvider.name} embedding provider not configured - embeddings will fail`);
+  }
+  
+  // Uploaded documents are owned by the signed-in user
+  const user = await getCurrentUser(request);
+  if (!user) {
+    console.error('❌ Upload attempted without a session');
+    return NextResponse.json(
+      { error: 'Authentication required' },
+      { status: 401, headers: corsHeaders }
+    );
   }
   
   try {
@@ -72,11 +89,12 @@ export async function POST(request: NextRequest) {
 
     console.log(`📄 File received: ${file.name}, type: ${file.type}, size: ${file.size} bytes`);
 
-    // Validate file type
-    if (!file.type.includes('pdf')) {
+    // Validate file type; browsers often send no type for .md files, so the extension decides first
+    const format = detectDocumentFormat(file.name, file.type);
+    if (!format) {
       console.error('❌ Invalid file type:', file.type);
       return NextResponse.json(
-        { error: 'Only PDF files are allowed' },
+        { error: 'Unsupported file type', details: `Supported files: ${ACCEPTED_FILE_EXTENSIONS.join(', ')}` },
         { status: 400, headers: corsHeaders }
       );
     }
@@ -88,43 +106,76 @@ export async function POST(request: NextRequest) {
       return NextResponse.json(
         { 
           error: `File too large. Maximum size is ${(MAX_FILE_SIZE / 1024 / 1024).toFixed(1)}MB for your current plan.`,
-          hint: 'To increase limit, set MAX_FILE_SIZE environment variable (in bytes) or upgrade your hosting plan.'
+          hint: 'Use a resumable upload (POST /api/uploads) for larger files.'
         },
         { status: 413, headers: corsHeaders }
       );
     }
 
+    // Optional chunking settings; the document keeps them for later re-chunks
+    const chunking = parseChunkingSettings(
+      formData.get('chunkingStrategy'),
+      formData.get('chunkSize'),
+      formData.get('chunkOverlap')
+    );
+    if (!chunking) {
+      return NextResponse.json(
+        { error: 'Invalid chunking settings', details: CHUNKING_SETTINGS_RULES },
+        { status: 400, headers: corsHeaders }
+      );
+    }
+
+    const onDuplicate = parseDuplicateAction(formData.get('onDuplicate'));
+    if (!onDuplicate) {
+      return NextResponse.json(
+        { error: 'Invalid onDuplicate', details: `Use one of: ${DUPLICATE_ACTIONS.join(', ')}` },
+        { status: 400, headers: corsHeaders }
+      );
+    }
+
     // Convert file to buffer
     console.log('🔄 Converting file to buffer...');
     const bytes = await file.arrayBuffer();
     const buffer = Buffer.from(bytes);
     console.log(`✅ Buffer created: ${buffer.length} bytes`);
 
-    // Save PDF with file data directly to database
+    // The same file again: offer the existing copy instead of ingesting it twice
+    if (onDuplicate !== 'upload') {
+      const duplicate = await findExactDuplicate(contentHash(buffer), user.id);
+      if (duplicate) {
+        console.log(`👯 ${file.name} duplicates ${duplicate.pdfId}`);
+        const { status, body } = duplicateUploadResponse(duplicate, onDuplicate);
+        return NextResponse.json(body, { status, headers: corsHeaders });
+      }
+    }
+
+    // ⚠️ IMPORTANT: Do NOT process chunks inline for Vercel Hobby (10s timeout)
+    // Store the document and queue the work for the ingestion worker; the client polls /api/jobs/[id]
     console.log('💾 Saving to database...');
-    const pdfRecord = await prisma.pDF.create({
-      data: {
-        title: file.name,
-        url: '', // Empty string for DB-stored PDFs
-        fileData: buffer,
-        fileSize: file.size,
-        mimeType: file.type || 'application/pdf',
-      },
+    const { document: pdfRecord, job } = await storeDocument({
+      title: file.name,
+      data: buffer,
+      format,
+      ownerId: user.id,
+      chunking,
     });
 
-    console.log(`✅ PDF saved to database with ID: ${pdfRecord.id}`);
-    
-    // ⚠️ IMPORTANT: Do NOT process chunks inline for Vercel Hobby (10s timeout)
-    // Instead, return immediately and let the client call /api/chunk endpoint
-    console.log('✅ Upload complete. Client should call /api/chunk for processing.');
+    console.log(`✅ ${format.toUpperCase()} saved with ID: ${pdfRecord.id}`);
+    console.log(`✅ Upload complete. Queued ingestion job ${job.id}`);
+
+    if (isInlineProcessingEnabled()) {
+      after(() => drainJobQueue());
+    }
 
     return NextResponse.json({
       success: true,
       pdfId: pdfRecord.id,
       title: file.name,
       fileSize: file.size,
-      message: 'File uploaded successfully. Processing chunks in next step...',
-      needsProcessing: true, // Flag for client to call /api/chunk
+      format,
+      message: 'File uploaded successfully. Processing in the background...',
+      chunking,
+      jobId: job.id,
     }, { headers: corsHeaders });
   } catch (error) {
     console.error('❌ Upload error:', error);
@@ -0,0 +1,83 @@
+import { NextRequest, NextResponse, after } from 'next/server';
+import { getCurrentUser } from '@/lib/auth';
+import { drainJobQueue, isInlineProcessingEnabled } from '@/lib/jobs';
+import { storedChunkingSettings } from '@/lib/chunking';
+import { UploadError, completeUpload, getUploadSession } from '@/lib/uploads';
+
+// Streaming and hashing a few hundred MB of parts takes longer than the
+// 10s Hobby limit; large resumable uploads need a plan that allows 60s
+export const runtime = 'nodejs';
+export const maxDuration = 60;
+export const dynamic = 'force-dynamic';
+
+// CORS headers
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Methods': 'POST, OPTIONS',
+  'Access-Control-Allow-Headers': 'Content-Type, Authorization',
+};
+
+// Handle OPTIONS request for CORS preflight
+export async function OPTIONS() {
+  return NextResponse.json({}, { headers: corsHeaders });
+}
+
+// POST /api/uploads/[id]/complete - assemble the parts, verify the checksum
+// and queue the document for processing
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+    const user = await getCurrentUser(request);
+    if (!user) {
+      return NextResponse.json(
+        { error: 'Authentication required' },
+        { status: 401, headers: corsHeaders }
+      );
+    }
+
+    const session = await getUploadSession(id, user.id);
+    if (!session) {
+      return NextResponse.json(
+        { error: 'Upload not found' },
+        { status: 404, headers: corsHeaders }
+      );
+    }
+
+    const { pdfId, job } = await completeUpload(session);
+    console.log(`✅ Resumable upload ${session.id} complete. Document ${pdfId}, job ${job?.id}`);
+
+    if (isInlineProcessingEnabled()) {
+      after(() => drainJobQueue());
+    }
+
+    return NextResponse.json({
+      success: true,
+      pdfId,
+      title: session.fileName,
+      fileSize: session.fileSize,
+      format: session.format,
+      message: 'File uploaded successfully. Processing in the background...',
+      chunking: storedChunkingSettings(session),
+      jobId: job?.id ?? null,
+    }, { headers: corsHeaders });
+  } catch (error) {
+    if (error instanceof UploadError) {
+      return NextResponse.json(
+        { error: error.message },
+        { status: error.status, headers: corsHeaders }
+      );
+    }
+
+    console.error('❌ Error completing upload:', error);
+    return NextResponse.json(
+      {
+        error: 'Failed to complete upload',
+        details: error instanceof Error ? error.message : 'Unknown error'
+      },
+      { status: 500, headers: corsHeaders }
+    );
+  }
+}
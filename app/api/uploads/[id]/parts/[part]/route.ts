@@ -0,0 +1,69 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getCurrentUser } from '@/lib/auth';
+import { UploadError, getUploadSession, savePart } from '@/lib/uploads';
+
+export const runtime = 'nodejs';
+export const maxDuration = 10; // Vercel Hobby limit - DO NOT INCREASE
+export const dynamic = 'force-dynamic';
+
+// CORS headers
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Methods': 'PUT, OPTIONS',
+  'Access-Control-Allow-Headers': 'Content-Type, Authorization, X-Checksum-Sha256',
+};
+
+// Handle OPTIONS request for CORS preflight
+export async function OPTIONS() {
+  return NextResponse.json({}, { headers: corsHeaders });
+}
+
+// PUT /api/uploads/[id]/parts/[part] - store one part; the body is the raw bytes
+export async function PUT(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string; part: string }> }
+) {
+  try {
+    const { id, part } = await params;
+    const user = await getCurrentUser(request);
+    if (!user) {
+      return NextResponse.json(
+        { error: 'Authentication required' },
+        { status: 401, headers: corsHeaders }
+      );
+    }
+
+    const session = await getUploadSession(id, user.id);
+    if (!session) {
+      return NextResponse.json(
+        { error: 'Upload not found' },
+        { status: 404, headers: corsHeaders }
+      );
+    }
+
+    const partNumber = Number(part);
+    const data = Buffer.from(await request.arrayBuffer());
+    const checksum = await savePart(session, partNumber, data, request.headers.get('x-checksum-sha256'));
+
+    return NextResponse.json(
+      { success: true, partNumber, size: data.length, checksum },
+      { headers: corsHeaders }
+    );
+  } catch (error) {
+    if (error instanceof UploadError) {
+      return NextResponse.json(
+        { error: error.message },
+        { status: error.status, headers: corsHeaders }
+      );
+    }
+
+    console.error('❌ Error storing upload part:', error);
+    return NextResponse.json(
+      {
+        error: 'Failed to store part',
+        details: error instanceof Error ? error.message : 'Unknown error'
+      },
+      { status: 500, headers: corsHeaders }
+    );
+  }
+}
@@ -0,0 +1,94 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getCurrentUser } from '@/lib/auth';
+import { deleteUploadSession, getReceivedParts, getUploadSession, serializeUploadSession } from '@/lib/uploads';
+
+export const dynamic = 'force-dynamic';
+
+// CORS headers
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Methods': 'GET, DELETE, OPTIONS',
+  'Access-Control-Allow-Headers': 'Content-Type, Authorization',
+};
+
+// Handle OPTIONS request for CORS preflight
+export async function OPTIONS() {
+  return NextResponse.json({}, { headers: corsHeaders });
+}
+
+// GET /api/uploads/[id] - which parts have arrived, to resume an upload
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+    const user = await getCurrentUser(request);
+    if (!user) {
+      return NextResponse.json(
+        { error: 'Authentication required' },
+        { status: 401, headers: corsHeaders }
+      );
+    }
+
+    const session = await getUploadSession(id, user.id);
+    if (!session) {
+      return NextResponse.json(
+        { error: 'Upload not found' },
+        { status: 404, headers: corsHeaders }
+      );
+    }
+
+    return NextResponse.json(
+      { success: true, ...serializeUploadSession(session, await getReceivedParts(session.id)) },
+      { headers: { ...corsHeaders, 'Cache-Control': 'no-store' } }
+    );
+  } catch (error) {
+    console.error('Error fetching upload:', error);
+    return NextResponse.json(
+      {
+        error: 'Failed to fetch upload',
+        details: error instanceof Error ? error.message : 'Unknown error'
+      },
+      { status: 500, headers: corsHeaders }
+    );
+  }
+}
+
+// DELETE /api/uploads/[id] - abandon an upload and discard its parts
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+    const user = await getCurrentUser(request);
+    if (!user) {
+      return NextResponse.json(
+        { error: 'Authentication required' },
+        { status: 401, headers: corsHeaders }
+      );
+    }
+
+    const session = await getUploadSession(id, user.id);
+    if (!session || session.status === 'completed') {
+      return NextResponse.json(
+        { error: 'Upload not found' },
+        { status: 404, headers: corsHeaders }
+      );
+    }
+
+    await deleteUploadSession(session);
+
+    return NextResponse.json({ success: true }, { headers: corsHeaders });
+  } catch (error) {
+    console.error('Error deleting upload:', error);
+    return NextResponse.json(
+      {
+        error: 'Failed to delete upload',
+        details: error instanceof Error ? error.message : 'Unknown error'
+      },
+      { status: 500, headers: corsHeaders }
+    );
+  }
+}
@@ -0,0 +1,96 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getCurrentUser } from '@/lib/auth';
+import { CHUNKING_SETTINGS_RULES, parseChunkingSettings } from '@/lib/chunking';
+import { UploadError, createUploadSession, serializeUploadSession } from '@/lib/uploads';
+import { DUPLICATE_ACTIONS, duplicateUploadResponse, findExactDuplicate, parseDuplicateAction } from '@/lib/duplicates';
+
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+
+// CORS headers
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Methods': 'POST, OPTIONS',
+  'Access-Control-Allow-Headers': 'Content-Type, Authorization',
+};
+
+// Handle OPTIONS request for CORS preflight
+export async function OPTIONS() {
+  return NextResponse.json({}, { headers: corsHeaders });
+}
+
+// POST /api/uploads - start a resumable upload
+export async function POST(request: NextRequest) {
+  try {
+    const user = await getCurrentUser(request);
+    if (!user) {
+      return NextResponse.json(
+        { error: 'Authentication required' },
+        { status: 401, headers: corsHeaders }
+      );
+    }
+
+    const body = await request.json().catch(() => null);
+    if (!body) {
+      return NextResponse.json(
+        { error: 'Invalid JSON body' },
+        { status: 400, headers: corsHeaders }
+      );
+    }
+
+    const chunking = parseChunkingSettings(body.chunkingStrategy, body.chunkSize, body.chunkOverlap);
+    if (!chunking) {
+      return NextResponse.json(
+        { error: 'Invalid chunking settings', details: CHUNKING_SETTINGS_RULES },
+        { status: 400, headers: corsHeaders }
+      );
+    }
+
+    const onDuplicate = parseDuplicateAction(body.onDuplicate);
+    if (!onDuplicate) {
+      return NextResponse.json(
+        { error: 'Invalid onDuplicate', details: `Use one of: ${DUPLICATE_ACTIONS.join(', ')}` },
+        { status: 400, headers: corsHeaders }
+      );
+    }
+
+    // The checksum is the file's content hash, so duplicates are caught before any part is sent
+    if (onDuplicate !== 'upload' && typeof body.checksum === 'string') {
+      const duplicate = await findExactDuplicate(body.checksum.toLowerCase(), user.id);
+      if (duplicate) {
+        const { status, body: responseBody } = duplicateUploadResponse(duplicate, onDuplicate);
+        return NextResponse.json(responseBody, { status, headers: corsHeaders });
+      }
+    }
+
+    const session = await createUploadSession(user.id, {
+      fileName: body.fileName,
+      fileSize: body.fileSize,
+      mimeType: body.mimeType,
+      checksum: body.checksum,
+      chunking,
+    });
+    console.log(`📤 Started resumable upload ${session.id}: ${session.fileName} (${session.fileSize} bytes)`);
+
+    return NextResponse.json(
+      { success: true, ...serializeUploadSession(session, []) },
+      { status: 201, headers: { ...corsHeaders, Location: `/api/uploads/${session.id}` } }
+    );
+  } catch (error) {
+    if (error instanceof UploadError) {
+      return NextResponse.json(
+        { error: error.message },
+        { status: error.status, headers: corsHeaders }
+      );
+    }
+
+    console.error('❌ Error starting upload:', error);
+    return NextResponse.json(
+      {
+        error: 'Failed to start upload',
+        details: error instanceof Error ? error.message : 'Unknown error'
+      },
+      { status: 500, headers: corsHeaders }
+    );
+  }
+}
@@ -1,5 +1,6 @@
 ﻿"use client";
 import { useEffect, useState } from 'react';
+import Link from 'next/link';
 import { Card, CardContent, CardHeader, CardTitle, CardDescription } from '@/components/ui/Card';
 import { Badge } from '@/components/ui/Badge';
 import { ProgressBar, CircularProgress } from '@/components/ui/progress';
@@ -16,13 +17,19 @@ export default function DashboardPage() {
 	const [loading, setLoading] = useState(true);
 	const [attempts, setAttempts] = useState<QuizAttempt[]>([]);
 		const [topicStats, setTopicStats] = useState<TopicStat[]>([]);
+		const [signedOut, setSignedOut] = useState(false);
 
 		useEffect(() => {
 			let isMounted = true;
 			const load = async () => {
 				try {
 					setLoading(true);
-					const res = await fetch('/api/progress?userId=default-user');
+					const res = await fetch('/api/progress');
+					if (!isMounted) return;
+					if (res.status === 401) {
+						setSignedOut(true);
+						return;
+					}
 					const json = await res.json();
 					if (!isMounted) return;
 					if (json.success) {
@@ -50,6 +57,18 @@ export default function DashboardPage() {
 	const totalQuizzes = attempts.length;
 	const recent = attempts[attempts.length-1];
 
+	if (signedOut) {
+		return (
+			<div className="max-w-md mx-auto px-4 py-16 sm:py-24 text-center">
+				<h1 className="text-xl sm:text-2xl font-semibold tracking-tight gradient-text mb-2">Learning Dashboard</h1>
+				<p className="text-sm text-[var(--color-text-muted)] mb-6">Sign in to see your quiz history and progress.</p>
+				<Link href="/signin?next=/dashboard" className="inline-flex items-center px-4 py-2 bg-indigo-600 text-white rounded-lg hover:bg-indigo-700 transition-colors text-sm font-medium">
+					Sign in
+				</Link>
+			</div>
+		);
+	}
+
 	return (
 		<div className="max-w-7xl mx-auto px-4 sm:px-6 py-6 sm:py-10">
 			<div className="mb-8 sm:mb-10 flex flex-col sm:flex-row sm:items-end justify-between gap-4 sm:gap-6">
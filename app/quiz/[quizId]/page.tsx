@@ -17,7 +17,7 @@ interface QuizQuestion {
   maxScore: number;
   options?: string[];
   explanation?: string;
-  source?: Array<{ pdfId: string; page: number; snippet: string }>;
+  source?: Array<{ pdfId: string; page: number; section?: string | null; snippet: string }>;
   topic?: string; // derived client-side for remediation grouping
 }
 
@@ -78,7 +78,7 @@ export default function QuizPage() {
       .then(data => {
         if (data.success) {
           // derive topic heuristically from stem (simple placeholder) until backend adds taxonomy
-          interface IncomingQuestion { id:string; type:'mcq'|'saq'|'laq'; stem:string; maxScore:number; options?:string[]; explanation?:string; source?: Array<{ pdfId:string; page:number; snippet:string }>; }
+          interface IncomingQuestion { id:string; type:'mcq'|'saq'|'laq'; stem:string; maxScore:number; options?:string[]; explanation?:string; source?: Array<{ pdfId:string; page:number; section?:string|null; snippet:string }>; }
           const quizWithTopics: Quiz = {
             ...data.quiz,
             questions: (data.quiz.questions as IncomingQuestion[]).map((q) => ({
@@ -106,7 +106,6 @@ export default function QuizPage() {
     try {
       const payload = {
         quizId,
-        userId: 'user_demo', // Replace with actual user ID from auth
         answers: quiz.questions.map(q => {
           const answer = answers[q.id] || {};
           if (q.type === 'mcq') {
@@ -130,6 +129,12 @@ export default function QuizPage() {
         body: JSON.stringify(payload)
       });
 
+      if (response.status === 401) {
+        show({ type: 'warning', message: 'Please sign in to submit your answers.' });
+        router.push(`/signin?next=/quiz/${quizId}`);
+        return;
+      }
+
       const result = await response.json();
       if (response.ok) {
         setResult(result);
@@ -5,6 +5,7 @@ import { useRouter } from 'next/navigation';
 import { Card, CardContent, CardHeader, CardTitle, CardDescription } from '@/components/ui/Card';
 import { Button } from '@/components/ui/Button';
 import { Badge } from '@/components/ui/Badge';
+import { listCollections, type CollectionSummary } from '@/lib/api-client';
 
 interface PDF {
   id: string;
@@ -16,6 +17,7 @@ interface PDF {
 interface GenerateQuizForm {
   title: string;
   selectedPdfIds: string[];
+  collectionId: string; // Every document in this collection is added to the selection
   num_mcq: number;
   num_saq: number;
   num_laq: number;
@@ -27,9 +29,11 @@ export default function QuizGeneratorPage() {
   const [pdfs, setPdfs] = useState<PDF[]>([]);
   const [loading, setLoading] = useState(true);
   const [generating, setGenerating] = useState(false);
+  const [collections, setCollections] = useState<CollectionSummary[]>([]);
   const [form, setForm] = useState<GenerateQuizForm>({
     title: '',
     selectedPdfIds: [],
+    collectionId: '',
     num_mcq: 6,
     num_saq: 3,
     num_laq: 1,
@@ -50,8 +54,14 @@ export default function QuizGeneratorPage() {
         console.error('Error fetching PDFs:', error);
         setLoading(false);
       });
+
+    listCollections()
+      .then(({ collections }) => setCollections(collections))
+      .catch(() => setCollections([]));
   }, []);
 
+  const hasSources = form.selectedPdfIds.length > 0 || form.collectionId !== '';
+
   const handlePdfToggle = (pdfId: string) => {
     setForm(prev => ({
       ...prev,
@@ -62,8 +72,8 @@ export default function QuizGeneratorPage() {
   };
 
   const generateQuiz = async () => {
-    if (form.selectedPdfIds.length === 0) {
-      alert('Please select at least one PDF');
+    if (!hasSources) {
+      alert('Please select at least one PDF or a collection');
       return;
     }
 
@@ -80,6 +90,7 @@ export default function QuizGeneratorPage() {
         body: JSON.stringify({
           title: form.title,
           pdfIds: form.selectedPdfIds,
+          ...(form.collectionId && { collectionId: form.collectionId }),
           num_mcq: form.num_mcq,
           num_saq: form.num_saq,
           num_laq: form.num_laq,
@@ -112,7 +123,7 @@ export default function QuizGeneratorPage() {
             <h1 className="text-xl sm:text-2xl font-semibold tracking-tight gradient-text mb-2">Generate New Quiz</h1>
             <p className="text-sm text-[var(--color-text-muted)]">Combine multiple PDFs to create a tailored assessment.</p>
           </div>
-          <Button onClick={generateQuiz} disabled={generating || form.selectedPdfIds.length === 0 || !form.title.trim()} className="hidden lg:inline-flex">
+          <Button onClick={generateQuiz} disabled={generating || !hasSources || !form.title.trim()} className="hidden lg:inline-flex">
             {generating ? 'Generating…' : 'Generate Quiz'}
           </Button>
         </div>
@@ -128,6 +139,17 @@ export default function QuizGeneratorPage() {
                   <label className="block text-xs font-semibold tracking-wide mb-2 uppercase text-[var(--color-text-muted)]">Quiz Title</label>
                   <input type="text" value={form.title} onChange={(e) => setForm(prev => ({ ...prev, title: e.target.value }))} placeholder="e.g. Chapter 2 Concept Check" className="w-full px-3 sm:px-4 py-2 sm:py-3 rounded-xl border border-[var(--color-border)] bg-[var(--color-bg)] focus:outline-none focus:ring-2 focus:ring-indigo-400 text-sm" />
                 </div>
+                {collections.length > 0 && (
+                  <div>
+                    <label className="block text-xs font-semibold tracking-wide mb-2 uppercase text-[var(--color-text-muted)]">Course or Folder</label>
+                    <select value={form.collectionId} onChange={(e) => setForm(prev => ({ ...prev, collectionId: e.target.value }))} className="w-full px-3 sm:px-4 py-2 sm:py-3 rounded-xl border border-[var(--color-border)] bg-[var(--color-bg)] text-sm focus:outline-none focus:ring-2 focus:ring-indigo-400">
+                      <option value="">None</option>
+                      {collections.map(collection => (
+                        <option key={collection.id} value={collection.id}>{collection.name} ({collection.documentCount} document{collection.documentCount === 1 ? '' : 's'})</option>
+                      ))}
+                    </select>
+                  </div>
+                )}
                 <div>
                   <label className="block text-xs font-semibold tracking-wide mb-3 uppercase text-[var(--color-text-muted)]">Select Source PDFs ({form.selectedPdfIds.length} selected)</label>
                   {pdfs.length === 0 ? (
@@ -186,7 +208,7 @@ export default function QuizGeneratorPage() {
                 <div className="flex items-center justify-between text-sm"><span>Estimated Time</span><span className="font-semibold">{Math.ceil((form.num_mcq * 1 + form.num_saq * 2 + form.num_laq * 5) / 2)} mins</span></div>
                 <div className="flex items-center justify-between text-sm"><span>Total Points</span><span className="font-semibold">{form.num_mcq * 4 + form.num_saq * 4 + form.num_laq * 10}</span></div>
                 <div className="pt-2">
-                  <Button onClick={generateQuiz} disabled={generating || form.selectedPdfIds.length === 0 || !form.title.trim()} className="w-full">
+                  <Button onClick={generateQuiz} disabled={generating || !hasSources || !form.title.trim()} className="w-full">
                     {generating ? 'Generating…' : 'Generate Quiz'}
                   </Button>
                 </div>
@@ -198,7 +220,7 @@ export default function QuizGeneratorPage() {
             
             {/* Mobile action button */}
             <div className="lg:hidden">
-              <Button onClick={generateQuiz} disabled={generating || form.selectedPdfIds.length === 0 || !form.title.trim()} className="w-full">
+              <Button onClick={generateQuiz} disabled={generating || !hasSources || !form.title.trim()} className="w-full">
                 {generating ? 'Generating…' : 'Generate Quiz'}
               </Button>
             </div>
@@ -5,11 +5,13 @@ import { useParams, useRouter } from 'next/navigation';
 import PdfViewer from '@/components/PdfViewer';
 import ChatPanel from '@/components/ChatPanel';
 import VideoRecommendations from '@/components/VideoRecommendations';
+import { formatLabel } from '@/lib/document-formats';
 
 interface PDF {
   id: string;
   title: string;
   url: string;
+  format: string;
   createdAt: string;
 }
 
@@ -147,11 +149,21 @@ export default function ReaderPage() {
       <div className="flex-1 flex overflow-hidden">
         {/* PDF Viewer */}
         <div className={`flex-1 transition-all duration-300 ${sidebarOpen ? 'hidden lg:block lg:w-2/3' : 'w-full'}`}>
-          <PdfViewer
-            pdfUrl={`/api/pdf/${activePdfId}?download=true`}
-            currentPage={currentPage}
-            onPageChange={handleGoToPage}
-          />
+          {pdf.format === 'pdf' ? (
+            <PdfViewer
+              pdfUrl={`/api/pdf/${activePdfId}?download=true`}
+              currentPage={currentPage}
+              onPageChange={handleGoToPage}
+            />
+          ) : (
+            // Other formats can be chatted with and quizzed on, but only PDFs are previewed
+            <div className="h-full flex flex-col items-center justify-center gap-3 p-6 text-center text-gray-600">
+              <p className="text-sm">Preview isn&apos;t available for {formatLabel(pdf.format)} documents.</p>
+              <a href={`/api/pdf/${activePdfId}?download=true`} className="text-sm font-medium text-blue-600 hover:underline">
+                Download {pdf.title}
+              </a>
+            </div>
+          )}
         </div>
 
         {/* Sidebar Panel */}
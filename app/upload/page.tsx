@@ -5,6 +5,16 @@ import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/com
 import { Badge } from '@/components/ui/Badge';
 import { Button } from '@/components/ui/Button';
 import { ProgressBar } from '@/components/ui/progress';
+import { waitForJob, type IngestionJobStatus } from '@/lib/api-client';
+import { CHUNKING_STRATEGIES, DEFAULT_CHUNKING_STRATEGY, type ChunkingStrategy } from '@/lib/chunking';
+import { ACCEPTED_FILE_EXTENSIONS } from '@/lib/document-formats';
+
+const CHUNKING_STRATEGY_LABELS: Record<ChunkingStrategy, string> = {
+  structure: 'By sections (recommended)',
+  semantic: 'By topic',
+  sentence: 'By sentences',
+  fixed: 'Fixed size',
+};
 
 interface SourcePdf {
   id: string;
@@ -20,6 +30,7 @@ interface UploadResult {
   pdfId?: string;
   filename?: string;
   message?: string;
+  jobId?: string;
   error?: string;
 }
 
@@ -33,10 +44,12 @@ interface ChunkResult {
 
 export default function UploadPage() {
   const [file, setFile] = useState<File | null>(null);
+  const [chunkingStrategy, setChunkingStrategy] = useState<ChunkingStrategy>(DEFAULT_CHUNKING_STRATEGY);
   const [uploading, setUploading] = useState(false);
   const [chunking, setChunking] = useState(false);
   const [uploadResult, setUploadResult] = useState<UploadResult | null>(null);
   const [chunkResult, setChunkResult] = useState<ChunkResult | null>(null);
+  const [job, setJob] = useState<IngestionJobStatus | null>(null);
   const [pdfs, setPdfs] = useState<SourcePdf[]>([]);
   const [loadingPdfs, setLoadingPdfs] = useState(true);
   const [refreshFlag, setRefreshFlag] = useState(0);
@@ -80,6 +93,7 @@ export default function UploadPage() {
     
     const formData = new FormData();
     formData.append('file', file);
+    formData.append('chunkingStrategy', chunkingStrategy);
 
     try {
       const response = await fetch('/api/upload', {
@@ -96,6 +110,11 @@ export default function UploadPage() {
         if (response.status === 405) {
           errorMessage = 'Server error: Upload endpoint not accessible. Please check deployment configuration.';
         }
+
+        if (response.status === 401) {
+          setUploadResult({ error: 'Please sign in to upload documents.' });
+          return;
+        }
         
         if (contentType && contentType.includes('application/json')) {
           try {
@@ -131,8 +150,8 @@ export default function UploadPage() {
       setUploadResult(result);
       
       if (result.success) {
-        handleChunk(result.pdfId);
         setRefreshFlag(f => f + 1); // refresh list
+        if (result.jobId) trackProcessing(result.jobId);
       }
     } catch (error) {
       console.error('Upload failed:', error);
@@ -144,45 +163,23 @@ export default function UploadPage() {
     }
   };
 
-  const handleChunk = async (pdfId: string) => {
+  // Upload queues background processing; follow the job until it finishes
+  const trackProcessing = async (jobId: string) => {
     setChunking(true);
-    
-    try {
-      const response = await fetch('/api/chunk', {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-        },
-        body: JSON.stringify({ pdfId }),
-      });
-
-      // Check if response is OK
-      if (!response.ok) {
-        const contentType = response.headers.get('content-type');
-        let errorMessage = `Chunking failed with status ${response.status}`;
-        
-        if (contentType && contentType.includes('application/json')) {
-          try {
-            const errorData = await response.json();
-            errorMessage = errorData.error || errorData.message || errorMessage;
-          } catch (e) {
-            console.error('Failed to parse error response:', e);
-          }
-        }
-        
-        setChunkResult({ error: errorMessage });
-        return;
-      }
+    setJob(null);
 
-      const result = await response.json();
-      setChunkResult(result);
+    try {
+      const finished = await waitForJob(jobId, { onUpdate: setJob });
+      const stats = finished.result as { totalChunks?: number } | null;
+      setChunkResult({ success: true, chunksCount: stats?.totalChunks });
     } catch (error) {
-      console.error('Chunking failed:', error);
+      console.error('Processing failed:', error);
       setChunkResult({ 
-        error: error instanceof Error ? error.message : 'Chunking failed - Network or server error' 
+        error: error instanceof Error ? error.message : 'Processing failed - Network or server error' 
       });
     } finally {
       setChunking(false);
+      setRefreshFlag(f => f + 1);
     }
   };
 
@@ -191,15 +188,15 @@ export default function UploadPage() {
       <div className="mb-8 sm:mb-10 flex flex-col lg:flex-row gap-6 sm:gap-8">
         <Card className="flex-1" interactive>
           <CardHeader>
-            <CardTitle>Upload PDF</CardTitle>
-            <CardDescription>Supported: single PDF per upload (max 4.5MB for Hobby plan)</CardDescription>
+            <CardTitle>Upload Document</CardTitle>
+            <CardDescription>Supported: PDF, Word, PowerPoint, Markdown, HTML or text, one file per upload (max 4.5MB for Hobby plan)</CardDescription>
           </CardHeader>
           <CardContent>
             <div className="border-2 border-dashed border-[var(--color-border)] rounded-xl p-4 sm:p-8 text-center relative">
-              <input type="file" accept=".pdf" onChange={handleFileChange} className="hidden" id="fileInput" />
+              <input type="file" accept={ACCEPTED_FILE_EXTENSIONS.join(',')} onChange={handleFileChange} className="hidden" id="fileInput" />
               <label htmlFor="fileInput" className="cursor-pointer inline-flex flex-col items-center gap-3 touch-target">
                 <span className="h-12 w-12 sm:h-14 sm:w-14 rounded-xl bg-gradient-to-tr from-indigo-600 to-fuchsia-500 text-white flex items-center justify-center shadow text-xl sm:text-2xl">📄</span>
-                <span className="text-sm font-medium">{file ? 'Change File' : 'Choose PDF File'}</span>
+                <span className="text-sm font-medium">{file ? 'Change File' : 'Choose File'}</span>
                 <span className="text-xs text-[var(--color-text-muted)]">Click to select</span>
               </label>
               {file && (
@@ -208,9 +205,22 @@ export default function UploadPage() {
                   <p className="text-xs text-[var(--color-text-muted)]">Size: {(file.size/1024/1024).toFixed(2)} MB</p>
                 </div>
               )}
+              <div className="mt-4 sm:mt-6 flex items-center justify-center gap-2 text-xs">
+                <label htmlFor="chunkingStrategy" className="text-[var(--color-text-muted)]">Chunking</label>
+                <select
+                  id="chunkingStrategy"
+                  value={chunkingStrategy}
+                  onChange={e => setChunkingStrategy(e.target.value as ChunkingStrategy)}
+                  className="rounded-md border border-[var(--color-border)] bg-[var(--color-bg)] px-2 py-1"
+                >
+                  {CHUNKING_STRATEGIES.map(strategy => (
+                    <option key={strategy} value={strategy}>{CHUNKING_STRATEGY_LABELS[strategy]}</option>
+                  ))}
+                </select>
+              </div>
               <div className="mt-4 sm:mt-6 flex justify-center">
                 <Button onClick={handleUpload} disabled={!file || uploading} variant="primary" className="min-w-32 sm:min-w-40">
-                  {uploading ? 'Uploading…' : 'Upload PDF'}
+                  {uploading ? 'Uploading…' : 'Upload'}
                 </Button>
               </div>
               {uploadResult && (
@@ -224,8 +234,10 @@ export default function UploadPage() {
               )}
               {chunking && (
                 <div className="mt-4">
-                  <ProgressBar value={45} />
-                  <p className="text-xs text-[var(--color-text-muted)] mt-2">Processing chunks…</p>
+                  <ProgressBar value={job?.progress ?? 0} />
+                  <p className="text-xs text-[var(--color-text-muted)] mt-2">
+                    {!job || job.status === 'queued' ? 'Queued for processing…' : `Processing${job.stage ? ` (${job.stage})` : ''}… ${job.progress}%`}
+                  </p>
                 </div>
               )}
               {chunkResult && (
@@ -247,11 +259,12 @@ export default function UploadPage() {
           </CardHeader>
           <CardContent>
             <ol className="list-decimal list-inside space-y-1 text-xs text-[var(--color-text-muted)]">
-              <li>Upload a PDF to the server.</li>
+              <li>Upload a document to the server.</li>
               <li>System parses and splits text.</li>
               <li>Creates overlapping chunks (1000 chars + 200 overlap).</li>
               <li>Stores chunks for retrieval / quizzes.</li>
-              <li>Embeddings added (future vector step).</li>
+              <li>Embeds chunks for semantic search.</li>
+              <li>Runs in a background worker; progress updates live.</li>
             </ol>
           </CardContent>
         </Card>
@@ -0,0 +1,122 @@
+'use client';
+
+import { useState } from 'react';
+import Link from 'next/link';
+import { useRouter } from 'next/navigation';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/Card';
+import { Button } from '@/components/ui/Button';
+
+interface AuthFormProps {
+  mode: 'signin' | 'signup';
+}
+
+export default function AuthForm({ mode }: AuthFormProps) {
+  const router = useRouter();
+  const [name, setName] = useState('');
+  const [email, setEmail] = useState('');
+  const [password, setPassword] = useState('');
+  const [submitting, setSubmitting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const isSignUp = mode === 'signup';
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setSubmitting(true);
+    setError(null);
+
+    try {
+      const response = await fetch(`/api/auth/${mode}`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(isSignUp ? { name, email, password } : { email, password }),
+      });
+      const data = await response.json();
+
+      if (!response.ok || !data.success) {
+        setError(data.error || 'Something went wrong. Please try again.');
+        return;
+      }
+
+      // Only follow same-origin relative redirects
+      const next = new URLSearchParams(window.location.search).get('next');
+      router.push(next && next.startsWith('/') && !next.startsWith('//') ? next : '/dashboard');
+      router.refresh();
+    } catch (err) {
+      console.error('Authentication error:', err);
+      setError('Network error. Please try again.');
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  return (
+    <div className="min-h-[calc(100vh-4rem)] flex items-center justify-center px-4 py-10 bg-gradient-to-br from-indigo-50 via-white to-fuchsia-50">
+      <Card className="w-full max-w-md">
+        <CardHeader>
+          <CardTitle>{isSignUp ? 'Create your account' : 'Welcome back'}</CardTitle>
+          <CardDescription>
+            {isSignUp ? 'Track your quizzes and progress across sessions.' : 'Sign in to continue learning.'}
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          <form onSubmit={handleSubmit} className="space-y-4">
+            {isSignUp && (
+              <div>
+                <label htmlFor="auth-name" className="block text-xs font-semibold tracking-wide mb-2 uppercase text-[var(--color-text-muted)]">Name</label>
+                <input
+                  id="auth-name"
+                  type="text"
+                  value={name}
+                  onChange={(e) => setName(e.target.value)}
+                  autoComplete="name"
+                  className="w-full px-3 sm:px-4 py-2 sm:py-3 rounded-xl border border-[var(--color-border)] bg-[var(--color-bg)] focus:outline-none focus:ring-2 focus:ring-indigo-400 text-sm"
+                />
+              </div>
+            )}
+            <div>
+              <label htmlFor="auth-email" className="block text-xs font-semibold tracking-wide mb-2 uppercase text-[var(--color-text-muted)]">Email</label>
+              <input
+                id="auth-email"
+                type="email"
+                required
+                value={email}
+                onChange={(e) => setEmail(e.target.value)}
+                autoComplete="email"
+                className="w-full px-3 sm:px-4 py-2 sm:py-3 rounded-xl border border-[var(--color-border)] bg-[var(--color-bg)] focus:outline-none focus:ring-2 focus:ring-indigo-400 text-sm"
+              />
+            </div>
+            <div>
+              <label htmlFor="auth-password" className="block text-xs font-semibold tracking-wide mb-2 uppercase text-[var(--color-text-muted)]">Password</label>
+              <input
+                id="auth-password"
+                type="password"
+                required
+                minLength={isSignUp ? 8 : undefined}
+                value={password}
+                onChange={(e) => setPassword(e.target.value)}
+                autoComplete={isSignUp ? 'new-password' : 'current-password'}
+                className="w-full px-3 sm:px-4 py-2 sm:py-3 rounded-xl border border-[var(--color-border)] bg-[var(--color-bg)] focus:outline-none focus:ring-2 focus:ring-indigo-400 text-sm"
+              />
+            </div>
+
+            {error && (
+              <p className="text-xs px-3 py-2 rounded-lg bg-red-500/10 border border-red-400/40 text-red-600" role="alert">{error}</p>
+            )}
+
+            <Button type="submit" disabled={submitting} className="w-full">
+              {submitting ? 'Please wait…' : isSignUp ? 'Create account' : 'Sign in'}
+            </Button>
+          </form>
+
+          <p className="mt-6 text-center text-xs text-[var(--color-text-muted)]">
+            {isSignUp ? 'Already have an account?' : 'New here?'}{' '}
+            <Link href={isSignUp ? '/signin' : '/signup'} className="font-semibold text-indigo-600 hover:text-indigo-700">
+              {isSignUp ? 'Sign in' : 'Create an account'}
+            </Link>
+          </p>
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
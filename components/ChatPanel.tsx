@@ -1,7 +1,18 @@
 'use client';
 
-import { useState, useRef, useEffect } from 'react';
+import { useState, useRef, useEffect, useCallback } from 'react';
 import { useToast } from '@/components/ui/toast';
+import {
+  deleteConversation,
+  getConversation,
+  listCollections,
+  listConversations,
+  streamChatWithDocument,
+  type ChatCitation,
+  type CollectionSummary,
+  type ConversationSummary,
+} from '@/lib/api-client';
+import { SECTION_PATH_SEPARATOR, formatLocation, type ChunkLocation } from '@/lib/chunking';
 
 interface Message {
   id: string;
@@ -10,14 +21,23 @@ interface Message {
   sources?: Array<{
     id: string;
     pageNum: number;
+    location?: ChunkLocation | null; // absent on answers saved before non-PDF documents
+    sectionPath?: string | null; // absent on answers saved before section-aware chunking
     content: string;
     snippet: string;
+    pdfId?: string; // absent on answers saved before multi-document chat
     pdfTitle: string;
     similarity?: number;
   }>;
+  citations?: ChatCitation[];
   timestamp: Date;
 }
 
+// How a citation names its location: "p. 3", "slide 4", "section 2", "line 10"
+function citationLocation(citation: ChatCitation): string {
+  return !citation.unit || citation.unit === 'page' ? `p. ${citation.pageNum}` : `${citation.unit} ${citation.pageNum}`;
+}
+
 interface PDF {
   id: string;
   title: string;
@@ -40,8 +60,18 @@ export default function ChatPanel({ pdfId, onGoToPage, onPdfChange }: ChatPanelP
   const [error, setError] = useState<string | null>(null);
   const [pdfs, setPdfs] = useState<PDF[]>([]);
   const [selectedPdfId, setSelectedPdfId] = useState(pdfId);
+  // Other documents included in the chat alongside the selected one
+  const [extraPdfIds, setExtraPdfIds] = useState<string[]>([]);
+  // One of the user's collections whose documents are also included
+  const [collections, setCollections] = useState<CollectionSummary[]>([]);
+  const [collectionId, setCollectionId] = useState('');
   const [currentPdf, setCurrentPdf] = useState<PDF | null>(null);
   const [loadingPdfs, setLoadingPdfs] = useState(true);
+  const [streamingMessageId, setStreamingMessageId] = useState<string | null>(null);
+  // null while signed out: conversations are only persisted for signed-in users
+  const [conversations, setConversations] = useState<ConversationSummary[] | null>(null);
+  const [conversationId, setConversationId] = useState<string | null>(null);
+  const abortControllerRef = useRef<AbortController | null>(null);
   const messagesEndRef = useRef<HTMLDivElement>(null);
   const inputRef = useRef<HTMLInputElement>(null);
 
@@ -72,14 +102,80 @@ export default function ChatPanel({ pdfId, onGoToPage, onPdfChange }: ChatPanelP
     fetchPdfs();
   }, [pdfId, show]);
 
+  useEffect(() => {
+    listCollections()
+      .then(({ collections }) => setCollections(collections))
+      .catch(() => setCollections([]));
+  }, []);
+
+  const refreshConversations = useCallback(async (forPdfId: string) => {
+    if (!forPdfId) {
+      setConversations(null);
+      return;
+    }
+    try {
+      setConversations(await listConversations(forPdfId));
+    } catch {
+      // Signed out (or history unavailable): hide the history controls
+      setConversations(null);
+    }
+  }, []);
+
+  useEffect(() => {
+    refreshConversations(selectedPdfId);
+  }, [selectedPdfId, refreshConversations]);
+
+  // Resume a saved conversation, or start a fresh one when id is empty
+  const handleConversationChange = async (id: string) => {
+    abortControllerRef.current?.abort();
+    setError(null);
+    setConversationId(id || null);
+
+    if (!id) {
+      setMessages([]);
+      return;
+    }
+
+    try {
+      const conversation = await getConversation(id);
+      setMessages(conversation.messages.map(message => ({
+        id: message.id,
+        type: message.role === 'assistant' ? 'assistant' : 'user',
+        content: message.content,
+        sources: message.sources || undefined,
+        citations: message.citations || undefined,
+        timestamp: new Date(message.createdAt),
+      })));
+    } catch (err) {
+      console.error('Error loading conversation:', err);
+      show({ type: 'error', message: 'Failed to load conversation' });
+    }
+  };
+
+  const handleDeleteConversation = async () => {
+    if (!conversationId) return;
+    try {
+      await deleteConversation(conversationId);
+      setConversationId(null);
+      setMessages([]);
+      await refreshConversations(selectedPdfId);
+      show({ type: 'success', message: 'Conversation deleted' });
+    } catch (err) {
+      console.error('Error deleting conversation:', err);
+      show({ type: 'error', message: 'Failed to delete conversation' });
+    }
+  };
+
   // Handle PDF selection change
   const handlePdfChange = (newPdfId: string) => {
     setSelectedPdfId(newPdfId);
+    setExtraPdfIds(prev => prev.filter(id => id !== newPdfId));
     const newPdf = pdfs.find(pdf => pdf.id === newPdfId);
     setCurrentPdf(newPdf || null);
     
-    // Clear messages when switching PDFs
+    // Clear messages when switching PDFs; conversations are per document
     setMessages([]);
+    setConversationId(null);
     setError(null);
     
     // Notify parent component about PDF change
@@ -88,6 +184,26 @@ export default function ChatPanel({ pdfId, onGoToPage, onPdfChange }: ChatPanelP
     }
   };
 
+  // Add or remove a document from the chat; a different set starts a new conversation
+  const toggleExtraPdf = (id: string) => {
+    abortControllerRef.current?.abort();
+    setExtraPdfIds(prev => prev.includes(id) ? prev.filter(other => other !== id) : [...prev, id]);
+    setMessages([]);
+    setConversationId(null);
+    setError(null);
+  };
+
+  const handleCollectionChange = (id: string) => {
+    abortControllerRef.current?.abort();
+    setCollectionId(id);
+    setMessages([]);
+    setConversationId(null);
+    setError(null);
+  };
+
+  const isMultiDocument = extraPdfIds.length > 0 || collectionId !== '';
+  const selectedCollection = collections.find(collection => collection.id === collectionId);
+
   const scrollToBottom = () => {
     messagesEndRef.current?.scrollIntoView({ behavior: 'smooth' });
   };
@@ -102,22 +218,14 @@ export default function ChatPanel({ pdfId, onGoToPage, onPdfChange }: ChatPanelP
 
   const liveRegionRef = useRef<HTMLDivElement>(null);
 
-  const appendAssistantStreaming = async (fullText: string, sources: Message['sources']) => {
-    const id = generateMessageId();
-    const baseMessage: Message = { id, type: 'assistant', content: '', sources, timestamp: new Date() };
-    setMessages(prev => [...prev, baseMessage]);
-    const tokens = fullText.split(/(\s+)/);
-    let assembled = '';
-    for (let i = 0; i < tokens.length; i++) {
-      assembled += tokens[i];
-      await new Promise(r => setTimeout(r, Math.min(30, 10 + Math.random()*40)));
-      setMessages(prev => prev.map(m => m.id === id ? { ...m, content: assembled } : m));
-      if (i % 6 === 0 && liveRegionRef.current) {
-        liveRegionRef.current.textContent = assembled.slice(-140); // update live region with trailing snippet
-      }
-    }
+  // Stop an in-flight answer; the text received so far is kept
+  const handleStop = () => {
+    abortControllerRef.current?.abort();
   };
 
+  // Abort any in-flight stream when the panel unmounts
+  useEffect(() => () => abortControllerRef.current?.abort(), []);
+
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
     
@@ -135,33 +243,59 @@ export default function ChatPanel({ pdfId, onGoToPage, onPdfChange }: ChatPanelP
     setIsLoading(true);
     setError(null);
 
-    try {
-      const response = await fetch('/api/chat', {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-        },
-        body: JSON.stringify({
-          query: userMessage.content,
-          pdfId: selectedPdfId,
-        }),
-      });
-
-      const data = await response.json();
+    const controller = new AbortController();
+    abortControllerRef.current = controller;
+    const assistantId = generateMessageId();
+    let assembled = '';
+    let tokenCount = 0;
+    let started = false;
 
-      if (data.success) {
-        await appendAssistantStreaming(data.answer || '', data.sources);
-        show({ type: 'success', message: 'Answer generated' });
+    // Create the assistant message on the first event, then patch it in place
+    const updateAssistant = (patch: Partial<Message>) => {
+      if (!started) {
+        started = true;
+        setStreamingMessageId(assistantId);
+        setMessages(prev => [...prev, { id: assistantId, type: 'assistant', content: '', timestamp: new Date(), ...patch }]);
       } else {
-        setError(data.error || 'Failed to get response from AI');
-        show({ type: 'error', message: data.error || 'AI response failed' });
+        setMessages(prev => prev.map(m => m.id === assistantId ? { ...m, ...patch } : m));
+      }
+    };
+
+    try {
+      const events = streamChatWithDocument(userMessage.content, [selectedPdfId, ...extraPdfIds], {
+        conversationId: conversationId || undefined,
+        collectionId: collectionId || undefined,
+        signal: controller.signal,
+      });
+      for await (const event of events) {
+        if (event.type === 'conversation') {
+          setConversationId(event.conversationId);
+        } else if (event.type === 'token') {
+          assembled += event.text;
+          updateAssistant({ content: assembled });
+          if (tokenCount % 6 === 0 && liveRegionRef.current) {
+            liveRegionRef.current.textContent = assembled.slice(-140); // update live region with trailing snippet
+          }
+          tokenCount++;
+        } else {
+          updateAssistant({ sources: event.sources, citations: event.citations });
+        }
       }
+      show({ type: 'success', message: 'Answer generated' });
     } catch (err) {
-      console.error('Chat error:', err);
-      setError('Network error. Please try again.');
-      show({ type: 'error', message: 'Network error' });
+      if (controller.signal.aborted) {
+        show({ type: 'info', message: 'Generation stopped' });
+      } else {
+        console.error('Chat error:', err);
+        const message = err instanceof Error ? err.message : 'Network error. Please try again.';
+        setError(message);
+        show({ type: 'error', message });
+      }
     } finally {
+      abortControllerRef.current = null;
+      setStreamingMessageId(null);
       setIsLoading(false);
+      refreshConversations(selectedPdfId);
     }
   };
 
@@ -213,6 +347,74 @@ export default function ChatPanel({ pdfId, onGoToPage, onPdfChange }: ChatPanelP
             📄 {currentPdf.title} • Uploaded {new Date(currentPdf.createdAt).toLocaleDateString()}
           </p>
         )}
+        {selectedPdfId && (collections.length > 0 || pdfs.some(pdf => pdf.id !== selectedPdfId && pdf.hasChunks)) && (
+          <details className="mt-2">
+            <summary className="cursor-pointer text-xs text-[var(--color-text-muted)] select-none">
+              Also ask across other documents{extraPdfIds.length > 0 ? ` (${extraPdfIds.length} selected)` : ''}{selectedCollection ? ` + ${selectedCollection.name}` : ''}
+            </summary>
+            {collections.length > 0 && (
+              <select
+                value={collectionId}
+                onChange={(e) => handleCollectionChange(e.target.value)}
+                disabled={isLoading}
+                aria-label="Include a collection"
+                className="w-full mt-2 px-3 py-1.5 text-xs bg-[var(--color-bg)] border border-[var(--color-border)] rounded-lg focus:ring-2 focus:ring-indigo-400 focus:outline-none disabled:opacity-50"
+              >
+                <option value="">No collection</option>
+                {collections.map(collection => (
+                  <option key={collection.id} value={collection.id}>
+                    {collection.kind === 'course' ? '🎓' : '📁'} {collection.name} ({collection.documentCount})
+                  </option>
+                ))}
+              </select>
+            )}
+            <ul className="mt-2 max-h-32 overflow-y-auto space-y-1">
+              {pdfs.filter(pdf => pdf.id !== selectedPdfId && pdf.hasChunks).map((pdf) => (
+                <li key={pdf.id}>
+                  <label className="flex items-center gap-2 text-xs cursor-pointer">
+                    <input
+                      type="checkbox"
+                      checked={extraPdfIds.includes(pdf.id)}
+                      onChange={() => toggleExtraPdf(pdf.id)}
+                      disabled={isLoading}
+                      className="accent-indigo-500"
+                    />
+                    <span className="truncate">{pdf.title}</span>
+                  </label>
+                </li>
+              ))}
+            </ul>
+          </details>
+        )}
+        {/* Saved conversations are listed per document, so history is single-document only */}
+        {selectedPdfId && conversations && !isMultiDocument && (
+          <div className="flex items-center gap-2 mt-2">
+            <select
+              value={conversationId || ''}
+              onChange={(e) => handleConversationChange(e.target.value)}
+              disabled={isLoading}
+              aria-label="Conversation history"
+              className="flex-1 min-w-0 px-3 py-1.5 text-xs bg-[var(--color-bg)] border border-[var(--color-border)] rounded-lg focus:ring-2 focus:ring-indigo-400 focus:outline-none disabled:opacity-50"
+            >
+              <option value="">＋ New conversation</option>
+              {conversations.map((conversation) => (
+                <option key={conversation.id} value={conversation.id}>
+                  {conversation.title} ({new Date(conversation.updatedAt).toLocaleDateString()})
+                </option>
+              ))}
+            </select>
+            {conversationId && (
+              <button
+                onClick={handleDeleteConversation}
+                disabled={isLoading}
+                className="text-xs px-2 py-1.5 rounded-lg border border-[var(--color-border)] text-red-600 hover:bg-red-500/10 disabled:opacity-50"
+                aria-label="Delete conversation"
+              >
+                Delete
+              </button>
+            )}
+          </div>
+        )}
       </div>
 
       {/* Messages */}
@@ -233,7 +435,9 @@ export default function ChatPanel({ pdfId, onGoToPage, onPdfChange }: ChatPanelP
               💬
             </div>
             <h3 className="text-base sm:text-lg font-semibold mb-2">Start a conversation</h3>
-            <p className="text-sm text-[var(--color-text-muted)] leading-relaxed">Ask concept explanations, summaries, or clarifications about {currentPdf?.title}.</p>
+            <p className="text-sm text-[var(--color-text-muted)] leading-relaxed">
+              Ask concept explanations, summaries, or clarifications about {isMultiDocument ? `${currentPdf?.title} and ${selectedCollection ? `the documents in ${selectedCollection.name}` : `${extraPdfIds.length} other document${extraPdfIds.length > 1 ? 's' : ''}`}` : currentPdf?.title}.
+            </p>
           </div>
         )}
 
@@ -241,17 +445,52 @@ export default function ChatPanel({ pdfId, onGoToPage, onPdfChange }: ChatPanelP
           <div key={message.id} className={`flex ${message.type === 'user' ? 'justify-end' : 'justify-start'} animate-fade-in-up`} role="group" aria-label={message.type === 'user' ? 'Your message' : 'Assistant response'}>
             <div className={`group relative break-words word-break-all overflow-hidden max-w-[92%] sm:max-w-[78%] px-3 sm:px-5 py-2 sm:py-3 rounded-2xl shadow-sm text-sm leading-relaxed tracking-normal whitespace-pre-wrap ${message.type === 'user' ? 'bg-gradient-to-tr from-indigo-600 to-fuchsia-500 text-white rounded-br-sm' : 'glass border border-[var(--color-border)]/60 text-[var(--color-text)] rounded-bl-sm'} transition-all`}>
               <div className={`prose-chat ${message.type === 'user' ? '' : 'text-[var(--color-text)]'} text-sm`}>{message.content}</div>
+              {message.type === 'assistant' && message.citations && message.citations.length > 0 && (
+                <ul className="mt-2 sm:mt-3 space-y-1" aria-label="Citations">
+                  {message.citations.map((citation, index) => (
+                    <li key={index} className="text-xs">
+                      {citation.verified ? (
+                        <button
+                          onClick={() => citation.pdfId === selectedPdfId && handleCitationClick(citation.pageNum)}
+                          className="text-left text-emerald-700 dark:text-emerald-400 hover:underline"
+                          title={citation.sectionPath ? `Quote found in ${citation.sectionPath}` : 'Quote found in the document'}
+                        >
+                          ✓ {citation.pdfTitle ? `${citation.pdfTitle}, ` : ''}{citationLocation(citation)}: “{citation.quote.length > 60 ? citation.quote.slice(0, 60) + '…' : citation.quote}”
+                        </button>
+                      ) : (
+                        <span className="text-amber-700 dark:text-amber-400" title="This quote could not be found at the cited location">
+                          ⚠ {citation.pdfTitle ? `${citation.pdfTitle}, ` : ''}{citationLocation(citation)}: quote not found in the document
+                        </span>
+                      )}
+                    </li>
+                  ))}
+                </ul>
+              )}
               {message.type === 'assistant' && message.sources && message.sources.length > 0 && (
                 <details className="mt-2 sm:mt-3 group/source">
                   <summary className="cursor-pointer text-xs font-semibold opacity-70 hover:opacity-100 select-none">References ({message.sources.length})</summary>
                   <ul className="mt-2 space-y-2">
-                    {message.sources.map(source => (
-                      <li key={source.id}>
-                        <button onClick={() => handleCitationClick(source.pageNum)} className="w-full text-left text-xs px-2 sm:px-3 py-2 rounded-lg bg-white/70 dark:bg-white/10 hover:bg-indigo-50 dark:hover:bg-indigo-500/20 border border-[var(--color-border)]/60 transition-colors">
-                          <span className="font-medium">Page {source.pageNum}:</span> {source.snippet.slice(0, 80)}{source.snippet.length > 80 ? '…' : ''}
-                        </button>
-                      </li>
-                    ))}
+                    {message.sources.map(source => {
+                      const sourceClassName = 'block w-full text-left text-xs px-2 sm:px-3 py-2 rounded-lg bg-white/70 dark:bg-white/10 hover:bg-indigo-50 dark:hover:bg-indigo-500/20 border border-[var(--color-border)]/60 transition-colors';
+                      const label = (
+                        <>
+                          <span className="font-medium">
+                            {source.pdfId && source.pdfId !== selectedPdfId ? `${source.pdfTitle}, ` : ''}{formatLocation(source.pageNum, source.location)}
+                            {source.sectionPath && <span title={source.sectionPath}> · {source.sectionPath.split(SECTION_PATH_SEPARATOR).pop()}</span>}:
+                          </span> {source.snippet.slice(0, 80)}{source.snippet.length > 80 ? '…' : ''}
+                        </>
+                      );
+                      return (
+                        <li key={source.id}>
+                          {source.pdfId && source.pdfId !== selectedPdfId ? (
+                            // Quotes from other documents open that document in the reader
+                            <a href={`/reader/${source.pdfId}`} target="_blank" rel="noopener noreferrer" className={sourceClassName}>{label}</a>
+                          ) : (
+                            <button onClick={() => handleCitationClick(source.pageNum)} className={sourceClassName}>{label}</button>
+                          )}
+                        </li>
+                      );
+                    })}
                   </ul>
                 </details>
               )}
@@ -271,7 +510,7 @@ export default function ChatPanel({ pdfId, onGoToPage, onPdfChange }: ChatPanelP
           </div>
         ))}
 
-        {isLoading && (
+        {isLoading && !streamingMessageId && (
           <div className="flex justify-start animate-fade-in-up" aria-live="polite" aria-label="Assistant is thinking">
             <div className="glass px-5 py-3 rounded-2xl text-sm shadow-sm flex items-center gap-3">
               <div className="flex gap-1">
@@ -313,14 +552,25 @@ export default function ChatPanel({ pdfId, onGoToPage, onPdfChange }: ChatPanelP
             />
             <kbd className="absolute right-2 sm:right-3 top-1/2 -translate-y-1/2 text-[9px] sm:text-[10px] bg-[var(--color-bg-alt)]/80 border border-[var(--color-border)] px-1 sm:px-1.5 py-0.5 rounded font-mono text-[var(--color-text-muted)]">Enter</kbd>
           </div>
-          <button
-            type="submit"
-            disabled={!inputValue.trim() || isLoading || !selectedPdfId}
-            className="h-9 sm:h-11 aspect-square rounded-xl bg-gradient-to-tr from-indigo-600 to-fuchsia-500 text-white flex items-center justify-center shadow disabled:opacity-50 disabled:cursor-not-allowed hover:shadow-md transition-all focus:ring-2 focus:ring-offset-2 focus:ring-indigo-400"
-            aria-label="Send question"
-          >
-            <svg className="w-4 sm:w-5 h-4 sm:h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 19l9 2-9-18-9 18 9-2zm0 0v-8" /></svg>
-          </button>
+          {isLoading ? (
+            <button
+              type="button"
+              onClick={handleStop}
+              className="h-9 sm:h-11 aspect-square rounded-xl bg-[var(--color-bg)] border border-[var(--color-border)] text-[var(--color-text)] flex items-center justify-center shadow hover:shadow-md transition-all focus:ring-2 focus:ring-offset-2 focus:ring-indigo-400"
+              aria-label="Stop generating"
+            >
+              <svg className="w-4 sm:w-5 h-4 sm:h-5" fill="currentColor" viewBox="0 0 24 24"><rect x="6" y="6" width="12" height="12" rx="2" /></svg>
+            </button>
+          ) : (
+            <button
+              type="submit"
+              disabled={!inputValue.trim() || isLoading || !selectedPdfId}
+              className="h-9 sm:h-11 aspect-square rounded-xl bg-gradient-to-tr from-indigo-600 to-fuchsia-500 text-white flex items-center justify-center shadow disabled:opacity-50 disabled:cursor-not-allowed hover:shadow-md transition-all focus:ring-2 focus:ring-offset-2 focus:ring-indigo-400"
+              aria-label="Send question"
+            >
+              <svg className="w-4 sm:w-5 h-4 sm:h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 19l9 2-9-18-9 18 9-2zm0 0v-8" /></svg>
+            </button>
+          )}
         </form>
       </div>
     </div>
@@ -1,7 +1,7 @@
 'use client';
 
 import Link from 'next/link';
-import { usePathname } from 'next/navigation';
+import { usePathname, useRouter } from 'next/navigation';
 import { useState, useEffect } from 'react';
 
 const navItems = [
@@ -11,10 +11,38 @@ const navItems = [
   { href: '/quiz', label: 'Generate Quiz', icon: '🧠', description: 'Test your knowledge' },
 ];
 
+interface SessionUser {
+  id: string;
+  email: string;
+  name: string | null;
+}
+
 export default function Navigation() {
   const pathname = usePathname();
+  const router = useRouter();
   const [mobileOpen, setMobileOpen] = useState(false);
   const [scrolled, setScrolled] = useState(false);
+  const [user, setUser] = useState<SessionUser | null>(null);
+
+  // Refresh the signed-in user on navigation (sign-in/out changes the route)
+  useEffect(() => {
+    let isMounted = true;
+    fetch('/api/auth/me')
+      .then(r => r.json())
+      .then(data => { if (isMounted) setUser(data.user || null); })
+      .catch(() => { if (isMounted) setUser(null); });
+    return () => { isMounted = false; };
+  }, [pathname]);
+
+  const handleSignOut = async () => {
+    try {
+      await fetch('/api/auth/signout', { method: 'POST' });
+    } finally {
+      setUser(null);
+      router.push('/signin');
+      router.refresh();
+    }
+  };
 
   // Handle scroll effect
   useEffect(() => {
@@ -96,6 +124,24 @@ export default function Navigation() {
                   );
                 })}
               </div>
+              {user ? (
+                <div className="flex items-center gap-2 pl-2">
+                  <span className="text-xs font-medium text-gray-600 max-w-[10rem] truncate" title={user.email}>{user.name || user.email}</span>
+                  <button
+                    onClick={handleSignOut}
+                    className="px-3 py-2 rounded-full text-xs font-semibold text-gray-600 border border-gray-200 bg-white hover:bg-gray-50 transition-colors"
+                  >
+                    Sign out
+                  </button>
+                </div>
+              ) : (
+                <Link
+                  href="/signin"
+                  className="px-4 py-2 rounded-full text-sm font-semibold text-indigo-600 border border-indigo-200 bg-white hover:bg-indigo-50 transition-colors"
+                >
+                  Sign in
+                </Link>
+              )}
             </div>
 
             {/* Mobile Menu Button */}
@@ -177,10 +223,19 @@ export default function Navigation() {
           </div>
           
           {/* Mobile Menu Footer */}
-          <div className="px-4 py-3 bg-gradient-to-r from-indigo-50 to-fuchsia-50 border-t border-gray-200">
-            <p className="text-xs text-center text-gray-600">
-              AI-Powered Learning Platform
+          <div className="px-4 py-3 bg-gradient-to-r from-indigo-50 to-fuchsia-50 border-t border-gray-200 flex items-center justify-between gap-3">
+            <p className="text-xs text-gray-600 truncate">
+              {user ? `Signed in as ${user.name || user.email}` : 'AI-Powered Learning Platform'}
             </p>
+            {user ? (
+              <button onClick={handleSignOut} className="text-xs font-semibold text-indigo-600 hover:text-indigo-700 flex-shrink-0">
+                Sign out
+              </button>
+            ) : (
+              <Link href="/signin" onClick={() => setMobileOpen(false)} className="text-xs font-semibold text-indigo-600 hover:text-indigo-700 flex-shrink-0">
+                Sign in
+              </Link>
+            )}
           </div>
         </div>
       </div>
@@ -2,14 +2,66 @@
 
 import { useState, useEffect, useCallback, useRef } from 'react';
 import { useRouter } from 'next/navigation';
+import {
+  DuplicateDocumentError,
+  createCollection,
+  deleteDocument,
+  listCollections,
+  setDocumentLabels,
+  updateDocument,
+  uploadFileResumable,
+  waitForJob,
+  type CollectionSummary,
+  type DocumentLabels,
+  type IngestionJobStatus,
+  type TagSummary,
+} from '@/lib/api-client';
+import { ACCEPTED_FILE_EXTENSIONS, detectDocumentFormat } from '@/lib/document-formats';
 
-interface PDF {
+interface PDF extends Partial<DocumentLabels> {
   id: string;
   title: string;
   url: string;
+  sourceUrl?: string | null;
   createdAt: string;
   hasChunks?: boolean;
   chunksCount?: number;
+  processingStatus?: IngestionJobStatus['status'] | null;
+  nearDuplicates?: { pdfId: string; title: string; similarity: number }[];
+  isOwner?: boolean;
+  archivedAt?: string | null;
+  purgeAt?: string | null; // set for documents in the trash
+}
+
+type LibraryView = 'library' | 'archived' | 'trash';
+
+const VIEW_LABELS: Record<LibraryView, string> = {
+  library: 'Library',
+  archived: 'Archived',
+  trash: 'Trash',
+};
+
+// An upload or import that matched a document already in the library
+interface PendingDuplicate {
+  pdfId: string;
+  title: string;
+  retry: () => void; // adds a separate copy anyway
+}
+
+// Larger files go through resumable, part-by-part uploads
+const SINGLE_UPLOAD_LIMIT = 4.5 * 1024 * 1024;
+
+const STAGE_LABELS: Record<string, string> = {
+  extracting: 'Extracting text',
+  chunking: 'Chunking',
+  embedding: 'Generating embeddings',
+};
+
+function describeJob(job: IngestionJobStatus): string {
+  if (job.status === 'queued') {
+    return job.attempts > 0 ? `Retrying (attempt ${job.attempts + 1} of ${job.maxAttempts})...` : 'Queued for processing...';
+  }
+  return `${STAGE_LABELS[job.stage || ''] || 'Processing'}... ${job.progress}%`;
 }
 
 export default function SourceSelector() {
@@ -21,17 +73,46 @@ export default function SourceSelector() {
   const [uploadProgress, setUploadProgress] = useState<string>('');
   const [dragActive, setDragActive] = useState(false);
   const [searchQuery, setSearchQuery] = useState('');
+  const [importUrl, setImportUrl] = useState('');
+  const [duplicate, setDuplicate] = useState<PendingDuplicate | null>(null);
+  const [view, setView] = useState<LibraryView>('library');
+  const [renaming, setRenaming] = useState<{ pdfId: string; title: string } | null>(null);
+  const [collections, setCollections] = useState<CollectionSummary[]>([]);
+  const [tags, setTags] = useState<TagSummary[]>([]);
+  const [collectionFilter, setCollectionFilter] = useState('');
+  const [tagFilter, setTagFilter] = useState('');
+  const [newCollectionName, setNewCollectionName] = useState('');
+  const [newCollectionKind, setNewCollectionKind] = useState<CollectionSummary['kind']>('course');
+  const [organizing, setOrganizing] = useState<{ pdfId: string; collectionIds: string[]; tags: string } | null>(null);
   const router = useRouter();
   const fileInputRef = useRef<HTMLInputElement>(null);
 
   useEffect(() => {
     fetchPdfs();
+  // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [view, collectionFilter, tagFilter]);
+
+  useEffect(() => {
+    fetchCollections();
   }, []);
 
+  const fetchCollections = async () => {
+    try {
+      const data = await listCollections();
+      setCollections(data.collections);
+      setTags(data.tags);
+    } catch (err) {
+      console.error('Error fetching collections:', err);
+    }
+  };
+
   const fetchPdfs = async () => {
     try {
       setLoading(true);
-      const response = await fetch('/api/pdfs');
+      const params = new URLSearchParams({ view });
+      if (collectionFilter) params.set('collectionId', collectionFilter);
+      if (tagFilter) params.set('tag', tagFilter);
+      const response = await fetch(`/api/pdfs?${params}`);
       const data = await response.json();
       
       if (data.success) {
@@ -47,9 +128,9 @@ export default function SourceSelector() {
     }
   };
 
-  const handleFileUpload = async (file: File) => {
-    if (!file.type.includes('pdf')) {
-      setError('Please select a PDF file');
+  const handleFileUpload = async (file: File, onDuplicate: 'ask' | 'upload' = 'ask') => {
+    if (!detectDocumentFormat(file.name, file.type)) {
+      setError(`Please select a supported file (${ACCEPTED_FILE_EXTENSIONS.join(', ')})`);
       return;
     }
 
@@ -57,10 +138,21 @@ export default function SourceSelector() {
       setUploading(true);
       setProcessing(false);
       setError(null);
+      setDuplicate(null);
       setUploadProgress('Preparing upload...');
 
+      if (file.size > SINGLE_UPLOAD_LIMIT) {
+        const { jobId } = await uploadFileResumable(file, {
+          onDuplicate,
+          onProgress: (uploaded, total) => setUploadProgress(`Uploading document... ${Math.round((uploaded / total) * 100)}%`),
+        });
+        await trackIngestion(jobId);
+        return;
+      }
+
       const formData = new FormData();
       formData.append('file', file);
+      formData.append('onDuplicate', onDuplicate);
 
       setUploadProgress('Uploading document...');
       const uploadResponse = await fetch('/api/upload', {
@@ -68,49 +160,109 @@ export default function SourceSelector() {
         body: formData,
       });
 
+      if (uploadResponse.status === 401) {
+        throw new Error('Please sign in to upload documents');
+      }
+
       const uploadData = await uploadResponse.json();
 
+      if (uploadResponse.status === 409 && uploadData.duplicate) {
+        throw new DuplicateDocumentError(uploadData.duplicate);
+      }
+
       if (!uploadData.success) {
         throw new Error(uploadData.error || 'Upload failed');
       }
 
+      await trackIngestion(uploadData.jobId);
+    } catch (err: unknown) {
+      if (err instanceof DuplicateDocumentError) {
+        setDuplicate({ ...err.duplicate, retry: () => handleFileUpload(file, 'upload') });
+      } else {
+        setError(err instanceof Error ? err.message : 'An error occurred');
+      }
       setUploading(false);
-      setProcessing(true);
-      setUploadProgress('Processing and generating embeddings...');
+      setProcessing(false);
+      setUploadProgress('');
+    }
+  };
 
-      const chunkResponse = await fetch('/api/chunk', {
+  const handleUrlImport = async (event: React.FormEvent) => {
+    event.preventDefault();
+    const url = importUrl.trim();
+    if (url) {
+      await importFromUrl(url);
+    }
+  };
+
+  const importFromUrl = async (url: string, onDuplicate: 'ask' | 'upload' = 'ask') => {
+    try {
+      setUploading(true);
+      setProcessing(false);
+      setError(null);
+      setDuplicate(null);
+      setUploadProgress('Downloading from URL...');
+
+      const importResponse = await fetch('/api/import', {
         method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-        },
-        body: JSON.stringify({ pdfId: uploadData.pdfId }),
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ url, onDuplicate }),
       });
 
-      const chunkData = await chunkResponse.json();
+      if (importResponse.status === 401) {
+        throw new Error('Please sign in to import documents');
+      }
+
+      const importData = await importResponse.json();
 
-      if (!chunkData.success) {
-        throw new Error(chunkData.error || 'Processing failed');
+      if (importResponse.status === 409 && importData.duplicate) {
+        throw new DuplicateDocumentError(importData.duplicate);
       }
 
-      setUploadProgress('✅ Successfully processed!');
-      await fetchPdfs();
-      
-      setTimeout(() => {
-        setProcessing(false);
-        setUploadProgress('');
-        if (fileInputRef.current) {
-          fileInputRef.current.value = '';
-        }
-      }, 2000);
+      if (!importData.success) {
+        throw new Error(importData.details || importData.error || 'Import failed');
+      }
 
+      await trackIngestion(importData.jobId);
     } catch (err: unknown) {
-      setError(err instanceof Error ? err.message : 'An error occurred');
+      if (err instanceof DuplicateDocumentError) {
+        setDuplicate({ ...err.duplicate, retry: () => importFromUrl(url, 'upload') });
+      } else {
+        setError(err instanceof Error ? err.message : 'An error occurred');
+      }
       setUploading(false);
       setProcessing(false);
       setUploadProgress('');
     }
   };
 
+  // Shared by uploads and URL imports once the document is stored
+  const trackIngestion = async (jobId: string | null) => {
+    setUploading(false);
+    setProcessing(true);
+    setUploadProgress('Queued for processing...');
+    await fetchPdfs();
+
+    // Processing runs in the background worker; poll until it finishes
+    if (jobId) {
+      await waitForJob(jobId, {
+        onUpdate: job => setUploadProgress(describeJob(job)),
+      });
+    }
+
+    setUploadProgress('✅ Successfully processed!');
+    await fetchPdfs();
+
+    setTimeout(() => {
+      setProcessing(false);
+      setUploadProgress('');
+      setImportUrl('');
+      if (fileInputRef.current) {
+        fileInputRef.current.value = '';
+      }
+    }, 2000);
+  };
+
   const handleFileChange = async (event: React.ChangeEvent<HTMLInputElement>) => {
     const file = event.target.files?.[0];
     if (file) {
@@ -143,7 +295,7 @@ export default function SourceSelector() {
     e.stopPropagation();
     try {
       setProcessing(true);
-      setUploadProgress('Processing document...');
+      setUploadProgress('Queued for processing...');
       
       const response = await fetch('/api/chunk', {
         method: 'POST',
@@ -159,6 +311,10 @@ export default function SourceSelector() {
         throw new Error(data.error || 'Processing failed');
       }
 
+      await waitForJob(data.jobId, {
+        onUpdate: job => setUploadProgress(describeJob(job)),
+      });
+
       setUploadProgress('✅ Processing complete!');
       await fetchPdfs();
       
@@ -178,6 +334,62 @@ export default function SourceSelector() {
     router.push(`/reader/${pdfId}`);
   };
 
+  // Rename, archive, delete and restore all refresh the current view afterwards
+  const runDocumentAction = async (action: () => Promise<void>) => {
+    try {
+      setError(null);
+      await action();
+      await fetchPdfs();
+    } catch (err: unknown) {
+      setError(err instanceof Error ? err.message : 'Something went wrong');
+    }
+  };
+
+  const handleRename = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!renaming) return;
+    const { pdfId, title } = renaming;
+    setRenaming(null);
+    if (title.trim() && title.trim() !== pdfs.find(pdf => pdf.id === pdfId)?.title) {
+      await runDocumentAction(() => updateDocument(pdfId, { title: title.trim() }));
+    }
+  };
+
+  const handleCreateCollection = async (e: React.FormEvent) => {
+    e.preventDefault();
+    const name = newCollectionName.trim();
+    if (!name) return;
+    try {
+      setError(null);
+      const collection = await createCollection({ name, kind: newCollectionKind });
+      setNewCollectionName('');
+      await fetchCollections();
+      setCollectionFilter(collection.id);
+    } catch (err: unknown) {
+      setError(err instanceof Error ? err.message : 'Failed to create collection');
+    }
+  };
+
+  const handleSaveLabels = async () => {
+    if (!organizing) return;
+    const { pdfId, collectionIds, tags: tagText } = organizing;
+    setOrganizing(null);
+    await runDocumentAction(async () => {
+      await setDocumentLabels(pdfId, {
+        collectionIds,
+        tags: tagText.split(',').map(tag => tag.trim()).filter(Boolean),
+      });
+      await fetchCollections();
+    });
+  };
+
+  const handlePermanentDelete = async (pdf: PDF) => {
+    if (!window.confirm(`Delete "${pdf.title}" permanently? Its file and search index are removed and this can't be undone.`)) {
+      return;
+    }
+    await runDocumentAction(() => deleteDocument(pdf.id, { permanent: true }));
+  };
+
   const formatDate = (dateString: string) => {
     const date = new Date(dateString);
     const now = new Date();
@@ -252,6 +464,36 @@ export default function SourceSelector() {
           </div>
         )}
 
+        {/* Duplicate Notice */}
+        {duplicate && (
+          <div className="max-w-2xl mx-auto mb-6 animate-fade-in-up">
+            <div className="flex flex-col sm:flex-row sm:items-center gap-3 p-4 rounded-xl bg-amber-50 border border-amber-200 text-amber-800 shadow-sm">
+              <span className="flex-1 text-sm font-medium">
+                &ldquo;{duplicate.title}&rdquo; is already in your library.
+              </span>
+              <div className="flex gap-2">
+                <button
+                  onClick={() => router.push(`/reader/${duplicate.pdfId}`)}
+                  className="px-3 py-1.5 rounded-lg bg-amber-600 text-white text-sm font-semibold hover:bg-amber-700 transition-colors"
+                >
+                  Open existing
+                </button>
+                <button
+                  onClick={duplicate.retry}
+                  className="px-3 py-1.5 rounded-lg border border-amber-300 text-sm font-semibold hover:bg-amber-100 transition-colors"
+                >
+                  Add a copy
+                </button>
+                <button onClick={() => setDuplicate(null)} className="text-amber-600 hover:text-amber-800 transition-colors" aria-label="Dismiss">
+                  <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                    <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+                  </svg>
+                </button>
+              </div>
+            </div>
+          </div>
+        )}
+
         <div className="max-w-6xl mx-auto space-y-8 sm:space-y-12">
           {/* Upload Section */}
           <div className="animate-fade-in-up" style={{ animationDelay: '100ms' }}>
@@ -259,7 +501,7 @@ export default function SourceSelector() {
               ref={fileInputRef}
               type="file"
               id="pdf-upload"
-              accept="application/pdf"
+              accept={ACCEPTED_FILE_EXTENSIONS.join(',')}
               onChange={handleFileChange}
               disabled={uploading || processing}
               className="hidden"
@@ -306,12 +548,12 @@ export default function SourceSelector() {
                   {/* Text Content */}
                   <div className="max-w-md mx-auto">
                     <h3 className="text-xl sm:text-2xl font-bold text-gray-900 mb-3 sm:mb-4">
-                      {uploading ? 'Uploading Document...' : processing ? 'Processing Content...' : 'Upload Your PDF'}
+                      {uploading ? 'Adding Document...' : processing ? 'Processing Content...' : 'Upload Your Document'}
                     </h3>
                     <p className="text-sm sm:text-base text-gray-600 mb-4 leading-relaxed">
                       {uploading ? 'Securing your document in the cloud...' : 
                        processing ? 'AI is analyzing and indexing your content...' : 
-                       'Drag and drop your PDF here, or click to browse'}
+                       'Drag and drop your document here, or click to browse'}
                     </p>
                     
                     {/* Progress Message */}
@@ -334,15 +576,107 @@ export default function SourceSelector() {
                         <svg className="w-4 h-4" fill="currentColor" viewBox="0 0 20 20">
                           <path fillRule="evenodd" d="M4 4a2 2 0 012-2h4.586A2 2 0 0112 2.586L15.414 6A2 2 0 0116 7.414V16a2 2 0 01-2 2H6a2 2 0 01-2-2V4z" clipRule="evenodd" />
                         </svg>
-                        <span className="font-medium">PDF documents only</span>
+                        <span className="font-medium">PDF, Word, PowerPoint, Markdown, HTML or text</span>
                         <span className="text-gray-400">•</span>
-                        <span>Max 50MB</span>
+                        <span>Max 250MB</span>
                       </div>
                     )}
                   </div>
                 </div>
               </div>
             </label>
+
+            {/* Import from URL */}
+            <form onSubmit={handleUrlImport} className="mt-4 flex flex-col sm:flex-row gap-3">
+              <input
+                type="url"
+                placeholder="Or paste a link to a PDF or web article..."
+                value={importUrl}
+                onChange={(e) => setImportUrl(e.target.value)}
+                disabled={uploading || processing}
+                className="flex-1 px-4 py-3 rounded-xl border border-gray-200 bg-white shadow-sm focus:outline-none focus:ring-2 focus:ring-indigo-500 focus:border-transparent transition-all text-sm sm:text-base disabled:bg-gray-50"
+              />
+              <button
+                type="submit"
+                disabled={uploading || processing || !importUrl.trim()}
+                className="px-6 py-3 rounded-xl bg-gradient-to-r from-indigo-600 to-fuchsia-600 text-white font-semibold hover:from-indigo-700 hover:to-fuchsia-700 transition-all shadow-lg hover:shadow-xl disabled:opacity-50 disabled:cursor-not-allowed"
+              >
+                Add from URL
+              </button>
+            </form>
+          </div>
+
+          {/* Library Views */}
+          <div className="flex justify-center gap-2 animate-fade-in-up" style={{ animationDelay: '150ms' }}>
+            {(Object.keys(VIEW_LABELS) as LibraryView[]).map(option => (
+              <button
+                key={option}
+                onClick={() => setView(option)}
+                className={`px-4 py-2 rounded-full text-sm font-semibold transition-all ${
+                  view === option
+                    ? 'bg-gradient-to-r from-indigo-600 to-fuchsia-600 text-white shadow-md'
+                    : 'bg-white text-gray-600 border border-gray-200 hover:border-indigo-300 hover:text-indigo-600'
+                }`}
+              >
+                {VIEW_LABELS[option]}
+              </button>
+            ))}
+          </div>
+
+          {/* Collections and Tags */}
+          <div className="flex flex-wrap items-center justify-center gap-2 animate-fade-in-up" style={{ animationDelay: '175ms' }}>
+            <select
+              value={collectionFilter}
+              onChange={(e) => setCollectionFilter(e.target.value)}
+              aria-label="Filter by collection"
+              className="px-3 py-2 rounded-xl border border-gray-200 bg-white text-sm shadow-sm focus:outline-none focus:ring-2 focus:ring-indigo-500"
+            >
+              <option value="">All collections</option>
+              {collections.map(collection => (
+                <option key={collection.id} value={collection.id}>
+                  {collection.kind === 'course' ? '🎓' : '📁'} {collection.name} ({collection.documentCount})
+                </option>
+              ))}
+            </select>
+            {(tags.length > 0 || tagFilter) && (
+              <select
+                value={tagFilter}
+                onChange={(e) => setTagFilter(e.target.value)}
+                aria-label="Filter by tag"
+                className="px-3 py-2 rounded-xl border border-gray-200 bg-white text-sm shadow-sm focus:outline-none focus:ring-2 focus:ring-indigo-500"
+              >
+                <option value="">All tags</option>
+                {tags.map(tag => (
+                  <option key={tag.name} value={tag.name}>#{tag.name} ({tag.documentCount})</option>
+                ))}
+              </select>
+            )}
+            <form onSubmit={handleCreateCollection} className="flex gap-2">
+              <select
+                value={newCollectionKind}
+                onChange={(e) => setNewCollectionKind(e.target.value as CollectionSummary['kind'])}
+                aria-label="Collection type"
+                className="px-3 py-2 rounded-xl border border-gray-200 bg-white text-sm shadow-sm focus:outline-none focus:ring-2 focus:ring-indigo-500"
+              >
+                <option value="course">Course</option>
+                <option value="folder">Folder</option>
+              </select>
+              <input
+                type="text"
+                placeholder="New course or folder..."
+                value={newCollectionName}
+                maxLength={100}
+                onChange={(e) => setNewCollectionName(e.target.value)}
+                className="px-3 py-2 rounded-xl border border-gray-200 bg-white text-sm shadow-sm focus:outline-none focus:ring-2 focus:ring-indigo-500"
+              />
+              <button
+                type="submit"
+                disabled={!newCollectionName.trim()}
+                className="px-4 py-2 rounded-xl bg-gradient-to-r from-indigo-600 to-fuchsia-600 text-white text-sm font-semibold hover:from-indigo-700 hover:to-fuchsia-700 transition-all shadow-md disabled:opacity-50 disabled:cursor-not-allowed"
+              >
+                Create
+              </button>
+            </form>
           </div>
 
           {/* Search Bar (shown only when there are PDFs) */}
@@ -380,7 +714,7 @@ export default function SourceSelector() {
             <div className="animate-fade-in-up" style={{ animationDelay: '300ms' }}>
               <div className="flex items-center justify-between mb-6 sm:mb-8">
                 <h2 className="text-2xl sm:text-3xl font-bold text-gray-900">
-                  {searchQuery ? `Search Results (${filteredPdfs.length})` : 'Your Documents'}
+                  {searchQuery ? `Search Results (${filteredPdfs.length})` : view === 'library' ? 'Your Documents' : VIEW_LABELS[view]}
                 </h2>
                 <div className="flex items-center gap-2 px-3 py-1.5 rounded-full bg-white border border-gray-200 shadow-sm">
                   <span className="text-sm font-medium text-gray-700">{filteredPdfs.length}</span>
@@ -392,7 +726,7 @@ export default function SourceSelector() {
                 {filteredPdfs.map((pdf, index) => (
                   <div
                     key={pdf.id}
-                    onClick={() => handlePdfSelect(pdf.id)}
+                    onClick={() => view !== 'trash' && handlePdfSelect(pdf.id)}
                     className="group relative bg-white rounded-2xl shadow-sm hover:shadow-2xl transition-all duration-300 cursor-pointer border border-gray-200 hover:border-indigo-300 overflow-hidden animate-fade-in-scale"
                     style={{ animationDelay: `${100 + index * 50}ms` }}
                   >
@@ -410,7 +744,12 @@ export default function SourceSelector() {
                           </div>
                         </div>
                         
-                        {pdf.hasChunks ? (
+                        {pdf.processingStatus === 'queued' || pdf.processingStatus === 'running' ? (
+                          <span className="inline-flex items-center gap-1.5 px-3 py-1 rounded-full text-xs font-semibold bg-gradient-to-r from-indigo-50 to-blue-50 text-indigo-700 border border-indigo-200 shadow-sm">
+                            <span className="w-1.5 h-1.5 rounded-full bg-indigo-500 animate-pulse" />
+                            Processing
+                          </span>
+                        ) : pdf.hasChunks ? (
                           <span className="inline-flex items-center gap-1.5 px-3 py-1 rounded-full text-xs font-semibold bg-gradient-to-r from-green-50 to-emerald-50 text-green-700 border border-green-200 shadow-sm">
                             <span className="w-1.5 h-1.5 rounded-full bg-green-500 animate-pulse" />
                             Ready
@@ -427,9 +766,23 @@ export default function SourceSelector() {
                       </div>
 
                       {/* Title */}
-                      <h3 className="text-lg font-bold text-gray-900 mb-2 line-clamp-2 leading-snug min-h-[3.5rem] group-hover:text-indigo-600 transition-colors">
-                        {pdf.title}
-                      </h3>
+                      {renaming?.pdfId === pdf.id ? (
+                        <form onSubmit={handleRename} onClick={(e) => e.stopPropagation()} className="mb-2 min-h-[3.5rem]">
+                          <input
+                            autoFocus
+                            value={renaming.title}
+                            maxLength={200}
+                            onChange={(e) => setRenaming({ pdfId: pdf.id, title: e.target.value })}
+                            onBlur={handleRename}
+                            onKeyDown={(e) => e.key === 'Escape' && setRenaming(null)}
+                            className="w-full px-3 py-2 rounded-lg border border-indigo-300 text-lg font-bold text-gray-900 focus:outline-none focus:ring-2 focus:ring-indigo-500"
+                          />
+                        </form>
+                      ) : (
+                        <h3 className="text-lg font-bold text-gray-900 mb-2 line-clamp-2 leading-snug min-h-[3.5rem] group-hover:text-indigo-600 transition-colors">
+                          {pdf.title}
+                        </h3>
+                      )}
 
                       {/* Metadata */}
                       <div className="flex items-center gap-3 text-xs text-gray-500 mb-4">
@@ -439,6 +792,29 @@ export default function SourceSelector() {
                           </svg>
                           {formatDate(pdf.createdAt)}
                         </span>
+                        {pdf.nearDuplicates && pdf.nearDuplicates.length > 0 && (
+                          <>
+                            <span className="text-gray-300">•</span>
+                            <span className="truncate max-w-[10rem] text-amber-600" title={`Mostly the same text as "${pdf.nearDuplicates[0].title}"`}>
+                              Similar to {pdf.nearDuplicates[0].title}
+                            </span>
+                          </>
+                        )}
+                        {pdf.sourceUrl && (
+                          <>
+                            <span className="text-gray-300">•</span>
+                            <a
+                              href={pdf.sourceUrl}
+                              target="_blank"
+                              rel="noopener noreferrer"
+                              onClick={(e) => e.stopPropagation()}
+                              className="truncate max-w-[10rem] hover:text-indigo-600 hover:underline"
+                              title={pdf.sourceUrl}
+                            >
+                              {new URL(pdf.sourceUrl).hostname}
+                            </a>
+                          </>
+                        )}
                         {pdf.hasChunks && pdf.chunksCount && (
                           <>
                             <span className="text-gray-300">•</span>
@@ -452,14 +828,141 @@ export default function SourceSelector() {
                         )}
                       </div>
 
-                      {/* Action Button */}
-                      <div className="flex items-center justify-between">
-                        <span className="inline-flex items-center gap-2 text-sm font-semibold text-indigo-600 group-hover:text-indigo-700 transition-colors">
-                          Open document
-                          <svg className="w-4 h-4 group-hover:translate-x-1 transition-transform" fill="none" stroke="currentColor" viewBox="0 0 24 24">
-                            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M9 5l7 7-7 7" />
-                          </svg>
-                        </span>
+                      {/* Collections and Tags */}
+                      {organizing?.pdfId === pdf.id ? (
+                        <div onClick={(e) => e.stopPropagation()} className="mb-4 p-3 rounded-xl bg-gray-50 border border-gray-200 space-y-2 cursor-default">
+                          {collections.length > 0 ? (
+                            <ul className="max-h-32 overflow-y-auto space-y-1">
+                              {collections.map(collection => (
+                                <li key={collection.id}>
+                                  <label className="flex items-center gap-2 text-xs cursor-pointer">
+                                    <input
+                                      type="checkbox"
+                                      checked={organizing.collectionIds.includes(collection.id)}
+                                      onChange={() => setOrganizing({
+                                        ...organizing,
+                                        collectionIds: organizing.collectionIds.includes(collection.id)
+                                          ? organizing.collectionIds.filter(id => id !== collection.id)
+                                          : [...organizing.collectionIds, collection.id],
+                                      })}
+                                      className="accent-indigo-500"
+                                    />
+                                    <span className="truncate">{collection.kind === 'course' ? '🎓' : '📁'} {collection.name}</span>
+                                  </label>
+                                </li>
+                              ))}
+                            </ul>
+                          ) : (
+                            <p className="text-xs text-gray-500">Create a course or folder above to file documents in it.</p>
+                          )}
+                          <input
+                            type="text"
+                            placeholder="Tags, separated by commas"
+                            value={organizing.tags}
+                            onChange={(e) => setOrganizing({ ...organizing, tags: e.target.value })}
+                            className="w-full px-3 py-1.5 rounded-lg border border-gray-200 text-xs focus:outline-none focus:ring-2 focus:ring-indigo-500"
+                          />
+                          <div className="flex justify-end gap-2 text-xs font-semibold">
+                            <button onClick={() => setOrganizing(null)} className="px-2 py-1 rounded-lg text-gray-500 hover:bg-gray-100 transition-colors">
+                              Cancel
+                            </button>
+                            <button onClick={handleSaveLabels} className="px-2 py-1 rounded-lg bg-indigo-600 text-white hover:bg-indigo-700 transition-colors">
+                              Save
+                            </button>
+                          </div>
+                        </div>
+                      ) : ((pdf.collections?.length ?? 0) > 0 || (pdf.tags?.length ?? 0) > 0) && (
+                        <div className="flex flex-wrap gap-1.5 mb-4">
+                          {pdf.collections?.map(collection => (
+                            <button
+                              key={collection.id}
+                              onClick={(e) => { e.stopPropagation(); setCollectionFilter(collection.id); }}
+                              className="px-2 py-0.5 rounded-full text-xs font-medium bg-indigo-50 text-indigo-700 border border-indigo-100 hover:bg-indigo-100 transition-colors"
+                            >
+                              {collection.name}
+                            </button>
+                          ))}
+                          {pdf.tags?.map(tag => (
+                            <button
+                              key={tag}
+                              onClick={(e) => { e.stopPropagation(); setTagFilter(tag); }}
+                              className="px-2 py-0.5 rounded-full text-xs font-medium bg-gray-100 text-gray-600 hover:bg-gray-200 transition-colors"
+                            >
+                              #{tag}
+                            </button>
+                          ))}
+                        </div>
+                      )}
+
+                      {/* Action Buttons */}
+                      <div className="flex items-center justify-between gap-2">
+                        {view === 'trash' ? (
+                          <span className="text-xs text-gray-500">
+                            {pdf.purgeAt && `Deleted for good ${new Date(pdf.purgeAt).toLocaleDateString('en-US', { month: 'short', day: 'numeric' })}`}
+                          </span>
+                        ) : (
+                          <span className="inline-flex items-center gap-2 text-sm font-semibold text-indigo-600 group-hover:text-indigo-700 transition-colors">
+                            Open document
+                            <svg className="w-4 h-4 group-hover:translate-x-1 transition-transform" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M9 5l7 7-7 7" />
+                            </svg>
+                          </span>
+                        )}
+
+                        {/* Anyone can organise what they can read; only the owner can manage a document */}
+                        {(pdf.isOwner || view !== 'trash') && (
+                          <div className="flex items-center gap-1 text-xs font-semibold" onClick={(e) => e.stopPropagation()}>
+                            {view !== 'trash' && (
+                              <button
+                                onClick={() => setOrganizing({
+                                  pdfId: pdf.id,
+                                  collectionIds: pdf.collections?.map(collection => collection.id) ?? [],
+                                  tags: pdf.tags?.join(', ') ?? '',
+                                })}
+                                className="px-2 py-1 rounded-lg text-gray-500 hover:text-indigo-600 hover:bg-indigo-50 transition-colors"
+                              >
+                                Organize
+                              </button>
+                            )}
+                            {!pdf.isOwner ? null : view === 'trash' ? (
+                              <>
+                                <button
+                                  onClick={() => runDocumentAction(() => updateDocument(pdf.id, { deleted: false }))}
+                                  className="px-2 py-1 rounded-lg text-indigo-600 hover:bg-indigo-50 transition-colors"
+                                >
+                                  Restore
+                                </button>
+                                <button
+                                  onClick={() => handlePermanentDelete(pdf)}
+                                  className="px-2 py-1 rounded-lg text-red-600 hover:bg-red-50 transition-colors"
+                                >
+                                  Delete forever
+                                </button>
+                              </>
+                            ) : (
+                              <>
+                                <button
+                                  onClick={() => setRenaming({ pdfId: pdf.id, title: pdf.title })}
+                                  className="px-2 py-1 rounded-lg text-gray-500 hover:text-indigo-600 hover:bg-indigo-50 transition-colors"
+                                >
+                                  Rename
+                                </button>
+                                <button
+                                  onClick={() => runDocumentAction(() => updateDocument(pdf.id, { archived: !pdf.archivedAt }))}
+                                  className="px-2 py-1 rounded-lg text-gray-500 hover:text-indigo-600 hover:bg-indigo-50 transition-colors"
+                                >
+                                  {pdf.archivedAt ? 'Unarchive' : 'Archive'}
+                                </button>
+                                <button
+                                  onClick={() => runDocumentAction(() => deleteDocument(pdf.id))}
+                                  className="px-2 py-1 rounded-lg text-gray-500 hover:text-red-600 hover:bg-red-50 transition-colors"
+                                >
+                                  Delete
+                                </button>
+                              </>
+                            )}
+                          </div>
+                        )}
                       </div>
                     </div>
 
@@ -471,8 +974,22 @@ export default function SourceSelector() {
             </div>
           )}
 
+          {/* Empty Archive or Trash */}
+          {pdfs.length === 0 && view !== 'library' && (
+            <div className="text-center py-16 animate-fade-in-up">
+              <h3 className="text-2xl font-bold text-gray-900 mb-3">
+                {view === 'archived' ? 'Nothing archived' : 'Trash is empty'}
+              </h3>
+              <p className="text-gray-600">
+                {view === 'archived'
+                  ? 'Archived documents stay readable but are kept out of your library and global search.'
+                  : 'Deleted documents stay here for a while, so you can restore them, before they are removed for good.'}
+              </p>
+            </div>
+          )}
+
           {/* Empty State */}
-          {pdfs.length === 0 && !loading && (
+          {pdfs.length === 0 && view === 'library' && !loading && (
             <div className="text-center py-16 sm:py-24 animate-fade-in-up" style={{ animationDelay: '400ms' }}>
               <div className="max-w-md mx-auto">
                 <div className="w-24 h-24 sm:w-32 sm:h-32 mx-auto mb-6 sm:mb-8 rounded-3xl bg-gradient-to-tr from-gray-100 to-gray-200 flex items-center justify-center shadow-inner">
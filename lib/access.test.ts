@@ -0,0 +1,16 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { validateShareRequest } from './access';
+
+test('validateShareRequest accepts a visibility, an email list, both or neither', () => {
+  assert.equal(validateShareRequest({}), null);
+  assert.equal(validateShareRequest({ visibility: 'shared', emails: ['a@example.com'] }), null);
+  assert.equal(validateShareRequest({ emails: [] }), null);
+});
+
+test('validateShareRequest rejects unknown visibilities and malformed email lists', () => {
+  assert.match(validateShareRequest({ visibility: 'everyone' }) ?? '', /Visibility/);
+  assert.match(validateShareRequest({ visibility: null }) ?? '', /Visibility/);
+  assert.match(validateShareRequest({ emails: 'a@example.com' }) ?? '', /Emails/);
+  assert.match(validateShareRequest({ emails: ['a@example.com', 42] }) ?? '', /Emails/);
+});
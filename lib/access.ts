@@ -0,0 +1,218 @@
+/**
+ * Access control for documents and quizzes
+ *
+ * A document or quiz is readable by its owner, by everyone when public, and
+ * by the users it was explicitly shared with when shared. Only the owner can
+ * modify, process or re-share it. Documents in the trash (deletedAt set) are
+ * readable by no one; only their owner can see them, through the trash.
+ */
+
+import { Prisma } from '@prisma/client';
+import { prisma } from '@/lib/prisma';
+import { normalizeEmail } from '@/lib/auth';
+
+export const VISIBILITIES = ['private', 'shared', 'public'] as const;
+export type Visibility = (typeof VISIBILITIES)[number];
+
+export function isVisibility(value: unknown): value is Visibility {
+  return typeof value === 'string' && (VISIBILITIES as readonly string[]).includes(value);
+}
+
+/**
+ * A change to who can read a document or quiz, as sent to its share route
+ */
+export interface ShareRequest {
+  visibility?: Visibility;
+  emails?: string[]; // Replaces the current share list when provided
+}
+
+/**
+ * Validate a share request body, returning an error message or null
+ */
+export function validateShareRequest(body: { visibility?: unknown; emails?: unknown }): string | null {
+  if (body.visibility !== undefined && !isVisibility(body.visibility)) {
+    return 'Visibility must be "private", "shared" or "public"';
+  }
+  if (body.emails !== undefined && (!Array.isArray(body.emails) || body.emails.some(e => typeof e !== 'string'))) {
+    return 'Emails must be an array of strings';
+  }
+  return null;
+}
+
+/**
+ * Prisma filter selecting the PDFs a user (or an anonymous visitor) may read
+ */
+export function pdfAccessWhere(userId: string | null): Prisma.DocumentWhereInput {
+  if (!userId) {
+    return { deletedAt: null, visibility: 'public' };
+  }
+
+  return {
+    deletedAt: null,
+    OR: [
+      { ownerId: userId },
+      { visibility: 'public' },
+      { visibility: 'shared', shares: { some: { userId } } },
+    ],
+  };
+}
+
+/**
+ * Prisma filter selecting the quizzes a user (or an anonymous visitor) may read
+ */
+export function quizAccessWhere(userId: string | null): Prisma.QuizWhereInput {
+  if (!userId) {
+    return { visibility: 'public' };
+  }
+
+  return {
+    OR: [
+      { createdBy: userId },
+      { visibility: 'public' },
+      { visibility: 'shared', shares: { some: { userId } } },
+    ],
+  };
+}
+
+/**
+ * Raw SQL condition equivalent to pdfAccessWhere, for hand-written queries.
+ * `pdfAlias` is the alias of the joined "PDF" table; the user id is bound
+ * as a parameter.
+ */
+export function pdfAccessSql(pdfAlias: string, userId: string | null): Prisma.Sql {
+  const pdf = Prisma.raw(pdfAlias);
+  if (!userId) {
+    return Prisma.sql`(${pdf}."deletedAt" IS NULL AND ${pdf}.visibility = 'public')`;
+  }
+
+  return Prisma.sql`(${pdf}."deletedAt" IS NULL AND (
+    ${pdf}."ownerId" = ${userId}
+    OR ${pdf}.visibility = 'public'
+    OR (
+      ${pdf}.visibility = 'shared'
+      AND EXISTS (
+        SELECT 1 FROM "PdfShare" s
+        WHERE s."pdfId" = ${pdf}.id AND s."userId" = ${userId}
+      )
+    )
+  ))`;
+}
+
+/**
+ * Check whether a user may read a PDF
+ */
+export async function canAccessPdf(pdfId: string, userId: string | null): Promise<boolean> {
+  const count = await prisma.document.count({
+    where: { AND: [{ id: pdfId }, pdfAccessWhere(userId)] },
+  });
+  return count > 0;
+}
+
+/**
+ * Return the subset of pdfIds the user is not allowed to read
+ */
+export async function findInaccessiblePdfIds(
+  pdfIds: string[],
+  userId: string | null
+): Promise<string[]> {
+  const accessible = await prisma.document.findMany({
+    where: { AND: [{ id: { in: pdfIds } }, pdfAccessWhere(userId)] },
+    select: { id: true },
+  });
+  const allowed = new Set(accessible.map(pdf => pdf.id));
+  return pdfIds.filter(id => !allowed.has(id));
+}
+
+/**
+ * Check whether a user owns a PDF (required for processing and sharing)
+ */
+export async function canManagePdf(pdfId: string, userId: string | null): Promise<boolean> {
+  if (!userId) return false;
+  const count = await prisma.document.count({
+    where: { id: pdfId, ownerId: userId, deletedAt: null },
+  });
+  return count > 0;
+}
+
+/**
+ * Check whether a user may read a quiz
+ */
+export async function canAccessQuiz(quizId: string, userId: string | null): Promise<boolean> {
+  const count = await prisma.quiz.count({
+    where: { AND: [{ id: quizId }, quizAccessWhere(userId)] },
+  });
+  return count > 0;
+}
+
+/**
+ * Resolve share recipients by email. Unknown addresses are returned separately
+ * so the caller can report them instead of silently dropping them.
+ */
+export async function resolveShareRecipients(
+  emails: string[]
+): Promise<{ userIds: string[]; unknownEmails: string[] }> {
+  const normalized = [...new Set(emails.map(normalizeEmail).filter(Boolean))];
+  if (normalized.length === 0) {
+    return { userIds: [], unknownEmails: [] };
+  }
+
+  const users = await prisma.user.findMany({
+    where: { email: { in: normalized } },
+    select: { id: true, email: true },
+  });
+  const found = new Set(users.map(user => user.email));
+
+  return {
+    userIds: users.map(user => user.id),
+    unknownEmails: normalized.filter(email => !found.has(email)),
+  };
+}
+
+/**
+ * Apply a validated share request to a document or quiz the user owns:
+ * update its visibility and/or replace its share list, in one transaction.
+ * The owner is never added to their own share list. Returns null when the
+ * user doesn't own it or it's in the trash, otherwise the emails that
+ * matched no account.
+ */
+export async function updateSharing(
+  kind: 'pdf' | 'quiz',
+  id: string,
+  ownerId: string,
+  request: ShareRequest
+): Promise<{ unknownEmails: string[] } | null> {
+  const owned = kind === 'pdf'
+    ? await prisma.document.count({ where: { id, ownerId, deletedAt: null } })
+    : await prisma.quiz.count({ where: { id, createdBy: ownerId } });
+  if (owned === 0) return null;
+
+  // Resolve recipients up front so unknown addresses can be reported back
+  const recipients = request.emails
+    ? await resolveShareRecipients(request.emails)
+    : { userIds: [], unknownEmails: [] };
+  const userIds = recipients.userIds.filter(userId => userId !== ownerId);
+
+  await prisma.$transaction(async (tx) => {
+    if (request.visibility) {
+      const data = { visibility: request.visibility };
+      if (kind === 'pdf') await tx.document.update({ where: { id }, data });
+      else await tx.quiz.update({ where: { id }, data });
+    }
+
+    if (request.emails) {
+      if (kind === 'pdf') {
+        await tx.pdfShare.deleteMany({ where: { pdfId: id } });
+        if (userIds.length > 0) {
+          await tx.pdfShare.createMany({ data: userIds.map(userId => ({ pdfId: id, userId })) });
+        }
+      } else {
+        await tx.quizShare.deleteMany({ where: { quizId: id } });
+        if (userIds.length > 0) {
+          await tx.quizShare.createMany({ data: userIds.map(userId => ({ quizId: id, userId })) });
+        }
+      }
+    }
+  });
+
+  return { unknownEmails: recipients.unknownEmails };
+}
@@ -2,12 +2,18 @@
  * API client utilities for the RAG system
  */
 
+import { parseSSE } from './sse';
+import type { ChunkLocation } from './chunking';
+
 export interface SearchResult {
   id: string;
   content: string;
   pageNum: number;
+  location: ChunkLocation | null; // slide, section or line range, for non-PDF documents
+  sectionPath: string | null; // heading path, e.g. "3 Neural Networks > 3.2 Backpropagation"
   similarity: number;
   pdfId: string;
+  pdfTitle: string;
   snippet: string;
 }
 
@@ -17,25 +23,115 @@ export interface SearchResponse {
   query: string;
   resultCount: number;
   pdfId: string | null;
+  pdfIds: string[];
   k: number;
 }
 
 export interface ChatSource {
   id: string;
   pageNum: number;
+  location: ChunkLocation | null;
+  sectionPath: string | null;
   content: string;
   snippet: string;
+  pdfId: string;
   pdfTitle: string;
   similarity?: number;
+  score?: number; // hybrid retrieval score
+  rerankScore?: number; // 0..1 relevance from the reranking stage
+}
+
+export interface ChatCitation {
+  pageNum: number;
+  unit?: 'page' | 'slide' | 'section' | 'line';
+  pdfTitle?: string;
+  quote: string;
+  answerStart: number;
+  answerEnd: number;
+  verified: boolean; // false when the quote wasn't found at the cited location
+  chunkId: string | null;
+  pdfId: string | null;
+  sectionPath: string | null;
+  quoteStart: number | null;
+  quoteEnd: number | null;
 }
 
 export interface ChatResponse {
   success: boolean;
   answer: string;
   sources: ChatSource[];
+  citations: ChatCitation[];
   query: string;
-  pdfId: string;
+  rewrittenQuery?: string;
+  pdfId: string | null;
+  pdfIds: string[];
   retrievedChunks: number;
+  conversationId: string | null;
+}
+
+export type ChatStreamEvent =
+  | { type: 'conversation'; conversationId: string | null }
+  | { type: 'token'; text: string }
+  | { type: 'sources'; sources: ChatSource[]; citations: ChatCitation[]; retrievedChunks: number };
+
+export interface ConversationSummary {
+  id: string;
+  title: string;
+  pdfId: string | null;
+  createdAt: string;
+  updatedAt: string;
+  messageCount: number;
+}
+
+export interface ConversationMessage {
+  id: string;
+  role: 'user' | 'assistant';
+  content: string;
+  rewrittenQuery: string | null;
+  sources: ChatSource[] | null;
+  citations: ChatCitation[] | null;
+  createdAt: string;
+}
+
+export interface ConversationDetail extends Omit<ConversationSummary, 'messageCount'> {
+  messages: ConversationMessage[];
+}
+
+export interface IngestionJobStatus {
+  id: string;
+  pdfId: string;
+  type: string;
+  status: 'queued' | 'running' | 'succeeded' | 'failed';
+  stage: string | null; // e.g. 'extracting' | 'chunking' | 'embedding' while running
+  progress: number; // 0-100
+  attempts: number;
+  maxAttempts: number;
+  error: string | null;
+  result: Record<string, unknown> | null;
+  createdAt: string;
+  updatedAt: string;
+  finishedAt: string | null;
+}
+
+export interface CollectionSummary {
+  id: string;
+  name: string;
+  description: string | null;
+  kind: 'course' | 'folder';
+  documentCount: number;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface TagSummary {
+  name: string;
+  documentCount: number;
+}
+
+// The signed-in user's own collections and tags on a document
+export interface DocumentLabels {
+  collections: { id: string; name: string }[];
+  tags: string[];
 }
 
 export interface ApiError {
@@ -44,18 +140,25 @@ export interface ApiError {
 }
 
 /**
- * Search for documents using vector similarity
+ * Search for documents using vector similarity. Pass the ids of results
+ * already shown as excludeIds to fetch the next ones.
  */
 export async function searchDocuments(
   query: string,
-  pdfId?: string,
-  k: number = 5
+  pdfIds?: string | string[],
+  k: number = 5,
+  excludeIds: string[] = []
 ): Promise<SearchResponse> {
   const params = new URLSearchParams({
     q: query,
     k: k.toString(),
-    ...(pdfId && { pdfId })
   });
+  for (const pdfId of [pdfIds ?? []].flat()) {
+    params.append('pdfId', pdfId);
+  }
+  for (const id of excludeIds) {
+    params.append('exclude', id);
+  }
 
   const response = await fetch(`/api/search?${params}`);
   
@@ -68,12 +171,13 @@ export async function searchDocuments(
 }
 
 /**
- * Chat with a document using RAG
+ * Chat with one or more documents using RAG
  */
 export async function chatWithDocument(
   query: string,
-  pdfId: string,
-  k: number = 5
+  pdfIds: string | string[],
+  k: number = 5,
+  conversationId?: string
 ): Promise<ChatResponse> {
   const response = await fetch('/api/chat', {
     method: 'POST',
@@ -82,8 +186,9 @@ export async function chatWithDocument(
     },
     body: JSON.stringify({
       query,
-      pdfId,
-      k
+      pdfIds: [pdfIds].flat(),
+      k,
+      conversationId
     }),
   });
 
@@ -95,41 +200,6 @@ export async function chatWithDocument(
   return response.json();
 }
 
-/**
- * Extract citations from chat response
- */
-export function extractCitations(answer: string): Array<{ pageNum: number; quote: string }> {
-  const citationRegex = /According to p\. (\d+): ['""]([^'""]+)['"]/g;
-  const citations: Array<{ pageNum: number; quote: string }> = [];
-  let match;
-
-  while ((match = citationRegex.exec(answer)) !== null) {
-    citations.push({
-      pageNum: parseInt(match[1]),
-      quote: match[2]
-    });
-  }
-
-  return citations;
-}
-
-/**
- * Format answer for display with highlighted citations
- */
-export function formatAnswerWithCitations(
-  answer: string,
-  onCitationClick?: (pageNum: number) => void
-): string {
-  if (!onCitationClick) return answer;
-
-  return answer.replace(
-    /According to p\. (\d+): (['""][^'""]+['"])/g,
-    (match, pageNum) => {
-      return `<span class="citation" data-page="${pageNum}" style="cursor: pointer; color: blue; text-decoration: underline;">${match}</span>`;
-    }
-  );
-}
-
 /**
  * Helper to debounce search requests
  */
@@ -145,15 +215,376 @@ export function debounce<T extends (...args: unknown[]) => unknown>(
 }
 
 /**
- * Stream chat responses (for future implementation)
+ * Stream chat responses from /api/chat over Server-Sent Events.
+ * Yields the conversation id, text deltas as they arrive, then a final event
+ * with the sources. Pass an AbortSignal to stop generation early.
  */
 export async function* streamChatWithDocument(
   query: string,
+  pdfIds: string | string[],
+  options: { k?: number; conversationId?: string; collectionId?: string; signal?: AbortSignal } = {}
+): AsyncGenerator<ChatStreamEvent, void, unknown> {
+  const { k = 5, conversationId, collectionId, signal } = options;
+
+  const response = await fetch('/api/chat', {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+    },
+    body: JSON.stringify({
+      query,
+      pdfIds: [pdfIds].flat(),
+      collectionId,
+      k,
+      conversationId,
+      stream: true
+    }),
+    signal,
+  });
+
+  if (!response.ok || !response.body) {
+    const error: ApiError = await response.json().catch(() => ({ error: 'Chat request failed' }));
+    throw new Error(error.error || 'Chat request failed');
+  }
+
+  for await (const { event, data } of parseSSE(response.body)) {
+    const payload = JSON.parse(data);
+
+    switch (event) {
+      case 'conversation':
+        yield { type: 'conversation', conversationId: payload.conversationId };
+        break;
+      case 'token':
+        yield { type: 'token', text: payload.text };
+        break;
+      case 'sources':
+        yield {
+          type: 'sources',
+          sources: payload.sources,
+          citations: payload.citations || [],
+          retrievedChunks: payload.retrievedChunks
+        };
+        break;
+      case 'error':
+        throw new Error(payload.error || 'Chat request failed');
+      case 'done':
+        return;
+    }
+  }
+}
+
+/**
+ * List the signed-in user's conversations, optionally for one document
+ */
+export async function listConversations(pdfId?: string): Promise<ConversationSummary[]> {
+  const params = new URLSearchParams(pdfId ? { pdfId } : {});
+  const response = await fetch(`/api/conversations?${params}`);
+
+  if (!response.ok) {
+    const error: ApiError = await response.json();
+    throw new Error(error.error || 'Failed to load conversations');
+  }
+
+  const data = await response.json();
+  return data.conversations;
+}
+
+/**
+ * Load a conversation with all of its messages
+ */
+export async function getConversation(conversationId: string): Promise<ConversationDetail> {
+  const response = await fetch(`/api/conversations/${conversationId}`);
+
+  if (!response.ok) {
+    const error: ApiError = await response.json();
+    throw new Error(error.error || 'Failed to load conversation');
+  }
+
+  const data = await response.json();
+  return data.conversation;
+}
+
+/**
+ * Delete a conversation
+ */
+export async function deleteConversation(conversationId: string): Promise<void> {
+  const response = await fetch(`/api/conversations/${conversationId}`, { method: 'DELETE' });
+
+  if (!response.ok) {
+    const error: ApiError = await response.json();
+    throw new Error(error.error || 'Failed to delete conversation');
+  }
+}
+
+export interface DocumentUpdate {
+  title?: string;
+  archived?: boolean;
+  deleted?: false; // restores a document from the trash
+}
+
+/**
+ * Rename, archive or unarchive a document, or restore it from the trash
+ */
+export async function updateDocument(pdfId: string, update: DocumentUpdate): Promise<void> {
+  const response = await fetch(`/api/pdf/${pdfId}`, {
+    method: 'PATCH',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(update),
+  });
+
+  if (!response.ok) {
+    const error: ApiError = await response.json();
+    throw new Error(error.error || 'Failed to update document');
+  }
+}
+
+/**
+ * Move a document to the trash, or with `permanent` delete it for good
+ */
+export async function deleteDocument(pdfId: string, options: { permanent?: boolean } = {}): Promise<void> {
+  const params = new URLSearchParams(options.permanent ? { permanent: 'true' } : {});
+  const response = await fetch(`/api/pdf/${pdfId}?${params}`, { method: 'DELETE' });
+
+  if (!response.ok) {
+    const error: ApiError = await response.json();
+    throw new Error(error.error || 'Failed to delete document');
+  }
+}
+
+/**
+ * The signed-in user's collections and tags. Anonymous visitors have none.
+ */
+export async function listCollections(): Promise<{ collections: CollectionSummary[]; tags: TagSummary[] }> {
+  const response = await fetch('/api/collections');
+  if (response.status === 401) return { collections: [], tags: [] };
+
+  if (!response.ok) {
+    const error: ApiError = await response.json();
+    throw new Error(error.error || 'Failed to load collections');
+  }
+
+  const data = await response.json();
+  return { collections: data.collections, tags: data.tags };
+}
+
+/**
+ * Create a course or folder
+ */
+export async function createCollection(input: { name: string; kind?: 'course' | 'folder'; description?: string }): Promise<CollectionSummary> {
+  const response = await fetch('/api/collections', {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(input),
+  });
+
+  if (!response.ok) {
+    const error: ApiError = await response.json();
+    throw new Error(error.error || 'Failed to create collection');
+  }
+
+  const data = await response.json();
+  return data.collection;
+}
+
+/**
+ * Delete a collection. Its documents are kept.
+ */
+export async function deleteCollection(collectionId: string): Promise<void> {
+  const response = await fetch(`/api/collections/${collectionId}`, { method: 'DELETE' });
+
+  if (!response.ok) {
+    const error: ApiError = await response.json();
+    throw new Error(error.error || 'Failed to delete collection');
+  }
+}
+
+/**
+ * Replace the signed-in user's collections and/or tags on a document
+ */
+export async function setDocumentLabels(
   pdfId: string,
-  k: number = 5
-): AsyncGenerator<string, void, unknown> {
-  // This is a placeholder for future streaming implementation
-  // For now, it returns the full response
-  const response = await chatWithDocument(query, pdfId, k);
-  yield response.answer;
-}
\ No newline at end of file
+  labels: { collectionIds?: string[]; tags?: string[] }
+): Promise<DocumentLabels> {
+  const response = await fetch(`/api/pdf/${pdfId}/labels`, {
+    method: 'PUT',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(labels),
+  });
+
+  if (!response.ok) {
+    const error: ApiError = await response.json();
+    throw new Error(error.error || 'Failed to update collections and tags');
+  }
+
+  const data = await response.json();
+  return { collections: data.collections, tags: data.tags };
+}
+
+/**
+ * Fetch the status of a background processing job
+ */
+export async function getJob(jobId: string): Promise<IngestionJobStatus> {
+  const response = await fetch(`/api/jobs/${jobId}`, { cache: 'no-store' });
+
+  if (!response.ok) {
+    const error: ApiError = await response.json();
+    throw new Error(error.error || 'Failed to load job status');
+  }
+
+  const data = await response.json();
+  return data.job;
+}
+
+/**
+ * Poll a job until it succeeds or fails for good, reporting each status.
+ * Throws with the job's error when it fails.
+ */
+export async function waitForJob(
+  jobId: string,
+  options: { onUpdate?: (job: IngestionJobStatus) => void; intervalMs?: number; signal?: AbortSignal } = {}
+): Promise<IngestionJobStatus> {
+  const { onUpdate, intervalMs = 2000, signal } = options;
+
+  while (true) {
+    signal?.throwIfAborted();
+    const job = await getJob(jobId);
+    onUpdate?.(job);
+
+    if (job.status === 'succeeded') return job;
+    if (job.status === 'failed') throw new Error(job.error || 'Processing failed');
+
+    await new Promise((resolve, reject) => {
+      const timer = setTimeout(resolve, intervalMs);
+      signal?.addEventListener('abort', () => {
+        clearTimeout(timer);
+        reject(new DOMException('Polling aborted', 'AbortError'));
+      }, { once: true });
+    });
+  }
+}
+
+export interface UploadResult {
+  pdfId: string;
+  jobId: string | null;
+}
+
+/**
+ * Thrown when an upload or import is a file already in the library
+ */
+export class DuplicateDocumentError extends Error {
+  constructor(public duplicate: { pdfId: string; title: string }) {
+    super(`"${duplicate.title}" is already in your library`);
+    this.name = 'DuplicateDocumentError';
+  }
+}
+
+// Attempts per part before a resumable upload gives up
+const UPLOAD_PART_ATTEMPTS = 3;
+
+async function sha256Hex(data: BufferSource): Promise<string> {
+  const digest = await crypto.subtle.digest('SHA-256', data);
+  return Array.from(new Uint8Array(digest), byte => byte.toString(16).padStart(2, '0')).join('');
+}
+
+async function uploadRequest<T>(url: string, init: RequestInit, fallbackError: string): Promise<T> {
+  const response = await fetch(url, init);
+  const data = await response.json().catch(() => ({}));
+  if (response.status === 409 && data.duplicate) {
+    throw new DuplicateDocumentError(data.duplicate);
+  }
+  if (!response.ok || !data.success) {
+    throw new Error(data.error || fallbackError);
+  }
+  return data;
+}
+
+/**
+ * Upload a file in parts through /api/uploads, for files over the single
+ * request limit. An interrupted upload of the same file picks up where it
+ * stopped: the session id is kept in localStorage and only missing parts are
+ * sent. Throws DuplicateDocumentError when the file is already in the
+ * library, unless onDuplicate says otherwise.
+ */
+export async function uploadFileResumable(
+  file: File,
+  options: {
+    onProgress?: (uploadedBytes: number, totalBytes: number) => void;
+    onDuplicate?: 'ask' | 'link' | 'upload';
+    signal?: AbortSignal;
+  } = {}
+): Promise<UploadResult> {
+  const { onProgress, onDuplicate = 'ask', signal } = options;
+  const resumeKey = `resumable-upload:${file.name}:${file.size}:${file.lastModified}`;
+
+  type UploadStatus = { uploadId: string; partSize: number; partCount: number; receivedParts: number[]; status: string };
+  type LinkedUpload = { linked: true; pdfId: string };
+  let upload: UploadStatus | null = null;
+
+  const savedId = localStorage.getItem(resumeKey);
+  if (savedId) {
+    const response = await fetch(`/api/uploads/${savedId}`, { cache: 'no-store', signal });
+    if (response.ok) upload = await response.json();
+  }
+
+  if (!upload) {
+    const started = await uploadRequest<UploadStatus | LinkedUpload>('/api/uploads', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({
+        fileName: file.name,
+        fileSize: file.size,
+        mimeType: file.type,
+        checksum: await sha256Hex(await file.arrayBuffer()),
+        onDuplicate,
+      }),
+      signal,
+    }, 'Failed to start upload');
+    if ('linked' in started) return { pdfId: started.pdfId, jobId: null };
+
+    upload = started;
+    localStorage.setItem(resumeKey, upload.uploadId);
+  }
+
+  const received = new Set(upload.receivedParts);
+  let uploadedBytes = upload.receivedParts.reduce(
+    (total, partNumber) => total + Math.min(upload.partSize, file.size - (partNumber - 1) * upload.partSize),
+    0
+  );
+  onProgress?.(uploadedBytes, file.size);
+
+  if (upload.status !== 'completed') {
+    for (let partNumber = 1; partNumber <= upload.partCount; partNumber++) {
+      if (received.has(partNumber)) continue;
+
+      const part = await file.slice((partNumber - 1) * upload.partSize, partNumber * upload.partSize).arrayBuffer();
+      const checksum = await sha256Hex(part);
+
+      for (let attempt = 1; ; attempt++) {
+        signal?.throwIfAborted();
+        try {
+          await uploadRequest(`/api/uploads/${upload.uploadId}/parts/${partNumber}`, {
+            method: 'PUT',
+            headers: { 'Content-Type': 'application/octet-stream', 'X-Checksum-Sha256': checksum },
+            body: part,
+            signal,
+          }, `Failed to upload part ${partNumber}`);
+          break;
+        } catch (error) {
+          if (attempt >= UPLOAD_PART_ATTEMPTS || signal?.aborted) throw error;
+          await new Promise(resolve => setTimeout(resolve, 1000 * 2 ** (attempt - 1)));
+        }
+      }
+
+      uploadedBytes += part.byteLength;
+      onProgress?.(uploadedBytes, file.size);
+    }
+  }
+
+  const completed = await uploadRequest<UploadResult>(`/api/uploads/${upload.uploadId}/complete`, {
+    method: 'POST',
+    signal,
+  }, 'Failed to complete upload');
+  localStorage.removeItem(resumeKey);
+
+  return { pdfId: completed.pdfId, jobId: completed.jobId };
+}
@@ -0,0 +1,161 @@
+/**
+ * Authentication utilities
+ *
+ * Local email + password credentials with database-backed sessions.
+ * The browser only ever holds an opaque random token in an httpOnly cookie;
+ * the database stores its SHA-256 hash so a leaked table cannot be replayed.
+ */
+
+import { createHash, randomBytes, scrypt, timingSafeEqual } from 'crypto';
+import { promisify } from 'util';
+import type { NextRequest, NextResponse } from 'next/server';
+import { prisma } from '@/lib/prisma';
+
+const scryptAsync = promisify(scrypt) as (
+  password: string,
+  salt: Buffer,
+  keylen: number
+) => Promise<Buffer>;
+
+export const SESSION_COOKIE_NAME = 'bc_session';
+const SESSION_TTL_MS = 30 * 24 * 60 * 60 * 1000; // 30 days
+const PASSWORD_KEY_LENGTH = 64;
+const MIN_PASSWORD_LENGTH = 8;
+
+export interface AuthUser {
+  id: string;
+  email: string;
+  name: string | null;
+}
+
+/**
+ * Normalize an email address for storage and lookup
+ */
+export function normalizeEmail(email: string): string {
+  return email.trim().toLowerCase();
+}
+
+/**
+ * Validate sign-up / sign-in input, returning an error message or null
+ */
+export function validateCredentials(email: unknown, password: unknown): string | null {
+  if (typeof email !== 'string' || !/^[^\s@]+@[^\s@]+\.[^\s@]+$/.test(email.trim())) {
+    return 'A valid email address is required';
+  }
+  if (typeof password !== 'string' || password.length < MIN_PASSWORD_LENGTH) {
+    return `Password must be at least ${MIN_PASSWORD_LENGTH} characters`;
+  }
+  return null;
+}
+
+/**
+ * Hash a password with scrypt. Format: scrypt$<salt hex>$<hash hex>
+ */
+export async function hashPassword(password: string): Promise<string> {
+  const salt = randomBytes(16);
+  const derived = await scryptAsync(password, salt, PASSWORD_KEY_LENGTH);
+  return `scrypt$${salt.toString('hex')}$${derived.toString('hex')}`;
+}
+
+/**
+ * Check a password against a stored scrypt hash in constant time
+ */
+export async function verifyPassword(password: string, stored: string): Promise<boolean> {
+  const [scheme, saltHex, hashHex] = stored.split('$');
+  if (scheme !== 'scrypt' || !saltHex || !hashHex) {
+    return false;
+  }
+
+  const expected = Buffer.from(hashHex, 'hex');
+  const derived = await scryptAsync(password, Buffer.from(saltHex, 'hex'), expected.length);
+  return derived.length === expected.length && timingSafeEqual(derived, expected);
+}
+
+function hashToken(token: string): string {
+  return createHash('sha256').update(token).digest('hex');
+}
+
+/**
+ * Create a new session for a user and return the raw cookie token
+ */
+export async function createSession(
+  userId: string,
+  userAgent?: string | null
+): Promise<{ token: string; expiresAt: Date }> {
+  const token = randomBytes(32).toString('base64url');
+  const expiresAt = new Date(Date.now() + SESSION_TTL_MS);
+
+  await prisma.session.create({
+    data: {
+      tokenHash: hashToken(token),
+      userId,
+      expiresAt,
+      userAgent: userAgent?.slice(0, 255) || null,
+    },
+  });
+
+  return { token, expiresAt };
+}
+
+/**
+ * Resolve the signed-in user from the session cookie, or null when anonymous
+ */
+export async function getCurrentUser(request: NextRequest): Promise<AuthUser | null> {
+  const token = request.cookies.get(SESSION_COOKIE_NAME)?.value;
+  if (!token) return null;
+
+  try {
+    const session = await prisma.session.findUnique({
+      where: { tokenHash: hashToken(token) },
+      include: {
+        user: {
+          select: { id: true, email: true, name: true },
+        },
+      },
+    });
+
+    if (!session) return null;
+
+    if (session.expiresAt.getTime() <= Date.now()) {
+      await prisma.session.delete({ where: { id: session.id } }).catch(() => undefined);
+      return null;
+    }
+
+    return session.user;
+  } catch (error) {
+    console.error('Error resolving session:', error);
+    return null;
+  }
+}
+
+/**
+ * Delete the session referenced by the request cookie (if any)
+ */
+export async function destroySession(request: NextRequest): Promise<void> {
+  const token = request.cookies.get(SESSION_COOKIE_NAME)?.value;
+  if (!token) return;
+
+  await prisma.session.deleteMany({
+    where: { tokenHash: hashToken(token) },
+  });
+}
+
+export function setSessionCookie(response: NextResponse, token: string, expiresAt: Date): void {
+  response.cookies.set(SESSION_COOKIE_NAME, token, {
+    httpOnly: true,
+    sameSite: 'lax',
+    secure: process.env.NODE_ENV === 'production',
+    path: '/',
+    expires: expiresAt,
+  });
+}
+
+export function clearSessionCookie(response: NextResponse): void {
+  response.cookies.set(SESSION_COOKIE_NAME, '', {
+    httpOnly: true,
+    sameSite: 'lax',
+    secure: process.env.NODE_ENV === 'production',
+    path: '/',
+    maxAge: 0,
+  });
+}
@@ -0,0 +1,237 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import {
+  chunkBlocks,
+  createChunks,
+  createSemanticChunks,
+  createSentenceChunks,
+  createStructuredChunks,
+  detectBlocks,
+  type Block,
+  type LayoutItem,
+  type PageContent,
+} from './chunking';
+
+test('createChunks ends when trimmed chunks are shorter than the overlap', () => {
+  // Sentence breaks followed by whitespace: each chunk trims to less than the overlap
+  const text = ('x'.repeat(95) + '.\n\n   ').repeat(40);
+
+  const chunks = createChunks(text, 200, 100);
+
+  assert.ok(chunks.length > 0);
+  assert.ok(chunks.length <= text.length);
+  for (const chunk of chunks) {
+    assert.ok(chunk.content.length <= 200);
+    assert.equal(chunk.content, chunk.content.trim());
+  }
+});
+
+test('createChunks overlaps neighbouring chunks and covers the page', () => {
+  const sentences = Array.from({ length: 60 }, (_, i) => `Sentence number ${i} talks about topic ${i}.`);
+  const text = sentences.join(' ');
+
+  const chunks = createChunks(text, 300, 60);
+
+  assert.ok(chunks.length > 1);
+  for (const sentence of sentences) {
+    assert.ok(chunks.some(chunk => chunk.content.includes(sentence)), `missing: ${sentence}`);
+  }
+  for (let i = 1; i < chunks.length; i++) {
+    const tail = chunks[i - 1].content.slice(-20);
+    assert.ok(chunks[i].content.includes(tail), `chunk ${i} doesn't overlap the previous one`);
+  }
+});
+
+test('createChunks keeps small pages whole and numbers pages from form feeds', () => {
+  const first = 'The first page is short but long enough to be kept as a chunk.';
+  const second = 'The second page is also short, and also long enough to be kept.';
+
+  const chunks = createChunks(`${first}\f${second}`, 1000, 200);
+
+  assert.deepEqual(chunks, [
+    { content: first, pageNum: 1 },
+    { content: second, pageNum: 2 },
+  ]);
+});
+
+// One line of text on a PDF page; cells are placed far apart, as in a table row
+function line(y: number, cells: string | string[], options: { size?: number; font?: string; x?: number } = {}): LayoutItem[] {
+  const { size = 10, font = 'Body', x = 72 } = options;
+  const texts = typeof cells === 'string' ? [cells] : cells;
+  return texts.map((text, index) => ({
+    text,
+    x: x + index * 150,
+    y,
+    width: text.length * size * 0.5,
+    fontSize: size,
+    fontName: font,
+    hasEOL: index === texts.length - 1,
+  }));
+}
+
+function splitIntoSentences(text: string): string[] {
+  return text.split(/(?<=\.)\s+/);
+}
+
+const INTRO = 'Plants turn light into chemical energy through photo-';
+const INTRO_END = 'synthesis, which takes place in their leaves.';
+
+function structuredPage(): PageContent {
+  const items = [
+    ...line(760, '1 Introduction', { size: 16 }),
+    ...line(740, INTRO),
+    ...line(728, INTRO_END),
+    ...line(700, '1.1 Background', { size: 13 }),
+    ...line(680, 'Early botanists measured how leaves gained weight over a season.'),
+    ...line(660, '• Light reactions capture energy'),
+    ...line(648, '• The Calvin cycle fixes carbon'),
+    ...line(636, 'from the air into sugars', { x: 84 }),
+    ...line(610, ['Stage', 'Location', 'Product']),
+    ...line(598, ['Light reactions', 'Thylakoid', 'ATP']),
+    ...line(586, ['Calvin cycle', 'Stroma', 'Glucose']),
+    ...line(560, '2 Methods', { size: 16 }),
+    ...line(540, 'Leaves were sampled every morning and their starch content was measured.'),
+  ];
+  return { pageNum: 1, text: items.map(item => item.text).join('\n'), items };
+}
+
+test('detectBlocks finds headings by size, paragraphs, lists and tables', () => {
+  const blocks = detectBlocks([structuredPage()]);
+
+  assert.deepEqual(blocks.map(({ type, text, level }) => ({ type, text, ...(level && { level }) })), [
+    { type: 'heading', text: '1 Introduction', level: 1 },
+    { type: 'paragraph', text: `${INTRO.slice(0, -1)}${INTRO_END}` },
+    { type: 'heading', text: '1.1 Background', level: 2 },
+    { type: 'paragraph', text: 'Early botanists measured how leaves gained weight over a season.' },
+    { type: 'list', text: '• Light reactions capture energy\n• The Calvin cycle fixes carbon from the air into sugars' },
+    { type: 'table', text: 'Stage | Location | Product\nLight reactions | Thylakoid | ATP\nCalvin cycle | Stroma | Glucose' },
+    { type: 'heading', text: '2 Methods', level: 1 },
+    { type: 'paragraph', text: 'Leaves were sampled every morning and their starch content was measured.' },
+  ]);
+});
+
+test('detectBlocks drops running headers and page numbers, and finds bold body-size headings', () => {
+  const topics = ['Cells', 'Genetics', 'Evolution'];
+  const pages = topics.map((topic, index) => {
+    const items = [
+      ...line(800, 'Biology 101 Course Notes'),
+      ...line(760, topic, { font: 'Body-Bold' }),
+      ...line(740, `This part of the course covers ${topic.toLowerCase()} in some detail.`),
+      ...line(30, `Page ${index + 1}`),
+    ];
+    return { pageNum: index + 1, text: '', items };
+  });
+
+  const blocks = detectBlocks(pages);
+
+  assert.deepEqual(blocks.map(({ type, text, pageNum }) => ({ type, text, pageNum })), topics.flatMap((topic, index) => [
+    { type: 'heading', text: topic, pageNum: index + 1 },
+    { type: 'paragraph', text: `This part of the course covers ${topic.toLowerCase()} in some detail.`, pageNum: index + 1 },
+  ]));
+});
+
+test('createStructuredChunks gives each chunk the path of headings above it', () => {
+  const chunks = createStructuredChunks([structuredPage()]);
+
+  assert.deepEqual(chunks.map(chunk => chunk.sectionPath), [
+    '1 Introduction',
+    '1 Introduction > 1.1 Background',
+    '2 Methods',
+  ]);
+  assert.ok(chunks[0].content.startsWith('1 Introduction\n\nPlants turn light'));
+  assert.ok(chunks[1].content.includes('Calvin cycle | Stroma | Glucose'));
+});
+
+test('chunkBlocks splits long tables between rows, repeating the header row', () => {
+  const rows = Array.from({ length: 30 }, (_, i) => `Sample ${i} | ${i * 3} mg | ${i % 2 ? 'leaf' : 'stem'}`);
+  const blocks: Block[] = [
+    { type: 'heading', text: 'Results', pageNum: 1, level: 1 },
+    { type: 'table', text: ['Sample | Starch | Tissue', ...rows].join('\n'), pageNum: 1 },
+  ];
+
+  const chunks = chunkBlocks(blocks, { chunkSize: 200 });
+
+  assert.ok(chunks.length > 2);
+  for (const chunk of chunks.slice(1)) {
+    assert.ok(chunk.content.length <= 200);
+    assert.ok(chunk.content.startsWith('Sample | Starch | Tissue\n'));
+    assert.equal(chunk.sectionPath, 'Results');
+  }
+  for (const row of rows) {
+    assert.ok(chunks.some(chunk => chunk.content.split('\n').includes(row)), `missing: ${row}`);
+  }
+});
+
+test('createSentenceChunks carries whole trailing sentences over as overlap', () => {
+  const sentences = Array.from({ length: 12 }, (_, i) => `Sentence ${i} is about topic ${i}.`);
+  const pages = [{ pageNum: 1, text: sentences.join(' ') }];
+
+  const chunks = createSentenceChunks(pages, 120, 40);
+
+  assert.ok(chunks.length > 2);
+  for (const [index, chunk] of chunks.entries()) {
+    assert.ok(chunk.content.length <= 120);
+    if (index === 0) continue;
+    const previous = splitIntoSentences(chunks[index - 1].content);
+    const current = splitIntoSentences(chunk.content);
+    // Starts with the previous chunk's last sentence, which fits in the overlap
+    assert.equal(current[0], previous[previous.length - 1]);
+    assert.ok(current[0].length + 1 <= 40);
+    // and always moves on
+    assert.ok(!previous.includes(current[current.length - 1]));
+  }
+  for (const sentence of sentences) {
+    assert.ok(chunks.some(chunk => chunk.content.includes(sentence)), `missing: ${sentence}`);
+  }
+});
+
+test('createSentenceChunks drops the overlap when the next sentence needs the room', () => {
+  const long = `This sentence is long enough to fill most of a chunk on its own ${'and more '.repeat(5)}.`;
+  const pages = [{ pageNum: 1, text: `First short one here. Second short one here. ${long}` }];
+
+  const chunks = createSentenceChunks(pages, 110, 50);
+
+  assert.equal(chunks[chunks.length - 1].content, long);
+  assert.ok(chunks.every(chunk => chunk.content.length <= 110));
+});
+
+test('createSemanticChunks breaks where neighbouring sentences are least alike', async () => {
+  const plants = [
+    'Plants capture sunlight in their leaves.',
+    'Plants store the energy as sugar.',
+    'Plants release oxygen as they do so.',
+  ];
+  const stars = [
+    'Stars fuse hydrogen into helium.',
+    'Stars shine for billions of years.',
+    'Stars end as white dwarfs or supernovae.',
+  ];
+  const calls: string[][] = [];
+  // One direction per topic, so sentences on the same topic are identical
+  const embed = async (texts: string[]) => {
+    calls.push(texts);
+    return texts.map(text => (text.startsWith('Plants') ? [1, 0.1] : [0.1, 1]));
+  };
+
+  const chunks = await createSemanticChunks([{ pageNum: 1, text: [...plants, ...stars].join(' ') }], embed);
+
+  assert.equal(calls.length, 1);
+  assert.deepEqual(calls[0], [...plants, ...stars]);
+  assert.deepEqual(chunks.map(chunk => chunk.content), [plants.join(' '), stars.join(' ')]);
+});
+
+test('createSemanticChunks also breaks at pages and at the chunk size', async () => {
+  const sentence = (i: number) => `Sentence ${i} keeps talking about the very same topic.`;
+  const embed = async (texts: string[]) => texts.map((_, i) => [1, i * 0.001]);
+  const pages = [
+    { pageNum: 1, text: [0, 1, 2, 3, 4, 5].map(sentence).join(' ') },
+    { pageNum: 2, text: [6, 7].map(sentence).join(' ') },
+  ];
+
+  const chunks = await createSemanticChunks(pages, embed, 200);
+
+  assert.ok(chunks.every(chunk => chunk.content.length <= 200));
+  assert.ok(chunks.some(chunk => chunk.pageNum === 2));
+  assert.ok(chunks.filter(chunk => chunk.pageNum === 1).every(chunk => !chunk.content.includes('Sentence 6')));
+  assert.equal(chunks.filter(chunk => chunk.pageNum === 2).map(chunk => chunk.content).join(' '), [6, 7].map(sentence).join(' '));
+});
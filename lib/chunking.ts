@@ -0,0 +1,795 @@
+/**
+ * Document chunking
+ *
+ * Four strategies, chosen per document:
+ * - fixed: fixed-size character windows with overlap
+ * - sentence: whole sentences packed up to the chunk size, overlapping by sentences
+ * - semantic: sentences grouped until the topic shifts, judged by the
+ *   similarity of neighbouring sentence embeddings
+ * - structure: rebuilds lines from positioned text items, classifies them into
+ *   headings, paragraphs, lists and tables, and packs whole blocks into chunks
+ *   that never cross a section or page boundary. Each chunk records its
+ *   section path (e.g. "3 Neural Networks > 3.2 Backpropagation").
+ *
+ * No chunk spans pages, so every chunk has a single page number to cite. For
+ * formats without pages, "page" is whatever unit the extractor splits the
+ * document into (a slide, a section, a run of lines), and each chunk also
+ * records its location in the source (see ChunkLocation).
+ */
+
+import { cosineSimilarity } from './embeddings';
+
+export interface ChunkData {
+  content: string;
+  pageNum: number;
+  sectionPath?: string | null;
+  location?: ChunkLocation | null;
+}
+
+/**
+ * Where a chunk sits in its source document. Which fields are set depends on
+ * the format: PDFs have pages, presentations slides, DOCX and HTML numbered
+ * sections under a heading anchor, Markdown sections with line ranges, and
+ * plain text line ranges only.
+ */
+export interface ChunkLocation {
+  page?: number;
+  slide?: number;
+  section?: number; // 1-based; a new section starts at each heading
+  anchor?: string; // id of the section's heading, for linking into the source
+  lines?: [number, number]; // 1-based, inclusive
+}
+
+/**
+ * A positioned run of text on a page, in PDF user space (y grows upwards)
+ */
+export interface LayoutItem {
+  text: string;
+  x: number;
+  y: number;
+  width: number;
+  fontSize: number;
+  fontName: string;
+  hasEOL: boolean;
+}
+
+/**
+ * Extracted content of one page, or of the format's equivalent unit. `items`
+ * is absent when the page has no usable layout (e.g. its text came from OCR).
+ * Extractors for formats that mark up their structure (headings in DOCX,
+ * Markdown, HTML) provide `blocks` directly instead.
+ */
+export interface PageContent {
+  pageNum: number;
+  text: string;
+  location?: ChunkLocation;
+  items?: LayoutItem[];
+  blocks?: Block[];
+}
+
+export type BlockType = 'heading' | 'paragraph' | 'list' | 'table';
+
+export interface Block {
+  type: BlockType;
+  text: string;
+  pageNum: number;
+  level?: number; // headings only, 1 = top level
+  location?: ChunkLocation; // defaults to the page's
+}
+
+interface Line {
+  text: string;
+  x: number;
+  y: number;
+  fontSize: number;
+  fontName: string;
+  cells: string[]; // text split at wide horizontal gaps
+}
+
+export interface StructuredChunkOptions {
+  chunkSize?: number;
+  minChunkSize?: number;
+}
+
+export const CHUNKING_STRATEGIES = ['fixed', 'sentence', 'semantic', 'structure'] as const;
+export type ChunkingStrategy = (typeof CHUNKING_STRATEGIES)[number];
+
+export const DEFAULT_CHUNKING_STRATEGY: ChunkingStrategy = 'structure';
+
+export interface ChunkingOptions {
+  chunkSize?: number; // target characters per chunk
+  overlap?: number; // characters shared between neighbouring chunks (fixed and sentence only)
+}
+
+export interface ChunkingSettings {
+  strategy: ChunkingStrategy;
+  options: ChunkingOptions;
+}
+
+/**
+ * Embeds a list of texts; the semantic strategy uses it to compare sentences
+ */
+export type EmbedTexts = (texts: string[]) => Promise<number[][]>;
+
+export const DEFAULT_CHUNK_SIZE = 1000;
+export const DEFAULT_CHUNK_OVERLAP = 200;
+const MIN_CHUNK_SIZE_SETTING = 200;
+const MAX_CHUNK_SIZE_SETTING = 4000;
+
+// What parseChunkingSettings accepts, for error messages
+export const CHUNKING_SETTINGS_RULES =
+  `strategy must be one of ${CHUNKING_STRATEGIES.join(', ')}; chunkSize must be an integer from ` +
+  `${MIN_CHUNK_SIZE_SETTING} to ${MAX_CHUNK_SIZE_SETTING}; overlap must be at most half the chunk size`;
+
+// Semantic chunks break at the weakest links between neighbouring sentences:
+// similarities at or below this percentile of the document's
+const SEMANTIC_BREAK_PERCENTILE = 20;
+
+// Joins the headings of a section path
+export const SECTION_PATH_SEPARATOR = ' > ';
+
+// Chunks shorter than this carry too little context to be worth embedding
+const MIN_CHUNK_CHARS = 50;
+
+// A line this much larger than body text is a heading candidate
+const HEADING_SIZE_RATIO = 1.15;
+const MAX_HEADING_CHARS = 120;
+
+// Vertical gap (in multiples of the font size) that still continues a paragraph
+const PARAGRAPH_GAP_RATIO = 1.7;
+
+// Horizontal gap (in multiples of the font size) that separates table cells
+const CELL_GAP_RATIO = 1.5;
+
+// Lines repeated at the same position on at least this share of pages are
+// running headers/footers
+const RUNNING_LINE_PAGE_SHARE = 0.5;
+
+const BULLET_PATTERN = /^(?:[•◦▪▫‣∙·●○■□–—*-]|\(?\d{1,2}[.)]|\(?[a-z][.)]|\(?[ivx]{1,4}[.)])\s+/;
+const NUMBERED_HEADING_PATTERN = /^(\d+(?:\.\d+)*)\.?\s+\S/;
+
+/**
+ * Create chunks from text with overlap for better context preservation
+ * @param text - The full text to chunk
+ * @param chunkSize - Target size for each chunk (in characters)
+ * @param overlap - Number of characters to overlap between chunks
+ */
+export function createChunks(text: string, chunkSize: number = 1000, overlap: number = 200): ChunkData[] {
+  const chunks: ChunkData[] = [];
+  const pages = text.split(/\f/); // Split by form feed character (page break)
+
+  for (let pageIndex = 0; pageIndex < pages.length; pageIndex++) {
+    const pageText = pages[pageIndex].trim();
+    if (!pageText) continue;
+
+    const pageNum = pageIndex + 1;
+
+    // If the page is smaller than chunk size, use it as is
+    if (pageText.length <= chunkSize) {
+      chunks.push({ content: pageText, pageNum });
+      continue;
+    }
+
+    // Split large pages into chunks with overlap
+    let startIndex = 0;
+    while (startIndex < pageText.length) {
+      const endIndex = Math.min(startIndex + chunkSize, pageText.length);
+      let chunkEnd = endIndex;
+
+      // Try to break at sentence boundary
+      if (endIndex < pageText.length) {
+        const window = pageText.slice(startIndex, endIndex);
+        const breakPoint = Math.max(window.lastIndexOf('. '), window.lastIndexOf('\n'));
+
+        if (breakPoint > chunkSize * 0.5) {
+          chunkEnd = startIndex + breakPoint + 1;
+        }
+      }
+
+      chunks.push({ content: pageText.slice(startIndex, chunkEnd).trim(), pageNum });
+      if (endIndex >= pageText.length) break;
+
+      // Step back by the overlap from where this chunk ended in the page (not
+      // its trimmed length, which can be shorter than the overlap), always
+      // moving forward so the loop ends
+      startIndex = Math.max(startIndex + 1, chunkEnd - overlap);
+    }
+  }
+
+  return chunks.filter(chunk => chunk.content.length > MIN_CHUNK_CHARS); // Filter out very small chunks
+}
+
+/**
+ * Human-readable location of a chunk, e.g. "Page 3", "Slide 2" or "Lines 10-24"
+ */
+export function formatLocation(pageNum: number, location?: ChunkLocation | null): string {
+  if (location?.slide) return `Slide ${location.slide}`;
+  if (location?.lines) {
+    const [start, end] = location.lines;
+    return start === end ? `Line ${start}` : `Lines ${start}-${end}`;
+  }
+  if (location?.section) return `Section ${location.section}`;
+  return `Page ${pageNum}`;
+}
+
+/**
+ * Combine the locations of two neighbouring pieces of a chunk: line ranges
+ * are widened to cover both, everything else comes from the first
+ */
+function mergeLocations(first: ChunkLocation | undefined, next: ChunkLocation | undefined): ChunkLocation | undefined {
+  if (!first) return next;
+  if (!first.lines || !next?.lines) return first;
+  return {
+    ...first,
+    lines: [Math.min(first.lines[0], next.lines[0]), Math.max(first.lines[1], next.lines[1])],
+  };
+}
+
+/**
+ * Validate a strategy and options from a request. Missing fields take their
+ * defaults; returns null when any field is invalid.
+ */
+export function parseChunkingSettings(strategy: unknown, chunkSize: unknown, overlap: unknown): ChunkingSettings | null {
+  const options: ChunkingOptions = {};
+
+  if (strategy !== undefined && strategy !== null && strategy !== '') {
+    if (!CHUNKING_STRATEGIES.includes(strategy as ChunkingStrategy)) return null;
+  }
+
+  if (chunkSize !== undefined && chunkSize !== null && chunkSize !== '') {
+    const size = Number(chunkSize);
+    if (!Number.isInteger(size) || size < MIN_CHUNK_SIZE_SETTING || size > MAX_CHUNK_SIZE_SETTING) return null;
+    options.chunkSize = size;
+  }
+
+  if (overlap !== undefined && overlap !== null && overlap !== '') {
+    const chars = Number(overlap);
+    const size = options.chunkSize ?? DEFAULT_CHUNK_SIZE;
+    if (!Number.isInteger(chars) || chars < 0 || chars > size / 2) return null;
+    options.overlap = chars;
+  }
+
+  return { strategy: (strategy || DEFAULT_CHUNKING_STRATEGY) as ChunkingStrategy, options };
+}
+
+/**
+ * The chunking settings stored on a PDF record
+ */
+export function storedChunkingSettings(pdf: { chunkingStrategy: string; chunkingOptions: unknown }): ChunkingSettings {
+  return {
+    strategy: pdf.chunkingStrategy as ChunkingStrategy,
+    options: (pdf.chunkingOptions ?? {}) as ChunkingOptions,
+  };
+}
+
+/**
+ * Chunk extracted pages with the given strategy
+ */
+export async function chunkDocument(
+  pages: PageContent[],
+  { strategy, options }: ChunkingSettings,
+  embed: EmbedTexts
+): Promise<ChunkData[]> {
+  const chunkSize = options.chunkSize ?? DEFAULT_CHUNK_SIZE;
+  const overlap = options.overlap ?? DEFAULT_CHUNK_OVERLAP;
+
+  let chunks: ChunkData[];
+  switch (strategy) {
+    case 'fixed':
+      chunks = createChunks(pagesToText(pages), chunkSize, overlap);
+      break;
+    case 'sentence':
+      chunks = createSentenceChunks(pages, chunkSize, overlap);
+      break;
+    case 'semantic':
+      chunks = await createSemanticChunks(pages, embed, chunkSize);
+      break;
+    case 'structure':
+      chunks = createStructuredChunks(pages, { chunkSize });
+      break;
+  }
+
+  // Chunks that don't know better are located at their page
+  const locations = new Map(pages.map(page => [page.pageNum, page.location]));
+  return chunks.map(chunk => ({ ...chunk, location: chunk.location ?? locations.get(chunk.pageNum) ?? null }));
+}
+
+/**
+ * Join pages with form feeds, leaving empty segments for pages that yielded
+ * nothing so segment i is still page i + 1
+ */
+function pagesToText(pages: PageContent[]): string {
+  const segments: string[] = [];
+  for (const page of pages) {
+    segments[page.pageNum - 1] = page.text;
+  }
+  return Array.from(segments, segment => segment ?? '').join('\f');
+}
+
+/**
+ * Split text into sentences
+ */
+function splitSentences(text: string): string[] {
+  const segmenter = new Intl.Segmenter('en', { granularity: 'sentence' });
+  return [...segmenter.segment(text.replace(/\s+/g, ' '))]
+    .map(({ segment }) => segment.trim())
+    .filter(Boolean);
+}
+
+/**
+ * Pack whole sentences into chunks of up to chunkSize characters. Each chunk
+ * starts with the last sentences of the previous one, up to overlap characters.
+ */
+export function createSentenceChunks(pages: PageContent[], chunkSize: number = DEFAULT_CHUNK_SIZE, overlap: number = DEFAULT_CHUNK_OVERLAP): ChunkData[] {
+  const chunks: ChunkData[] = [];
+
+  for (const page of pages) {
+    const sentences = splitSentences(page.text).flatMap(sentence => hardSplit(sentence, chunkSize));
+    let current: string[] = [];
+    let length = 0;
+    let fresh = 0; // sentences not already emitted in a previous chunk
+
+    for (const sentence of sentences) {
+      if (fresh > 0 && length + sentence.length + 1 > chunkSize) {
+        chunks.push({ content: current.join(' '), pageNum: page.pageNum });
+
+        // Carry trailing sentences over as overlap
+        const carried: string[] = [];
+        let carriedLength = 0;
+        for (let i = current.length - 1; i >= 0; i--) {
+          if (carriedLength + current[i].length + 1 > overlap) break;
+          carried.unshift(current[i]);
+          carriedLength += current[i].length + 1;
+        }
+        current = carried;
+        length = carriedLength;
+        fresh = 0;
+
+        // Overlap gives way when the next sentence wouldn't fit alongside it
+        while (current.length > 0 && length + sentence.length + 1 > chunkSize) {
+          length -= current.shift()!.length + 1;
+        }
+      }
+      current.push(sentence);
+      length += sentence.length + 1;
+      fresh++;
+    }
+    if (fresh > 0) chunks.push({ content: current.join(' '), pageNum: page.pageNum });
+  }
+
+  return chunks.filter(chunk => chunk.content.length > MIN_CHUNK_CHARS);
+}
+
+/**
+ * Group consecutive sentences, starting a new chunk where neighbouring
+ * sentences are least alike (a topic shift), at page breaks, or when the
+ * chunk would exceed chunkSize
+ */
+export async function createSemanticChunks(pages: PageContent[], embed: EmbedTexts, chunkSize: number = DEFAULT_CHUNK_SIZE): Promise<ChunkData[]> {
+  const sentences = pages.flatMap(page =>
+    splitSentences(page.text)
+      .flatMap(sentence => hardSplit(sentence, chunkSize))
+      .map(text => ({ text, pageNum: page.pageNum }))
+  );
+  if (sentences.length === 0) return [];
+
+  const embeddings = await embed(sentences.map(sentence => sentence.text));
+
+  // similarities[i] compares sentence i with sentence i + 1
+  const similarities = sentences.slice(1).map((_, i) => cosineSimilarity(embeddings[i], embeddings[i + 1]));
+  const sorted = [...similarities].sort((a, b) => a - b);
+  const breakBelow = sorted[Math.floor(((sorted.length - 1) * SEMANTIC_BREAK_PERCENTILE) / 100)] ?? -Infinity;
+
+  const chunks: ChunkData[] = [];
+  let current: string[] = [sentences[0].text];
+  let length = sentences[0].text.length;
+
+  for (let i = 1; i < sentences.length; i++) {
+    const sentence = sentences[i];
+    // Too short a run to stand alone stays with what follows
+    const topicShift = similarities[i - 1] <= breakBelow && length > MIN_CHUNK_CHARS;
+    const pageBreak = sentence.pageNum !== sentences[i - 1].pageNum;
+
+    if (topicShift || pageBreak || length + sentence.text.length + 1 > chunkSize) {
+      chunks.push({ content: current.join(' '), pageNum: sentences[i - 1].pageNum });
+      current = [];
+      length = 0;
+    }
+    current.push(sentence.text);
+    length += sentence.text.length + 1;
+  }
+  chunks.push({ content: current.join(' '), pageNum: sentences[sentences.length - 1].pageNum });
+
+  return chunks.filter(chunk => chunk.content.length > MIN_CHUNK_CHARS);
+}
+
+/**
+ * Chunk a document along its structure: one or more whole blocks per chunk,
+ * split only where a block alone exceeds the chunk size
+ */
+export function createStructuredChunks(pages: PageContent[], options: StructuredChunkOptions = {}): ChunkData[] {
+  return chunkBlocks(detectBlocks(pages), options);
+}
+
+/**
+ * Classify the content of every page into headings, paragraphs, lists and tables
+ */
+export function detectBlocks(pages: PageContent[]): Block[] {
+  const linesByPage = new Map(
+    pages.filter(page => page.items?.length).map(page => [page.pageNum, groupLines(page.items!)])
+  );
+  removeRunningLines(linesByPage);
+
+  const allLines = [...linesByPage.values()].flat();
+  const body = bodyStyle(allLines);
+  const headingLevels = headingSizeLevels(allLines, body.fontSize);
+
+  const blocks: Block[] = [];
+  for (const page of pages) {
+    const lines = linesByPage.get(page.pageNum);
+    const pageBlocks = page.blocks
+      ?? (lines
+        ? blocksFromLines(lines, page.pageNum, body, headingLevels)
+        : blocksFromText(page.text, page.pageNum));
+    blocks.push(...pageBlocks.map(block => ({ ...block, location: block.location ?? page.location })));
+  }
+  return blocks;
+}
+
+/**
+ * Pack blocks into chunks, tracking the heading hierarchy as the section path
+ */
+export function chunkBlocks(blocks: Block[], options: StructuredChunkOptions = {}): ChunkData[] {
+  const chunkSize = options.chunkSize ?? 1000;
+  const minChunkSize = options.minChunkSize ?? MIN_CHUNK_CHARS;
+
+  const chunks: ChunkData[] = [];
+  const headings: { level: number; text: string }[] = [];
+  let parts: string[] = [];
+  let length = 0;
+  let pageNum = 0;
+  let location: ChunkLocation | undefined;
+
+  const sectionPath = () => (headings.length > 0 ? headings.map(h => h.text).join(SECTION_PATH_SEPARATOR) : null);
+
+  const flush = () => {
+    const content = parts.join('\n\n').trim();
+    if (content.length > minChunkSize) {
+      chunks.push({ content, pageNum, sectionPath: sectionPath(), ...(location && { location }) });
+    }
+    parts = [];
+    length = 0;
+    location = undefined;
+  };
+
+  const append = (text: string, block: Block) => {
+    if (parts.length > 0 && (block.pageNum !== pageNum || length + text.length + 2 > chunkSize)) {
+      flush();
+    }
+    pageNum = block.pageNum;
+    location = mergeLocations(location, block.location);
+    parts.push(text);
+    length += text.length + 2;
+  };
+
+  for (const block of blocks) {
+    if (block.type === 'heading') {
+      flush();
+      const level = block.level ?? 1;
+      while (headings.length > 0 && headings[headings.length - 1].level >= level) {
+        headings.pop();
+      }
+      headings.push({ level, text: block.text });
+      // The heading opens the section's first chunk
+      pageNum = block.pageNum;
+      location = block.location;
+      parts.push(block.text);
+      length = block.text.length + 2;
+      continue;
+    }
+
+    for (const piece of splitBlock(block, chunkSize)) {
+      append(piece, block);
+    }
+  }
+  flush();
+
+  return chunks;
+}
+
+/**
+ * Rebuild text lines from items in content-stream order
+ */
+function groupLines(items: LayoutItem[]): Line[] {
+  const lines: Line[] = [];
+  let current: (Line & { end: number }) | null = null;
+
+  const finish = () => {
+    if (current) {
+      const cells = current.cells.map(cell => cell.replace(/\s+/g, ' ').trim()).filter(Boolean);
+      if (cells.length > 0) lines.push({ ...current, text: cells.join(' '), cells });
+    }
+    current = null;
+  };
+
+  for (const item of items) {
+    if (item.text.trim()) {
+      const sameLine =
+        current !== null && Math.abs(current.y - item.y) < Math.max(current.fontSize, item.fontSize) * 0.5;
+
+      if (current && sameLine) {
+        const gap = item.x - current.end;
+        if (gap > current.fontSize * CELL_GAP_RATIO) {
+          current.cells.push(item.text);
+        } else {
+          const separator = gap > current.fontSize * 0.15 ? ' ' : '';
+          current.cells[current.cells.length - 1] += separator + item.text;
+        }
+        current.end = Math.max(current.end, item.x + item.width);
+        current.fontSize = Math.max(current.fontSize, item.fontSize);
+      } else {
+        finish();
+        current = {
+          text: '',
+          x: item.x,
+          y: item.y,
+          fontSize: item.fontSize,
+          fontName: item.fontName,
+          cells: [item.text],
+          end: item.x + item.width,
+        };
+      }
+    }
+
+    if (item.hasEOL) finish();
+  }
+  finish();
+
+  return lines;
+}
+
+/**
+ * Drop page numbers and headers/footers repeated across pages
+ */
+function removeRunningLines(linesByPage: Map<number, Line[]>) {
+  const pageCount = linesByPage.size;
+  const key = (line: Line) => `${Math.round(line.y)}|${line.text.replace(/\d+/g, '#')}`;
+
+  const pagesWithLine = new Map<string, number>();
+  if (pageCount >= 3) {
+    for (const lines of linesByPage.values()) {
+      for (const k of new Set(lines.map(key))) {
+        pagesWithLine.set(k, (pagesWithLine.get(k) ?? 0) + 1);
+      }
+    }
+  }
+
+  for (const [pageNum, lines] of linesByPage) {
+    linesByPage.set(
+      pageNum,
+      lines.filter((line, index) => {
+        const isEdge = index === 0 || index === lines.length - 1;
+        if (isEdge && /^(?:page\s+)?\d+(?:\s*(?:of|\/)\s*\d+)?$/i.test(line.text)) return false;
+        return (pagesWithLine.get(key(line)) ?? 0) < Math.max(3, pageCount * RUNNING_LINE_PAGE_SHARE);
+      })
+    );
+  }
+}
+
+/**
+ * The most common font size and font among all lines, weighted by length
+ */
+function bodyStyle(lines: Line[]): { fontSize: number; fontName: string } {
+  const sizes = new Map<number, number>();
+  const fonts = new Map<string, number>();
+  for (const line of lines) {
+    const size = Math.round(line.fontSize * 2) / 2;
+    sizes.set(size, (sizes.get(size) ?? 0) + line.text.length);
+    fonts.set(line.fontName, (fonts.get(line.fontName) ?? 0) + line.text.length);
+  }
+
+  const mostCommon = <K,>(counts: Map<K, number>, fallback: K) =>
+    [...counts.entries()].sort((a, b) => b[1] - a[1])[0]?.[0] ?? fallback;
+
+  return { fontSize: mostCommon(sizes, 10), fontName: mostCommon(fonts, '') };
+}
+
+/**
+ * Heading level for each font size clearly larger than body text, largest first
+ */
+function headingSizeLevels(lines: Line[], bodySize: number): Map<number, number> {
+  const sizes = new Set<number>();
+  for (const line of lines) {
+    if (line.fontSize >= bodySize * HEADING_SIZE_RATIO && line.text.length <= MAX_HEADING_CHARS) {
+      sizes.add(Math.round(line.fontSize * 2) / 2);
+    }
+  }
+  return new Map([...sizes].sort((a, b) => b - a).map((size, index) => [size, index + 1]));
+}
+
+function blocksFromLines(
+  lines: Line[],
+  pageNum: number,
+  body: { fontSize: number; fontName: string },
+  headingLevels: Map<number, number>
+): Block[] {
+  const blocks: Block[] = [];
+  let paragraph: { text: string; last: Line } | null = null;
+  let list: { items: string[]; x: number; last: Line } | null = null;
+  let table: Line[] = [];
+
+  const flushParagraph = () => {
+    if (paragraph) blocks.push({ type: 'paragraph', text: paragraph.text, pageNum });
+    paragraph = null;
+  };
+  const flushList = () => {
+    if (list) blocks.push({ type: 'list', text: list.items.join('\n'), pageNum });
+    list = null;
+  };
+  const flushTable = () => {
+    if (table.length >= 2) {
+      blocks.push({ type: 'table', text: table.map(row => row.cells.join(' | ')).join('\n'), pageNum });
+    } else if (table.length === 1) {
+      // A lone wide-gapped line is just text
+      blocks.push({ type: 'paragraph', text: table[0].text, pageNum });
+    }
+    table = [];
+  };
+  const flushAll = () => {
+    flushParagraph();
+    flushList();
+    flushTable();
+  };
+
+  const isClose = (previous: Line, line: Line) => {
+    const gap = previous.y - line.y;
+    return gap > 0 && gap <= Math.max(previous.fontSize, line.fontSize) * PARAGRAPH_GAP_RATIO;
+  };
+
+  lines.forEach((line, index) => {
+    const level = headingLevel(line, body, headingLevels, lines[index - 1]);
+    if (level !== null) {
+      flushAll();
+      blocks.push({ type: 'heading', text: line.text, pageNum, level });
+      return;
+    }
+
+    if (line.cells.length >= 2) {
+      flushParagraph();
+      flushList();
+      if (table.length > 0 && !isClose(table[table.length - 1], line)) flushTable();
+      table.push(line);
+      return;
+    }
+    flushTable();
+
+    if (BULLET_PATTERN.test(line.text)) {
+      flushParagraph();
+      if (list && !isClose(list.last, line)) flushList();
+      list ??= { items: [], x: line.x, last: line };
+      list.items.push(line.text);
+      list.last = line;
+      return;
+    }
+
+    // Indented continuation of a list item
+    if (list && isClose(list.last, line) && line.x > list.x + body.fontSize * 0.5) {
+      list.items[list.items.length - 1] = joinLines(list.items[list.items.length - 1], line.text);
+      list.last = line;
+      return;
+    }
+    flushList();
+
+    const sameStyle = paragraph !== null && Math.abs(paragraph.last.fontSize - line.fontSize) < body.fontSize * 0.1;
+    if (paragraph && sameStyle && isClose(paragraph.last, line)) {
+      paragraph.text = joinLines(paragraph.text, line.text);
+      paragraph.last = line;
+    } else {
+      flushParagraph();
+      paragraph = { text: line.text, last: line };
+    }
+  });
+  flushAll();
+
+  return blocks;
+}
+
+function headingLevel(
+  line: Line,
+  body: { fontSize: number; fontName: string },
+  headingLevels: Map<number, number>,
+  previous: Line | undefined
+): number | null {
+  const text = line.text;
+  if (line.cells.length > 1 || text.length > MAX_HEADING_CHARS) return null;
+  if (!/\p{L}/u.test(text) || /[.,;]$/.test(text) || BULLET_PATTERN.test(text)) return null;
+
+  const sizeLevel = headingLevels.get(Math.round(line.fontSize * 2) / 2);
+  if (sizeLevel !== undefined) return sizeLevel;
+
+  // Body-size headings sit below extra space (or open the page) and are
+  // either set in another font, usually bold, or numbered like "3.2"
+  const spacedAbove = !previous || previous.y - line.y > line.fontSize * 1.5;
+  if (!spacedAbove) return null;
+
+  const numbered = text.match(NUMBERED_HEADING_PATTERN);
+  const depth = numbered ? numbered[1].split('.').length : 1;
+  if (line.fontName !== body.fontName || (numbered && depth > 1)) {
+    return headingLevels.size + depth;
+  }
+  return null;
+}
+
+/**
+ * Blocks from plain text without layout (e.g. OCR output): paragraphs are
+ * separated by blank lines and bullet lines form lists
+ */
+function blocksFromText(text: string, pageNum: number): Block[] {
+  const blocks: Block[] = [];
+  for (const section of text.split(/\n\s*\n/)) {
+    const lines = section.split('\n').map(line => line.trim()).filter(Boolean);
+    if (lines.length === 0) continue;
+
+    if (lines.every(line => BULLET_PATTERN.test(line))) {
+      blocks.push({ type: 'list', text: lines.join('\n'), pageNum });
+    } else {
+      blocks.push({ type: 'paragraph', text: lines.reduce(joinLines), pageNum });
+    }
+  }
+  return blocks;
+}
+
+/**
+ * Join wrapped lines, undoing end-of-line hyphenation
+ */
+function joinLines(text: string, line: string): string {
+  if (/\p{Ll}-$/u.test(text) && /^\p{Ll}/u.test(line)) {
+    return text.slice(0, -1) + line;
+  }
+  return `${text} ${line}`;
+}
+
+/**
+ * Split a block that doesn't fit in one chunk: paragraphs at sentence
+ * boundaries, lists and tables between items/rows
+ */
+function splitBlock(block: Block, chunkSize: number): string[] {
+  if (block.text.length <= chunkSize) return [block.text];
+
+  const units =
+    block.type === 'paragraph'
+      ? block.text.split(/(?<=[.!?])\s+(?=\S)/)
+      : block.text.split('\n');
+  const separator = block.type === 'paragraph' ? ' ' : '\n';
+
+  // Table pieces repeat a short header row so each stays readable on its own
+  const header = block.type === 'table' && units[0].length < chunkSize / 4 ? units.shift()! : '';
+  const room = chunkSize - header.length - separator.length;
+
+  const pieces: string[] = [];
+  let current = '';
+  for (const unit of units) {
+    for (const part of hardSplit(unit, room)) {
+      if (current && current.length + separator.length + part.length > room) {
+        pieces.push(header ? header + separator + current : current);
+        current = '';
+      }
+      current = current ? current + separator + part : part;
+    }
+  }
+  if (current) pieces.push(header ? header + separator + current : current);
+
+  return pieces;
+}
+
+/**
+ * Last resort for a single sentence or row longer than a chunk
+ */
+function hardSplit(text: string, size: number): string[] {
+  if (text.length <= size) return [text];
+  const parts: string[] = [];
+  for (let start = 0; start < text.length; start += size) {
+    parts.push(text.slice(start, start + size));
+  }
+  return parts;
+}
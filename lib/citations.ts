@@ -0,0 +1,284 @@
+/**
+ * Structured, verified citations
+ *
+ * The model marks claims with the number of the source they come from ("[2]")
+ * and ends its answer with a JSON block listing each cited source and the
+ * words quoted from it:
+ *
+ *   <citations>[{"source": 2, "quote": "exact words from source 2"}]</citations>
+ *
+ * The block is split off the answer and each quote is checked against the
+ * text of the source it names; quotes that can't be found are flagged as
+ * unverified. Answers without a usable block (custom prompts, models that
+ * ignore the format) fall back to parsing prose citations ("According to
+ * p. 3: '...'") and checking them at the cited location.
+ */
+
+import type { RAGSource } from './rag';
+
+export type CitationUnit = 'page' | 'slide' | 'section' | 'line';
+
+export interface Citation {
+  pageNum: number; // the cited number: page, slide, section or first line
+  unit?: CitationUnit; // absent on citations saved before other formats were supported
+
+  pdfTitle?: string; // the cited document, in multi-document chats
+  quote: string;
+  answerStart: number; // span of the citation (or its [n] marker) within the answer
+  answerEnd: number;
+  verified: boolean; // the quote was found at the cited location
+  chunkId: string | null;
+  pdfId: string | null;
+  sectionPath: string | null; // section of the chunk the quote was found in
+  quoteStart: number | null; // span of the quote within the chunk content
+  quoteEnd: number | null;
+}
+
+type CitableSource = Pick<RAGSource, 'id' | 'pdfId' | 'pdfTitle' | 'pageNum' | 'location' | 'sectionPath' | 'content'>;
+
+// A citation as the model lists it: the 1-based number of a source in the context
+export interface CitedQuote {
+  source: number;
+  quote: string;
+}
+
+const CITATIONS_OPEN = '<citations>';
+const CITATIONS_BLOCK_PATTERN = /<citations>([\s\S]*?)(?:<\/citations>|$)/;
+
+// Source markers in the answer: [2] or [1, 3]
+const MARKER_PATTERN = /\[(\d+(?:\s*,\s*\d+)*)\]/g;
+
+// Fallback for unstructured answers: According to ["Title",] p. 12 | slide 4 | section 2 | lines 10-24: 'quote' — the
+// closing quote must not be followed by a letter so apostrophes inside the
+// quote don't end it early
+const CITATION_PATTERN = /According to (?:["“]([^"”]+)["”],?\s*)?(p\.|[Pp]age|[Ss]lide|[Ss]ection|[Ll]ines?)\s*(\d+)(?:\s*[-–]\s*\d+)?:?\s*(['"“‘])(.+?)(?:\4|[”’])(?!\p{L})/gu;
+
+// Ellipses mark omitted text; each fragment must appear in order
+const ELLIPSIS_PATTERN = /\s*(?:\.\.\.|…)\s*/;
+
+/**
+ * Lowercase, unify typographic quotes and dashes, and collapse whitespace,
+ * keeping a map from each normalised character back to its original index
+ */
+function normalizeWithMap(text: string): { normalized: string; map: number[] } {
+  let normalized = '';
+  const map: number[] = [];
+
+  for (let i = 0; i < text.length; i++) {
+    let char = text[i];
+    if (/\s/.test(char)) {
+      if (normalized.length === 0 || normalized.endsWith(' ')) continue;
+      char = ' ';
+    } else if (/[‘’‛′]/.test(char)) {
+      char = "'";
+    } else if (/[“”‟″]/.test(char)) {
+      char = '"';
+    } else if (/[‐‑‒–—]/.test(char)) {
+      char = '-';
+    } else {
+      char = char.toLowerCase();
+    }
+    normalized += char;
+    map.push(i);
+  }
+
+  return { normalized, map };
+}
+
+/**
+ * Locate a (possibly elided) quote in a chunk. Returns its span in the
+ * original chunk text, or null when it isn't there.
+ */
+export function findQuoteSpan(quote: string, content: string): { start: number; end: number } | null {
+  const fragments = quote
+    .split(ELLIPSIS_PATTERN)
+    .map(fragment => normalizeWithMap(fragment).normalized.trim())
+    .filter(fragment => fragment.length > 0);
+  if (fragments.length === 0) return null;
+
+  const { normalized, map } = normalizeWithMap(content);
+  let from = 0;
+  let start = -1;
+  let end = -1;
+
+  for (const fragment of fragments) {
+    const index = normalized.indexOf(fragment, from);
+    if (index === -1) return null;
+    if (start === -1) start = index;
+    end = index + fragment.length;
+    from = end;
+  }
+
+  return { start: map[start], end: map[end - 1] + 1 };
+}
+
+function citationUnit(word: string): CitationUnit {
+  const unit = word.toLowerCase();
+  if (unit === 'slide' || unit === 'section') return unit;
+  return unit.startsWith('line') ? 'line' : 'page';
+}
+
+/**
+ * Whether a source is at the cited location. Line citations fall anywhere in
+ * the chunk's line range; everything else names the chunk's page number.
+ */
+function isAtLocation(source: CitableSource, unit: CitationUnit, number: number): boolean {
+  const lines = source.location?.lines;
+  if (unit === 'line') return !!lines && number >= lines[0] && number <= lines[1];
+  return source.pageNum === number;
+}
+
+/**
+ * How much of a partial reply can be shown as answer text: everything
+ * before the citations block, holding back what may be the start of its tag
+ */
+export function answerDisplayLength(reply: string): number {
+  const index = reply.indexOf(CITATIONS_OPEN);
+  if (index !== -1) return index;
+
+  for (let length = Math.min(CITATIONS_OPEN.length - 1, reply.length); length > 0; length--) {
+    if (CITATIONS_OPEN.startsWith(reply.slice(-length))) return reply.length - length;
+  }
+  return reply.length;
+}
+
+/**
+ * Split the citations block off a reply. `cited` is null when there is no
+ * block or it can't be parsed, so prose citations are used instead.
+ */
+export function splitCitationBlock(reply: string): { answer: string; cited: CitedQuote[] | null } {
+  const match = reply.match(CITATIONS_BLOCK_PATTERN);
+  if (!match) return { answer: reply.trimEnd(), cited: null };
+
+  const answer = (reply.slice(0, match.index) + reply.slice((match.index ?? 0) + match[0].length)).trimEnd();
+  // Models sometimes wrap the JSON in a code fence
+  const json = match[1].slice(match[1].indexOf('['), match[1].lastIndexOf(']') + 1);
+  try {
+    const entries = JSON.parse(json) as Array<{ source?: unknown; quote?: unknown }>;
+    if (!Array.isArray(entries)) return { answer, cited: null };
+    const cited = entries
+      .map(entry => ({ source: Number(entry?.source), quote: typeof entry?.quote === 'string' ? entry.quote.trim() : '' }))
+      .filter(entry => Number.isInteger(entry.source) && entry.quote.length > 0);
+    return { answer, cited };
+  } catch {
+    return { answer, cited: null };
+  }
+}
+
+function sourceLocation(source: CitableSource): { pageNum: number; unit: CitationUnit } {
+  const { location } = source;
+  if (location?.slide) return { pageNum: location.slide, unit: 'slide' };
+  if (location?.lines) return { pageNum: location.lines[0], unit: 'line' };
+  if (location?.section) return { pageNum: location.section, unit: 'section' };
+  return { pageNum: source.pageNum, unit: 'page' };
+}
+
+/**
+ * Verify the citations the model listed, each against the source it names.
+ * A citation's answer span is the next unused [n] marker for its source, or
+ * the end of the answer when the model didn't mark the claim.
+ */
+export function verifyCitedQuotes(answer: string, cited: CitedQuote[], sources: CitableSource[]): Citation[] {
+  const markers = [...answer.matchAll(MARKER_PATTERN)].map(match => ({
+    start: match.index ?? 0,
+    end: (match.index ?? 0) + match[0].length,
+    sources: match[1].split(',').map(number => parseInt(number, 10)),
+  }));
+  const usedMarkers = new Set<string>();
+  const multiDocument = new Set(sources.map(source => source.pdfId)).size > 1;
+
+  return cited.map(({ source: number, quote }) => {
+    const marker = markers.find(marker =>
+      marker.sources.includes(number) && !usedMarkers.has(`${marker.start}:${number}`)
+    );
+    if (marker) usedMarkers.add(`${marker.start}:${number}`);
+
+    const source = sources[number - 1];
+    const span = source ? findQuoteSpan(quote, source.content) : null;
+    return {
+      ...(source ? sourceLocation(source) : { pageNum: 0, unit: 'page' as const }),
+      ...(source && multiDocument && { pdfTitle: source.pdfTitle }),
+      quote,
+      answerStart: marker?.start ?? answer.length,
+      answerEnd: marker?.end ?? answer.length,
+      verified: !!span,
+      chunkId: span ? source.id : null,
+      pdfId: source?.pdfId ?? null,
+      sectionPath: span ? source.sectionPath : null,
+      quoteStart: span?.start ?? null,
+      quoteEnd: span?.end ?? null,
+    };
+  });
+}
+
+/**
+ * Turn a model reply into the answer text and its verified citations, from
+ * the structured citations block when there is one and from prose otherwise
+ */
+export function buildCitations(reply: string, sources: CitableSource[]): { answer: string; citations: Citation[] } {
+  const { answer, cited } = splitCitationBlock(reply);
+  const citations = cited ? verifyCitedQuotes(answer, cited, sources) : extractCitations(answer, sources);
+
+  const unverified = citations.filter(citation => !citation.verified).length;
+  if (unverified > 0) {
+    console.warn(`${unverified} of ${citations.length} citations could not be verified against the sources`);
+  }
+
+  return { answer, citations };
+}
+
+/**
+ * Parse the prose citations in an answer and verify each quote against the
+ * retrieved sources at the cited location (and document, when named)
+ */
+export function extractCitations(answer: string, sources: CitableSource[]): Citation[] {
+  const citations: Citation[] = [];
+
+  for (const match of answer.matchAll(CITATION_PATTERN)) {
+    const [text, pdfTitle, unitWord, page, , quote] = match;
+    const unit = citationUnit(unitWord);
+    const pageNum = parseInt(page);
+    const answerStart = match.index ?? 0;
+
+    const candidates = sources.filter(source =>
+      isAtLocation(source, unit, pageNum)
+      && (!pdfTitle || source.pdfTitle.toLowerCase() === pdfTitle.toLowerCase())
+    );
+
+    let citation: Citation = {
+      pageNum,
+      unit,
+      ...(pdfTitle && { pdfTitle }),
+      quote,
+      answerStart,
+      answerEnd: answerStart + text.length,
+      verified: false,
+      chunkId: null,
+      // The document is known even when the quote isn't, if only one matches
+      pdfId: new Set(candidates.map(source => source.pdfId)).size === 1 ? candidates[0].pdfId : null,
+      sectionPath: null,
+      quoteStart: null,
+      quoteEnd: null,
+    };
+
+    for (const source of candidates) {
+      const span = findQuoteSpan(quote, source.content);
+      if (span) {
+        citation = {
+          ...citation,
+          verified: true,
+          chunkId: source.id,
+          pdfId: source.pdfId,
+          sectionPath: source.sectionPath,
+          quoteStart: span.start,
+          quoteEnd: span.end,
+        };
+        break;
+      }
+    }
+
+    citations.push(citation);
+  }
+
+  return citations;
+}
@@ -0,0 +1,215 @@
+/**
+ * Collections (courses and folders) and tags for organising the library
+ *
+ * Both belong to one user and are that user's own view of the library: any
+ * document they can read can be filed in their collections and tagged, and
+ * neither changes who else can read it. A document can be in several
+ * collections. Chat, search and quiz generation accept a collectionId and
+ * then cover every document in the collection the user can still read.
+ */
+
+import type { Collection } from '@prisma/client';
+import { prisma } from './prisma';
+import { pdfAccessWhere } from './access';
+
+export const COLLECTION_KINDS = ['course', 'folder'] as const;
+export type CollectionKind = (typeof COLLECTION_KINDS)[number];
+
+const MAX_NAME_LENGTH = 100;
+const MAX_DESCRIPTION_LENGTH = 1000;
+const MAX_TAG_LENGTH = 40;
+const MAX_TAGS_PER_DOCUMENT = 20;
+
+export function isCollectionKind(value: unknown): value is CollectionKind {
+  return typeof value === 'string' && (COLLECTION_KINDS as readonly string[]).includes(value);
+}
+
+/**
+ * Validate a collection name. Returns the trimmed name, or null if it's empty
+ * or too long.
+ */
+export function parseCollectionName(value: unknown): string | null {
+  if (typeof value !== 'string') return null;
+  const name = value.replace(/\s+/g, ' ').trim();
+  return name && name.length <= MAX_NAME_LENGTH ? name : null;
+}
+
+/**
+ * Validate a collection description. Empty strings clear it; returns
+ * undefined when it's not a string or too long.
+ */
+export function parseCollectionDescription(value: unknown): string | null | undefined {
+  if (value === null) return null;
+  if (typeof value !== 'string' || value.length > MAX_DESCRIPTION_LENGTH) return undefined;
+  return value.trim() || null;
+}
+
+/**
+ * Normalise a list of tag names: lower case, single spaces, no duplicates.
+ * Returns null when it isn't a list of short strings, or has too many.
+ */
+export function parseTagNames(value: unknown): string[] | null {
+  if (!Array.isArray(value) || value.some(tag => typeof tag !== 'string')) return null;
+
+  const tags = [...new Set((value as string[]).map(normalizeTag).filter(Boolean))];
+  if (tags.length > MAX_TAGS_PER_DOCUMENT || tags.some(tag => tag.length > MAX_TAG_LENGTH)) return null;
+  return tags;
+}
+
+export function normalizeTag(tag: string): string {
+  return tag.replace(/\s+/g, ' ').trim().toLowerCase();
+}
+
+/**
+ * One of the user's collections, or null
+ */
+export async function getOwnedCollection(id: string, userId: string): Promise<Collection | null> {
+  return prisma.collection.findFirst({ where: { id, ownerId: userId } });
+}
+
+/**
+ * Ids of the documents in one of the user's collections that they can read.
+ * Returns null when the collection isn't theirs.
+ */
+export async function collectionPdfIds(collectionId: string, userId: string | null): Promise<string[] | null> {
+  if (!userId) return null;
+
+  const collection = await prisma.collection.findFirst({
+    where: { id: collectionId, ownerId: userId },
+    select: {
+      documents: {
+        where: pdfAccessWhere(userId),
+        select: { id: true },
+      },
+    },
+  });
+  return collection ? collection.documents.map(doc => doc.id) : null;
+}
+
+/**
+ * Add a request's optional collectionId to its explicit document ids, for
+ * routes that take either. Returns null when the collection isn't the user's.
+ * The list isn't capped: past MAX_EXACT_SEARCH_PDFS, vector search walks the
+ * index filtered to the documents instead of scanning all their chunks.
+ */
+export async function withCollectionPdfIds(
+  pdfIds: string[],
+  collectionId: unknown,
+  userId: string | null
+): Promise<string[] | null> {
+  if (collectionId === undefined || collectionId === null || collectionId === '') return pdfIds;
+  if (typeof collectionId !== 'string') return null;
+
+  const inCollection = await collectionPdfIds(collectionId, userId);
+  return inCollection ? [...new Set([...pdfIds, ...inCollection])] : null;
+}
+
+/**
+ * Replace which of the user's collections a document is in. Returns the ids
+ * that aren't the user's collections; nothing changes if there are any.
+ */
+export async function setDocumentCollections(pdfId: string, userId: string, collectionIds: string[]): Promise<string[]> {
+  const owned = await prisma.collection.findMany({
+    where: { ownerId: userId, id: { in: collectionIds } },
+    select: { id: true },
+  });
+  const ownedIds = new Set(owned.map(collection => collection.id));
+  const unknown = collectionIds.filter(id => !ownedIds.has(id));
+  if (unknown.length > 0) return unknown;
+
+  // Other users' collections holding the document are theirs to manage
+  const current = await prisma.collection.findMany({
+    where: { ownerId: userId, documents: { some: { id: pdfId } } },
+    select: { id: true },
+  });
+
+  await prisma.document.update({
+    where: { id: pdfId },
+    data: {
+      collections: {
+        disconnect: current.filter(collection => !ownedIds.has(collection.id)).map(({ id }) => ({ id })),
+        connect: [...ownedIds].map(id => ({ id })),
+      },
+    },
+  });
+  return [];
+}
+
+/**
+ * Replace the user's tags on a document, creating tags they haven't used yet
+ */
+export async function setDocumentTags(pdfId: string, userId: string, names: string[]): Promise<void> {
+  await prisma.$transaction(async (tx) => {
+    await tx.tag.createMany({
+      data: names.map(name => ({ ownerId: userId, name })),
+      skipDuplicates: true,
+    });
+
+    const current = await tx.tag.findMany({
+      where: { ownerId: userId, documents: { some: { id: pdfId } } },
+      select: { id: true, name: true },
+    });
+    const wanted = await tx.tag.findMany({
+      where: { ownerId: userId, name: { in: names } },
+      select: { id: true },
+    });
+
+    await tx.document.update({
+      where: { id: pdfId },
+      data: {
+        tags: {
+          disconnect: current.filter(tag => !names.includes(tag.name)).map(({ id }) => ({ id })),
+          connect: wanted.map(({ id }) => ({ id })),
+        },
+      },
+    });
+  });
+}
+
+/**
+ * The user's collections and tags on each of the given documents
+ */
+export async function getDocumentLabels(
+  pdfIds: string[],
+  userId: string | null
+): Promise<Map<string, { collections: { id: string; name: string }[]; tags: string[] }>> {
+  const labels = new Map(pdfIds.map(id => [id, { collections: [] as { id: string; name: string }[], tags: [] as string[] }]));
+  if (!userId || pdfIds.length === 0) return labels;
+
+  const [collections, tags] = await Promise.all([
+    prisma.collection.findMany({
+      where: { ownerId: userId, documents: { some: { id: { in: pdfIds } } } },
+      select: { id: true, name: true, documents: { where: { id: { in: pdfIds } }, select: { id: true } } },
+      orderBy: { name: 'asc' },
+    }),
+    prisma.tag.findMany({
+      where: { ownerId: userId, documents: { some: { id: { in: pdfIds } } } },
+      select: { name: true, documents: { where: { id: { in: pdfIds } }, select: { id: true } } },
+      orderBy: { name: 'asc' },
+    }),
+  ]);
+
+  for (const collection of collections) {
+    for (const doc of collection.documents) {
+      labels.get(doc.id)?.collections.push({ id: collection.id, name: collection.name });
+    }
+  }
+  for (const tag of tags) {
+    for (const doc of tag.documents) {
+      labels.get(doc.id)?.tags.push(tag.name);
+    }
+  }
+  return labels;
+}
+
+export function serializeCollection(collection: Collection & { _count?: { documents: number } }) {
+  return {
+    id: collection.id,
+    name: collection.name,
+    description: collection.description,
+    kind: collection.kind as CollectionKind,
+    documentCount: collection._count?.documents ?? 0,
+    createdAt: collection.createdAt,
+    updatedAt: collection.updatedAt,
+  };
+}
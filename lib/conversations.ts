@@ -0,0 +1,97 @@
+/**
+ * Persistent chat conversations
+ *
+ * Conversations belong to a single user and (optionally) a document. The most
+ * recent turns are replayed to the RAG pipeline so follow-up questions can be
+ * understood in context.
+ */
+
+import type { Prisma } from '@prisma/client';
+import { prisma } from './prisma';
+import type { LLMMessage } from './llm';
+
+// Number of prior messages (user + assistant) fed back into the pipeline
+export const HISTORY_MESSAGE_LIMIT = 10;
+
+const TITLE_MAX_LENGTH = 80;
+
+/**
+ * Fetch a conversation only if it belongs to the user
+ */
+export async function getConversationForUser(conversationId: string, userId: string) {
+  return prisma.conversation.findFirst({
+    where: { id: conversationId, userId },
+  });
+}
+
+/**
+ * Start a new conversation titled after its first question
+ */
+export async function createConversation(userId: string, pdfId: string | null, firstQuery: string) {
+  const title = firstQuery.trim().replace(/\s+/g, ' ');
+  return prisma.conversation.create({
+    data: {
+      userId,
+      pdfId,
+      title: title.length > TITLE_MAX_LENGTH ? title.slice(0, TITLE_MAX_LENGTH - 1) + '…' : title,
+    },
+  });
+}
+
+/**
+ * Load the most recent turns of a conversation, oldest first
+ */
+export async function loadConversationHistory(
+  conversationId: string,
+  limit: number = HISTORY_MESSAGE_LIMIT
+): Promise<LLMMessage[]> {
+  const messages = await prisma.message.findMany({
+    where: { conversationId },
+    orderBy: { createdAt: 'desc' },
+    take: limit,
+    select: { role: true, content: true },
+  });
+
+  return messages.reverse().map(message => ({
+    role: message.role === 'assistant' ? 'assistant' : 'user',
+    content: message.content,
+  }));
+}
+
+/**
+ * Persist a question/answer pair and bump the conversation's updatedAt
+ */
+export async function appendConversationTurn(
+  conversationId: string,
+  question: { content: string; rewrittenQuery?: string },
+  answer: { content: string; sources: Prisma.InputJsonValue; citations: Prisma.InputJsonValue }
+): Promise<void> {
+  const now = Date.now();
+
+  await prisma.$transaction([
+    prisma.message.create({
+      data: {
+        conversationId,
+        role: 'user',
+        content: question.content,
+        rewrittenQuery: question.rewrittenQuery,
+        createdAt: new Date(now),
+      },
+    }),
+    prisma.message.create({
+      data: {
+        conversationId,
+        role: 'assistant',
+        content: answer.content,
+        sources: answer.sources,
+        citations: answer.citations,
+        // Keep the answer strictly after the question when ordering by time
+        createdAt: new Date(now + 1),
+      },
+    }),
+    prisma.conversation.update({
+      where: { id: conversationId },
+      data: { updatedAt: new Date(now) },
+    }),
+  ]);
+}
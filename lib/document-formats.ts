@@ -0,0 +1,79 @@
+/**
+ * Supported document formats and how uploaded files are recognised.
+ * Kept free of parser imports so client components can use it too.
+ */
+
+export const DOCUMENT_FORMATS = ['pdf', 'docx', 'pptx', 'md', 'html', 'txt'] as const;
+export type DocumentFormat = (typeof DOCUMENT_FORMATS)[number];
+
+interface FormatInfo {
+  label: string;
+  mimeType: string; // stored and served for files of this format
+  extensions: string[];
+  mimeTypes: string[]; // also accepted when the extension is unknown
+}
+
+const FORMATS: Record<DocumentFormat, FormatInfo> = {
+  pdf: {
+    label: 'PDF',
+    mimeType: 'application/pdf',
+    extensions: ['pdf'],
+    mimeTypes: ['application/pdf'],
+  },
+  docx: {
+    label: 'Word',
+    mimeType: 'application/vnd.openxmlformats-officedocument.wordprocessingml.document',
+    extensions: ['docx'],
+    mimeTypes: ['application/vnd.openxmlformats-officedocument.wordprocessingml.document'],
+  },
+  pptx: {
+    label: 'PowerPoint',
+    mimeType: 'application/vnd.openxmlformats-officedocument.presentationml.presentation',
+    extensions: ['pptx'],
+    mimeTypes: ['application/vnd.openxmlformats-officedocument.presentationml.presentation'],
+  },
+  md: {
+    label: 'Markdown',
+    mimeType: 'text/markdown',
+    extensions: ['md', 'markdown'],
+    mimeTypes: ['text/markdown', 'text/x-markdown'],
+  },
+  html: {
+    label: 'HTML',
+    mimeType: 'text/html',
+    extensions: ['html', 'htm'],
+    mimeTypes: ['text/html', 'application/xhtml+xml'],
+  },
+  txt: {
+    label: 'Text',
+    mimeType: 'text/plain',
+    extensions: ['txt', 'text'],
+    mimeTypes: ['text/plain'],
+  },
+};
+
+// For <input accept>, and listed in error messages
+export const ACCEPTED_FILE_EXTENSIONS = DOCUMENT_FORMATS.flatMap(format => FORMATS[format].extensions.map(ext => `.${ext}`));
+
+/**
+ * Work out a file's format from its name, falling back to its MIME type.
+ * Returns null for unsupported files.
+ */
+export function detectDocumentFormat(fileName: string, mimeType: string = ''): DocumentFormat | null {
+  const extension = fileName.toLowerCase().match(/\.([a-z0-9]+)$/)?.[1];
+  const type = mimeType.toLowerCase().split(';')[0].trim();
+
+  return (
+    DOCUMENT_FORMATS.find(format => extension && FORMATS[format].extensions.includes(extension))
+    ?? DOCUMENT_FORMATS.find(format => FORMATS[format].mimeTypes.includes(type))
+    ?? null
+  );
+}
+
+export function formatMimeType(format: DocumentFormat): string {
+  return FORMATS[format].mimeType;
+}
+
+export function formatLabel(format: string): string {
+  return FORMATS[format as DocumentFormat]?.label ?? format.toUpperCase();
+}
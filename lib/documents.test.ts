@@ -0,0 +1,33 @@
+import { afterEach, test } from 'node:test';
+import assert from 'node:assert/strict';
+import { getRetentionDays, purgeDate } from './documents';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+afterEach(() => {
+  delete process.env.DOCUMENT_RETENTION_DAYS;
+});
+
+test('getRetentionDays reads DOCUMENT_RETENTION_DAYS, allowing 0', () => {
+  process.env.DOCUMENT_RETENTION_DAYS = '7';
+  assert.equal(getRetentionDays(), 7);
+
+  process.env.DOCUMENT_RETENTION_DAYS = '0';
+  assert.equal(getRetentionDays(), 0);
+});
+
+test('getRetentionDays falls back to 30 days for missing or invalid values', () => {
+  assert.equal(getRetentionDays(), 30);
+
+  for (const value of ['thirty', '-5', ' ']) {
+    process.env.DOCUMENT_RETENTION_DAYS = value;
+    assert.equal(getRetentionDays(), 30, `for ${JSON.stringify(value)}`);
+  }
+});
+
+test('purgeDate is always a valid date', () => {
+  const deletedAt = new Date('2026-01-01T00:00:00Z');
+  process.env.DOCUMENT_RETENTION_DAYS = 'not a number';
+
+  assert.equal(purgeDate(deletedAt).getTime(), deletedAt.getTime() + 30 * DAY_MS);
+});
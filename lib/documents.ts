@@ -0,0 +1,240 @@
+/**
+ * Document lifecycle: creating documents from uploaded, imported or assembled
+ * files, reading their files back, and deleting them
+ *
+ * Every way of adding a document ends here: the file goes to the configured
+ * FileStorage backend (see lib/file-storage.ts) and an ingestion job is
+ * queued for it. Documents from before FileStorage may still hold their file
+ * in the fileData column until `npm run storage:migrate` moves it.
+ *
+ * Deleting moves a document to the trash, where only its owner sees it and
+ * can restore it. After DOCUMENT_RETENTION_DAYS the worker purges it for
+ * good: file, chunks and embeddings. Quizzes generated from it survive the
+ * purge, since questions keep their own text and source snippets, and so do
+ * the attempts taken on them; they only lose the link to the document.
+ */
+
+import { randomUUID } from 'crypto';
+import type { Document, IngestionJob } from '@prisma/client';
+import { prisma } from './prisma';
+import { enqueueJob, getLatestJobs, type JobType } from './jobs';
+import { getActiveEmbeddingVersion } from './embedding-versions';
+import { getFileStorage, type ByteRange } from './file-storage';
+import type { ChunkingSettings } from './chunking';
+import { contentHash } from './duplicates';
+import { formatMimeType, type DocumentFormat } from './document-formats';
+
+export interface NewDocument {
+  title: string;
+  url?: string; // where an imported document came from
+  data: Buffer;
+  format: DocumentFormat;
+  ownerId: string;
+  chunking: ChunkingSettings;
+}
+
+// A new document whose file is already in storage
+export type StoredNewDocument = Omit<NewDocument, 'data'> & {
+  storageKey: string;
+  contentHash: string;
+  fileSize: number;
+};
+
+// Where a document's file is, whichever generation of storage it's in
+type StoredFile = Pick<Document, 'storageKey' | 'fileData'>;
+
+const MAX_TITLE_LENGTH = 200;
+
+const DEFAULT_RETENTION_DAYS = 30;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Error recorded on queued jobs cancelled by moving their document to the trash
+const TRASHED_JOB_ERROR = 'Document was deleted';
+
+/**
+ * Thrown by jobs whose document went to the trash while they were queued.
+ * The job fails without retries, like the jobs trashDocument cancels, and
+ * is queued again if the document is restored.
+ */
+export class DocumentTrashedError extends Error {
+  constructor() {
+    super(TRASHED_JOB_ERROR);
+    this.name = 'DocumentTrashedError';
+  }
+}
+
+/**
+ * Validate a new document title. Returns the trimmed title, or null if it's
+ * empty or too long.
+ */
+export function parseDocumentTitle(value: unknown): string | null {
+  if (typeof value !== 'string') return null;
+  const title = value.replace(/\s+/g, ' ').trim();
+  return title && title.length <= MAX_TITLE_LENGTH ? title : null;
+}
+
+/**
+ * A storage key for a document's file: fresh, or derived from an id that is
+ * unique to the document (so a retried write replaces the earlier attempt)
+ */
+export function documentStorageKey(format: string, id: string = randomUUID()): string {
+  return `documents/${id}.${format}`;
+}
+
+/**
+ * Store a new document's file and queue its ingestion
+ */
+export async function storeDocument(input: NewDocument): Promise<{ document: Document; job: IngestionJob }> {
+  const { data, ...document } = input;
+  const storageKey = documentStorageKey(input.format);
+  await getFileStorage().upload(data, storageKey, formatMimeType(input.format));
+
+  return createStoredDocument({ ...document, storageKey, contentHash: contentHash(data), fileSize: data.length });
+}
+
+/**
+ * Create the document for a file already written to storage and queue its
+ * ingestion. The file is deleted if the document can't be created.
+ */
+export async function createStoredDocument(input: StoredNewDocument): Promise<{ document: Document; job: IngestionJob }> {
+  let document: Document;
+  try {
+    document = await prisma.document.create({
+      data: {
+        title: input.title,
+        url: input.url ?? '', // Empty string for uploaded documents
+        storageKey: input.storageKey,
+        contentHash: input.contentHash,
+        fileSize: input.fileSize,
+        mimeType: formatMimeType(input.format),
+        format: input.format,
+        ownerId: input.ownerId,
+        chunkingStrategy: input.chunking.strategy,
+        chunkingOptions: JSON.parse(JSON.stringify(input.chunking.options)),
+      },
+    });
+  } catch (error) {
+    // Don't leave an orphaned file behind
+    await getFileStorage().delete(input.storageKey).catch(() => {});
+    throw error;
+  }
+
+  const job = await enqueueJob(document.id);
+  return { document, job };
+}
+
+/**
+ * A document's whole file, or null if it has none
+ */
+export async function readDocumentFile(document: StoredFile): Promise<Buffer | null> {
+  if (document.storageKey) return getFileStorage().read(document.storageKey);
+  return document.fileData ? Buffer.from(document.fileData) : null;
+}
+
+/**
+ * Size of a document's file in bytes, or null if it has none
+ */
+export async function documentFileSize(document: StoredFile): Promise<number | null> {
+  if (document.storageKey) return getFileStorage().size(document.storageKey);
+  return document.fileData ? document.fileData.length : null;
+}
+
+/**
+ * Stream a document's file, or part of it
+ */
+export async function streamDocumentFile(document: StoredFile, range?: ByteRange): Promise<ReadableStream<Uint8Array>> {
+  if (document.storageKey) return getFileStorage().stream(document.storageKey, range);
+
+  const data = document.fileData ?? new Uint8Array();
+  const bytes = range ? data.subarray(range.start, range.end + 1) : data;
+  return new ReadableStream({
+    start(controller) {
+      controller.enqueue(new Uint8Array(bytes));
+      controller.close();
+    },
+  });
+}
+
+/**
+ * Days a deleted document stays in the trash before it is purged. Invalid
+ * values get the default, so a typo can't stop purging altogether.
+ */
+export function getRetentionDays(): number {
+  const value = parseInt(process.env.DOCUMENT_RETENTION_DAYS || '', 10);
+  return value >= 0 ? value : DEFAULT_RETENTION_DAYS;
+}
+
+/**
+ * When a document moved to the trash at deletedAt will be purged
+ */
+export function purgeDate(deletedAt: Date): Date {
+  return new Date(deletedAt.getTime() + getRetentionDays() * DAY_MS);
+}
+
+/**
+ * Move a document to the trash. Queued ingestion is cancelled; the file and
+ * chunks stay until the purge so a restore is instant.
+ */
+export async function trashDocument(id: string): Promise<Date> {
+  const deletedAt = new Date();
+  await prisma.$transaction([
+    prisma.document.update({ where: { id }, data: { deletedAt } }),
+    prisma.ingestionJob.updateMany({
+      where: { pdfId: id, status: 'queued' },
+      data: { status: 'failed', error: TRASHED_JOB_ERROR, finishedAt: deletedAt },
+    }),
+  ]);
+  return deletedAt;
+}
+
+/**
+ * Take a document out of the trash, re-queueing the job the delete
+ * cancelled, or embedding it if the embedding version changed meanwhile
+ */
+export async function restoreDocument(id: string): Promise<IngestionJob | null> {
+  await prisma.document.update({ where: { id }, data: { deletedAt: null } });
+
+  const latestJob = (await getLatestJobs([id])).get(id);
+  if (latestJob?.status === 'failed' && latestJob.error === TRASHED_JOB_ERROR) {
+    return enqueueJob(id, latestJob.type as JobType);
+  }
+
+  const version = await getActiveEmbeddingVersion();
+  const unembedded = await prisma.chunk.count({
+    where: { pdfId: id, embeddings: { none: { versionId: version.id } } },
+  });
+  return unembedded > 0 ? enqueueJob(id, 'embed') : null;
+}
+
+/**
+ * Permanently delete a document. Chunks (with their embeddings), jobs and
+ * shares go with the row; conversations and quizzes are kept, unlinked.
+ */
+export async function purgeDocument(document: Pick<Document, 'id' | 'storageKey'>): Promise<void> {
+  // File first: if deleting the row then fails, the next purge retries both
+  if (document.storageKey) await getFileStorage().delete(document.storageKey);
+  await prisma.document.delete({ where: { id: document.id } });
+}
+
+/**
+ * Purge every document that has been in the trash longer than the
+ * retention period. Returns how many were purged.
+ */
+export async function purgeExpiredDocuments(): Promise<number> {
+  const expired = await prisma.document.findMany({
+    where: { deletedAt: { lt: new Date(Date.now() - getRetentionDays() * DAY_MS) } },
+    select: { id: true, storageKey: true },
+  });
+
+  let purged = 0;
+  for (const document of expired) {
+    try {
+      await purgeDocument(document);
+      purged++;
+    } catch (error) {
+      console.error(`⚠️ Failed to purge document ${document.id}:`, error);
+    }
+  }
+  return purged;
+}
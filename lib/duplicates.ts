@@ -0,0 +1,161 @@
+/**
+ * Duplicate detection for documents
+ *
+ * Exact duplicates are files with the same SHA-256 (Document.contentHash),
+ * caught as soon as the file arrives so the uploader can open the existing
+ * copy instead of paying to ingest it again. Near duplicates, the same text
+ * in a different file such as a re-exported PDF, are only visible after text
+ * extraction; ingestion compares per-page fingerprints and records matches
+ * in the document's metadata. They are found with the owner's access, so
+ * they are filtered by the viewer's access whenever they are read.
+ */
+
+import { createHash } from 'crypto';
+import { prisma } from './prisma';
+import { findInaccessiblePdfIds, pdfAccessWhere } from './access';
+import type { DocumentMetadata } from './extractors';
+
+// What to do when an upload is an exact duplicate:
+// ask (report it with a 409), link (return the existing document) or upload anyway
+export const DUPLICATE_ACTIONS = ['ask', 'link', 'upload'] as const;
+export type DuplicateAction = (typeof DUPLICATE_ACTIONS)[number];
+
+export interface DuplicateDocument {
+  pdfId: string;
+  title: string;
+}
+
+export interface NearDuplicate extends DuplicateDocument {
+  similarity: number; // share of fingerprinted pages in common (Jaccard), 0-1
+}
+
+// Pages sharing at least this share of fingerprints are near duplicates
+const NEAR_DUPLICATE_THRESHOLD = 0.8;
+
+// Pages with less text than this (covers, blank pages) say nothing about a document
+const MIN_FINGERPRINT_CHARS = 50;
+
+/**
+ * Parse an onDuplicate request value. Returns null for unknown values;
+ * defaults to 'ask'.
+ */
+export function parseDuplicateAction(value: unknown): DuplicateAction | null {
+  if (value === undefined || value === null || value === '') return 'ask';
+  return DUPLICATE_ACTIONS.includes(value as DuplicateAction) ? value as DuplicateAction : null;
+}
+
+export function contentHash(data: Uint8Array): string {
+  return createHash('sha256').update(data).digest('hex');
+}
+
+/**
+ * A document the user can read with exactly this file, preferring their own
+ */
+export async function findExactDuplicate(hash: string, userId: string): Promise<DuplicateDocument | null> {
+  const candidates = await prisma.document.findMany({
+    where: { AND: [{ contentHash: hash }, pdfAccessWhere(userId)] },
+    select: { id: true, title: true, ownerId: true },
+    orderBy: { createdAt: 'asc' },
+  });
+
+  const match = candidates.find(doc => doc.ownerId === userId) ?? candidates[0];
+  return match ? { pdfId: match.id, title: match.title } : null;
+}
+
+/**
+ * Fingerprints of a document's pages: a hash of each page's text with case,
+ * punctuation and spacing normalised away, so re-exports of the same content
+ * match. Pages with too little text are skipped.
+ */
+export function pageFingerprints(pages: { text: string }[]): string[] {
+  const fingerprints = new Set<string>();
+  for (const page of pages) {
+    const normalized = page.text.toLowerCase().replace(/[^\p{L}\p{N}]+/gu, ' ').trim();
+    if (normalized.length < MIN_FINGERPRINT_CHARS) continue;
+    fingerprints.add(createHash('sha256').update(normalized).digest('hex').slice(0, 32));
+  }
+  return [...fingerprints];
+}
+
+/**
+ * Other documents the owner can read that share most of these fingerprints,
+ * most similar first
+ */
+export async function findNearDuplicates(pdfId: string, ownerId: string | null, fingerprints: string[]): Promise<NearDuplicate[]> {
+  if (fingerprints.length === 0) return [];
+
+  const candidates = await prisma.document.findMany({
+    where: {
+      AND: [
+        { id: { not: pdfId } },
+        { pageFingerprints: { hasSome: fingerprints } },
+        pdfAccessWhere(ownerId),
+      ],
+    },
+    select: { id: true, title: true, pageFingerprints: true },
+  });
+
+  const own = new Set(fingerprints);
+  return candidates
+    .map(candidate => {
+      const shared = candidate.pageFingerprints.filter(fingerprint => own.has(fingerprint)).length;
+      const union = own.size + new Set(candidate.pageFingerprints).size - shared;
+      return { pdfId: candidate.id, title: candidate.title, similarity: Math.round((shared / union) * 100) / 100 };
+    })
+    .filter(candidate => candidate.similarity >= NEAR_DUPLICATE_THRESHOLD)
+    .sort((a, b) => b.similarity - a.similarity);
+}
+
+/**
+ * The near duplicates recorded on each document that the viewer can read,
+ * keyed by document id. Readers of a shared or public document must not
+ * learn the ids and titles of its owner's private documents.
+ */
+export async function readableNearDuplicates(
+  documents: { id: string; metadata: unknown }[],
+  userId: string | null
+): Promise<Map<string, NearDuplicate[]>> {
+  const recorded = new Map(documents.map(document => [
+    document.id,
+    (document.metadata as DocumentMetadata | null)?.nearDuplicates ?? [],
+  ]));
+
+  const ids = [...new Set([...recorded.values()].flat().map(duplicate => duplicate.pdfId))];
+  const hidden = new Set(ids.length > 0 ? await findInaccessiblePdfIds(ids, userId) : []);
+
+  return new Map([...recorded].map(([id, duplicates]) => [
+    id,
+    duplicates.filter(duplicate => !hidden.has(duplicate.pdfId)),
+  ]));
+}
+
+/**
+ * Response for an upload that turned out to be an exact duplicate: a 409
+ * naming the existing document, or (for 'link') that document in place of a
+ * new one
+ */
+export function duplicateUploadResponse(duplicate: DuplicateDocument, action: Exclude<DuplicateAction, 'upload'>) {
+  if (action === 'link') {
+    return {
+      status: 200,
+      body: {
+        success: true,
+        linked: true,
+        pdfId: duplicate.pdfId,
+        title: duplicate.title,
+        duplicateOf: duplicate,
+        jobId: null,
+        message: 'This file is already in your library. Linked to the existing document.',
+      },
+    };
+  }
+
+  return {
+    status: 409,
+    body: {
+      error: 'Duplicate document',
+      details: `"${duplicate.title}" is already in your library. Send onDuplicate=link to use it, or onDuplicate=upload to add a separate copy.`,
+      duplicate,
+    },
+  };
+}
@@ -0,0 +1,143 @@
+/**
+ * Query embedding cache
+ *
+ * Every search and chat turn embeds its query, and the same questions come
+ * up again and again. Query vectors are kept in an in-process LRU
+ * (QUERY_EMBEDDING_CACHE_SIZE entries) in front of the "QueryEmbedding"
+ * table, which survives restarts and is shared between instances. Entries
+ * are keyed by the provider, server, model, requested size and normalized
+ * query text, so a new embedding version never gets another model's
+ * vectors, even one served under the same name by a different server.
+ * The worker purges rows unused for QUERY_EMBEDDING_CACHE_TTL_DAYS; a TTL
+ * of 0 turns the table off, and a size of 0 the in-memory cache.
+ */
+
+import { createHash } from 'crypto';
+import { prisma } from './prisma';
+import type { EmbeddingProvider } from './embeddings';
+
+const DEFAULT_CACHE_SIZE = 1000;
+const DEFAULT_TTL_DAYS = 30;
+
+// lastUsedAt is refreshed at most this often, so hits don't all turn into writes
+const TOUCH_INTERVAL_MS = 24 * 60 * 60 * 1000;
+
+// Map iteration follows insertion order, so the first key is the least recently used
+const memory = new Map<string, number[]>();
+
+// Concurrent requests for the same query share one API call
+const pending = new Map<string, Promise<number[]>>();
+
+function cacheSize(): number {
+  const value = parseInt(process.env.QUERY_EMBEDDING_CACHE_SIZE || '', 10);
+  return value >= 0 ? value : DEFAULT_CACHE_SIZE;
+}
+
+/**
+ * Days an unused cache row is kept; 0 disables the persistent cache
+ */
+export function queryEmbeddingTtlDays(): number {
+  const value = parseInt(process.env.QUERY_EMBEDDING_CACHE_TTL_DAYS || '', 10);
+  return value >= 0 ? value : DEFAULT_TTL_DAYS;
+}
+
+/**
+ * Unicode-normalize and collapse whitespace. Case is kept: it can change
+ * meaning ("US" vs "us"), and models see it.
+ */
+export function normalizeQueryText(text: string): string {
+  return text.normalize('NFKC').replace(/\s+/g, ' ').trim();
+}
+
+function cacheKey(provider: EmbeddingProvider, text: string): string {
+  return createHash('sha256')
+    .update([provider.name, provider.baseUrl ?? '', provider.model, provider.dimensions ?? '', text].join('\n'))
+    .digest('hex');
+}
+
+function remember(key: string, embedding: number[]) {
+  const size = cacheSize();
+  if (size === 0) return;
+
+  memory.delete(key);
+  memory.set(key, embedding);
+  while (memory.size > size) {
+    memory.delete(memory.keys().next().value!);
+  }
+}
+
+async function loadPersisted(key: string): Promise<number[] | null> {
+  if (queryEmbeddingTtlDays() === 0) return null;
+
+  try {
+    const row = await prisma.queryEmbedding.findUnique({ where: { key } });
+    if (!row) return null;
+
+    if (Date.now() - row.lastUsedAt.getTime() > TOUCH_INTERVAL_MS) {
+      prisma.queryEmbedding.update({ where: { key }, data: { lastUsedAt: new Date() } })
+        .catch(error => console.warn('⚠️ Failed to refresh cached query embedding:', error));
+    }
+    return row.embedding;
+  } catch (error) {
+    // The cache is an optimisation; searches go on without it
+    console.warn('⚠️ Query embedding cache lookup failed:', error);
+    return null;
+  }
+}
+
+function persist(key: string, provider: EmbeddingProvider, embedding: number[]) {
+  if (queryEmbeddingTtlDays() === 0) return;
+
+  prisma.queryEmbedding.upsert({
+    where: { key },
+    create: { key, model: provider.model, embedding },
+    update: { embedding, lastUsedAt: new Date() },
+  }).catch(error => console.warn('⚠️ Failed to cache query embedding:', error));
+}
+
+async function embedAndCache(key: string, text: string, provider: EmbeddingProvider): Promise<number[]> {
+  let embedding = await loadPersisted(key);
+  if (!embedding) {
+    embedding = await provider.embedQuery(text);
+    persist(key, provider, embedding);
+  }
+  remember(key, embedding);
+  return embedding;
+}
+
+/**
+ * Embed a search query with a provider, from the cache when possible. The
+ * normalized text is what gets embedded, so every query sharing a cache
+ * entry would have got the same vector.
+ */
+export async function cachedQueryEmbedding(query: string, provider: EmbeddingProvider): Promise<number[]> {
+  const text = normalizeQueryText(query);
+  const key = cacheKey(provider, text);
+
+  const cached = memory.get(key);
+  if (cached) {
+    remember(key, cached);
+    return cached;
+  }
+
+  let request = pending.get(key);
+  if (!request) {
+    request = embedAndCache(key, text, provider).finally(() => pending.delete(key));
+    pending.set(key, request);
+  }
+  return request;
+}
+
+/**
+ * Delete cached query embeddings unused for longer than the TTL. Returns
+ * how many were deleted.
+ */
+export async function purgeExpiredQueryEmbeddings(): Promise<number> {
+  const ttlDays = queryEmbeddingTtlDays();
+  if (ttlDays === 0) return 0;
+
+  const { count } = await prisma.queryEmbedding.deleteMany({
+    where: { lastUsedAt: { lt: new Date(Date.now() - ttlDays * 24 * 60 * 60 * 1000) } },
+  });
+  return count;
+}
@@ -0,0 +1,327 @@
+/**
+ * Embedding versions: which model stored vectors came from, and which
+ * version searches use
+ *
+ * Vectors live in "ChunkEmbedding", one row per chunk per version, so a new
+ * model can be filled in next to the one serving searches. Exactly one
+ * version is 'active'. Migrating to the configured provider creates a
+ * 'building' version that 'embed' jobs fill document by document (ingestion
+ * writes to it as well); once every chunk has a vector it becomes active in
+ * a single update. The version it replaces is kept 'retired', vectors and
+ * all, so the switch can be rolled back the same way.
+ */
+
+import type { EmbeddingVersion, Prisma } from '@prisma/client';
+import { prisma } from './prisma';
+import {
+  configuredEmbeddingSettings,
+  createEmbeddingProvider,
+  formatVectorForDB,
+  generateBatchEmbeddingsSettled,
+  getEmbeddingProvider,
+  type EmbeddingProvider,
+} from './embeddings';
+import { enqueueJob } from './jobs';
+import { dropVectorIndexes, ensureVectorIndex, ensureVectorIndexes } from './vector-index';
+import type { IngestionProgressCallback } from './ingestion';
+
+export type EmbeddingVersionStatus = 'building' | 'active' | 'retired';
+
+export interface EmbeddingCoverage {
+  version: EmbeddingVersion;
+  embeddedChunks: number;
+  totalChunks: number;
+}
+
+// Chunks embedded per call when filling in a version
+const EMBED_BATCH_SIZE = 20;
+
+const providers = new Map<string, EmbeddingProvider>();
+
+/**
+ * The provider a version's vectors were made with, for embedding queries
+ * and new chunks compatibly
+ */
+export function versionProvider(version: EmbeddingVersion): EmbeddingProvider {
+  let provider = providers.get(version.id);
+  if (!provider) {
+    provider = createEmbeddingProvider({
+      provider: version.provider,
+      model: version.model,
+      dimensions: version.requestedDimensions ?? undefined,
+      baseUrl: version.baseUrl ?? undefined,
+    });
+    providers.set(version.id, provider);
+  }
+  return provider;
+}
+
+// The version fields that identify the configured provider
+function configuredVersionFields() {
+  const settings = configuredEmbeddingSettings();
+  const provider = getEmbeddingProvider();
+  return {
+    provider: provider.name,
+    model: provider.model,
+    requestedDimensions: settings.dimensions ?? null,
+    baseUrl: provider.name === 'openai' ? settings.baseUrl ?? null : null,
+  };
+}
+
+/**
+ * The version searches use. A fresh database starts with the configured
+ * provider; after that the configuration only takes over through a migration.
+ */
+export async function getActiveEmbeddingVersion(): Promise<EmbeddingVersion> {
+  const active = await prisma.embeddingVersion.findFirst({ where: { status: 'active' } });
+  if (active) return active;
+
+  // Concurrent first calls race here; the partial unique index keeps one
+  await prisma.embeddingVersion.createMany({
+    data: [{ ...configuredVersionFields(), status: 'active', activatedAt: new Date() }],
+    skipDuplicates: true,
+  });
+  return prisma.embeddingVersion.findFirstOrThrow({ where: { status: 'active' } });
+}
+
+/**
+ * Versions new chunks are embedded in: the active one first, then the one
+ * being built, if any
+ */
+export async function getTargetEmbeddingVersions(): Promise<EmbeddingVersion[]> {
+  const active = await getActiveEmbeddingVersion();
+  const building = await prisma.embeddingVersion.findMany({
+    where: { status: 'building' },
+    orderBy: { createdAt: 'asc' },
+  });
+  return [active, ...building];
+}
+
+/**
+ * Store vectors for chunks in a version, replacing any they already have.
+ * Every vector in a version has the same size; the first stored sets it.
+ */
+export async function saveChunkEmbeddings(
+  db: Prisma.TransactionClient,
+  version: EmbeddingVersion,
+  rows: { chunkId: string; embedding: number[] }[]
+): Promise<void> {
+  if (rows.length === 0) return;
+
+  const dimensions = rows[0].embedding.length;
+  if (rows.some(row => row.embedding.length !== dimensions)) {
+    throw new Error(`Embeddings of different sizes for version ${version.id}`);
+  }
+  if (version.dimensions === null) {
+    await db.embeddingVersion.updateMany({
+      where: { id: version.id, dimensions: null },
+      data: { dimensions },
+    });
+  }
+  const { dimensions: expected } = await db.embeddingVersion.findUniqueOrThrow({
+    where: { id: version.id },
+    select: { dimensions: true },
+  });
+  if (expected !== dimensions) {
+    throw new Error(`Embedding size ${dimensions} does not match version ${version.id} (${expected} dimensions)`);
+  }
+
+  await db.$executeRaw`
+    INSERT INTO "ChunkEmbedding" ("chunkId", "versionId", embedding)
+    SELECT v."chunkId", ${version.id}, v.embedding::vector
+    FROM unnest(
+      ${rows.map(row => row.chunkId)}::text[],
+      ${rows.map(row => formatVectorForDB(row.embedding))}::text[]
+    ) AS v("chunkId", embedding)
+    ON CONFLICT ("chunkId", "versionId") DO UPDATE SET embedding = EXCLUDED.embedding
+  `;
+}
+
+/**
+ * Embed a document's chunks that have no vector yet in the active or the
+ * building version. Run by 'embed' jobs. Vectors that were made are kept
+ * even when others failed; then it throws, so the job retries the rest.
+ */
+export async function embedMissingChunks(
+  pdfId: string,
+  onProgress: IngestionProgressCallback = async () => {}
+): Promise<{ versions: { versionId: string; model: string; embedded: number }[] }> {
+  const versions = await getTargetEmbeddingVersions();
+  const results = [];
+  const failures: string[] = [];
+
+  for (const [index, version] of versions.entries()) {
+    const chunks = await prisma.chunk.findMany({
+      where: { pdfId, embeddings: { none: { versionId: version.id } } },
+      select: { id: true, content: true },
+      orderBy: { id: 'asc' },
+    });
+
+    const provider = versionProvider(version);
+    let failed = 0;
+    for (let i = 0; i < chunks.length; i += EMBED_BATCH_SIZE) {
+      const batch = chunks.slice(i, i + EMBED_BATCH_SIZE);
+      const { embeddings, failures: batchFailures } = await generateBatchEmbeddingsSettled(batch.map(chunk => chunk.content), provider);
+      await saveChunkEmbeddings(prisma, version, batch.flatMap((chunk, j) => {
+        const embedding = embeddings[j];
+        return embedding ? [{ chunkId: chunk.id, embedding }] : [];
+      }));
+      failed += batchFailures.length;
+      failures.push(...batchFailures.map(failure => `${version.model}: ${failure.error}`));
+
+      const done = Math.min(i + EMBED_BATCH_SIZE, chunks.length) / chunks.length;
+      await onProgress('embedding', Math.round(((index + done) / versions.length) * 100));
+    }
+
+    results.push({ versionId: version.id, model: version.model, embedded: chunks.length - failed });
+  }
+
+  await ensureVectorIndexes();
+  if (failures.length > 0) {
+    throw new Error(`${failures.length} chunk(s) could not be embedded (${failures[0]})`);
+  }
+  return { versions: results };
+}
+
+/**
+ * Documents (outside the trash) with chunks that have no vector in a version
+ */
+export async function documentsMissingEmbeddings(versionId: string): Promise<string[]> {
+  const documents = await prisma.document.findMany({
+    where: { deletedAt: null, chunks: { some: { embeddings: { none: { versionId } } } } },
+    select: { id: true },
+  });
+  return documents.map(document => document.id);
+}
+
+/**
+ * Make a version the one searches use, retiring the current one. A single
+ * transaction, so every search sees one version or the other. Its vector
+ * index is built first, so searches don't fall back to scanning.
+ */
+export async function activateEmbeddingVersion(id: string): Promise<EmbeddingVersion> {
+  await ensureVectorIndex(await prisma.embeddingVersion.findUniqueOrThrow({ where: { id } }));
+
+  return prisma.$transaction(async tx => {
+    await tx.embeddingVersion.updateMany({
+      where: { status: 'active', id: { not: id } },
+      data: { status: 'retired' },
+    });
+    return tx.embeddingVersion.update({
+      where: { id },
+      data: { status: 'active', activatedAt: new Date() },
+    });
+  });
+}
+
+/**
+ * Activate the building version once every chunk outside the trash has a
+ * vector in it. Returns the version when it was activated.
+ */
+export async function activateCompletedVersion(): Promise<EmbeddingVersion | null> {
+  const building = await prisma.embeddingVersion.findFirst({ where: { status: 'building' } });
+  if (!building) return null;
+
+  const missing = await prisma.chunk.count({
+    where: { pdf: { deletedAt: null }, embeddings: { none: { versionId: building.id } } },
+  });
+  if (missing > 0) return null;
+
+  const activated = await activateEmbeddingVersion(building.id);
+  console.log(`🔀 Embedding version ${activated.id} (${activated.model}) is now active`);
+  return activated;
+}
+
+/**
+ * Start moving stored vectors to the configured provider: find or create its
+ * version and queue an 'embed' job for every document that lacks vectors in
+ * it. The version is activated straight away if nothing is missing. Any
+ * other version being built is set aside (retired, keeping its vectors).
+ * For the active version this just fills in missing vectors.
+ */
+export async function startEmbeddingMigration(): Promise<{ version: EmbeddingVersion; queued: number }> {
+  await getActiveEmbeddingVersion();
+
+  const fields = configuredVersionFields();
+  let version = await prisma.embeddingVersion.findFirst({
+    where: fields,
+    orderBy: { createdAt: 'desc' },
+  });
+
+  // Only one version is built at a time
+  await prisma.embeddingVersion.updateMany({
+    where: { status: 'building', ...(version && { id: { not: version.id } }) },
+    data: { status: 'retired' },
+  });
+
+  if (!version) {
+    version = await prisma.embeddingVersion.create({ data: fields });
+  } else if (version.status === 'retired') {
+    // Vectors from when it was last used are reused; only the gaps are embedded
+    version = await prisma.embeddingVersion.update({ where: { id: version.id }, data: { status: 'building' } });
+  }
+
+  const pdfIds = await documentsMissingEmbeddings(version.id);
+  for (const pdfId of pdfIds) {
+    await enqueueJob(pdfId, 'embed');
+  }
+
+  if (version.status === 'building') {
+    version = (await activateCompletedVersion()) ?? version;
+  }
+  return { version, queued: pdfIds.length };
+}
+
+/**
+ * Switch back to the version that was active before the current one, and
+ * queue 'embed' jobs for chunks added since it was replaced. Returns null
+ * when there is nothing to roll back to.
+ */
+export async function rollbackEmbeddingVersion(): Promise<{ version: EmbeddingVersion; queued: number } | null> {
+  const previous = await prisma.embeddingVersion.findFirst({
+    where: { status: 'retired', activatedAt: { not: null } },
+    orderBy: { activatedAt: 'desc' },
+  });
+  if (!previous) return null;
+
+  const version = await activateEmbeddingVersion(previous.id);
+  const pdfIds = await documentsMissingEmbeddings(version.id);
+  for (const pdfId of pdfIds) {
+    await enqueueJob(pdfId, 'embed');
+  }
+  return { version, queued: pdfIds.length };
+}
+
+/**
+ * Delete a version that isn't active, with its vectors. Returns false when
+ * there is no such version.
+ */
+export async function deleteEmbeddingVersion(id: string): Promise<boolean> {
+  const { count } = await prisma.embeddingVersion.deleteMany({
+    where: { id, status: { not: 'active' } },
+  });
+  if (count > 0) await dropVectorIndexes({ id });
+  return count > 0;
+}
+
+/**
+ * Every version with how many chunks outside the trash have a vector in it
+ */
+export async function getEmbeddingCoverage(): Promise<EmbeddingCoverage[]> {
+  const [versions, counts, totalChunks] = await Promise.all([
+    prisma.embeddingVersion.findMany({ orderBy: { createdAt: 'asc' } }),
+    prisma.chunkEmbedding.groupBy({
+      by: ['versionId'],
+      where: { chunk: { pdf: { deletedAt: null } } },
+      _count: { _all: true },
+    }),
+    prisma.chunk.count({ where: { pdf: { deletedAt: null } } }),
+  ]);
+
+  const embedded = new Map(counts.map(count => [count.versionId, count._count._all]));
+  return versions.map(version => ({
+    version,
+    embeddedChunks: embedded.get(version.id) ?? 0,
+    totalChunks,
+  }));
+}
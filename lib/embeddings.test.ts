@@ -0,0 +1,53 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { EmbeddingRequestError, FakeEmbeddingProvider, generateBatchEmbeddingsSettled } from './embeddings';
+
+// A provider whose requests fail with `fail` when it returns an error, counting requests
+class FailingProvider extends FakeEmbeddingProvider {
+  requests = 0;
+
+  constructor(private fail: (texts: string[]) => Error | null) {
+    super(8);
+  }
+
+  async embedDocuments(texts: string[]): Promise<number[][]> {
+    this.requests++;
+    const error = this.fail(texts);
+    if (error) throw error;
+    return super.embedDocuments(texts);
+  }
+}
+
+const texts = Array.from({ length: 16 }, (_, i) => `text ${i}`);
+
+test('generateBatchEmbeddingsSettled isolates the texts a request was rejected for', async () => {
+  const provider = new FailingProvider(batch =>
+    batch.includes('text 5') ? new EmbeddingRequestError('Embeddings error: 400 Bad Request - input too long', 400) : null
+  );
+
+  const result = await generateBatchEmbeddingsSettled(texts, provider);
+
+  assert.deepEqual(result.failures.map(failure => failure.index), [5]);
+  assert.equal(result.embeddings.filter(embedding => embedding !== null).length, 15);
+  assert.equal(result.embeddings[5], null);
+});
+
+test('generateBatchEmbeddingsSettled fails the whole batch at once on auth and config errors', async () => {
+  const errors = [
+    new EmbeddingRequestError('Embeddings error: 401 Unauthorized', 401),
+    new EmbeddingRequestError('Embeddings error: 404 Not Found - model not found', 404),
+    new EmbeddingRequestError('Gemini error: 400 Bad Request - API key not valid. Please pass a valid API key.', 400),
+    new EmbeddingRequestError('Embeddings error: 429 Too Many Requests', 429),
+    new Error('Unexpected response'),
+  ];
+
+  for (const error of errors) {
+    const provider = new FailingProvider(() => error);
+
+    const result = await generateBatchEmbeddingsSettled(texts, provider);
+
+    assert.equal(provider.requests, 1, error.message);
+    assert.equal(result.failures.length, texts.length);
+    assert.ok(result.embeddings.every(embedding => embedding === null));
+  }
+});
@@ -1,4 +1,51 @@
-// Gemini Embeddings API utility functions
+/**
+ * Embedding Provider Layer
+ *
+ * A single interface for turning text into vectors so ingestion and search
+ * don't depend on a vendor. The provider is selected with EMBEDDING_PROVIDER:
+ * - gemini (default): Google's embedContent API, text-embedding-004 unless EMBEDDING_MODEL is set
+ * - openai: any OpenAI-compatible /embeddings API (OpenAI, Ollama, vLLM, text-embeddings-inference,
+ *   or a local server for a sentence-transformers or ONNX model)
+ * - fake: deterministic hashed bag-of-words vectors for development and CI
+ *
+ * Stored vectors belong to an embedding version (lib/embedding-versions.ts)
+ * that records the provider settings they were made with, so a version's
+ * provider can be rebuilt after the configuration has moved on.
+ *
+ * Requests are sent in batches of up to MAX_TEXTS_PER_REQUEST and retried
+ * with exponential backoff on rate limits (429, honouring Retry-After),
+ * server errors and network failures. Query embeddings are cached
+ * (lib/embedding-cache.ts).
+ */
+
+import { cachedQueryEmbedding } from './embedding-cache';
+
+export interface EmbeddingProvider {
+  readonly name: string;
+  /** Model name, recorded on the embedding versions built with this provider */
+  readonly model: string;
+  /** Requested vector size, when the model is asked to shorten its vectors */
+  readonly dimensions?: number;
+  /** Server requests go to, for providers that can be pointed at different ones */
+  readonly baseUrl?: string;
+  /** Whether the provider has the configuration it needs to make requests */
+  isConfigured(): boolean;
+  /** Embed texts to be stored and searched; one vector per text, in order. Throws on failure */
+  embedDocuments(texts: string[]): Promise<number[][]>;
+  /** Embed a search query; throws on failure */
+  embedQuery(text: string): Promise<number[]>;
+}
+
+/**
+ * What a provider is built from: the EMBEDDING_* variables, or a stored
+ * embedding version. API keys always come from the environment.
+ */
+export interface EmbeddingProviderSettings {
+  provider: string; // 'gemini' | 'openai' | 'fake'
+  model?: string; // the provider's default when unset
+  dimensions?: number; // requested output size, for models that can shorten their vectors
+  baseUrl?: string; // OpenAI-compatible servers only
+}
 
 export interface EmbeddingResponse {
   embedding: {
@@ -7,113 +54,401 @@ export interface EmbeddingResponse {
 }
 
 export interface BatchEmbeddingResponse {
-  embeddings: Array<{
-    values: number[];
-  }>;
+  embeddings: { values: number[] }[];
 }
 
 /**
- * Generate embedding for a single text using Gemini Embeddings API
+ * Vectors for a batch of texts, in order, with null for the texts that
+ * couldn't be embedded and why
  */
-export async function generateEmbedding(text: string): Promise<number[]> {
-  try {
-    const response = await fetch(
-      `https://generativelanguage.googleapis.com/v1beta/models/text-embedding-004:embedContent?key=${process.env.GEMINI_API_KEY}`,
+export interface BatchEmbeddingResult {
+  embeddings: (number[] | null)[];
+  failures: { index: number; error: string }[];
+}
+
+/**
+ * An embeddings API request that failed. `status` is null when no response
+ * came back (network failure or timeout).
+ */
+export class EmbeddingRequestError extends Error {
+  constructor(message: string, public status: number | null = null, public retryAfterMs: number | null = null) {
+    super(message);
+    this.name = 'EmbeddingRequestError';
+  }
+
+  /** Rate limits, server errors and network failures may succeed when repeated */
+  get retryable(): boolean {
+    return this.status === null || this.status === 429 || this.status >= 500;
+  }
+
+  /**
+   * The request was refused for what it sent (a text too long or malformed),
+   * so the same texts in smaller requests may get through. Auth, quota and
+   * unknown-model errors aren't: every request would get them. Gemini also
+   * answers 400 for an invalid API key.
+   */
+  get rejectedContent(): boolean {
+    if (this.status === 400) return !/API[_ ]KEY/i.test(this.message);
+    // 422: text-embeddings-inference's "input validation error"
+    return this.status === 413 || this.status === 422;
+  }
+}
+
+// Texts per API request; both APIs accept at least this many
+const MAX_TEXTS_PER_REQUEST = 100;
+
+const DEFAULT_MAX_RETRIES = 5;
+const RETRY_BASE_DELAY_MS = 500;
+const RETRY_MAX_DELAY_MS = 30_000;
+// A longer Retry-After fails the request instead, leaving the retry to the caller (e.g. the job queue)
+const MAX_RETRY_AFTER_MS = 60_000;
+
+function maxRetries(): number {
+  const value = parseInt(process.env.EMBEDDING_MAX_RETRIES || '', 10);
+  return value >= 0 ? value : DEFAULT_MAX_RETRIES;
+}
+
+/**
+ * Retry-After is either a number of seconds or an HTTP date
+ */
+function parseRetryAfter(header: string | null): number | null {
+  if (!header) return null;
+  const seconds = Number(header);
+  if (Number.isFinite(seconds)) return Math.max(0, seconds * 1000);
+  const date = Date.parse(header);
+  return Number.isNaN(date) ? null : Math.max(0, date - Date.now());
+}
+
+/**
+ * POST a JSON body to an embeddings API, retrying retryable failures with
+ * exponential backoff and jitter, or after the server's Retry-After.
+ * Throws EmbeddingRequestError once out of retries or on other errors.
+ */
+async function postWithRetry(url: string, init: RequestInit, label: string): Promise<Response> {
+  for (let attempt = 0; ; attempt++) {
+    let error: EmbeddingRequestError;
+    try {
+      const response = await fetch(url, { ...init, method: 'POST' });
+      if (response.ok) return response;
+
+      const errorText = (await response.text().catch(() => '')).slice(0, 500);
+      error = new EmbeddingRequestError(
+        `${label} error: ${response.status} ${response.statusText}${errorText ? ` - ${errorText}` : ''}`,
+        response.status,
+        parseRetryAfter(response.headers.get('retry-after'))
+      );
+    } catch (fetchError) {
+      error = new EmbeddingRequestError(
+        `${label} request failed: ${fetchError instanceof Error ? fetchError.message : 'Unknown error'}`
+      );
+    }
+
+    if (!error.retryable || attempt >= maxRetries()) throw error;
+    if (error.retryAfterMs !== null && error.retryAfterMs > MAX_RETRY_AFTER_MS) throw error;
+
+    const backoff = Math.min(RETRY_BASE_DELAY_MS * 2 ** attempt, RETRY_MAX_DELAY_MS);
+    const delay = error.retryAfterMs ?? backoff / 2 + Math.random() * (backoff / 2);
+    console.warn(`⏳ ${label} ${error.status ?? 'request failed'}, retrying in ${Math.round(delay)}ms (attempt ${attempt + 1}/${maxRetries()})`);
+    await new Promise(resolve => setTimeout(resolve, delay));
+  }
+}
+
+/**
+ * Provider settings from the environment
+ */
+export function configuredEmbeddingSettings(): EmbeddingProviderSettings {
+  const dimensions = parseInt(process.env.EMBEDDING_DIMENSIONS || '', 10);
+  return {
+    provider: process.env.EMBEDDING_PROVIDER || 'gemini',
+    model: process.env.EMBEDDING_MODEL || undefined,
+    dimensions: dimensions > 0 ? dimensions : undefined,
+    baseUrl: process.env.EMBEDDING_BASE_URL || undefined,
+  };
+}
+
+/**
+ * Google Gemini (embedContent API; batchEmbedContents for documents)
+ */
+class GeminiEmbeddingProvider implements EmbeddingProvider {
+  readonly name = 'gemini';
+  readonly model: string;
+  readonly dimensions: number | undefined;
+  private apiKey: string | undefined;
+
+  constructor(settings: EmbeddingProviderSettings) {
+    this.apiKey = process.env.GEMINI_API_KEY;
+    this.model = settings.model || 'text-embedding-004';
+    this.dimensions = settings.dimensions;
+  }
+
+  isConfigured(): boolean {
+    return !!this.apiKey;
+  }
+
+  private request(text: string, taskType: 'RETRIEVAL_DOCUMENT' | 'RETRIEVAL_QUERY') {
+    return {
+      model: `models/${this.model}`,
+      content: {
+        parts: [{ text }]
+      },
+      taskType,
+      ...(this.dimensions && { outputDimensionality: this.dimensions }),
+    };
+  }
+
+  private post(method: 'embedContent' | 'batchEmbedContents', body: unknown): Promise<Response> {
+    return postWithRetry(
+      `https://generativelanguage.googleapis.com/v1beta/models/${this.model}:${method}?key=${this.apiKey}`,
       {
-        method: 'POST',
         headers: {
           'Content-Type': 'application/json',
         },
-        body: JSON.stringify({
-          content: {
-            parts: [{ text: text }]
-          },
-          taskType: 'RETRIEVAL_DOCUMENT'
-        }),
-      }
+        body: JSON.stringify(body),
+      },
+      'Gemini Embeddings API'
     );
+  }
+
+  async embedDocuments(texts: string[]): Promise<number[][]> {
+    const results: number[][] = [];
 
-    if (!response.ok) {
-      throw new Error(`Gemini Embeddings API error: ${response.status} ${response.statusText}`);
+    for (let i = 0; i < texts.length; i += MAX_TEXTS_PER_REQUEST) {
+      const batch = texts.slice(i, i + MAX_TEXTS_PER_REQUEST);
+      const response = await this.post('batchEmbedContents', {
+        requests: batch.map(text => this.request(text, 'RETRIEVAL_DOCUMENT')),
+      });
+      const data: BatchEmbeddingResponse = await response.json();
+
+      if (!Array.isArray(data.embeddings) || data.embeddings.length !== batch.length || data.embeddings.some(e => !e?.values)) {
+        throw new Error('Invalid embedding response format');
+      }
+      results.push(...data.embeddings.map(embedding => embedding.values));
     }
 
+    return results;
+  }
+
+  async embedQuery(text: string): Promise<number[]> {
+    const response = await this.post('embedContent', this.request(text, 'RETRIEVAL_QUERY'));
     const data: EmbeddingResponse = await response.json();
-    
+
     if (!data.embedding?.values) {
       throw new Error('Invalid embedding response format');
     }
 
     return data.embedding.values;
-  } catch (error) {
-    console.error('Error generating embedding:', error);
-    throw error;
   }
 }
 
 /**
- * Generate embeddings for multiple texts in batch using Gemini Embeddings API
- * Note: Gemini API doesn't support true batch requests, so we'll make concurrent requests
+ * OpenAI-compatible embeddings API.
+ * Works with OpenAI and with local servers such as Ollama
+ * (EMBEDDING_BASE_URL=http://localhost:11434/v1, EMBEDDING_MODEL=nomic-embed-text),
+ * vLLM and text-embeddings-inference.
  */
-export async function generateBatchEmbeddings(texts: string[]): Promise<number[][]> {
-  try {
-    // Limit concurrent requests to avoid rate limiting
-    const batchSize = 10;
+class OpenAICompatibleEmbeddingProvider implements EmbeddingProvider {
+  readonly name = 'openai';
+  readonly model: string;
+  readonly dimensions: number | undefined;
+  readonly baseUrl: string;
+  private apiKey: string | undefined;
+
+  constructor(settings: EmbeddingProviderSettings) {
+    this.baseUrl = (settings.baseUrl || 'https://api.openai.com/v1').replace(/\/+$/, '');
+    this.apiKey = process.env.EMBEDDING_API_KEY;
+    this.model = settings.model || 'text-embedding-3-small';
+    this.dimensions = settings.dimensions;
+  }
+
+  isConfigured(): boolean {
+    // Local servers usually don't need a key; the hosted API does
+    return !!this.apiKey || !this.baseUrl.includes('api.openai.com');
+  }
+
+  async embedDocuments(texts: string[]): Promise<number[][]> {
     const results: number[][] = [];
-    
-    for (let i = 0; i < texts.length; i += batchSize) {
-      const batch = texts.slice(i, i + batchSize);
-      
-      // Make concurrent requests for the batch
-      const batchPromises = batch.map(text => generateEmbedding(text));
-      const batchResults = await Promise.all(batchPromises);
-      
-      results.push(...batchResults);
-      
-      // Add a small delay between batches to avoid rate limiting
-      if (i + batchSize < texts.length) {
-        await new Promise(resolve => setTimeout(resolve, 100));
+
+    for (let i = 0; i < texts.length; i += MAX_TEXTS_PER_REQUEST) {
+      const batch = texts.slice(i, i + MAX_TEXTS_PER_REQUEST);
+      const res = await postWithRetry(
+        `${this.baseUrl}/embeddings`,
+        {
+          headers: {
+            'Content-Type': 'application/json',
+            ...(this.apiKey && { Authorization: `Bearer ${this.apiKey}` }),
+          },
+          body: JSON.stringify({
+            model: this.model,
+            input: batch,
+            ...(this.dimensions && { dimensions: this.dimensions }),
+          }),
+        },
+        `OpenAI-compatible embeddings API (${this.model})`
+      );
+
+      const data: { data?: Array<{ index: number; embedding: number[] }> } = await res.json();
+      if (!Array.isArray(data.data) || data.data.length !== batch.length) {
+        throw new Error('Invalid embedding response format');
       }
+
+      // Servers may return items out of order; index says which input each belongs to
+      results.push(...[...data.data].sort((a, b) => a.index - b.index).map(item => item.embedding));
     }
-    
+
     return results;
+  }
+
+  async embedQuery(text: string): Promise<number[]> {
+    const [embedding] = await this.embedDocuments([text]);
+    return embedding;
+  }
+}
+
+/**
+ * Deterministic provider for development and CI: no network, and texts that
+ * share words get similar vectors, so search behaves plausibly offline.
+ */
+export class FakeEmbeddingProvider implements EmbeddingProvider {
+  readonly name = 'fake';
+  readonly model = 'fake-embedding';
+  readonly dimensions: number;
+
+  constructor(dimensions: number = 256) {
+    this.dimensions = dimensions;
+  }
+
+  isConfigured(): boolean {
+    return true;
+  }
+
+  private embed(text: string): number[] {
+    const vector = new Array<number>(this.dimensions).fill(0);
+    for (const word of text.toLowerCase().match(/[\p{L}\p{N}]+/gu) || []) {
+      // FNV-1a hash of the word picks a dimension and a sign
+      let hash = 0x811c9dc5;
+      for (let i = 0; i < word.length; i++) {
+        hash = Math.imul(hash ^ word.charCodeAt(i), 0x01000193);
+      }
+      vector[(hash >>> 1) % this.dimensions] += hash & 1 ? 1 : -1;
+    }
+
+    const norm = Math.sqrt(vector.reduce((sum, value) => sum + value * value, 0));
+    return norm === 0 ? vector : vector.map(value => value / norm);
+  }
+
+  async embedDocuments(texts: string[]): Promise<number[][]> {
+    return texts.map(text => this.embed(text));
+  }
+
+  async embedQuery(text: string): Promise<number[]> {
+    return this.embed(text);
+  }
+}
+
+/**
+ * Build a provider from explicit settings
+ */
+export function createEmbeddingProvider(settings: EmbeddingProviderSettings): EmbeddingProvider {
+  switch (settings.provider) {
+    case 'gemini':
+      return new GeminiEmbeddingProvider(settings);
+    case 'openai':
+      return new OpenAICompatibleEmbeddingProvider(settings);
+    case 'fake':
+      return new FakeEmbeddingProvider(settings.dimensions);
+    default:
+      console.warn(`Unknown embedding provider: ${settings.provider}, falling back to gemini`);
+      return new GeminiEmbeddingProvider({ ...settings, provider: 'gemini' });
+  }
+}
+
+let cachedProvider: EmbeddingProvider | null = null;
+
+/**
+ * Get the configured embedding provider. Searches and ingestion use the
+ * active embedding version's provider instead, which only follows the
+ * configuration once the stored vectors have been migrated to it.
+ */
+export function getEmbeddingProvider(): EmbeddingProvider {
+  if (!cachedProvider) cachedProvider = createEmbeddingProvider(configuredEmbeddingSettings());
+  return cachedProvider;
+}
+
+/**
+ * Generate embedding for a single text to be stored
+ */
+export async function generateEmbedding(text: string, provider: EmbeddingProvider = getEmbeddingProvider()): Promise<number[]> {
+  try {
+    const [embedding] = await provider.embedDocuments([text]);
+    return embedding;
   } catch (error) {
-    console.error('Error generating batch embeddings:', error);
+    console.error('Error generating embedding:', error);
     throw error;
   }
 }
 
 /**
- * Generate embedding for search queries
+ * Generate embeddings for multiple texts to be stored, in order. Throws if
+ * any text fails; see generateBatchEmbeddingsSettled to keep the rest.
  */
-export async function generateQueryEmbedding(query: string): Promise<number[]> {
+export async function generateBatchEmbeddings(texts: string[], provider: EmbeddingProvider = getEmbeddingProvider()): Promise<number[][]> {
   try {
-    const response = await fetch(
-      `https://generativelanguage.googleapis.com/v1beta/models/text-embedding-004:embedContent?key=${process.env.GEMINI_API_KEY}`,
-      {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-        },
-        body: JSON.stringify({
-          content: {
-            parts: [{ text: query }]
-          },
-          taskType: 'RETRIEVAL_QUERY'
-        }),
-      }
-    );
+    return await provider.embedDocuments(texts);
+  } catch (error) {
+    console.error('Error generating batch embeddings:', error);
+    throw error;
+  }
+}
 
-    if (!response.ok) {
-      throw new Error(`Gemini Embeddings API error: ${response.status} ${response.statusText}`);
-    }
+/**
+ * Generate embeddings for multiple texts to be stored, reporting failures
+ * per text instead of failing the whole batch. A request rejected for its
+ * content (e.g. a text over the model's input limit) is split in halves
+ * until the texts at fault are isolated. Any other failure (rate limits or
+ * server errors after retries, a bad API key or model name) fails all of
+ * the batch's texts at once, since smaller requests would fail the same way.
+ */
+export async function generateBatchEmbeddingsSettled(
+  texts: string[],
+  provider: EmbeddingProvider = getEmbeddingProvider()
+): Promise<BatchEmbeddingResult> {
+  const result: BatchEmbeddingResult = { embeddings: texts.map(() => null), failures: [] };
 
-    const data: EmbeddingResponse = await response.json();
-    
-    if (!data.embedding?.values) {
-      throw new Error('Invalid embedding response format');
+  const settle = async (start: number, batch: string[]): Promise<void> => {
+    try {
+      const embeddings = await provider.embedDocuments(batch);
+      embeddings.forEach((embedding, offset) => {
+        result.embeddings[start + offset] = embedding;
+      });
+    } catch (error) {
+      if (batch.length > 1 && error instanceof EmbeddingRequestError && error.rejectedContent) {
+        const half = Math.ceil(batch.length / 2);
+        await settle(start, batch.slice(0, half));
+        await settle(start + half, batch.slice(half));
+        return;
+      }
+      const message = error instanceof Error ? error.message : 'Unknown error';
+      batch.forEach((_, offset) => result.failures.push({ index: start + offset, error: message }));
     }
+  };
 
-    return data.embedding.values;
+  for (let i = 0; i < texts.length; i += MAX_TEXTS_PER_REQUEST) {
+    await settle(i, texts.slice(i, i + MAX_TEXTS_PER_REQUEST));
+  }
+
+  if (result.failures.length > 0) {
+    console.error(`Failed to embed ${result.failures.length} of ${texts.length} text(s):`, result.failures[0].error);
+  }
+  return result;
+}
+
+/**
+ * Generate embedding for search queries. Served from the query embedding
+ * cache when the same query was embedded with the same model before.
+ */
+export async function generateQueryEmbedding(query: string, provider: EmbeddingProvider = getEmbeddingProvider()): Promise<number[]> {
+  try {
+    return await cachedQueryEmbedding(query, provider);
   } catch (error) {
     console.error('Error generating query embedding:', error);
     throw error;
@@ -153,4 +488,4 @@ export function cosineSimilarity(a: number[], b: number[]): number {
   }
 
   return dotProduct / (normA * normB);
-}
\ No newline at end of file
+}
@@ -0,0 +1,962 @@
+/**
+ * Format-specific text extractors
+ *
+ * Every extractor turns a stored file into the same PageContent units the
+ * chunkers work from, so all formats share one chunking and embedding
+ * pipeline. A unit is a page for PDFs and a slide for presentations; DOCX,
+ * Markdown and HTML are split into sections at their headings, and plain text
+ * into runs of lines. Each unit records where it is in the source (see
+ * ChunkLocation), and formats that mark up their structure hand the chunker
+ * ready-made heading, paragraph, list and table blocks.
+ */
+
+import { posix } from 'path';
+import JSZip from 'jszip';
+import { XMLParser } from 'fast-xml-parser';
+import { parse as parseHtml, HTMLElement, TextNode, type Node as HtmlNode } from 'node-html-parser';
+import { createOcrEngine, isOcrEnabled } from './ocr';
+import type { Block, BlockType, ChunkLocation, LayoutItem, PageContent } from './chunking';
+import type { DocumentFormat } from './document-formats';
+import type { NearDuplicate } from './duplicates';
+import type { PDFPageProxy } from 'pdfjs-dist/legacy/build/pdf.mjs';
+
+export interface OcrPageInfo {
+  pageNum: number;
+  confidence: number; // 0-100
+}
+
+/**
+ * Extraction details stored on the document as Document.metadata
+ */
+export interface DocumentMetadata {
+  pageCount: number; // pages, slides, sections or runs of lines, depending on the format
+  ocr: {
+    language: string;
+    pages: OcrPageInfo[];
+  } | null;
+  nearDuplicates?: NearDuplicate[]; // added by ingestion
+}
+
+export interface DocumentExtraction {
+  pages: PageContent[];
+  metadata: DocumentMetadata;
+}
+
+/**
+ * Reports extraction progress as units done out of the total
+ */
+export type ExtractionProgressCallback = (done: number, total: number) => Promise<void>;
+
+type Extractor = (data: Uint8Array, onProgress?: ExtractionProgressCallback) => Promise<DocumentExtraction>;
+
+/**
+ * A block read from a format's own markup, before it's assigned to a section
+ */
+interface SourceBlock {
+  type: BlockType;
+  text: string;
+  level?: number; // headings only
+  anchor?: string; // headings only, when the source gives the heading an id
+  lines?: [number, number];
+}
+
+// Pages with fewer text-layer characters per square inch than this are OCR'd
+// (about 90 characters on a letter-size page)
+const MIN_TEXT_DENSITY = 1;
+
+// Resolution scanned pages are rendered at for OCR
+const OCR_RENDER_DPI = 200;
+
+// Plain text is cut into units of about this many lines, between paragraphs
+const TEXT_LINES_PER_UNIT = 60;
+
+const xmlParser = new XMLParser({
+  preserveOrder: true, // document order matters: paragraphs, tables, shapes
+  ignoreAttributes: false,
+  trimValues: false, // keeps the spaces between runs of text
+  parseTagValue: false,
+  htmlEntities: true,
+});
+
+const extractors: Record<DocumentFormat, Extractor> = {
+  pdf: extractPdfText,
+  docx: extractDocxText,
+  pptx: extractPptxText,
+  md: extractMarkdownText,
+  html: extractHtmlText,
+  txt: extractPlainText,
+};
+
+/**
+ * Extract the content of a stored file with the extractor for its format
+ */
+export function extractDocument(
+  format: DocumentFormat,
+  data: Uint8Array,
+  onProgress?: ExtractionProgressCallback
+): Promise<DocumentExtraction> {
+  return extractors[format](data, onProgress);
+}
+
+/**
+ * Extract the text of each page of a PDF, with the positioned text items the
+ * structure-aware chunker works from. Pages whose text layer is empty or too sparse (scans, image-only pages)
+ * are rendered and OCR'd instead, unless OCR_ENABLED=false.
+ */
+export async function extractPdfText(
+  fileData: Uint8Array,
+  onPage?: ExtractionProgressCallback
+): Promise<DocumentExtraction> {
+  // Dynamic import to avoid worker initialization at module load time
+  const pdfjsLib = await import('pdfjs-dist/legacy/build/pdf.mjs');
+
+  // PDF.js requires workerSrc to be a string, but won't actually try to load it
+  // if we configure the document to not use workers
+  if (pdfjsLib.GlobalWorkerOptions) {
+    pdfjsLib.GlobalWorkerOptions.workerSrc = 'pdfjs-dist/build/pdf.worker.min.mjs';
+  }
+
+  const pdfDoc = await pdfjsLib.getDocument({
+    data: new Uint8Array(fileData),
+    useWorkerFetch: false,
+    isEvalSupported: false,
+    useSystemFonts: true,
+    disableAutoFetch: true,
+    disableStream: true,
+  }).promise;
+
+  const ocr = isOcrEnabled() ? createOcrEngine() : null;
+  const ocrPages: OcrPageInfo[] = [];
+  const numPages = pdfDoc.numPages;
+  const pages: PageContent[] = [];
+
+  try {
+    console.log(`📄 PDF has ${numPages} pages`);
+
+    for (let pageNum = 1; pageNum <= numPages; pageNum++) {
+      try {
+        const page = await pdfDoc.getPage(pageNum);
+        const textContent = await page.getTextContent();
+
+        const items: LayoutItem[] = textContent.items.flatMap(item =>
+          'str' in item
+            ? [{
+                text: item.str,
+                x: item.transform[4],
+                y: item.transform[5],
+                width: item.width,
+                fontSize: Math.hypot(item.transform[2], item.transform[3]),
+                fontName: item.fontName,
+                hasEOL: item.hasEOL,
+              }]
+            : []
+        );
+
+        // Concatenate text items with proper spacing
+        const pageText = items.map(item => item.text).join(' ');
+        const location = { page: pageNum };
+        let content: PageContent = { pageNum, text: pageText, location, items };
+
+        const viewport = page.getViewport({ scale: 1 });
+        const areaSqInches = (viewport.width / 72) * (viewport.height / 72);
+        const density = pageText.replace(/\s/g, '').length / areaSqInches;
+
+        if (ocr && density < MIN_TEXT_DENSITY) {
+          try {
+            const result = await ocr.recognize(await renderPageImage(page));
+            // Keep the text layer if OCR found even less
+            if (result.text.length > pageText.trim().length) {
+              // OCR text has no layout; it is chunked by paragraphs
+              content = { pageNum, text: result.text, location };
+              ocrPages.push({ pageNum, confidence: result.confidence });
+              console.log(`🔎 OCR'd page ${pageNum} (confidence ${result.confidence}%)`);
+            }
+          } catch (ocrError) {
+            console.error(`⚠️ OCR failed for page ${pageNum}:`, ocrError);
+          }
+        }
+
+        pages.push(content);
+      } catch (pageError) {
+        console.error(`⚠️ Error processing page ${pageNum}:`, pageError);
+        // Continue with other pages
+      }
+      await onPage?.(pageNum, numPages);
+    }
+  } finally {
+    await ocr?.terminate();
+    await pdfDoc.destroy();
+  }
+
+  return {
+    pages,
+    metadata: {
+      pageCount: numPages,
+      ocr: ocr && ocrPages.length > 0 ? { language: ocr.language, pages: ocrPages } : null,
+    },
+  };
+}
+
+/**
+ * Render a page to a PNG for OCR
+ */
+async function renderPageImage(page: PDFPageProxy): Promise<Buffer> {
+  const { createCanvas } = await import('@napi-rs/canvas');
+  const viewport = page.getViewport({ scale: OCR_RENDER_DPI / 72 });
+  const canvas = createCanvas(Math.ceil(viewport.width), Math.ceil(viewport.height));
+
+  await page.render({
+    canvas: canvas as unknown as HTMLCanvasElement,
+    viewport,
+  }).promise;
+
+  return canvas.toBuffer('image/png');
+}
+
+/**
+ * Word documents: paragraphs, lists and tables in document order, with
+ * headings taken from the paragraph styles (Title, Heading 1-9)
+ */
+export async function extractDocxText(data: Uint8Array, onProgress?: ExtractionProgressCallback): Promise<DocumentExtraction> {
+  const zip = await openZip(data, 'DOCX');
+  const documentXml = await zip.file('word/document.xml')?.async('string');
+  if (!documentXml) {
+    throw new Error('Not a valid DOCX file: word/document.xml is missing');
+  }
+
+  const styles = docxParagraphStyles(parseXml(await zip.file('word/styles.xml')?.async('string') ?? ''));
+  const body = findPath(parseXml(documentXml), 'w:document', 'w:body');
+
+  const blocks: SourceBlock[] = [];
+  let listItems: string[] = [];
+  const flushList = () => {
+    if (listItems.length > 0) blocks.push({ type: 'list', text: listItems.join('\n') });
+    listItems = [];
+  };
+
+  const walk = (nodes: XmlNode[]) => {
+    for (const node of nodes) {
+      switch (nodeName(node)) {
+        case 'w:p': {
+          const text = docxText(childNodes(node)).replace(/[ \t]+/g, ' ').trim();
+          if (!text) break;
+
+          const properties = childNodes(findChild(childNodes(node), 'w:pPr'));
+          const styleId = attribute(findChild(properties, 'w:pStyle'), 'w:val') ?? '';
+          const outlineLevel = attribute(findChild(properties, 'w:outlineLvl'), 'w:val');
+          const level = outlineLevel !== undefined && Number(outlineLevel) < 9
+            ? Number(outlineLevel) + 1
+            : styles.headings.get(styleId);
+          const numbering = findChild(properties, 'w:numPr');
+
+          if (level !== undefined) {
+            flushList();
+            blocks.push({ type: 'heading', text: text.replace(/\s+/g, ' '), level });
+          } else if (numbering || styles.lists.has(styleId)) {
+            const depth = Number(attribute(findChild(childNodes(numbering), 'w:ilvl'), 'w:val') ?? 0);
+            listItems.push(`${'  '.repeat(depth)}- ${text.replace(/\s+/g, ' ')}`);
+          } else {
+            flushList();
+            blocks.push({ type: 'paragraph', text });
+          }
+          break;
+        }
+        case 'w:tbl': {
+          flushList();
+          const rows = childNodes(node)
+            .filter(row => nodeName(row) === 'w:tr')
+            .map(row =>
+              childNodes(row)
+                .filter(cell => nodeName(cell) === 'w:tc')
+                .map(cell => docxText(childNodes(cell)).replace(/\s+/g, ' ').trim())
+            )
+            .filter(cells => cells.some(Boolean));
+          if (rows.length > 0) blocks.push({ type: 'table', text: rows.map(cells => cells.join(' | ')).join('\n') });
+          break;
+        }
+        case 'w:sdt':
+          // Content controls (e.g. a table of contents) wrap ordinary paragraphs
+          walk(childNodes(findChild(childNodes(node), 'w:sdtContent')));
+          break;
+      }
+    }
+  };
+  walk(childNodes(body));
+  flushList();
+
+  const pages = sectionsFromBlocks(blocks);
+  await onProgress?.(pages.length, pages.length);
+  return { pages, metadata: { pageCount: pages.length, ocr: null } };
+}
+
+/**
+ * Heading levels and list styles by paragraph style id. Style ids are
+ * localised in some editors, so headings are recognised by their outline
+ * level or built-in name instead.
+ */
+function docxParagraphStyles(styles: XmlNode[]): { headings: Map<string, number>; lists: Set<string> } {
+  const headings = new Map<string, number>();
+  const lists = new Set<string>();
+
+  for (const style of childNodes(findChild(styles, 'w:styles'))) {
+    if (nodeName(style) !== 'w:style' || attribute(style, 'w:type') !== 'paragraph') continue;
+    const id = attribute(style, 'w:styleId');
+    if (!id) continue;
+
+    const name = (attribute(findChild(childNodes(style), 'w:name'), 'w:val') ?? '').toLowerCase();
+    const outlineLevel = attribute(findChild(childNodes(findChild(childNodes(style), 'w:pPr')), 'w:outlineLvl'), 'w:val');
+    const headingName = name.match(/^heading (\d)$/);
+
+    if (name === 'title') {
+      headings.set(id, 0); // above Heading 1, so headings nest under the title
+    } else if (outlineLevel !== undefined && Number(outlineLevel) < 9) {
+      headings.set(id, Number(outlineLevel) + 1);
+    } else if (headingName) {
+      headings.set(id, Number(headingName[1]));
+    } else if (name.startsWith('list')) {
+      lists.add(id);
+    }
+  }
+
+  return { headings, lists };
+}
+
+/**
+ * Text of WordprocessingML content: runs, tabs and breaks, with a line break
+ * after each paragraph (e.g. several paragraphs in one table cell)
+ */
+function docxText(nodes: XmlNode[]): string {
+  let text = '';
+  for (const node of nodes) {
+    const name = nodeName(node);
+    if (name === 'w:t') {
+      text += textContent(childNodes(node));
+    } else if (name === 'w:tab') {
+      text += '\t';
+    } else if (name === 'w:br' || name === 'w:cr') {
+      text += '\n';
+    } else if (name === 'w:p') {
+      text += docxText(childNodes(node)) + '\n';
+    } else if (name !== 'w:pPr' && name !== 'w:rPr' && name !== '#text') {
+      text += docxText(childNodes(node));
+    }
+  }
+  return text;
+}
+
+/**
+ * Presentations: one unit per slide, in presentation order. The slide title
+ * becomes a heading, multi-paragraph text boxes become lists, and speaker
+ * notes are kept since they often hold most of the explanation.
+ */
+export async function extractPptxText(data: Uint8Array, onProgress?: ExtractionProgressCallback): Promise<DocumentExtraction> {
+  const zip = await openZip(data, 'PPTX');
+  const slidePaths = await pptxSlidePaths(zip);
+  if (slidePaths.length === 0) {
+    throw new Error('Not a valid PPTX file: no slides found');
+  }
+
+  const pages: PageContent[] = [];
+  for (const [index, path] of slidePaths.entries()) {
+    const slide = index + 1;
+    const location = { slide };
+    const blocks = pptxShapeBlocks(findDescendants(parseXml(await zip.file(path)!.async('string')), 'p:spTree'));
+
+    const notes = await pptxNotes(zip, path);
+    if (notes) blocks.push({ type: 'paragraph', text: `Speaker notes: ${notes}` });
+
+    pages.push({
+      pageNum: slide,
+      text: blocks.map(block => block.text).join('\n\n'),
+      location,
+      blocks: blocks.map(block => ({ type: block.type, text: block.text, level: block.level, pageNum: slide, location })),
+    });
+    await onProgress?.(slide, slidePaths.length);
+  }
+
+  return { pages, metadata: { pageCount: slidePaths.length, ocr: null } };
+}
+
+/**
+ * Slide parts in the order the presentation lists them, falling back to
+ * their file numbering
+ */
+async function pptxSlidePaths(zip: JSZip): Promise<string[]> {
+  const presentationPath = 'ppt/presentation.xml';
+  const presentation = await zip.file(presentationPath)?.async('string');
+  if (presentation) {
+    const relationships = await zipRelationships(zip, presentationPath);
+    const paths = findDescendants(parseXml(presentation), 'p:sldId')
+      .map(slide => relationships.get(attribute(slide, 'r:id') ?? '')?.path)
+      .filter((path): path is string => !!path && !!zip.file(path));
+    if (paths.length > 0) return paths;
+  }
+
+  const slideNumber = (path: string) => Number(path.match(/slide(\d+)\.xml$/)?.[1]);
+  return Object.keys(zip.files)
+    .filter(path => /^ppt\/slides\/slide\d+\.xml$/.test(path))
+    .sort((a, b) => slideNumber(a) - slideNumber(b));
+}
+
+function pptxShapeBlocks(nodes: XmlNode[]): SourceBlock[] {
+  const blocks: SourceBlock[] = [];
+
+  for (const node of nodes) {
+    switch (nodeName(node)) {
+      case 'p:spTree':
+      case 'p:grpSp':
+        blocks.push(...pptxShapeBlocks(childNodes(node)));
+        break;
+      case 'p:sp': {
+        const placeholder = attribute(findDescendants(childNodes(node), 'p:ph')[0], 'type');
+        // Slide numbers, dates and footers repeat on every slide
+        if (placeholder === 'sldNum' || placeholder === 'dt' || placeholder === 'ftr') break;
+
+        const paragraphs = findDescendants(childNodes(node), 'a:p')
+          .map(paragraph => ({
+            text: drawingText(childNodes(paragraph)).replace(/\s+/g, ' ').trim(),
+            depth: Number(attribute(findChild(childNodes(paragraph), 'a:pPr'), 'lvl') ?? 0),
+          }))
+          .filter(paragraph => paragraph.text);
+        if (paragraphs.length === 0) break;
+
+        if (placeholder === 'title' || placeholder === 'ctrTitle') {
+          blocks.push({ type: 'heading', text: paragraphs.map(p => p.text).join(' '), level: 1 });
+        } else if (paragraphs.length > 1) {
+          blocks.push({ type: 'list', text: paragraphs.map(p => `${'  '.repeat(p.depth)}- ${p.text}`).join('\n') });
+        } else {
+          blocks.push({ type: 'paragraph', text: paragraphs[0].text });
+        }
+        break;
+      }
+      case 'p:graphicFrame':
+        for (const table of findDescendants(childNodes(node), 'a:tbl')) {
+          const rows = childNodes(table)
+            .filter(row => nodeName(row) === 'a:tr')
+            .map(row =>
+              childNodes(row)
+                .filter(cell => nodeName(cell) === 'a:tc')
+                .map(cell => drawingText(childNodes(cell)).replace(/\s+/g, ' ').trim())
+            )
+            .filter(cells => cells.some(Boolean));
+          if (rows.length > 0) blocks.push({ type: 'table', text: rows.map(cells => cells.join(' | ')).join('\n') });
+        }
+        break;
+    }
+  }
+
+  return blocks;
+}
+
+/**
+ * The speaker notes of a slide, if it has any
+ */
+async function pptxNotes(zip: JSZip, slidePath: string): Promise<string | null> {
+  const relationships = await zipRelationships(zip, slidePath);
+  const notesPath = [...relationships.values()].find(rel => rel.type.endsWith('/notesSlide'))?.path;
+  const notesXml = notesPath ? await zip.file(notesPath)?.async('string') : undefined;
+  if (!notesXml) return null;
+
+  // The notes page also shows the slide image and number; the notes are the body placeholder
+  const text = findDescendants(parseXml(notesXml), 'p:sp')
+    .filter(shape => attribute(findDescendants(childNodes(shape), 'p:ph')[0], 'type') === 'body')
+    .flatMap(shape => findDescendants(childNodes(shape), 'a:p'))
+    .map(paragraph => drawingText(childNodes(paragraph)).trim())
+    .filter(Boolean)
+    .join(' ');
+  return text.replace(/\s+/g, ' ').trim() || null;
+}
+
+/**
+ * Text of DrawingML content (slides, notes, table cells)
+ */
+function drawingText(nodes: XmlNode[]): string {
+  let text = '';
+  for (const node of nodes) {
+    const name = nodeName(node);
+    if (name === 'a:t') {
+      text += textContent(childNodes(node));
+    } else if (name === 'a:br') {
+      text += ' ';
+    } else if (name === 'a:p') {
+      text += drawingText(childNodes(node)) + ' ';
+    } else if (name !== 'a:pPr' && name !== 'a:rPr' && name !== '#text') {
+      text += drawingText(childNodes(node));
+    }
+  }
+  return text;
+}
+
+/**
+ * Markdown: sections at ATX (#) and setext (underlined) headings, each block
+ * located by its line range
+ */
+export async function extractMarkdownText(data: Uint8Array, onProgress?: ExtractionProgressCallback): Promise<DocumentExtraction> {
+  const pages = sectionsFromBlocks(markdownBlocks(decodeText(data)));
+  await onProgress?.(pages.length, pages.length);
+  return { pages, metadata: { pageCount: pages.length, ocr: null } };
+}
+
+function markdownBlocks(source: string): SourceBlock[] {
+  const lines = source.split('\n');
+  const blocks: SourceBlock[] = [];
+
+  let paragraph: { lines: string[]; start: number; end: number } | null = null;
+  let list: { items: string[]; start: number; end: number } | null = null;
+  let table: { rows: string[]; start: number; end: number } | null = null;
+  let fence: { marker: string; lines: string[]; start: number } | null = null;
+
+  const flush = () => {
+    if (paragraph) {
+      blocks.push({ type: 'paragraph', text: paragraph.lines.join(' '), lines: [paragraph.start, paragraph.end] });
+    }
+    if (list) blocks.push({ type: 'list', text: list.items.join('\n'), lines: [list.start, list.end] });
+    if (table && table.rows.length > 0) {
+      blocks.push({ type: 'table', text: table.rows.join('\n'), lines: [table.start, table.end] });
+    }
+    paragraph = list = table = null;
+  };
+
+  let first = 0;
+  // YAML front matter isn't content
+  if (lines[0]?.trim() === '---') {
+    const end = lines.findIndex((line, index) => index > 0 && /^(?:---|\.\.\.)\s*$/.test(line));
+    if (end > 0) first = end + 1;
+  }
+
+  for (let index = first; index < lines.length; index++) {
+    const line = lines[index];
+    const lineNum = index + 1;
+
+    if (fence) {
+      if (line.trim().startsWith(fence.marker)) {
+        const code = fence.lines.join('\n').trim();
+        if (code) blocks.push({ type: 'paragraph', text: code, lines: [fence.start, lineNum] });
+        fence = null;
+      } else {
+        fence.lines.push(line);
+      }
+      continue;
+    }
+
+    const fenceOpen = line.match(/^\s{0,3}(`{3,}|~{3,})/);
+    if (fenceOpen) {
+      flush();
+      fence = { marker: fenceOpen[1], lines: [], start: lineNum };
+      continue;
+    }
+
+    if (!line.trim()) {
+      flush();
+      continue;
+    }
+
+    const atxHeading = line.match(/^\s{0,3}(#{1,6})\s+(.*?)(?:\s+#+)?\s*$/);
+    if (atxHeading) {
+      flush();
+      blocks.push({ type: 'heading', text: inlineMarkdown(atxHeading[2]), level: atxHeading[1].length, lines: [lineNum, lineNum] });
+      continue;
+    }
+
+    // A single line underlined with = or - is a heading
+    const underline = line.match(/^\s{0,3}(=+|-+)\s*$/);
+    if (underline && paragraph?.lines.length === 1 && !list && !table) {
+      blocks.push({
+        type: 'heading',
+        text: paragraph.lines[0],
+        level: underline[1][0] === '=' ? 1 : 2,
+        lines: [paragraph.start, lineNum],
+      });
+      paragraph = null;
+      continue;
+    }
+    if (/^\s{0,3}([-*_])(?:\s*\1){2,}\s*$/.test(line)) {
+      flush(); // thematic break
+      continue;
+    }
+
+    if (/^\s*\|/.test(line)) {
+      if (paragraph || list) flush();
+      table ??= { rows: [], start: lineNum, end: lineNum };
+      table.end = lineNum;
+      // The |---|:---:| row under the header only sets alignment
+      if (!/^[\s|:-]+$/.test(line)) {
+        table.rows.push(
+          line.trim().replace(/^\||\|$/g, '').split('|').map(cell => inlineMarkdown(cell.trim())).join(' | ')
+        );
+      }
+      continue;
+    }
+
+    if (/^\s*(?:[-*+]|\d{1,9}[.)])\s+/.test(line)) {
+      if (paragraph || table) flush();
+      list ??= { items: [], start: lineNum, end: lineNum };
+      list.items.push(inlineMarkdown(line.trimEnd()));
+      list.end = lineNum;
+      continue;
+    }
+
+    // Indented continuation of a list item
+    if (list && /^\s+\S/.test(line)) {
+      list.items[list.items.length - 1] += ` ${inlineMarkdown(line.trim())}`;
+      list.end = lineNum;
+      continue;
+    }
+
+    if (list || table) flush();
+    paragraph ??= { lines: [], start: lineNum, end: lineNum };
+    paragraph.lines.push(inlineMarkdown(line.replace(/^\s*>\s?/, '').trim()));
+    paragraph.end = lineNum;
+  }
+
+  // An unclosed fence runs to the end of the document
+  const openFence = fence as { lines: string[]; start: number } | null;
+  if (openFence) {
+    const code = openFence.lines.join('\n').trim();
+    if (code) blocks.push({ type: 'paragraph', text: code, lines: [openFence.start, lines.length] });
+  }
+  flush();
+
+  return blocks;
+}
+
+/**
+ * Reduce inline Markdown to its text: links and images to their text,
+ * and strong emphasis and code spans to their content
+ */
+function inlineMarkdown(text: string): string {
+  return text
+    .replace(/!\[([^\]]*)\]\([^)]*\)/g, '$1')
+    .replace(/\[([^\]]+)\]\([^)]*\)/g, '$1')
+    .replace(/(\*\*|__)(.+?)\1/g, '$2')
+    .replace(/`([^`]+)`/g, '$1');
+}
+
+// Elements whose content is never document text (or, for nav, is site chrome)
+const SKIPPED_HTML_ELEMENTS = new Set(['HEAD', 'NAV', 'SCRIPT', 'STYLE', 'NOSCRIPT', 'TEMPLATE', 'SVG', 'CANVAS', 'IFRAME']);
+
+// Elements that start a new block of text
+const BLOCK_HTML_ELEMENTS = new Set([
+  'ADDRESS', 'ARTICLE', 'ASIDE', 'BLOCKQUOTE', 'BODY', 'CAPTION', 'DD', 'DETAILS', 'DIV', 'DL', 'DT',
+  'FIELDSET', 'FIGCAPTION', 'FIGURE', 'FOOTER', 'FORM', 'HEADER', 'HR', 'HTML', 'LI', 'MAIN',
+  'P', 'SECTION', 'SUMMARY',
+]);
+
+// Page chrome around an article: forms, sidebars, share buttons, cookie
+// banners and the like. Matched against whole words of ids and class names.
+const BOILERPLATE_HTML_ELEMENTS = new Set(['ASIDE', 'BUTTON', 'DIALOG', 'FORM', 'SELECT']);
+const BOILERPLATE_ROLES = new Set(['banner', 'complementary', 'contentinfo', 'dialog', 'navigation', 'search']);
+const BOILERPLATE_NAME = /(^|[-_])(ads?|advert(isement)?s?|banner|breadcrumbs?|comments?|consent|cookies?|footer|masthead|menu|modal|newsletter|pager|pagination|popup|promo|related|share|sharing|sidebar|social|sponsored|subscribe)([-_]|$)/i;
+
+// Never dropped for their names, since some sites put chrome-like classes on them
+const CONTENT_HTML_ELEMENTS = new Set(['ARTICLE', 'BODY', 'HTML', 'MAIN']);
+
+/**
+ * HTML: sections at h1-h6, anchored at the heading's id when it has one.
+ * Only the main content is kept when the page marks it (an article or
+ * main element), and page chrome is dropped either way.
+ */
+export async function extractHtmlText(data: Uint8Array, onProgress?: ExtractionProgressCallback): Promise<DocumentExtraction> {
+  const root = parseHtml(decodeText(data), { comment: false });
+  const pages = sectionsFromBlocks(htmlBlocks(htmlContentRoot(root)));
+  await onProgress?.(pages.length, pages.length);
+  return { pages, metadata: { pageCount: pages.length, ocr: null } };
+}
+
+/**
+ * The element holding the page's main content: its only article, else its
+ * main element, else the body
+ */
+function htmlContentRoot(root: HTMLElement): HTMLElement {
+  const body = root.querySelector('body') ?? root;
+  const articles = body.querySelectorAll('article').filter(article => !isHtmlBoilerplate(article));
+  if (articles.length === 1) return articles[0];
+  return body.querySelector('main') ?? body.querySelector('[role="main"]') ?? body;
+}
+
+function isHtmlBoilerplate(element: HTMLElement): boolean {
+  const tag = element.tagName ?? '';
+  if (BOILERPLATE_HTML_ELEMENTS.has(tag)) return true;
+  if (element.hasAttribute('hidden') || element.getAttribute('aria-hidden') === 'true') return true;
+  if (/display\s*:\s*none/i.test(element.getAttribute('style') ?? '')) return true;
+  if (BOILERPLATE_ROLES.has(element.getAttribute('role') ?? '')) return true;
+  if (CONTENT_HTML_ELEMENTS.has(tag)) return false;
+  return [element.id, ...element.classNames.split(/\s+/)].some(name => name && BOILERPLATE_NAME.test(name));
+}
+
+function htmlBlocks(root: HTMLElement): SourceBlock[] {
+  const blocks: SourceBlock[] = [];
+  let inline = '';
+
+  const flush = () => {
+    const text = collapseWhitespace(inline);
+    if (text) blocks.push({ type: 'paragraph', text });
+    inline = '';
+  };
+
+  const walk = (node: HtmlNode) => {
+    if (node instanceof TextNode) {
+      inline += node.text;
+      return;
+    }
+    if (!(node instanceof HTMLElement)) return;
+
+    const tag = node.tagName ?? '';
+    if (SKIPPED_HTML_ELEMENTS.has(tag) || isHtmlBoilerplate(node)) return;
+
+    const heading = tag.match(/^H([1-6])$/);
+    if (heading) {
+      flush();
+      const text = collapseWhitespace(node.text);
+      const anchor = node.id || node.querySelector('[id]')?.id;
+      if (text) blocks.push({ type: 'heading', text, level: Number(heading[1]), ...(anchor && { anchor }) });
+      return;
+    }
+
+    if (tag === 'UL' || tag === 'OL') {
+      flush();
+      const items = htmlListItems(node, 0);
+      if (items.length > 0) blocks.push({ type: 'list', text: items.join('\n') });
+      return;
+    }
+
+    if (tag === 'TABLE') {
+      flush();
+      const rows = node.querySelectorAll('tr')
+        .map(row =>
+          row.childNodes
+            .filter((cell): cell is HTMLElement => cell instanceof HTMLElement && (cell.tagName === 'TD' || cell.tagName === 'TH'))
+            .map(cell => collapseWhitespace(cell.text))
+        )
+        .filter(cells => cells.some(Boolean));
+      if (rows.length > 0) blocks.push({ type: 'table', text: rows.map(cells => cells.join(' | ')).join('\n') });
+      return;
+    }
+
+    if (tag === 'PRE') {
+      flush();
+      const text = node.text.trim();
+      if (text) blocks.push({ type: 'paragraph', text });
+      return;
+    }
+
+    if (tag === 'BR') {
+      inline += ' ';
+      return;
+    }
+
+    const isBlock = BLOCK_HTML_ELEMENTS.has(tag);
+    if (isBlock) flush();
+    node.childNodes.forEach(walk);
+    if (isBlock) flush();
+  };
+
+  walk(root);
+  flush();
+  return blocks;
+}
+
+/**
+ * List items as lines, nested lists indented beneath their item
+ */
+function htmlListItems(list: HTMLElement, depth: number): string[] {
+  const lines: string[] = [];
+  let number = 0;
+
+  for (const item of list.childNodes) {
+    if (!(item instanceof HTMLElement) || item.tagName !== 'LI') continue;
+    number++;
+
+    let text = '';
+    const nested: string[] = [];
+    for (const part of item.childNodes) {
+      if (part instanceof HTMLElement && (part.tagName === 'UL' || part.tagName === 'OL')) {
+        nested.push(...htmlListItems(part, depth + 1));
+      } else {
+        text += part.text;
+      }
+    }
+
+    const marker = list.tagName === 'OL' ? `${number}.` : '-';
+    text = collapseWhitespace(text);
+    if (text) lines.push(`${'  '.repeat(depth)}${marker} ${text}`);
+    lines.push(...nested);
+  }
+
+  return lines;
+}
+
+/**
+ * Plain text: paragraphs (separated by blank lines) grouped into units of
+ * about TEXT_LINES_PER_UNIT lines, each located by its line range
+ */
+export async function extractPlainText(data: Uint8Array, onProgress?: ExtractionProgressCallback): Promise<DocumentExtraction> {
+  const lines = decodeText(data).split('\n');
+  const pages: PageContent[] = [];
+  let blocks: Block[] = [];
+
+  const finishUnit = () => {
+    if (blocks.length === 0) return;
+    const pageNum = pages.length + 1;
+    const location = { lines: [blocks[0].location!.lines![0], blocks[blocks.length - 1].location!.lines![1]] as [number, number] };
+    pages.push({
+      pageNum,
+      text: blocks.map(block => block.text).join('\n\n'),
+      location,
+      blocks: blocks.map(block => ({ ...block, pageNum })),
+    });
+    blocks = [];
+  };
+
+  let start = -1;
+  for (let index = 0; index <= lines.length; index++) {
+    const blank = index === lines.length || !lines[index].trim();
+    if (!blank && start === -1) start = index;
+    if (!blank || start === -1) continue;
+
+    // Paragraph from line start + 1 to line index
+    const unitStart = blocks[0]?.location?.lines?.[0] ?? start + 1;
+    if (blocks.length > 0 && index - unitStart + 1 > TEXT_LINES_PER_UNIT) finishUnit();
+    blocks.push({
+      type: 'paragraph',
+      text: lines.slice(start, index).map(line => line.trimEnd()).join('\n').trim(),
+      pageNum: 0, // set when the unit is finished
+      location: { lines: [start + 1, index] },
+    });
+    start = -1;
+  }
+  finishUnit();
+
+  await onProgress?.(pages.length, pages.length);
+  return { pages, metadata: { pageCount: pages.length, ocr: null } };
+}
+
+/**
+ * Split a stream of blocks into numbered sections, a new one at each heading.
+ * Sections are anchored at their heading (its own id, or a slug of its text
+ * as GitHub would generate it) and cover the line ranges of their blocks.
+ */
+function sectionsFromBlocks(blocks: SourceBlock[]): PageContent[] {
+  const sections: (PageContent & { blocks: Block[]; location: ChunkLocation })[] = [];
+  const slugs = new Map<string, number>();
+
+  for (const block of blocks) {
+    let current = sections[sections.length - 1];
+    if (!current || (block.type === 'heading' && current.blocks.length > 0)) {
+      const section = sections.length + 1;
+      const anchor = block.type === 'heading' ? block.anchor ?? uniqueSlug(block.text, slugs) : undefined;
+      current = { pageNum: section, text: '', location: { section, ...(anchor && { anchor }) }, blocks: [] };
+      sections.push(current);
+    }
+
+    current.blocks.push({
+      type: block.type,
+      text: block.text,
+      pageNum: current.pageNum,
+      level: block.level,
+      ...(block.lines && { location: { ...current.location, lines: block.lines } }),
+    });
+  }
+
+  for (const section of sections) {
+    section.text = section.blocks.map(block => block.text).join('\n\n');
+    const first = section.blocks[0].location?.lines;
+    const last = section.blocks[section.blocks.length - 1].location?.lines;
+    if (first && last) section.location = { ...section.location, lines: [first[0], last[1]] };
+  }
+
+  return sections;
+}
+
+function uniqueSlug(text: string, seen: Map<string, number>): string {
+  const base = text.toLowerCase().trim().replace(/[^\p{L}\p{N}\s_-]/gu, '').replace(/\s/g, '-') || 'section';
+  const count = seen.get(base) ?? 0;
+  seen.set(base, count + 1);
+  return count > 0 ? `${base}-${count}` : base;
+}
+
+/**
+ * Decode UTF-8 text (dropping a byte order mark) with Unix line endings
+ */
+function decodeText(data: Uint8Array): string {
+  return new TextDecoder('utf-8').decode(data).replace(/\r\n?/g, '\n');
+}
+
+function collapseWhitespace(text: string): string {
+  return text.replace(/\s+/g, ' ').trim();
+}
+
+async function openZip(data: Uint8Array, formatName: string): Promise<JSZip> {
+  try {
+    return await JSZip.loadAsync(data);
+  } catch (error) {
+    throw new Error(`Not a valid ${formatName} file: ${error instanceof Error ? error.message : 'cannot be unzipped'}`);
+  }
+}
+
+/**
+ * Relationships of a part in an Office package, by id, with targets resolved
+ * to paths within the zip
+ */
+async function zipRelationships(zip: JSZip, partPath: string): Promise<Map<string, { type: string; path: string }>> {
+  const directory = posix.dirname(partPath);
+  const relsXml = await zip.file(posix.join(directory, '_rels', `${posix.basename(partPath)}.rels`))?.async('string');
+  const relationships = new Map<string, { type: string; path: string }>();
+  if (!relsXml) return relationships;
+
+  for (const rel of findDescendants(parseXml(relsXml), 'Relationship')) {
+    const id = attribute(rel, 'Id');
+    const target = attribute(rel, 'Target');
+    if (!id || !target || attribute(rel, 'TargetMode') === 'External') continue;
+    relationships.set(id, {
+      type: attribute(rel, 'Type') ?? '',
+      path: target.startsWith('/') ? target.slice(1) : posix.normalize(posix.join(directory, target)),
+    });
+  }
+  return relationships;
+}
+
+// fast-xml-parser's ordered output: { [tagName]: children, ':@': { '@_name': value } },
+// or { '#text': text } for text
+type XmlNode = Record<string, unknown>;
+
+function parseXml(xml: string): XmlNode[] {
+  return xmlParser.parse(xml) as XmlNode[];
+}
+
+function nodeName(node: XmlNode): string {
+  return Object.keys(node).find(key => key !== ':@') ?? '';
+}
+
+function childNodes(node: XmlNode | undefined): XmlNode[] {
+  const children = node?.[nodeName(node)];
+  return Array.isArray(children) ? children : [];
+}
+
+function attribute(node: XmlNode | undefined, name: string): string | undefined {
+  return (node?.[':@'] as Record<string, string> | undefined)?.[`@_${name}`];
+}
+
+function findChild(nodes: XmlNode[], name: string): XmlNode | undefined {
+  return nodes.find(node => nodeName(node) === name);
+}
+
+function findPath(nodes: XmlNode[], ...names: string[]): XmlNode | undefined {
+  let node: XmlNode | undefined;
+  for (const name of names) {
+    node = findChild(node ? childNodes(node) : nodes, name);
+    if (!node) return undefined;
+  }
+  return node;
+}
+
+/**
+ * All elements with the given name, in document order (not searching inside matches)
+ */
+function findDescendants(nodes: XmlNode[], name: string): XmlNode[] {
+  return nodes.flatMap(node => (nodeName(node) === name ? [node] : findDescendants(childNodes(node), name)));
+}
+
+function textContent(nodes: XmlNode[]): string {
+  return nodes.map(node => (typeof node['#text'] === 'string' ? node['#text'] : textContent(childNodes(node)))).join('');
+}
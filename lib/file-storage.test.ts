@@ -0,0 +1,222 @@
+import { after, before, describe, test } from 'node:test';
+import assert from 'node:assert/strict';
+import http from 'node:http';
+import { mkdtemp, readdir, rm } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import path from 'node:path';
+import type { AddressInfo } from 'node:net';
+import { LocalFileStorage, parseRangeHeader, S3FileStorage } from './file-storage';
+
+async function readAll(stream: ReadableStream<Uint8Array>): Promise<Buffer> {
+  return Buffer.from(await new Response(stream).arrayBuffer());
+}
+
+async function* chunksOf(data: Buffer, size: number, failAfter = Infinity): AsyncGenerator<Uint8Array> {
+  for (let offset = 0; offset < data.length; offset += size) {
+    if (offset >= failAfter) throw new Error('Source failed');
+    yield data.subarray(offset, offset + size);
+  }
+}
+
+// Bytes whose value depends on their position, so misplaced ranges show
+function sampleFile(size: number): Buffer {
+  return Buffer.from(Array.from({ length: size }, (_, i) => (i * 7) % 251));
+}
+
+describe('parseRangeHeader', () => {
+  test('reads a range, clamping its end to the file', () => {
+    assert.deepEqual(parseRangeHeader('bytes=0-99', 1000), { start: 0, end: 99 });
+    assert.deepEqual(parseRangeHeader('bytes=900-5000', 1000), { start: 900, end: 999 });
+  });
+
+  test('reads suffix and open-ended ranges', () => {
+    assert.deepEqual(parseRangeHeader('bytes=-100', 1000), { start: 900, end: 999 });
+    assert.deepEqual(parseRangeHeader('bytes=-5000', 1000), { start: 0, end: 999 });
+    assert.deepEqual(parseRangeHeader('bytes=500-', 1000), { start: 500, end: 999 });
+  });
+
+  test('returns null for ranges outside the file', () => {
+    assert.equal(parseRangeHeader('bytes=1000-', 1000), null);
+    assert.equal(parseRangeHeader('bytes=1000-1100', 1000), null);
+    assert.equal(parseRangeHeader('bytes=50-10', 1000), null);
+    assert.equal(parseRangeHeader('bytes=-10', 0), null);
+  });
+
+  test('ignores missing, malformed and multi-range headers, serving the whole file', () => {
+    for (const header of [null, '', 'bytes=-', 'items=0-10', 'bytes=a-b', 'bytes=0-10,20-30', 'bytes=0-10, -5']) {
+      assert.equal(parseRangeHeader(header, 1000), undefined, String(header));
+    }
+  });
+});
+
+describe('LocalFileStorage', () => {
+  let root: string;
+  let storage: LocalFileStorage;
+  const file = sampleFile(10_000);
+
+  before(async () => {
+    root = await mkdtemp(path.join(tmpdir(), 'file-storage-'));
+    storage = new LocalFileStorage(root);
+  });
+
+  after(async () => {
+    await rm(root, { recursive: true, force: true });
+  });
+
+  test('streams back what was uploaded, and reports its size', async () => {
+    await storage.upload(file, 'documents/a.pdf');
+
+    assert.deepEqual(await readAll(await storage.stream('documents/a.pdf')), file);
+    assert.deepEqual(await storage.read('documents/a.pdf'), file);
+    assert.equal(await storage.size('documents/a.pdf'), file.length);
+    assert.equal(await storage.exists('documents/a.pdf'), true);
+  });
+
+  test('writes streamed uploads and removes the file when the source fails', async () => {
+    await storage.uploadStream(chunksOf(file, 999), 'documents/b.pdf');
+    assert.deepEqual(await storage.read('documents/b.pdf'), file);
+
+    await assert.rejects(storage.uploadStream(chunksOf(file, 999, 5000), 'documents/c.pdf'), /Source failed/);
+    assert.equal(await storage.exists('documents/c.pdf'), false);
+  });
+
+  test('streams an inclusive byte range', async () => {
+    await storage.upload(file, 'documents/d.pdf');
+
+    assert.deepEqual(await readAll(await storage.stream('documents/d.pdf', { start: 100, end: 199 })), file.subarray(100, 200));
+    assert.deepEqual(await readAll(await storage.stream('documents/d.pdf', { start: 9990, end: 9999 })), file.subarray(9990));
+  });
+
+  test('reports missing files', async () => {
+    assert.equal(await storage.size('documents/missing.pdf'), null);
+    assert.equal(await storage.exists('documents/missing.pdf'), false);
+    await assert.rejects(storage.stream('documents/missing.pdf'), { code: 'ENOENT' });
+    await storage.delete('documents/missing.pdf');
+  });
+
+  test('rejects keys that escape the storage directory', async () => {
+    for (const key of ['../escape.pdf', 'documents/../../escape.pdf', '/etc/passwd', '', '.']) {
+      await assert.rejects(storage.upload(file, key), /Invalid storage key/, key);
+      await assert.rejects(storage.stream(key), /Invalid storage key/, key);
+      await assert.rejects(storage.delete(key), /Invalid storage key/, key);
+    }
+    assert.deepEqual((await readdir(path.dirname(root))).filter(name => name === 'escape.pdf'), []);
+  });
+});
+
+describe('S3FileStorage', () => {
+  // Enough of the S3 API for uploads and reads, on a local server
+  const objects = new Map<string, Buffer>();
+  const uploads = new Map<string, Map<number, Buffer>>();
+  const requests: string[] = [];
+  let server: http.Server;
+  let storage: S3FileStorage;
+
+  before(async () => {
+    server = http.createServer(async (request, response) => {
+      const url = new URL(request.url ?? '/', 'http://localhost');
+      const key = decodeURIComponent(url.pathname.replace(/^\/bucket\//, ''));
+      const uploadId = url.searchParams.get('uploadId');
+      const body: Buffer[] = [];
+      for await (const chunk of request) body.push(chunk);
+      requests.push(`${request.method} ${url.searchParams.has('uploads') ? 'uploads' : url.searchParams.has('partNumber') ? 'part' : uploadId ? 'upload' : 'object'}`);
+
+      if (request.method === 'POST' && url.searchParams.has('uploads')) {
+        const id = `upload-${uploads.size + 1}`;
+        uploads.set(id, new Map());
+        response.writeHead(200, { 'Content-Type': 'application/xml' });
+        response.end(`<InitiateMultipartUploadResult><Bucket>bucket</Bucket><Key>${key}</Key><UploadId>${id}</UploadId></InitiateMultipartUploadResult>`);
+      } else if (request.method === 'PUT' && uploadId) {
+        const partNumber = Number(url.searchParams.get('partNumber'));
+        uploads.get(uploadId)!.set(partNumber, Buffer.concat(body));
+        response.writeHead(200, { ETag: `"part-${partNumber}"` });
+        response.end();
+      } else if (request.method === 'POST' && uploadId) {
+        const parts = uploads.get(uploadId)!;
+        objects.set(key, Buffer.concat([...parts.keys()].sort((a, b) => a - b).map(n => parts.get(n)!)));
+        uploads.delete(uploadId);
+        response.writeHead(200, { 'Content-Type': 'application/xml' });
+        response.end(`<CompleteMultipartUploadResult><Bucket>bucket</Bucket><Key>${key}</Key><ETag>"done"</ETag></CompleteMultipartUploadResult>`);
+      } else if (request.method === 'DELETE' && uploadId) {
+        uploads.delete(uploadId);
+        response.writeHead(204);
+        response.end();
+      } else if (request.method === 'PUT') {
+        objects.set(key, Buffer.concat(body));
+        response.writeHead(200, { ETag: '"object"' });
+        response.end();
+      } else if (request.method === 'GET' && objects.has(key)) {
+        const object = objects.get(key)!;
+        const range = parseRangeHeader(request.headers.range ?? null, object.length);
+        if (range) {
+          response.writeHead(206, {
+            'Content-Length': range.end - range.start + 1,
+            'Content-Range': `bytes ${range.start}-${range.end}/${object.length}`,
+          });
+          response.end(object.subarray(range.start, range.end + 1));
+        } else {
+          response.writeHead(200, { 'Content-Length': object.length });
+          response.end(object);
+        }
+      } else {
+        response.writeHead(404, { 'Content-Type': 'application/xml' });
+        response.end('<Error><Code>NoSuchKey</Code><Message>Not found</Message></Error>');
+      }
+    });
+    await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+
+    storage = new S3FileStorage({
+      bucket: 'bucket',
+      region: 'us-east-1',
+      endpoint: `http://127.0.0.1:${(server.address() as AddressInfo).port}`,
+      forcePathStyle: true,
+      accessKeyId: 'test',
+      secretAccessKey: 'test',
+    });
+  });
+
+  after(async () => {
+    await new Promise(resolve => server.close(resolve));
+  });
+
+  test('sends a streamed file smaller than a part with a single PUT', async () => {
+    requests.length = 0;
+    const file = sampleFile(100_000);
+
+    await storage.uploadStream(chunksOf(file, 10_000), 'documents/small.pdf', 'application/pdf');
+
+    assert.deepEqual(requests, ['PUT object']);
+    assert.deepEqual(objects.get('documents/small.pdf'), file);
+  });
+
+  test('sends larger streamed files as a multipart upload, in order', async () => {
+    requests.length = 0;
+    const file = sampleFile(9 * 1024 * 1024);
+
+    await storage.uploadStream(chunksOf(file, 1024 * 1024), 'documents/large.pdf', 'application/pdf');
+
+    assert.deepEqual(requests, ['POST uploads', 'PUT part', 'PUT part', 'POST upload']);
+    assert.deepEqual(objects.get('documents/large.pdf'), file);
+  });
+
+  test('aborts the multipart upload when the source fails', async () => {
+    requests.length = 0;
+    const file = sampleFile(10 * 1024 * 1024);
+
+    await assert.rejects(
+      storage.uploadStream(chunksOf(file, 1024 * 1024, 9 * 1024 * 1024), 'documents/failed.pdf'),
+      /Source failed/
+    );
+
+    assert.deepEqual(requests, ['POST uploads', 'PUT part', 'DELETE upload']);
+    assert.equal(uploads.size, 0);
+    assert.equal(objects.has('documents/failed.pdf'), false);
+  });
+
+  test('streams whole files and byte ranges', async () => {
+    const file = objects.get('documents/small.pdf')!;
+
+    assert.deepEqual(await readAll(await storage.stream('documents/small.pdf')), file);
+    assert.deepEqual(await readAll(await storage.stream('documents/small.pdf', { start: 10, end: 19 })), file.subarray(10, 20));
+  });
+});
@@ -1,279 +1,331 @@
 /**
  * File Storage Utility
- * 
- * This utility provides a unified interface for file storage operations.
- * Currently supports local storage (development) and can be extended for cloud storage.
- * 
- * TODO: Implement cloud storage provider (S3, Vercel Blob, R2, etc.)
+ *
+ * A unified interface for storing document files outside the database.
+ * FILE_STORAGE_TYPE picks the backend:
+ *
+ * - local: a directory on disk (FILE_STORAGE_DIR, default ./storage). Fine for
+ *   a single server; serverless platforms need one of the others.
+ * - s3: Amazon S3 or any S3-compatible store, e.g. MinIO via S3_ENDPOINT.
+ * - r2: Cloudflare R2, configured with its own R2_* variables.
+ *
+ * Keys are paths like "documents/<uuid>.pdf"; files are never served from the
+ * store directly, only through routes that check access.
  */
 
-import { writeFile, readFile, access } from 'fs/promises';
+import { createReadStream, createWriteStream } from 'fs';
+import { mkdir, readFile, rm, stat, writeFile } from 'fs/promises';
 import path from 'path';
-import { constants } from 'fs';
+import { Readable } from 'stream';
+import { pipeline } from 'stream/promises';
+import {
+  AbortMultipartUploadCommand,
+  CompleteMultipartUploadCommand,
+  CreateMultipartUploadCommand,
+  DeleteObjectCommand,
+  GetObjectCommand,
+  HeadObjectCommand,
+  NotFound,
+  NoSuchKey,
+  PutObjectCommand,
+  S3Client,
+  UploadPartCommand,
+  type CompletedPart,
+} from '@aws-sdk/client-s3';
+
+/**
+ * Inclusive byte range, as in an HTTP Range header
+ */
+export interface ByteRange {
+  start: number;
+  end: number;
+}
 
 export interface FileStorage {
-  upload(file: Buffer, filename: string, contentType?: string): Promise<string>;
-  getUrl(filename: string): Promise<string>;
-  delete(filename: string): Promise<void>;
-  exists(filename: string): Promise<boolean>;
+  upload(file: Buffer, key: string, contentType?: string): Promise<void>;
+  // Write a file from a sequence of chunks without holding all of it in memory
+  uploadStream(source: AsyncIterable<Uint8Array>, key: string, contentType?: string): Promise<void>;
+  read(key: string): Promise<Buffer>;
+  stream(key: string, range?: ByteRange): Promise<ReadableStream<Uint8Array>>;
+  size(key: string): Promise<number | null>; // null when the file doesn't exist
+  delete(key: string): Promise<void>;
+  exists(key: string): Promise<boolean>;
 }
 
 /**
- * Local File Storage (Development Only)
- * DO NOT USE IN PRODUCTION
+ * Local File Storage
+ * Files live under one directory, which must not be publicly served
  */
-class LocalFileStorage implements FileStorage {
-  private uploadDir: string;
+export class LocalFileStorage implements FileStorage {
+  private rootDir: string;
 
-  constructor() {
-    this.uploadDir = path.join(process.cwd(), 'public', 'uploads');
+  constructor(rootDir: string = process.env.FILE_STORAGE_DIR || path.join(process.cwd(), 'storage')) {
+    this.rootDir = path.resolve(rootDir);
   }
 
-  async upload(file: Buffer, filename: string): Promise<string> {
-    const filePath = path.join(this.uploadDir, filename);
-    await writeFile(filePath, file);
-    return `/uploads/${filename}`;
-  }
-
-  async getUrl(filename: string): Promise<string> {
-    // Return relative URL for local storage
-    return `/uploads/${filename}`;
+  // Keys come from our own code, but never let one escape the root
+  private filePath(key: string): string {
+    const filePath = path.resolve(this.rootDir, key);
+    if (!filePath.startsWith(this.rootDir + path.sep)) {
+      throw new Error(`Invalid storage key: ${key}`);
+    }
+    return filePath;
   }
 
-  async delete(filename: string): Promise<void> {
-    const { unlink } = await import('fs/promises');
-    const filePath = path.join(this.uploadDir, filename);
-    await unlink(filePath);
+  async upload(file: Buffer, key: string): Promise<void> {
+    const filePath = this.filePath(key);
+    await mkdir(path.dirname(filePath), { recursive: true });
+    await writeFile(filePath, file);
   }
 
-  async exists(filename: string): Promise<boolean> {
-    const filePath = path.join(this.uploadDir, filename);
+  async uploadStream(source: AsyncIterable<Uint8Array>, key: string): Promise<void> {
+    const filePath = this.filePath(key);
+    await mkdir(path.dirname(filePath), { recursive: true });
     try {
-      await access(filePath, constants.F_OK);
-      return true;
-    } catch {
-      return false;
+      await pipeline(Readable.from(source), createWriteStream(filePath));
+    } catch (error) {
+      await rm(filePath, { force: true });
+      throw error;
     }
   }
 
-  async read(filename: string): Promise<Buffer> {
-    const filePath = path.join(this.uploadDir, filename);
-    return await readFile(filePath);
+  async read(key: string): Promise<Buffer> {
+    return await readFile(this.filePath(key));
   }
-}
-
-/**
- * AWS S3 File Storage
- * Uncomment and configure when ready to use
- */
-/*
-import { S3Client, PutObjectCommand, GetObjectCommand, DeleteObjectCommand, HeadObjectCommand } from '@aws-sdk/client-s3';
-import { getSignedUrl } from '@aws-sdk/s3-request-presigner';
-
-class S3FileStorage implements FileStorage {
-  private s3Client: S3Client;
-  private bucket: string;
-  private region: string;
 
-  constructor() {
-    this.bucket = process.env.AWS_S3_BUCKET!;
-    this.region = process.env.AWS_REGION!;
-    
-    this.s3Client = new S3Client({
-      region: this.region,
-      credentials: {
-        accessKeyId: process.env.AWS_ACCESS_KEY_ID!,
-        secretAccessKey: process.env.AWS_SECRET_ACCESS_KEY!,
-      },
+  async stream(key: string, range?: ByteRange): Promise<ReadableStream<Uint8Array>> {
+    const stream = createReadStream(this.filePath(key), range ? { start: range.start, end: range.end } : {});
+    // Surface a missing file here rather than mid-response
+    await new Promise<void>((resolve, reject) => {
+      stream.once('open', () => resolve());
+      stream.once('error', reject);
     });
+    return Readable.toWeb(stream) as ReadableStream<Uint8Array>;
   }
 
-  async upload(file: Buffer, filename: string, contentType: string): Promise<string> {
-    const key = `pdfs/${filename}`;
-    
-    await this.s3Client.send(new PutObjectCommand({
-      Bucket: this.bucket,
-      Key: key,
-      Body: file,
-      ContentType: contentType,
-      // ACL: 'public-read', // or use presigned URLs for private access
-    }));
-
-    return `https://${this.bucket}.s3.${this.region}.amazonaws.com/${key}`;
-  }
-
-  async getUrl(filename: string): Promise<string> {
-    const key = `pdfs/${filename}`;
-    
-    // Option 1: Public URL
-    // return `https://${this.bucket}.s3.${this.region}.amazonaws.com/${key}`;
-    
-    // Option 2: Presigned URL (more secure)
-    const command = new GetObjectCommand({
-      Bucket: this.bucket,
-      Key: key,
-    });
-    
-    return await getSignedUrl(this.s3Client, command, { expiresIn: 3600 }); // 1 hour
-  }
-
-  async delete(filename: string): Promise<void> {
-    const key = `pdfs/${filename}`;
-    
-    await this.s3Client.send(new DeleteObjectCommand({
-      Bucket: this.bucket,
-      Key: key,
-    }));
-  }
-
-  async exists(filename: string): Promise<boolean> {
-    const key = `pdfs/${filename}`;
-    
+  async size(key: string): Promise<number | null> {
     try {
-      await this.s3Client.send(new HeadObjectCommand({
-        Bucket: this.bucket,
-        Key: key,
-      }));
-      return true;
-    } catch {
-      return false;
+      return (await stat(this.filePath(key))).size;
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') return null;
+      throw error;
     }
   }
-}
-*/
-
-/**
- * Vercel Blob Storage
- * Uncomment and configure when ready to use
- */
-/*
-import { put, del, head } from '@vercel/blob';
-
-class VercelBlobStorage implements FileStorage {
-  async upload(file: Buffer, filename: string, contentType: string): Promise<string> {
-    const blob = await put(filename, file, {
-      access: 'public',
-      contentType: contentType,
-    });
 
-    return blob.url;
+  async delete(key: string): Promise<void> {
+    await rm(this.filePath(key), { force: true });
   }
 
-  async getUrl(filename: string): Promise<string> {
-    // Vercel Blob URLs are permanent and accessible directly
-    // If you need to regenerate, you'll need to store the URL in your database
-    throw new Error('URL retrieval not implemented - store URLs in database');
+  async exists(key: string): Promise<boolean> {
+    return (await this.size(key)) !== null;
   }
+}
 
-  async delete(filename: string): Promise<void> {
-    // Need the full URL to delete in Vercel Blob
-    // Store the URL in database and pass it here
-    await del(filename);
-  }
+// Streamed uploads are sent in parts of this size; S3 requires at least 5MB for all but the last
+const S3_MULTIPART_PART_SIZE = 8 * 1024 * 1024;
 
-  async exists(filename: string): Promise<boolean> {
-    try {
-      await head(filename);
-      return true;
-    } catch {
-      return false;
-    }
-  }
+export interface S3StorageConfig {
+  bucket: string;
+  region: string;
+  endpoint?: string;
+  forcePathStyle?: boolean;
+  accessKeyId?: string;
+  secretAccessKey?: string;
 }
-*/
 
 /**
- * Cloudflare R2 Storage (S3-compatible)
- * Uncomment and configure when ready to use
+ * S3 File Storage
+ * Works with AWS S3 and S3-compatible stores (MinIO, R2, ...)
  */
-/*
-import { S3Client, PutObjectCommand, GetObjectCommand, DeleteObjectCommand, HeadObjectCommand } from '@aws-sdk/client-s3';
-
-class R2FileStorage implements FileStorage {
+export class S3FileStorage implements FileStorage {
   private s3Client: S3Client;
   private bucket: string;
-  private publicUrl: string;
 
-  constructor() {
-    const accountId = process.env.R2_ACCOUNT_ID!;
-    this.bucket = process.env.R2_BUCKET_NAME!;
-    this.publicUrl = process.env.R2_PUBLIC_URL!; // Your custom domain or R2.dev domain
-    
+  constructor(config: S3StorageConfig) {
+    this.bucket = config.bucket;
     this.s3Client = new S3Client({
-      region: 'auto',
-      endpoint: `https://${accountId}.r2.cloudflarestorage.com`,
-      credentials: {
-        accessKeyId: process.env.R2_ACCESS_KEY_ID!,
-        secretAccessKey: process.env.R2_SECRET_ACCESS_KEY!,
-      },
+      region: config.region,
+      endpoint: config.endpoint,
+      forcePathStyle: config.forcePathStyle,
+      // Without explicit keys the SDK's default chain applies (env, profile, instance role)
+      credentials: config.accessKeyId && config.secretAccessKey
+        ? { accessKeyId: config.accessKeyId, secretAccessKey: config.secretAccessKey }
+        : undefined,
     });
   }
 
-  async upload(file: Buffer, filename: string, contentType: string): Promise<string> {
-    const key = `pdfs/${filename}`;
-    
+  async upload(file: Buffer, key: string, contentType?: string): Promise<void> {
     await this.s3Client.send(new PutObjectCommand({
       Bucket: this.bucket,
       Key: key,
       Body: file,
       ContentType: contentType,
     }));
+  }
+
+  /**
+   * Multipart upload, buffering one part at a time. Files smaller than a
+   * part are sent with a single PUT.
+   */
+  async uploadStream(source: AsyncIterable<Uint8Array>, key: string, contentType?: string): Promise<void> {
+    let uploadId: string | undefined;
+    const parts: CompletedPart[] = [];
+    let pending: Buffer[] = [];
+    let pendingBytes = 0;
+
+    const sendPart = async () => {
+      if (!uploadId) {
+        const created = await this.s3Client.send(new CreateMultipartUploadCommand({
+          Bucket: this.bucket,
+          Key: key,
+          ContentType: contentType,
+        }));
+        uploadId = created.UploadId;
+      }
+      const partNumber = parts.length + 1;
+      const { ETag } = await this.s3Client.send(new UploadPartCommand({
+        Bucket: this.bucket,
+        Key: key,
+        UploadId: uploadId,
+        PartNumber: partNumber,
+        Body: Buffer.concat(pending, pendingBytes),
+      }));
+      parts.push({ ETag, PartNumber: partNumber });
+      pending = [];
+      pendingBytes = 0;
+    };
 
-    return `${this.publicUrl}/${key}`;
+    try {
+      for await (const chunk of source) {
+        pending.push(Buffer.from(chunk.buffer, chunk.byteOffset, chunk.byteLength));
+        pendingBytes += chunk.byteLength;
+        if (pendingBytes >= S3_MULTIPART_PART_SIZE) await sendPart();
+      }
+
+      if (!uploadId) {
+        await this.upload(Buffer.concat(pending, pendingBytes), key, contentType);
+        return;
+      }
+      if (pendingBytes > 0) await sendPart();
+      await this.s3Client.send(new CompleteMultipartUploadCommand({
+        Bucket: this.bucket,
+        Key: key,
+        UploadId: uploadId,
+        MultipartUpload: { Parts: parts },
+      }));
+    } catch (error) {
+      // Otherwise the parts already sent are kept (and billed) until a lifecycle rule removes them
+      if (uploadId) {
+        await this.s3Client.send(new AbortMultipartUploadCommand({ Bucket: this.bucket, Key: key, UploadId: uploadId }))
+          .catch(abortError => console.error(`⚠️ Failed to abort multipart upload of ${key}:`, abortError));
+      }
+      throw error;
+    }
   }
 
-  async getUrl(filename: string): Promise<string> {
-    const key = `pdfs/${filename}`;
-    return `${this.publicUrl}/${key}`;
+  async read(key: string): Promise<Buffer> {
+    const object = await this.s3Client.send(new GetObjectCommand({ Bucket: this.bucket, Key: key }));
+    if (!object.Body) throw new Error(`Empty response reading ${key}`);
+    return Buffer.from(await object.Body.transformToByteArray());
   }
 
-  async delete(filename: string): Promise<void> {
-    const key = `pdfs/${filename}`;
-    
-    await this.s3Client.send(new DeleteObjectCommand({
+  async stream(key: string, range?: ByteRange): Promise<ReadableStream<Uint8Array>> {
+    const object = await this.s3Client.send(new GetObjectCommand({
       Bucket: this.bucket,
       Key: key,
+      Range: range ? `bytes=${range.start}-${range.end}` : undefined,
     }));
+    if (!object.Body) throw new Error(`Empty response reading ${key}`);
+    return object.Body.transformToWebStream();
   }
 
-  async exists(filename: string): Promise<boolean> {
-    const key = `pdfs/${filename}`;
-    
+  async size(key: string): Promise<number | null> {
     try {
-      await this.s3Client.send(new HeadObjectCommand({
-        Bucket: this.bucket,
-        Key: key,
-      }));
-      return true;
-    } catch {
-      return false;
+      const head = await this.s3Client.send(new HeadObjectCommand({ Bucket: this.bucket, Key: key }));
+      return head.ContentLength ?? 0;
+    } catch (error) {
+      if (error instanceof NotFound || error instanceof NoSuchKey) return null;
+      throw error;
     }
   }
+
+  async delete(key: string): Promise<void> {
+    // Deleting a missing key succeeds, as in S3
+    await this.s3Client.send(new DeleteObjectCommand({ Bucket: this.bucket, Key: key }));
+  }
+
+  async exists(key: string): Promise<boolean> {
+    return (await this.size(key)) !== null;
+  }
 }
-*/
+
+let storage: FileStorage | null = null;
 
 /**
  * Get the appropriate storage implementation based on environment
  */
-export function getFileStorage(): FileStorage & { read?: (filename: string) => Promise<Buffer> } {
+export function getFileStorage(): FileStorage {
+  if (storage) return storage;
+
   const storageType = process.env.FILE_STORAGE_TYPE || 'local';
 
   switch (storageType) {
     case 'local':
-      return new LocalFileStorage();
-    
-    // Uncomment when implementing cloud storage:
-    // case 's3':
-    //   return new S3FileStorage();
-    // case 'vercel':
-    //   return new VercelBlobStorage();
-    // case 'r2':
-    //   return new R2FileStorage();
-    
+      storage = new LocalFileStorage();
+      break;
+
+    case 's3':
+      storage = new S3FileStorage({
+        bucket: process.env.AWS_S3_BUCKET!,
+        region: process.env.AWS_REGION || 'us-east-1',
+        endpoint: process.env.S3_ENDPOINT || undefined,
+        // MinIO and most self-hosted stores don't support virtual-hosted buckets
+        forcePathStyle: process.env.S3_FORCE_PATH_STYLE === 'true',
+        accessKeyId: process.env.AWS_ACCESS_KEY_ID,
+        secretAccessKey: process.env.AWS_SECRET_ACCESS_KEY,
+      });
+      break;
+
+    case 'r2':
+      storage = new S3FileStorage({
+        bucket: process.env.R2_BUCKET_NAME!,
+        region: 'auto',
+        endpoint: `https://${process.env.R2_ACCOUNT_ID}.r2.cloudflarestorage.com`,
+        accessKeyId: process.env.R2_ACCESS_KEY_ID,
+        secretAccessKey: process.env.R2_SECRET_ACCESS_KEY,
+      });
+      break;
+
     default:
       console.warn(`Unknown storage type: ${storageType}, falling back to local`);
-      return new LocalFileStorage();
+      storage = new LocalFileStorage();
+  }
+
+  return storage;
+}
+
+/**
+ * Parse a single-range HTTP Range header against a file size. Returns
+ * undefined when there's no usable header (serve the whole file) and null
+ * when the range can't be satisfied.
+ */
+export function parseRangeHeader(header: string | null, size: number): ByteRange | null | undefined {
+  const match = header?.match(/^bytes=(\d*)-(\d*)$/);
+  if (!match || (!match[1] && !match[2])) return undefined;
+
+  let start: number;
+  let end: number;
+  if (!match[1]) {
+    // Suffix range: the last N bytes
+    start = Math.max(0, size - Number(match[2]));
+    end = size - 1;
+  } else {
+    start = Number(match[1]);
+    end = match[2] ? Math.min(Number(match[2]), size - 1) : size - 1;
   }
+
+  if (start > end || start >= size) return null;
+  return { start, end };
 }
 
 /**
@@ -296,22 +348,15 @@ export function validateStorageConfig(): { valid: boolean; errors: string[] } {
 
   switch (storageType) {
     case 's3':
-      if (!process.env.AWS_ACCESS_KEY_ID) errors.push('AWS_ACCESS_KEY_ID not set');
-      if (!process.env.AWS_SECRET_ACCESS_KEY) errors.push('AWS_SECRET_ACCESS_KEY not set');
-      if (!process.env.AWS_REGION) errors.push('AWS_REGION not set');
       if (!process.env.AWS_S3_BUCKET) errors.push('AWS_S3_BUCKET not set');
+      if (!process.env.S3_ENDPOINT && !process.env.AWS_REGION) errors.push('AWS_REGION not set');
       break;
-    
-    case 'vercel':
-      if (!process.env.BLOB_READ_WRITE_TOKEN) errors.push('BLOB_READ_WRITE_TOKEN not set');
-      break;
-    
+
     case 'r2':
       if (!process.env.R2_ACCOUNT_ID) errors.push('R2_ACCOUNT_ID not set');
       if (!process.env.R2_ACCESS_KEY_ID) errors.push('R2_ACCESS_KEY_ID not set');
       if (!process.env.R2_SECRET_ACCESS_KEY) errors.push('R2_SECRET_ACCESS_KEY not set');
       if (!process.env.R2_BUCKET_NAME) errors.push('R2_BUCKET_NAME not set');
-      if (!process.env.R2_PUBLIC_URL) errors.push('R2_PUBLIC_URL not set');
       break;
   }
 
@@ -0,0 +1,232 @@
+/**
+ * Document ingestion pipeline: extract text, chunk it and embed the chunks.
+ *
+ * Runs inside the background job worker (see lib/jobs.ts) rather than in a
+ * request, so large documents are not bound by route time limits. Re-running
+ * ingestion for a document (e.g. with a new chunking strategy) atomically
+ * replaces its chunks, which keeps retries idempotent.
+ */
+
+import type { EmbeddingVersion } from '@prisma/client';
+import { prisma } from './prisma';
+import { generateBatchEmbeddings, generateBatchEmbeddingsSettled } from './embeddings';
+import { getTargetEmbeddingVersions, saveChunkEmbeddings, versionProvider } from './embedding-versions';
+import { ensureVectorIndexes } from './vector-index';
+import { isOcrEnabled } from './ocr';
+import { chunkDocument, storedChunkingSettings, type ChunkData } from './chunking';
+import { DOCUMENT_FORMATS, type DocumentFormat } from './document-formats';
+import { extractDocument, type DocumentMetadata } from './extractors';
+import { DocumentTrashedError, readDocumentFile } from './documents';
+import { contentHash, findNearDuplicates, pageFingerprints } from './duplicates';
+
+export type IngestionStage = 'extracting' | 'chunking' | 'embedding';
+
+/**
+ * Reports progress as a stage plus an overall 0-100 percentage
+ */
+export type IngestionProgressCallback = (stage: IngestionStage, progress: number) => Promise<void>;
+
+export interface IngestionResult {
+  totalChunks: number;
+  embeddingsGenerated: number;
+  embeddingsFailed: number;
+  embeddingsDeferred: number; // vectors for the embedding version being built, left to an 'embed' job
+  textExtracted: number;
+  ocrPages: number;
+}
+
+// Overall progress reached at the end of each stage
+const EXTRACTION_PROGRESS = 30;
+const CHUNKING_PROGRESS = 40;
+
+// Chunks per embedding call; progress is reported after each
+const EMBEDDING_BATCH_SIZE = 50;
+
+// Replacing thousands of chunks takes longer than Prisma's 5s default
+const REPLACE_TRANSACTION_TIMEOUT_MS = 60_000;
+
+// One vector per chunk (null where embedding failed) in one embedding version
+interface VersionVectors {
+  version: EmbeddingVersion;
+  embeddings: (number[] | null)[];
+}
+
+/**
+ * Extract, chunk and embed a stored document with its chunking settings, then
+ * atomically replace any existing chunks. Throws when the document can't be
+ * read or no chunk could be embedded, leaving the previous chunks in place;
+ * individual embedding batches that fail are counted instead.
+ */
+export async function ingestDocument(
+  pdfId: string,
+  onProgress: IngestionProgressCallback = async () => {}
+): Promise<IngestionResult> {
+  const pdfRecord = await prisma.document.findUnique({
+    where: { id: pdfId },
+    select: {
+      id: true,
+      deletedAt: true,
+      title: true,
+      format: true,
+      ownerId: true,
+      storageKey: true,
+      fileData: true,
+      contentHash: true,
+      chunkingStrategy: true,
+      chunkingOptions: true,
+    },
+  });
+
+  if (!pdfRecord) {
+    throw new Error(`Document ${pdfId} not found`);
+  }
+  // Trashed after the job was queued (or while it waited for a retry)
+  if (pdfRecord.deletedAt) {
+    throw new DocumentTrashedError();
+  }
+  const fileData = await readDocumentFile(pdfRecord);
+  if (!fileData) {
+    throw new Error('Document file not found in storage. Re-upload the document.');
+  }
+  if (!DOCUMENT_FORMATS.includes(pdfRecord.format as DocumentFormat)) {
+    throw new Error(`Unsupported document format: ${pdfRecord.format}`);
+  }
+  const format = pdfRecord.format as DocumentFormat;
+
+  console.log(`📄 Processing ${format.toUpperCase()}: ${pdfRecord.title} (${fileData.length} bytes)`);
+
+  await onProgress('extracting', 0);
+  const { pages, metadata } = await extractDocument(format, fileData, (done, total) =>
+    onProgress('extracting', Math.round((done / total) * EXTRACTION_PROGRESS))
+  );
+
+  const textExtracted = pages.reduce((total, page) => total + page.text.trim().length, 0);
+  if (textExtracted < 10) {
+    if (format !== 'pdf') {
+      throw new Error('No readable text found in the document. It might be empty or corrupted.');
+    }
+    throw new Error(
+      isOcrEnabled()
+        ? 'No readable text found in PDF, even with OCR. The PDF might be blank or corrupted.'
+        : 'No readable text found in PDF. The PDF might be image-based (enable OCR) or corrupted.'
+    );
+  }
+
+  // The same text in another file; kept, but flagged so the owner can decide
+  const fingerprints = pageFingerprints(pages);
+  metadata.nearDuplicates = await findNearDuplicates(pdfId, pdfRecord.ownerId, fingerprints);
+  if (metadata.nearDuplicates.length > 0) {
+    console.log(`👯 Near-duplicate of ${metadata.nearDuplicates.map(dup => dup.pdfId).join(', ')}`);
+  }
+
+  await onProgress('chunking', EXTRACTION_PROGRESS);
+  const settings = storedChunkingSettings(pdfRecord);
+  const chunks = await chunkDocument(pages, settings, generateBatchEmbeddings);
+  if (chunks.length === 0) {
+    throw new Error('No chunks could be created from the document');
+  }
+  console.log(`✂️ Created ${chunks.length} chunks (${settings.strategy} strategy)`);
+
+  // Embed everything before touching the stored chunks, so a failed run
+  // leaves the previous chunks searchable. Chunks get a vector in the active
+  // embedding version and in the one being built, if any.
+  await onProgress('embedding', CHUNKING_PROGRESS);
+  const versions = await getTargetEmbeddingVersions();
+  const vectors: VersionVectors[] = [];
+  let embeddingsFailed = 0;
+  let embeddingsDeferred = 0;
+  const totalBatches = versions.length * Math.ceil(chunks.length / EMBEDDING_BATCH_SIZE);
+  let batchesDone = 0;
+
+  for (const [index, version] of versions.entries()) {
+    const provider = versionProvider(version);
+    const embeddings: (number[] | null)[] = [];
+
+    for (let i = 0; i < chunks.length; i += EMBEDDING_BATCH_SIZE) {
+      const batch = chunks.slice(i, i + EMBEDDING_BATCH_SIZE);
+      const result = await generateBatchEmbeddingsSettled(batch.map(chunk => chunk.content), provider);
+      embeddings.push(...result.embeddings);
+      // Only the active version decides whether the document is searchable
+      if (index === 0) embeddingsFailed += result.failures.length;
+      else embeddingsDeferred += result.failures.length;
+      for (const failure of result.failures) {
+        console.error(`❌ Embedding chunk ${i + failure.index + 1} (${version.model}) failed: ${failure.error}`);
+      }
+
+      batchesDone++;
+      await onProgress('embedding', CHUNKING_PROGRESS + Math.round((batchesDone / totalBatches) * (100 - CHUNKING_PROGRESS)));
+    }
+
+    vectors.push({ version, embeddings });
+  }
+
+  // Chunks without any embeddings are invisible to vector search; let the job retry
+  const embeddingsGenerated = chunks.length - embeddingsFailed;
+  if (embeddingsGenerated === 0) {
+    throw new Error(`Failed to generate embeddings for all ${chunks.length} chunks`);
+  }
+
+  await replaceChunks(pdfId, chunks, vectors, {
+    metadata,
+    pageFingerprints: fingerprints,
+    // Documents from before hashing get theirs on their next ingestion
+    contentHash: pdfRecord.contentHash ?? contentHash(fileData),
+  });
+  console.log(`✅ Saved ${chunks.length} chunks (${versions.map(version => version.model).join(', ')} embeddings)`);
+  // The first vectors stored in a version fix its size, which its index needs
+  await ensureVectorIndexes();
+
+  return {
+    totalChunks: chunks.length,
+    embeddingsGenerated,
+    embeddingsFailed,
+    embeddingsDeferred,
+    textExtracted,
+    ocrPages: metadata.ocr?.pages.length ?? 0,
+  };
+}
+
+/**
+ * Swap a document's chunks and embeddings for new ones in one transaction,
+ * so searches see either the old set or the new one, never a mix. Bumps
+ * Document.chunksVersion so anything cached from the old chunks goes stale.
+ */
+async function replaceChunks(
+  pdfId: string,
+  chunks: ChunkData[],
+  vectors: VersionVectors[],
+  document: { metadata: DocumentMetadata; pageFingerprints: string[]; contentHash: string }
+) {
+  await prisma.$transaction(async tx => {
+    await tx.chunk.deleteMany({ where: { pdfId } });
+
+    const saved = await tx.chunk.createManyAndReturn({
+      data: chunks.map(chunk => ({
+        content: chunk.content,
+        pageNum: chunk.pageNum,
+        sectionPath: chunk.sectionPath ?? null,
+        location: chunk.location ? JSON.parse(JSON.stringify(chunk.location)) : undefined,
+        pdfId,
+      })),
+      select: { id: true },
+    });
+
+    // Rows come back in insertion order
+    for (const { version, embeddings } of vectors) {
+      await saveChunkEmbeddings(tx, version, saved.flatMap((chunk, index) => {
+        const embedding = embeddings[index];
+        return embedding ? [{ chunkId: chunk.id, embedding }] : [];
+      }));
+    }
+
+    await tx.document.update({
+      where: { id: pdfId },
+      data: {
+        metadata: JSON.parse(JSON.stringify(document.metadata)),
+        pageFingerprints: document.pageFingerprints,
+        contentHash: document.contentHash,
+        chunksVersion: { increment: 1 },
+      },
+    });
+  }, { timeout: REPLACE_TRANSACTION_TIMEOUT_MS });
+}
@@ -0,0 +1,247 @@
+/**
+ * Postgres-backed background job queue for document ingestion
+ *
+ * Jobs are rows in "IngestionJob". Workers (scripts/ingestion-worker.ts) claim
+ * one at a time with FOR UPDATE SKIP LOCKED, so any number of workers can run
+ * against the same database without double-processing. Failed runs are
+ * retried with exponential backoff; a job whose worker stops sending
+ * heartbeats is reclaimed after STALE_LOCK_SECONDS.
+ */
+
+import { randomUUID } from 'crypto';
+import { hostname } from 'os';
+import type { IngestionJob } from '@prisma/client';
+import { prisma } from './prisma';
+import { ingestDocument, type IngestionStage } from './ingestion';
+import { activateCompletedVersion, embedMissingChunks } from './embedding-versions';
+import { DocumentTrashedError } from './documents';
+
+export const JOB_STATUSES = ['queued', 'running', 'succeeded', 'failed'] as const;
+export type JobStatus = (typeof JOB_STATUSES)[number];
+
+// ingest: extract, chunk and embed a document; embed: fill in missing vectors (see lib/embedding-versions.ts)
+export type JobType = 'ingest' | 'embed';
+
+// A running job with no heartbeat for this long is assumed abandoned
+const STALE_LOCK_SECONDS = 15 * 60;
+
+// Delay before retry n is RETRY_BASE_DELAY_MS * 2^(n-1)
+const RETRY_BASE_DELAY_MS = 30_000;
+
+interface ClaimedJob {
+  id: string;
+  pdfId: string;
+  type: string;
+  attempts: number;
+  maxAttempts: number;
+}
+
+type ProgressReporter = (stage: IngestionStage, progress: number) => Promise<void>;
+
+const handlers: Record<JobType, (job: ClaimedJob, onProgress: ProgressReporter) => Promise<unknown>> = {
+  ingest: async (job, onProgress) => {
+    const result = await ingestDocument(job.pdfId, onProgress);
+    // Vectors the version being built couldn't get are retried separately
+    if (result.embeddingsDeferred > 0) await enqueueJob(job.pdfId, 'embed');
+    return result;
+  },
+  embed: async (job, onProgress) => {
+    const result = await embedMissingChunks(job.pdfId, onProgress);
+    // The last document filled in completes a new embedding version
+    await activateCompletedVersion();
+    return result;
+  },
+};
+
+/**
+ * Unique id for a worker process, recorded on the jobs it claims
+ */
+export function createWorkerId(): string {
+  return `${hostname()}:${process.pid}:${randomUUID().slice(0, 8)}`;
+}
+
+/**
+ * Queue a job for a document. If one is already queued for the same document
+ * and type, that job is returned instead of adding another; it reads the
+ * document's settings when it starts. A running job doesn't count, since it
+ * may have started with settings that have changed since.
+ */
+export async function enqueueJob(pdfId: string, type: JobType = 'ingest'): Promise<IngestionJob> {
+  const queued = await prisma.ingestionJob.findFirst({
+    where: { pdfId, type, status: 'queued' },
+    orderBy: { createdAt: 'desc' },
+  });
+  if (queued) return queued;
+
+  return prisma.ingestionJob.create({
+    data: { pdfId, type },
+  });
+}
+
+/**
+ * Most recent job for each of the given documents
+ */
+export async function getLatestJobs(pdfIds: string[]): Promise<Map<string, IngestionJob>> {
+  const jobs = await prisma.ingestionJob.findMany({
+    where: { pdfId: { in: pdfIds } },
+    orderBy: { createdAt: 'desc' },
+    distinct: ['pdfId'],
+  });
+  return new Map(jobs.map(job => [job.pdfId, job]));
+}
+
+/**
+ * Atomically claim the next runnable job: a queued job whose backoff has
+ * elapsed, or a running job whose worker has gone quiet. Jobs for a document
+ * another worker is already processing are skipped until it finishes, so a
+ * re-run queued mid-job isn't overwritten by the older run.
+ */
+export async function claimNextJob(workerId: string): Promise<ClaimedJob | null> {
+  const claimed = await prisma.$queryRaw<ClaimedJob[]>`
+    UPDATE "IngestionJob"
+    SET status = 'running',
+        attempts = attempts + 1,
+        stage = NULL,
+        error = NULL,
+        "lockedAt" = NOW(),
+        "lockedBy" = ${workerId},
+        "updatedAt" = NOW()
+    WHERE id = (
+      SELECT j.id FROM "IngestionJob" j
+      WHERE ((j.status = 'queued' AND j."runAfter" <= NOW())
+          OR (j.status = 'running' AND j."lockedAt" < NOW() - make_interval(secs => ${STALE_LOCK_SECONDS})))
+        AND NOT EXISTS (
+          SELECT 1 FROM "IngestionJob" r
+          WHERE r."pdfId" = j."pdfId"
+            AND r.id <> j.id
+            AND r.status = 'running'
+            AND r."lockedAt" >= NOW() - make_interval(secs => ${STALE_LOCK_SECONDS})
+        )
+      ORDER BY j."runAfter" ASC
+      LIMIT 1
+      FOR UPDATE OF j SKIP LOCKED
+    )
+    RETURNING id, "pdfId", type, attempts, "maxAttempts"
+  `;
+  return claimed[0] ?? null;
+}
+
+/**
+ * Record progress; doubles as the heartbeat that keeps the job claimed
+ */
+async function reportProgress(jobId: string, workerId: string, stage: IngestionStage, progress: number) {
+  await prisma.ingestionJob.updateMany({
+    where: { id: jobId, lockedBy: workerId },
+    data: { stage, progress, lockedAt: new Date() },
+  });
+}
+
+/**
+ * Mark a failed attempt: requeue with backoff, or fail for good once the
+ * job is out of attempts
+ */
+async function recordFailure(job: ClaimedJob, workerId: string, message: string) {
+  const exhausted = job.attempts >= job.maxAttempts;
+  await prisma.ingestionJob.updateMany({
+    where: { id: job.id, lockedBy: workerId },
+    data: exhausted
+      ? { status: 'failed', error: message, lockedAt: null, lockedBy: null, finishedAt: new Date() }
+      : {
+          status: 'queued',
+          error: message,
+          lockedAt: null,
+          lockedBy: null,
+          runAfter: new Date(Date.now() + RETRY_BASE_DELAY_MS * 2 ** (job.attempts - 1)),
+        },
+  });
+  console.error(
+    `❌ Job ${job.id} (${job.type}) failed on attempt ${job.attempts}/${job.maxAttempts}` +
+      `${exhausted ? '' : ', will retry'}: ${message}`
+  );
+}
+
+/**
+ * Claim and run one job. Returns the job id, or null when nothing is runnable.
+ */
+export async function processNextJob(workerId: string): Promise<string | null> {
+  const job = await claimNextJob(workerId);
+  if (!job) return null;
+
+  // A reclaimed job whose previous worker died on its last attempt
+  if (job.attempts > job.maxAttempts) {
+    await recordFailure({ ...job, attempts: job.maxAttempts }, workerId, 'Worker stopped responding');
+    return job.id;
+  }
+
+  const handler = handlers[job.type as JobType];
+  if (!handler) {
+    await recordFailure({ ...job, attempts: job.maxAttempts }, workerId, `Unknown job type: ${job.type}`);
+    return job.id;
+  }
+
+  console.log(`🔧 Running job ${job.id} (${job.type}) for document ${job.pdfId}, attempt ${job.attempts}/${job.maxAttempts}`);
+  const startTime = Date.now();
+
+  try {
+    const result = await handler(job, (stage, progress) => reportProgress(job.id, workerId, stage, progress));
+    await prisma.ingestionJob.updateMany({
+      where: { id: job.id, lockedBy: workerId },
+      data: {
+        status: 'succeeded',
+        progress: 100,
+        stage: null,
+        result: JSON.parse(JSON.stringify(result ?? null)),
+        lockedAt: null,
+        lockedBy: null,
+        finishedAt: new Date(),
+      },
+    });
+    console.log(`✅ Job ${job.id} succeeded in ${((Date.now() - startTime) / 1000).toFixed(2)}s`);
+  } catch (error) {
+    // Retrying can't help until the document is restored, which queues the job again
+    const attempts = error instanceof DocumentTrashedError ? job.maxAttempts : job.attempts;
+    await recordFailure({ ...job, attempts }, workerId, error instanceof Error ? error.message : 'Unknown error');
+  }
+
+  return job.id;
+}
+
+/**
+ * Run jobs until the queue has nothing runnable
+ */
+export async function drainJobQueue(workerId: string = createWorkerId()): Promise<number> {
+  let processed = 0;
+  while (await processNextJob(workerId)) {
+    processed++;
+  }
+  return processed;
+}
+
+/**
+ * When INGESTION_INLINE=true, routes process the queue themselves after
+ * responding. Meant for single-process development setups without a worker.
+ */
+export function isInlineProcessingEnabled(): boolean {
+  return process.env.INGESTION_INLINE === 'true';
+}
+
+/**
+ * Public view of a job for status polling
+ */
+export function serializeJob(job: IngestionJob) {
+  return {
+    id: job.id,
+    pdfId: job.pdfId,
+    type: job.type,
+    status: job.status as JobStatus,
+    stage: job.stage,
+    progress: job.progress,
+    attempts: job.attempts,
+    maxAttempts: job.maxAttempts,
+    error: job.error,
+    result: job.result,
+    createdAt: job.createdAt,
+    updatedAt: job.updatedAt,
+    finishedAt: job.finishedAt,
+  };
+}
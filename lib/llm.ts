@@ -0,0 +1,389 @@
+/**
+ * LLM Provider Layer
+ *
+ * A single interface for text generation so routes don't depend on a vendor.
+ * The provider is selected with LLM_PROVIDER:
+ * - gemini (default): Google Gemini, trying FALLBACK_MODELS in order
+ * - openai: any OpenAI-compatible chat completions API (OpenAI, Ollama, llama.cpp, vLLM)
+ * - fake: deterministic offline responses for development and CI
+ */
+
+import { parseSSE } from './sse';
+import { formatLocation, type ChunkLocation } from './chunking';
+
+export interface LLMMessage {
+  role: 'system' | 'user' | 'assistant';
+  content: string;
+}
+
+export interface LLMGenerateOptions {
+  temperature?: number;
+  topP?: number;
+  maxTokens?: number;
+  signal?: AbortSignal;
+}
+
+export interface LLMProvider {
+  readonly name: string;
+  /** Whether the provider has the configuration it needs to make requests */
+  isConfigured(): boolean;
+  /** Generate a completion; throws on failure */
+  generate(messages: LLMMessage[], options?: LLMGenerateOptions): Promise<string>;
+  /** Stream a completion as text deltas; throws on failure */
+  stream(messages: LLMMessage[], options?: LLMGenerateOptions): AsyncGenerator<string, void, unknown>;
+}
+
+// Alternative model names to try if the primary fails (based on actual available models)
+const FALLBACK_MODELS = [
+  'gemini-2.5-flash',
+  'gemini-2.5-flash-preview-05-20',
+  'gemini-2.5-pro-preview-03-25',
+  'gemini-1.5-flash-latest',
+  'gemini-1.5-flash-8b-exp-0827',
+  'gemini-1.5-flash-8b-exp-0924',
+  'gemini-1.5-flash-002',
+  'gemini-1.5-flash-001',
+  'gemini-1.5-flash',
+  'gemini-1.5-pro-latest',
+  'gemini-1.5-pro-002',
+  'gemini-1.5-pro-001',
+  'gemini-1.5-pro-exp-0827',
+  'gemini-1.0-pro-latest',
+  'gemini-1.0-pro-001',
+  'gemini-1.0-pro',
+  'gemini-pro'
+];
+
+/**
+ * Google Gemini (generateContent API)
+ */
+class GeminiProvider implements LLMProvider {
+  readonly name = 'gemini';
+  private apiKey: string | undefined;
+  private models: string[];
+
+  constructor() {
+    this.apiKey = process.env.GEMINI_API_KEY;
+    // A configured model is tried first, then the known fallbacks
+    const preferred = process.env.LLM_MODEL;
+    this.models = preferred
+      ? [preferred, ...FALLBACK_MODELS.filter(model => model !== preferred)]
+      : FALLBACK_MODELS;
+  }
+
+  isConfigured(): boolean {
+    return !!this.apiKey;
+  }
+
+  private buildBody(messages: LLMMessage[], options: LLMGenerateOptions) {
+    const system = messages.filter(m => m.role === 'system').map(m => m.content).join('\n\n');
+    return {
+      ...(system && { systemInstruction: { parts: [{ text: system }] } }),
+      contents: messages
+        .filter(m => m.role !== 'system')
+        .map(m => ({
+          role: m.role === 'assistant' ? 'model' : 'user',
+          parts: [{ text: m.content }],
+        })),
+      generationConfig: {
+        temperature: options.temperature,
+        topP: options.topP,
+        maxOutputTokens: options.maxTokens,
+      },
+    };
+  }
+
+  /**
+   * POST to `method` on each model in turn until one responds successfully
+   */
+  private async request(
+    method: 'generateContent' | 'streamGenerateContent',
+    messages: LLMMessage[],
+    options: LLMGenerateOptions
+  ): Promise<Response> {
+    const body = JSON.stringify(this.buildBody(messages, options));
+
+    // Try different model names if the primary fails
+    let lastError = '';
+
+    for (const modelName of this.models) {
+      try {
+        const url = new URL(`https://generativelanguage.googleapis.com/v1beta/models/${modelName}:${method}`);
+        url.searchParams.set('key', this.apiKey || '');
+        if (method === 'streamGenerateContent') url.searchParams.set('alt', 'sse');
+
+        const res = await fetch(url, {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          body,
+          signal: options.signal,
+        });
+
+        if (res.ok) {
+          console.log(`Successfully used model: ${modelName}`);
+          return res;
+        }
+
+        const errorText = await res.text();
+        lastError = `${modelName}: ${res.status} - ${errorText}`;
+        console.warn(`Model ${modelName} failed: ${lastError}`);
+      } catch (error) {
+        if (options.signal?.aborted) throw error;
+        lastError = `${modelName}: ${error}`;
+        console.warn(`Model ${modelName} error:`, error);
+      }
+    }
+
+    throw new Error(`Gemini API error: All models failed. Last: ${lastError}`);
+  }
+
+  async generate(messages: LLMMessage[], options: LLMGenerateOptions = {}): Promise<string> {
+    const res = await this.request('generateContent', messages, options);
+    const data = await res.json();
+    return data?.candidates?.[0]?.content?.parts?.[0]?.text || '';
+  }
+
+  async *stream(messages: LLMMessage[], options: LLMGenerateOptions = {}): AsyncGenerator<string, void, unknown> {
+    const res = await this.request('streamGenerateContent', messages, options);
+    if (!res.body) return;
+
+    for await (const { data } of parseSSE(res.body)) {
+      const chunk = JSON.parse(data);
+      const text = chunk?.candidates?.[0]?.content?.parts?.[0]?.text;
+      if (text) yield text;
+    }
+  }
+}
+
+/**
+ * OpenAI-compatible chat completions API.
+ * Works with OpenAI and with local servers such as Ollama
+ * (LLM_BASE_URL=http://localhost:11434/v1), llama.cpp and vLLM.
+ */
+class OpenAICompatibleProvider implements LLMProvider {
+  readonly name = 'openai';
+  private baseUrl: string;
+  private apiKey: string | undefined;
+  private model: string;
+
+  constructor() {
+    this.baseUrl = (process.env.LLM_BASE_URL || 'https://api.openai.com/v1').replace(/\/+$/, '');
+    this.apiKey = process.env.LLM_API_KEY;
+    this.model = process.env.LLM_MODEL || 'gpt-4o-mini';
+  }
+
+  isConfigured(): boolean {
+    // Local servers usually don't need a key; the hosted API does
+    return !!this.apiKey || !this.baseUrl.includes('api.openai.com');
+  }
+
+  private async request(messages: LLMMessage[], options: LLMGenerateOptions, stream: boolean): Promise<Response> {
+    const res = await fetch(`${this.baseUrl}/chat/completions`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        ...(this.apiKey && { Authorization: `Bearer ${this.apiKey}` }),
+      },
+      body: JSON.stringify({
+        model: this.model,
+        messages,
+        temperature: options.temperature,
+        top_p: options.topP,
+        max_tokens: options.maxTokens,
+        stream,
+      }),
+      signal: options.signal,
+    });
+
+    if (!res.ok) {
+      const errorText = await res.text();
+      throw new Error(`OpenAI-compatible API error (${this.model}): ${res.status} - ${errorText}`);
+    }
+
+    return res;
+  }
+
+  async generate(messages: LLMMessage[], options: LLMGenerateOptions = {}): Promise<string> {
+    const res = await this.request(messages, options, false);
+    const data = await res.json();
+    return data?.choices?.[0]?.message?.content || '';
+  }
+
+  async *stream(messages: LLMMessage[], options: LLMGenerateOptions = {}): AsyncGenerator<string, void, unknown> {
+    const res = await this.request(messages, options, true);
+    if (!res.body) return;
+
+    for await (const { data } of parseSSE(res.body)) {
+      if (data === '[DONE]') break;
+      const text = JSON.parse(data)?.choices?.[0]?.delta?.content;
+      if (text) yield text;
+    }
+  }
+}
+
+/**
+ * Deterministic provider for development and CI: no network, same input
+ * always yields the same output. A custom responder can be supplied.
+ */
+export class FakeLLMProvider implements LLMProvider {
+  readonly name = 'fake';
+  private responder: (messages: LLMMessage[]) => string;
+
+  constructor(responder?: (messages: LLMMessage[]) => string) {
+    this.responder = responder || ((messages) => {
+      const lastUser = [...messages].reverse().find(m => m.role === 'user');
+      const text = (lastUser?.content || '').replace(/\s+/g, ' ').trim();
+      return `[fake response] ${text.slice(0, 200)}`;
+    });
+  }
+
+  isConfigured(): boolean {
+    return true;
+  }
+
+  async generate(messages: LLMMessage[]): Promise<string> {
+    return this.responder(messages);
+  }
+
+  async *stream(messages: LLMMessage[], options: LLMGenerateOptions = {}): AsyncGenerator<string, void, unknown> {
+    // Emit word by word (keeping whitespace) so streaming UIs can be exercised offline
+    for (const token of this.responder(messages).split(/(?<=\s)/)) {
+      if (options.signal?.aborted) return;
+      yield token;
+    }
+  }
+}
+
+let cachedProvider: LLMProvider | null = null;
+
+/**
+ * Get the configured LLM provider
+ */
+export function getLLMProvider(): LLMProvider {
+  if (cachedProvider) return cachedProvider;
+
+  const providerType = process.env.LLM_PROVIDER || 'gemini';
+
+  switch (providerType) {
+    case 'gemini':
+      cachedProvider = new GeminiProvider();
+      break;
+    case 'openai':
+      cachedProvider = new OpenAICompatibleProvider();
+      break;
+    case 'fake':
+      cachedProvider = new FakeLLMProvider();
+      break;
+    default:
+      console.warn(`Unknown LLM provider: ${providerType}, falling back to gemini`);
+      cachedProvider = new GeminiProvider();
+  }
+
+  return cachedProvider;
+}
+
+/**
+ * Single-prompt helper. Never throws: failures are returned as an error string
+ * so callers can fall back (e.g. keyword grading) without extra handling.
+ */
+export async function askLLM(prompt: string, options?: LLMGenerateOptions): Promise<string> {
+  const provider = getLLMProvider();
+  try {
+    const text = await provider.generate([{ role: 'user', content: prompt }], options);
+    return text || 'No response';
+  } catch (error) {
+    console.error(`Error calling ${provider.name} LLM provider:`, error);
+    return `Error: Could not get response from ${provider.name}`;
+  }
+}
+
+const DEFAULT_RAG_SYSTEM_PROMPT = `You are an intelligent document assistant. Answer questions based only on the provided context from the document(s).
+
+CITATION REQUIREMENTS:
+- Mark every claim with the number of the source it comes from, e.g. [2], or [1, 3] for several
+- After the answer, list the citations as a JSON array between <citations> and </citations>, one entry per quote:
+<citations>[{"source": 2, "quote": "words copied exactly from source 2"}]</citations>
+- Quotes must be copied word for word from the numbered source; use ... for omitted words
+- Cite every source you rely on, and only the sources in the context
+- Do not write anything after </citations>
+
+RESPONSE GUIDELINES:
+- Answer only based on the provided context
+- If the context doesn't contain enough information, state this clearly
+- Be comprehensive but concise
+- Structure your answer logically
+- Maintain academic rigor in citations`;
+
+export interface RAGChunk {
+  content: string;
+  pageNum: number;
+  location?: ChunkLocation | null;
+  sectionPath?: string | null;
+  pdfTitle?: string;
+}
+
+export interface RAGPromptOptions {
+  systemPrompt?: string;
+  /** Prior conversation turns, oldest first */
+  history?: LLMMessage[];
+}
+
+const RAG_OPTIONS: LLMGenerateOptions = {
+  temperature: 0.1, // Lower temperature for more factual responses
+  topP: 0.8,
+  maxTokens: 2048,
+};
+
+function buildRAGMessages(query: string, chunks: RAGChunk[], options: RAGPromptOptions): LLMMessage[] {
+  const contextText = chunks.map((chunk, index) =>
+    `[Source ${index + 1}${chunk.pdfTitle ? ` from "${chunk.pdfTitle}"` : ''} - ${formatLocation(chunk.pageNum, chunk.location)}` +
+      `${chunk.sectionPath ? ` - Section: ${chunk.sectionPath}` : ''}]:\n"${chunk.content}"`
+  ).join('\n\n');
+
+  const systemPrompt = options.systemPrompt || DEFAULT_RAG_SYSTEM_PROMPT;
+
+  return [
+    { role: 'system', content: systemPrompt },
+    ...(options.history || []),
+    {
+      role: 'user',
+      content: `DOCUMENT CONTEXT:
+${contextText}
+
+USER QUESTION: ${query}
+
+ANSWER:`,
+    },
+  ];
+}
+
+/**
+ * RAG helper with citation support. The reply ends with a citations block;
+ * split it off with buildCitations (lib/citations.ts).
+ */
+export async function askLLMWithRAG(
+  query: string,
+  chunks: RAGChunk[],
+  options: RAGPromptOptions = {}
+): Promise<string> {
+  const provider = getLLMProvider();
+  try {
+    const text = await provider.generate(buildRAGMessages(query, chunks, options), RAG_OPTIONS);
+    return text || 'No response generated';
+  } catch (error) {
+    console.error(`Error calling ${provider.name} RAG completion:`, error);
+    return 'Error: Could not generate response. Please try again.';
+  }
+}
+
+/**
+ * Streaming variant of askLLMWithRAG. Unlike the non-streaming helper this
+ * throws on failure, since partial output may already have been sent.
+ */
+export function streamLLMWithRAG(
+  query: string,
+  chunks: RAGChunk[],
+  options: RAGPromptOptions & { signal?: AbortSignal } = {}
+): AsyncGenerator<string, void, unknown> {
+  return getLLMProvider().stream(buildRAGMessages(query, chunks, options), { ...RAG_OPTIONS, signal: options.signal });
+}
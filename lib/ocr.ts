@@ -0,0 +1,80 @@
+/**
+ * Local OCR for scanned pages, using Tesseract compiled to WebAssembly.
+ *
+ * Configuration:
+ * - OCR_ENABLED: set to "false" to skip OCR entirely
+ * - OCR_LANGUAGE: Tesseract language code(s), e.g. "eng" or "eng+deu" (default "eng")
+ * - OCR_LANG_PATH: where to load traineddata from (defaults to the tesseract.js CDN);
+ *   point it at a local directory for fully offline OCR
+ */
+
+import { tmpdir } from 'os';
+import { createWorker, OEM, type Worker } from 'tesseract.js';
+
+export interface OcrResult {
+  text: string;
+  confidence: number; // 0-100, as reported by Tesseract
+}
+
+export interface OcrEngine {
+  language: string;
+  recognize(image: Buffer): Promise<OcrResult>;
+  terminate(): Promise<void>;
+}
+
+export function isOcrEnabled(): boolean {
+  return process.env.OCR_ENABLED !== 'false';
+}
+
+export function getOcrLanguage(): string {
+  return process.env.OCR_LANGUAGE || 'eng';
+}
+
+/**
+ * Start a Tesseract worker. createWorker() never settles if the language data
+ * fails to load, leaving a thread we can't terminate, so the worker is created
+ * without languages and they're loaded through reinitialize(), which rejects.
+ */
+async function startWorker(language: string): Promise<Worker> {
+  const worker = await createWorker([], OEM.LSTM_ONLY, {
+    ...(process.env.OCR_LANG_PATH && { langPath: process.env.OCR_LANG_PATH }),
+    // Downloaded language data is cached here rather than in the working directory
+    cachePath: tmpdir(),
+    // Errors also reject the call that caused them; by default they're rethrown
+    errorHandler: () => {},
+  });
+  try {
+    await worker.reinitialize(language);
+  } catch (error) {
+    await worker.terminate();
+    throw error;
+  }
+  return worker;
+}
+
+/**
+ * Create an OCR engine whose Tesseract worker is only started on first use,
+ * so documents with a text layer never pay for loading it. Call terminate()
+ * when done.
+ */
+export function createOcrEngine(language: string = getOcrLanguage()): OcrEngine {
+  let worker: Promise<Worker> | null = null;
+
+  return {
+    language,
+
+    async recognize(image: Buffer): Promise<OcrResult> {
+      worker ??= startWorker(language);
+      const { data } = await (await worker).recognize(image);
+      return { text: data.text.trim(), confidence: Math.round(data.confidence) };
+    },
+
+    async terminate(): Promise<void> {
+      if (!worker) return;
+      const started = worker;
+      worker = null;
+      // A worker that failed to start has nothing to shut down
+      await started.then(w => w.terminate(), () => {});
+    },
+  };
+}
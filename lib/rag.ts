@@ -1,6 +1,10 @@
 import { prisma } from './prisma';
-import { askGemini, askGeminiWithRAG } from './gemini';
-import { searchSimilarChunks, globalSemanticSearch } from './vector-search';
+import { askLLM, askLLMWithRAG, getLLMProvider, type LLMMessage, type RAGChunk } from './llm';
+import { searchSimilarChunks, globalSemanticSearch, hybridSearch, type SearchScope } from './vector-search';
+import { pdfAccessWhere } from './access';
+import { getRerankMode, rerankChunks, RERANK_CANDIDATE_MULTIPLIER } from './rerank';
+import { buildCitations, type Citation } from './citations';
+import { formatLocation, type ChunkLocation } from './chunking';
 
 export interface RAGResult {
   answer: string;
@@ -17,120 +21,166 @@ export interface EnhancedRAGResult {
     id: string;
     content: string;
     pageNum: number;
+    location: ChunkLocation | null; // slide, section or line range, for non-PDF documents
+    sectionPath: string | null; // heading path of the chunk, when the document has headings
+    pdfId: string;
     pdfTitle: string;
     snippet: string;
     similarity?: number;
+    score?: number; // hybrid (reciprocal rank fusion) score
+    rerankScore?: number; // 0..1 relevance from the reranking stage
   }>;
+  citations: Citation[]; // quotes in the answer, verified against the sources
   query: string;
-  pdfId?: string;
+  rewrittenQuery?: string; // standalone form of a follow-up question, when it differs
+  pdfIds?: string[];
   retrievedChunks: number;
 }
 
+export type RAGSource = EnhancedRAGResult['sources'][number];
+
+export interface RetrievalOptions {
+  rerank?: boolean; // set false to skip reranking regardless of RERANK_MODE
+}
+
+export const NO_RESULTS_ANSWER = "No relevant documents found. Please upload a PDF first or try a different search query.";
+
 /**
- * Enhanced RAG function that uses the new citation-aware Gemini integration
+ * Rewrite a follow-up question ("explain that more simply") into a standalone
+ * question using prior turns, so vector search has something to match on.
+ * Returns the original query when there is no history or rewriting fails.
+ */
+export async function rewriteFollowUpQuery(query: string, history: LLMMessage[]): Promise<string> {
+  if (history.length === 0) return query;
+
+  const transcript = history
+    .map(message => `${message.role === 'assistant' ? 'Assistant' : 'User'}: ${message.content.slice(0, 1000)}`)
+    .join('\n');
+
+  const prompt = `Rewrite the user's latest question as a single standalone question that can be understood without the conversation. Resolve pronouns and references such as "that", "it" or "the second point" using the conversation. If the question is already standalone, return it unchanged.
+
+CONVERSATION:
+${transcript}
+
+LATEST QUESTION: ${query}
+
+Return ONLY the rewritten question, with no explanation.`;
+
+  try {
+    const rewritten = (await getLLMProvider().generate(
+      [{ role: 'user', content: prompt }],
+      { temperature: 0, maxTokens: 200 }
+    )).trim().replace(/^["']|["']$/g, '');
+
+    // Guard against empty or runaway output
+    if (!rewritten || rewritten.length > 500) return query;
+    return rewritten;
+  } catch (error) {
+    console.warn('Follow-up query rewrite failed, using original query:', error);
+    return query;
+  }
+}
+
+/**
+ * Retrieve the chunks used to ground an answer with hybrid (vector + full-text)
+ * search, restricted to documents the user can read. Candidates are
+ * over-fetched and reranked; results come back most relevant first.
+ */
+export async function retrieveRAGContext(
+  query: string,
+  scope: SearchScope,
+  maxChunks: number = 5,
+  similarityThreshold: number = 0.3,
+  options: RetrievalOptions = {}
+): Promise<{ sources: RAGSource[]; ragChunks: RAGChunk[] }> {
+  const rerankMode = options.rerank === false ? 'off' : getRerankMode();
+  const candidateCount = rerankMode === 'off' ? maxChunks : maxChunks * RERANK_CANDIDATE_MULTIPLIER;
+
+  // Fuse vector and full-text rankings
+  const searchResults = await hybridSearch(query, scope, candidateCount, similarityThreshold);
+
+  if (searchResults.length === 0) {
+    return { sources: [], ragChunks: [] };
+  }
+
+  // Best chunks first; the order is kept all the way to the prompt
+  const ranked = await rerankChunks(query, searchResults, maxChunks, rerankMode);
+
+  // Search results carry everything the prompt and the sources need
+  const sources: RAGSource[] = [];
+  const ragChunks: RAGChunk[] = [];
+
+  for (const result of ranked) {
+    ragChunks.push({
+      content: result.content,
+      pageNum: result.pageNum,
+      location: result.location,
+      sectionPath: result.sectionPath,
+      pdfTitle: result.pdfTitle
+    });
+
+    sources.push({
+      id: result.id,
+      content: result.content,
+      pageNum: result.pageNum,
+      location: result.location,
+      sectionPath: result.sectionPath,
+      pdfId: result.pdfId,
+      pdfTitle: result.pdfTitle,
+      snippet: result.content.length > 200 
+        ? result.content.substring(0, 200) + '...' 
+        : result.content,
+      similarity: result.similarity,
+      score: result.score,
+      rerankScore: rerankMode === 'off' ? undefined : result.rerankScore
+    });
+  }
+
+  return { sources, ragChunks };
+}
+
+/**
+ * Enhanced RAG function that uses the citation-aware LLM integration
  */
 export async function performEnhancedRAG(
   query: string, 
-  pdfId?: string, 
+  scope: SearchScope, 
   maxChunks: number = 5,
-  similarityThreshold: number = 0.3
+  similarityThreshold: number = 0.3,
+  history: LLMMessage[] = [],
+  options: RetrievalOptions = {}
 ): Promise<EnhancedRAGResult> {
-  try {
-    let searchResults;
-    
-    // Perform vector search
-    if (pdfId) {
-      searchResults = await searchSimilarChunks(query, pdfId, maxChunks, similarityThreshold);
-    } else {
-      searchResults = await globalSemanticSearch(query, maxChunks, similarityThreshold);
-    }
-
-    // If no results from vector search, try keyword fallback
-    if (searchResults.length === 0) {
-      const keywordResults = await prisma.chunk.findMany({
-        where: {
-          AND: [
-            pdfId ? { pdfId } : {},
-            {
-              content: {
-                contains: query,
-                mode: 'insensitive'
-              }
-            }
-          ]
-        },
-        include: {
-          pdf: true
-        },
-        take: maxChunks,
-        orderBy: {
-          pageNum: 'asc'
-        }
-      });
+  const { pdfIds } = scope;
 
-      searchResults = keywordResults.map(chunk => ({
-        id: chunk.id,
-        content: chunk.content,
-        pageNum: chunk.pageNum,
-        pdfId: chunk.pdfId,
-        similarity: 0.5, // Default similarity for keyword results
-      }));
-    }
+  try {
+    // Follow-ups are searched in their standalone form but answered as asked
+    const retrievalQuery = await rewriteFollowUpQuery(query, history);
+    const rewrittenQuery = retrievalQuery !== query ? retrievalQuery : undefined;
+    const { sources, ragChunks } = await retrieveRAGContext(retrievalQuery, scope, maxChunks, similarityThreshold, options);
 
-    if (searchResults.length === 0) {
+    if (sources.length === 0) {
       return {
-        answer: "No relevant documents found. Please upload a PDF first or try a different search query.",
+        answer: NO_RESULTS_ANSWER,
         sources: [],
+        citations: [],
         query,
-        pdfId,
+        rewrittenQuery,
+        pdfIds,
         retrievedChunks: 0
       };
     }
 
-    // Get PDF information for all chunks
-    const chunkIds = searchResults.map(r => r.id);
-    const chunksWithPdf = await prisma.chunk.findMany({
-      where: {
-        id: { in: chunkIds }
-      },
-      include: {
-        pdf: true
-      },
-      orderBy: {
-        pageNum: 'asc'
-      }
-    });
-
-    // Prepare data for RAG
-    const ragChunks = chunksWithPdf.map(chunk => ({
-      content: chunk.content,
-      pageNum: chunk.pageNum,
-      pdfTitle: chunk.pdf.title
-    }));
-
     // Generate answer with citations
-    const answer = await askGeminiWithRAG(query, ragChunks);
-
-    // Format sources
-    const sources = chunksWithPdf.map(chunk => {
-      const searchResult = searchResults.find(r => r.id === chunk.id);
-      return {
-        id: chunk.id,
-        content: chunk.content,
-        pageNum: chunk.pageNum,
-        pdfTitle: chunk.pdf.title,
-        snippet: chunk.content.length > 200 
-          ? chunk.content.substring(0, 200) + '...' 
-          : chunk.content,
-        similarity: searchResult?.similarity
-      };
-    });
+    const reply = await askLLMWithRAG(query, ragChunks, { history });
+    const { answer, citations } = buildCitations(reply, sources);
 
     return {
       answer,
       sources,
+      citations,
       query,
-      pdfId,
+      rewrittenQuery,
+      pdfIds,
       retrievedChunks: sources.length
     };
 
@@ -139,8 +189,9 @@ export async function performEnhancedRAG(
     return {
       answer: "Sorry, there was an error processing your query. Please try again.",
       sources: [],
+      citations: [],
       query,
-      pdfId,
+      pdfIds,
       retrievedChunks: 0
     };
   }
@@ -149,57 +200,31 @@ export async function performEnhancedRAG(
 /**
  * Legacy RAG function for backward compatibility
  */
-export async function performRAG(query: string, pdfId?: string): Promise<RAGResult> {
+export async function performRAG(query: string, scope: SearchScope): Promise<RAGResult> {
+  const { userId, pdfIds } = scope;
+
   try {
-    let chunks;
+    let chunks: { content: string; pageNum: number; location: ChunkLocation | null; pdfTitle: string }[] = [];
     
     // Try vector search first (if embeddings are available)
     try {
-      if (pdfId) {
-        const vectorResults = await searchSimilarChunks(query, pdfId, 5, 0.3);
-        
-        // If we get good vector results, use them
-        if (vectorResults.length > 0) {
-          // Get full chunk data with PDF info
-          chunks = await prisma.chunk.findMany({
-            where: {
-              id: { in: vectorResults.map(r => r.id) }
-            },
-            include: {
-              pdf: true
-            },
-            orderBy: {
-              pageNum: 'asc'
-            }
-          });
-        }
-      } else {
-        const globalResults = await globalSemanticSearch(query, 5, 0.3);
-        
-        if (globalResults.length > 0) {
-          chunks = await prisma.chunk.findMany({
-            where: {
-              id: { in: globalResults.map(r => r.id) }
-            },
-            include: {
-              pdf: true
-            },
-            orderBy: {
-              pageNum: 'asc'
-            }
-          });
-        }
-      }
+      const vectorResults = pdfIds && pdfIds.length > 0
+        ? await searchSimilarChunks(query, scope, 5, 0.3)
+        : await globalSemanticSearch(query, userId, 5, 0.3);
+
+      // Results carry their document's title; present them in page order
+      chunks = [...vectorResults].sort((a, b) => a.pageNum - b.pageNum);
     } catch (vectorError) {
       console.log('Vector search failed, falling back to keyword search:', vectorError);
     }
     
     // Fallback to basic keyword search if vector search failed or found no results
-    if (!chunks || chunks.length === 0) {
-      chunks = await prisma.chunk.findMany({
+    if (chunks.length === 0) {
+      const keywordResults = await prisma.chunk.findMany({
         where: {
           AND: [
-            pdfId ? { pdfId } : {},
+            pdfIds && pdfIds.length > 0 ? { pdfId: { in: pdfIds } } : { pdf: { archivedAt: null } },
+            { pdf: pdfAccessWhere(userId) },
             {
               content: {
                 contains: query,
@@ -209,28 +234,34 @@ export async function performRAG(query: string, pdfId?: string): Promise<RAGResu
           ]
         },
         include: {
-          pdf: true
+          pdf: { select: { title: true } }
         },
         take: 5,
         orderBy: {
           pageNum: 'asc'
         }
       });
+      chunks = keywordResults.map(chunk => ({
+        content: chunk.content,
+        pageNum: chunk.pageNum,
+        location: chunk.location as ChunkLocation | null,
+        pdfTitle: chunk.pdf.title
+      }));
     }
 
     if (chunks.length === 0) {
       return {
-        answer: "No relevant documents found. Please upload a PDF first or try a different search query.",
+        answer: NO_RESULTS_ANSWER,
         sources: []
       };
     }
 
     // Create context from chunks
     const context = chunks.map((chunk) => 
-      `From "${chunk.pdf.title}" (page ${chunk.pageNum}): ${chunk.content}`
+      `From "${chunk.pdfTitle}" (${formatLocation(chunk.pageNum, chunk.location).toLowerCase()}): ${chunk.content}`
     ).join('\n\n');
 
-    // Generate answer using Gemini
+    // Generate answer using the configured LLM provider
     const prompt = `Based on the following context, answer the question: "${query}"
 
 Context:
@@ -238,14 +269,14 @@ ${context}
 
 Please provide a comprehensive answer based only on the information provided in the context. If the context doesn't contain enough information to answer the question, please say so.`;
 
-    const answer = await askGemini(prompt);
+    const answer = await askLLM(prompt);
 
     return {
       answer,
       sources: chunks.map((chunk) => ({
         content: chunk.content,
         pageNum: chunk.pageNum,
-        pdfTitle: chunk.pdf.title
+        pdfTitle: chunk.pdfTitle
       }))
     };
   } catch (error) {
@@ -0,0 +1,160 @@
+/**
+ * Reranking stage for retrieved chunks
+ *
+ * Retrieval over-fetches candidates; the reranker scores each one against the
+ * query and keeps the best N in relevance order. LLM scoring costs an extra
+ * model call per chat turn, so it is only used when asked for. The mode is
+ * set with RERANK_MODE:
+ * - lexical (default): local BM25 over the candidate set, no network
+ * - llm: score with the configured LLM provider (falls back to lexical on failure)
+ * - auto: LLM scoring when a model is configured, otherwise lexical
+ * - off: keep retrieval order
+ */
+
+import { getLLMProvider } from './llm';
+
+export type RerankMode = 'auto' | 'llm' | 'lexical' | 'off';
+
+export interface RerankCandidate {
+  id: string;
+  content: string;
+}
+
+export type Reranked<T> = T & { rerankScore: number };
+
+// Retrieval fetches this many candidates per chunk that is finally kept
+export const RERANK_CANDIDATE_MULTIPLIER = 3;
+
+// Passages are truncated in the scoring prompt to bound its size
+const LLM_PASSAGE_MAX_CHARS = 800;
+
+// BM25 parameters
+const BM25_K1 = 1.2;
+const BM25_B = 0.75;
+
+const STOPWORDS = new Set([
+  'a', 'an', 'and', 'are', 'as', 'at', 'be', 'by', 'does', 'for', 'from', 'how', 'in', 'is', 'it',
+  'of', 'on', 'or', 'that', 'the', 'this', 'to', 'was', 'what', 'when', 'where', 'which', 'who', 'why', 'with',
+]);
+
+export function getRerankMode(): RerankMode {
+  const mode = process.env.RERANK_MODE || 'lexical';
+  if (mode === 'auto' || mode === 'llm' || mode === 'lexical' || mode === 'off') {
+    return mode;
+  }
+  console.warn(`Unknown rerank mode: ${mode}, falling back to lexical`);
+  return 'lexical';
+}
+
+function tokenize(text: string): string[] {
+  return (text.toLowerCase().match(/[\p{L}\p{N}]+/gu) || []).filter(term => !STOPWORDS.has(term));
+}
+
+/**
+ * Score candidates with BM25, treating the candidate set as the corpus.
+ * Scores are normalised to 0..1 relative to the best candidate.
+ */
+export function lexicalScores(query: string, candidates: RerankCandidate[]): number[] {
+  const queryTerms = [...new Set(tokenize(query))];
+  if (queryTerms.length === 0 || candidates.length === 0) {
+    return candidates.map(() => 0);
+  }
+
+  const docs = candidates.map(candidate => tokenize(candidate.content));
+  const avgLength = docs.reduce((sum, doc) => sum + doc.length, 0) / docs.length || 1;
+
+  const documentFrequency = new Map<string, number>();
+  for (const term of queryTerms) {
+    documentFrequency.set(term, docs.filter(doc => doc.includes(term)).length);
+  }
+
+  const raw = docs.map(doc => {
+    const termCounts = new Map<string, number>();
+    for (const term of doc) termCounts.set(term, (termCounts.get(term) || 0) + 1);
+
+    return queryTerms.reduce((score, term) => {
+      const tf = termCounts.get(term) || 0;
+      if (tf === 0) return score;
+      const df = documentFrequency.get(term) || 0;
+      const idf = Math.log(1 + (docs.length - df + 0.5) / (df + 0.5));
+      return score + idf * (tf * (BM25_K1 + 1)) / (tf + BM25_K1 * (1 - BM25_B + BM25_B * doc.length / avgLength));
+    }, 0);
+  });
+
+  const max = Math.max(...raw);
+  return raw.map(score => (max > 0 ? score / max : 0));
+}
+
+/**
+ * Ask the LLM to grade every passage 0-10 in a single call. Scores are
+ * returned normalised to 0..1; throws when the reply can't be parsed.
+ */
+async function llmScores(query: string, candidates: RerankCandidate[]): Promise<number[]> {
+  const passages = candidates
+    .map((candidate, index) => `[${index}] ${candidate.content.slice(0, LLM_PASSAGE_MAX_CHARS).replace(/\s+/g, ' ')}`)
+    .join('\n\n');
+
+  const prompt = `Rate how useful each passage is for answering the question, from 0 (irrelevant) to 10 (directly answers it).
+
+QUESTION: ${query}
+
+PASSAGES:
+${passages}
+
+Return ONLY a JSON array with one entry per passage, like [{"index": 0, "score": 7}].`;
+
+  const reply = await getLLMProvider().generate(
+    [{ role: 'user', content: prompt }],
+    { temperature: 0, maxTokens: 20 * candidates.length + 50 }
+  );
+
+  const jsonMatch = reply.match(/\[[\s\S]*\]/);
+  if (!jsonMatch) {
+    throw new Error('No JSON array found in rerank response');
+  }
+
+  const scores = candidates.map(() => 0);
+  for (const entry of JSON.parse(jsonMatch[0]) as Array<{ index?: unknown; score?: unknown }>) {
+    const index = Number(entry.index);
+    const score = Number(entry.score);
+    if (Number.isInteger(index) && index >= 0 && index < scores.length && Number.isFinite(score)) {
+      scores[index] = Math.min(10, Math.max(0, score)) / 10;
+    }
+  }
+  return scores;
+}
+
+/**
+ * Rerank candidates against the query and keep the best `topN`, most
+ * relevant first. Ties keep their retrieval order.
+ */
+export async function rerankChunks<T extends RerankCandidate>(
+  query: string,
+  candidates: T[],
+  topN: number,
+  mode: RerankMode = getRerankMode()
+): Promise<Reranked<T>[]> {
+  if (mode === 'off' || candidates.length === 0) {
+    return candidates.slice(0, topN).map(candidate => ({ ...candidate, rerankScore: 0 }));
+  }
+
+  let scores: number[];
+  const useLLM = mode === 'llm' || (mode === 'auto' && getLLMProvider().isConfigured() && getLLMProvider().name !== 'fake');
+
+  if (useLLM) {
+    try {
+      scores = await llmScores(query, candidates);
+    } catch (error) {
+      console.warn('LLM reranking failed, using lexical scores:', error);
+      scores = lexicalScores(query, candidates);
+    }
+  } else {
+    scores = lexicalScores(query, candidates);
+  }
+
+  return candidates
+    .map((candidate, index) => ({ candidate, index, score: scores[index] }))
+    .sort((a, b) => b.score - a.score || a.index - b.index)
+    .slice(0, topN)
+    .map(({ candidate, score }) => ({ ...candidate, rerankScore: score }));
+}
@@ -0,0 +1,274 @@
+import { after, before, describe, test } from 'node:test';
+import assert from 'node:assert/strict';
+import { PGlite } from '@electric-sql/pglite';
+import { vector } from '@electric-sql/pglite-pgvector';
+import type { EmbeddingVersion, Prisma } from '@prisma/client';
+import {
+  keywordChunksSql,
+  MAX_EXACT_SEARCH_PDFS,
+  nearestChunksSql,
+  type RetrievedChunk,
+  type SearchScope,
+} from './retrieval-queries';
+import { vectorIndexMethodSql, vectorIndexName } from './vector-index';
+
+// The tables and columns the queries read, as the migrations leave them
+const SCHEMA = `
+  CREATE EXTENSION vector;
+  CREATE TABLE "PDF" (
+    id text PRIMARY KEY,
+    title text NOT NULL,
+    "contentHash" text,
+    "ownerId" text,
+    visibility text NOT NULL DEFAULT 'private',
+    "archivedAt" timestamp(3),
+    "deletedAt" timestamp(3)
+  );
+  CREATE TABLE "PdfShare" ("pdfId" text NOT NULL REFERENCES "PDF"(id), "userId" text NOT NULL, PRIMARY KEY ("pdfId", "userId"));
+  CREATE TABLE "Chunk" (
+    id text PRIMARY KEY,
+    content text NOT NULL,
+    "pageNum" integer NOT NULL,
+    location jsonb,
+    "sectionPath" text,
+    "pdfId" text NOT NULL REFERENCES "PDF"(id)
+  );
+  CREATE TABLE "ChunkEmbedding" (
+    "chunkId" text NOT NULL REFERENCES "Chunk"(id),
+    "versionId" text NOT NULL,
+    embedding vector NOT NULL,
+    PRIMARY KEY ("chunkId", "versionId")
+  );
+`;
+
+// owner's documents: a (private), b (shared with reader); c, d and e are public,
+// d archived and e in the trash; s is stranger's and private
+const PDFS = [
+  { id: 'pdf_a', ownerId: 'owner', visibility: 'private' },
+  { id: 'pdf_b', ownerId: 'owner', visibility: 'shared' },
+  { id: 'pdf_c', ownerId: 'owner', visibility: 'public' },
+  { id: 'pdf_d', ownerId: 'owner', visibility: 'public', archived: true },
+  { id: 'pdf_e', ownerId: 'owner', visibility: 'public', deleted: true },
+  { id: 'pdf_s', ownerId: 'stranger', visibility: 'private' },
+];
+
+const PLANTS = 'Photosynthesis turns light into sugar in plants.';
+
+// Vectors are compared with QUERY = [1, 0, 0]; c1 and c2 tie, as do c0, c1 and c2 for keywords
+const CHUNKS = [
+  { id: 'a1', pdfId: 'pdf_a', pageNum: 1, content: PLANTS, embedding: [1, 0, 0] },
+  { id: 'b1', pdfId: 'pdf_b', pageNum: 1, content: 'Photosynthesis, and photosynthesis again.', embedding: [1, 0.1, 0] },
+  { id: 'c2', pdfId: 'pdf_c', pageNum: 1, content: PLANTS, embedding: [1, 0.2, 0] },
+  { id: 'c1', pdfId: 'pdf_c', pageNum: 1, content: PLANTS, embedding: [1, 0.2, 0] },
+  { id: 'c0', pdfId: 'pdf_c', pageNum: 2, content: PLANTS, embedding: null },
+  { id: 'c3', pdfId: 'pdf_c', pageNum: 3, content: 'Chloroplasts hold chlorophyll.', embedding: [0, 1, 0] },
+  { id: 'd1', pdfId: 'pdf_d', pageNum: 1, content: PLANTS, embedding: [1, 0, 0] },
+  { id: 'e1', pdfId: 'pdf_e', pageNum: 1, content: PLANTS, embedding: [1, 0, 0] },
+  { id: 's1', pdfId: 'pdf_s', pageNum: 1, content: PLANTS, embedding: [1, 0, 0] },
+];
+
+const QUERY = [1, 0, 0];
+
+function embeddingVersion(id: string): EmbeddingVersion {
+  return {
+    id,
+    provider: 'fake',
+    model: 'fake-embedding',
+    dimensions: 3,
+    requestedDimensions: null,
+    baseUrl: null,
+    status: 'active',
+    createdAt: new Date(),
+    activatedAt: new Date(),
+  };
+}
+
+const VERSION = embeddingVersion('v1');
+
+let db: PGlite;
+
+async function run(sql: Prisma.Sql): Promise<RetrievedChunk[]> {
+  return (await db.query<RetrievedChunk>(sql.text, sql.values)).rows;
+}
+
+async function ids(sql: Prisma.Sql): Promise<string[]> {
+  return (await run(sql)).map(chunk => chunk.id);
+}
+
+function nearest(scope: SearchScope, limit = 10, threshold = 0): Prisma.Sql {
+  return nearestChunksSql(QUERY, VERSION, scope, limit, threshold);
+}
+
+function keyword(scope: SearchScope, limit = 10): Prisma.Sql {
+  return keywordChunksSql('photosynthesis', scope, limit);
+}
+
+before(async () => {
+  db = new PGlite({ extensions: { vector } });
+  await db.exec(SCHEMA);
+
+  for (const pdf of PDFS) {
+    await db.query(
+      `INSERT INTO "PDF" (id, title, "ownerId", visibility, "archivedAt", "deletedAt") VALUES ($1, $2, $3, $4, $5, $6)`,
+      [pdf.id, pdf.id.toUpperCase(), pdf.ownerId, pdf.visibility, pdf.archived ? new Date() : null, pdf.deleted ? new Date() : null]
+    );
+  }
+  await db.query(`INSERT INTO "PdfShare" ("pdfId", "userId") VALUES ('pdf_b', 'reader')`);
+
+  for (const chunk of CHUNKS) {
+    await db.query(
+      `INSERT INTO "Chunk" (id, content, "pageNum", "pdfId") VALUES ($1, $2, $3, $4)`,
+      [chunk.id, chunk.content, chunk.pageNum, chunk.pdfId]
+    );
+    if (chunk.embedding) {
+      await db.query(
+        `INSERT INTO "ChunkEmbedding" ("chunkId", "versionId", embedding) VALUES ($1, $2, $3::vector)`,
+        [chunk.id, VERSION.id, JSON.stringify(chunk.embedding)]
+      );
+    }
+  }
+});
+
+after(async () => {
+  await db.close();
+});
+
+describe('nearestChunksSql', () => {
+  test('returns the readable chunks by similarity, ties broken by id', async () => {
+    const chunks = await run(nearest({ userId: 'reader' }));
+
+    assert.deepEqual(chunks.map(chunk => chunk.id), ['b1', 'c1', 'c2']);
+    assert.equal(chunks[0].pdfTitle, 'PDF_B');
+    assert.ok(chunks[0].score > chunks[1].score);
+    assert.equal(chunks[1].score, chunks[2].score);
+  });
+
+  test('only returns chunks of documents the user may read', async () => {
+    assert.deepEqual(await ids(nearest({ userId: 'owner' })), ['a1', 'b1', 'c1', 'c2']);
+    assert.deepEqual(await ids(nearest({ userId: 'stranger' })), ['s1', 'c1', 'c2']);
+    assert.deepEqual(await ids(nearest({ userId: null })), ['c1', 'c2']);
+  });
+
+  test('leaves archived documents out unless they are asked for by id', async () => {
+    assert.ok(!(await ids(nearest({ userId: 'reader' }))).includes('d1'));
+    assert.deepEqual(await ids(nearest({ userId: 'reader', pdfIds: ['pdf_d', 'pdf_c'] })), ['d1', 'c1', 'c2']);
+  });
+
+  test('keeps access control and the trash for documents asked for by id', async () => {
+    assert.deepEqual(await ids(nearest({ userId: 'reader', pdfIds: ['pdf_a', 'pdf_e', 'pdf_s'] })), []);
+    assert.deepEqual(await ids(nearest({ userId: 'reader', pdfIds: ['pdf_b'] })), ['b1']);
+  });
+
+  test('leaves excluded chunks out', async () => {
+    assert.deepEqual(await ids(nearest({ userId: 'reader', excludeChunkIds: ['c1'] })), ['b1', 'c2']);
+    assert.deepEqual(await ids(nearest({ userId: 'reader', pdfIds: ['pdf_c'], excludeChunkIds: ['c2', 'c3'] })), ['c1']);
+  });
+
+  test('applies the limit after ordering and the threshold to the similarity', async () => {
+    assert.deepEqual(await ids(nearest({ userId: 'reader' }, 2)), ['b1', 'c1']);
+    assert.deepEqual(await ids(nearest({ userId: 'reader', pdfIds: ['pdf_c'] }, 10, -1)), ['c1', 'c2', 'c3']);
+    assert.deepEqual(await ids(nearest({ userId: 'reader' }, 10, 0.99)), ['b1']);
+  });
+});
+
+describe('nearestChunksSql with an HNSW index', () => {
+  const indexed = embeddingVersion('v2');
+
+  before(async () => {
+    // stranger's chunks crowd the reader's out of the index's nearest candidates
+    await db.exec(`
+      INSERT INTO "Chunk" (id, content, "pageNum", "pdfId")
+      SELECT 'n' || lpad(g::text, 3, '0'), 'Near', 1, 'pdf_s' FROM generate_series(1, 300) g;
+      INSERT INTO "ChunkEmbedding" ("chunkId", "versionId", embedding)
+      SELECT 'n' || lpad(g::text, 3, '0'), 'v2', ('[1,' || (g / 1000.0) || ',0]')::vector FROM generate_series(1, 300) g;
+      INSERT INTO "ChunkEmbedding" ("chunkId", "versionId", embedding)
+      SELECT "chunkId", 'v2', embedding FROM "ChunkEmbedding" WHERE "chunkId" IN ('c1', 'c2', 'c3');
+      CREATE INDEX "${vectorIndexName(indexed, 'hnsw')}" ON "ChunkEmbedding"
+        ${vectorIndexMethodSql('hnsw', 'embedding::vector(3)')} WHERE "versionId" = 'v2';
+    `);
+  });
+
+  // The search under per-query settings, as queryNearestChunks runs it; the
+  // tables are too small for the planner to prefer the index on its own
+  async function search(sql: Prisma.Sql, settings: Record<string, string>, explain = false) {
+    return db.transaction(async tx => {
+      for (const [name, value] of Object.entries({ enable_seqscan: 'off', ...settings })) {
+        await tx.query('SELECT set_config($1, $2, true)', [name, value]);
+      }
+      return tx.query<Record<string, string>>(explain ? `EXPLAIN ${sql.text}` : sql.text, sql.values);
+    });
+  }
+
+  async function plan(sql: Prisma.Sql): Promise<string> {
+    const { rows } = await search(sql, {}, true);
+    return rows.map(row => Object.values(row)[0]).join('\n');
+  }
+
+  test('walks the index for unscoped searches and not for scoped ones', async () => {
+    const name = vectorIndexName(indexed, 'hnsw');
+    assert.match(await plan(nearestChunksSql(QUERY, indexed, { userId: 'reader' }, 3, -1)), new RegExp(name));
+    assert.doesNotMatch(await plan(nearestChunksSql(QUERY, indexed, { userId: 'reader', pdfIds: ['pdf_c'] }, 3, -1)), new RegExp(name));
+  });
+
+  test('fills unscoped searches past inaccessible candidates with an iterative scan', async () => {
+    const sql = nearestChunksSql(QUERY, indexed, { userId: 'reader' }, 3, -1);
+    const { rows } = await search(sql, { 'hnsw.ef_search': '10', 'hnsw.iterative_scan': 'relaxed_order' });
+
+    assert.deepEqual(rows.map(row => row.id), ['c1', 'c2', 'c3']);
+  });
+
+  test('returns every chunk in scope for scoped searches, however crowded the index', async () => {
+    const sql = nearestChunksSql(QUERY, indexed, { userId: 'reader', pdfIds: ['pdf_c'] }, 3, -1);
+    const { rows } = await search(sql, { 'hnsw.ef_search': '10' });
+
+    assert.deepEqual(rows.map(row => row.id), ['c1', 'c2', 'c3']);
+  });
+
+  // pdf_c among ids of documents that don't exist, one more than are searched exactly
+  const largeScope = ['pdf_c', ...Array.from({ length: MAX_EXACT_SEARCH_PDFS }, (_, i) => `pdf_missing_${i}`)];
+
+  test('walks the index for searches scoped to more documents than are searched exactly', async () => {
+    const name = vectorIndexName(indexed, 'hnsw');
+    assert.match(await plan(nearestChunksSql(QUERY, indexed, { userId: 'reader', pdfIds: largeScope }, 3, -1)), new RegExp(name));
+    assert.doesNotMatch(
+      await plan(nearestChunksSql(QUERY, indexed, { userId: 'reader', pdfIds: largeScope.slice(0, MAX_EXACT_SEARCH_PDFS) }, 3, -1)),
+      new RegExp(name)
+    );
+  });
+
+  test('fills large scopes past candidates outside them with an iterative scan', async () => {
+    const sql = nearestChunksSql(QUERY, indexed, { userId: 'owner', pdfIds: largeScope }, 3, -1);
+    const { rows } = await search(sql, { 'hnsw.ef_search': '10', 'hnsw.iterative_scan': 'relaxed_order' });
+
+    assert.deepEqual(rows.map(row => row.id), ['c1', 'c2', 'c3']);
+  });
+});
+
+describe('keywordChunksSql', () => {
+  test('returns the readable matches by rank, ties broken by page then id', async () => {
+    const chunks = await run(keyword({ userId: 'reader' }));
+
+    assert.deepEqual(chunks.map(chunk => chunk.id), ['b1', 'c1', 'c2', 'c0']);
+    assert.ok(chunks[0].score > chunks[1].score);
+    assert.equal(chunks[1].score, chunks[3].score);
+  });
+
+  test('only returns chunks of documents the user may read', async () => {
+    assert.deepEqual(await ids(keyword({ userId: 'owner' })), ['b1', 'a1', 'c1', 'c2', 'c0']);
+    assert.deepEqual(await ids(keyword({ userId: null })), ['c1', 'c2', 'c0']);
+  });
+
+  test('leaves archived documents out unless they are asked for by id', async () => {
+    assert.ok(!(await ids(keyword({ userId: 'reader' }))).includes('d1'));
+    assert.deepEqual(await ids(keyword({ userId: 'reader', pdfIds: ['pdf_d'] })), ['d1']);
+  });
+
+  test('keeps access control and the trash for documents asked for by id', async () => {
+    assert.deepEqual(await ids(keyword({ userId: 'reader', pdfIds: ['pdf_a', 'pdf_e', 'pdf_s'] })), []);
+  });
+
+  test('leaves excluded chunks out and applies the limit after ordering', async () => {
+    assert.deepEqual(await ids(keyword({ userId: 'reader', excludeChunkIds: ['b1', 'c1'] })), ['c2', 'c0']);
+    assert.deepEqual(await ids(keyword({ userId: 'reader', pdfIds: ['pdf_c'] }, 2)), ['c1', 'c2']);
+  });
+});
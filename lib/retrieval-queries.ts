@@ -0,0 +1,201 @@
+/**
+ * Retrieval queries: the SQL behind vector and keyword search
+ *
+ * Every query returns the chunk, its document's title and content hash,
+ * and the score it was ranked by in one round trip, so search, chat and RAG
+ * never look chunks or documents up again afterwards. Values are always
+ * bound as parameters and lists as a single array parameter; the only text
+ * written into the SQL is the embedding version's id and size, which the
+ * version's ANN index needs as literals (validated in lib/vector-index.ts).
+ *
+ * Results are ordered by score, best first, with ties broken by chunk id
+ * (after page, for keyword queries) so they come back in the same order
+ * every time.
+ *
+ * nearestChunksSql and keywordChunksSql build the SQL without running it;
+ * queryNearestChunks and queryKeywordChunks run it.
+ */
+
+import { Prisma, type EmbeddingVersion } from '@prisma/client';
+import { prisma } from './prisma';
+import { pdfAccessSql } from './access';
+import { formatVectorForDB } from './embeddings';
+import { vectorSearchSettings, versionSearchSql } from './vector-index';
+import type { ChunkLocation } from './chunking';
+
+export interface RetrievedChunk {
+  id: string;
+  content: string;
+  pageNum: number;
+  location: ChunkLocation | null; // slide, section or line range, for non-PDF documents
+  sectionPath: string | null;
+  pdfId: string;
+  pdfTitle: string;
+  contentHash: string | null; // SHA-256 of the document's file, shared by identical copies
+  score: number; // cosine similarity (vector queries) or ts_rank_cd (keyword queries)
+}
+
+/**
+ * Who is searching and, optionally, which PDFs to restrict the search to
+ * and which chunks to leave out (e.g. ones already shown). Only chunks of
+ * PDFs the user may read are ever returned.
+ */
+export interface SearchScope {
+  userId: string | null;
+  pdfIds?: string[];
+  excludeChunkIds?: string[];
+}
+
+// Columns every query returns, from "Chunk" c JOIN "PDF" p
+const CHUNK_COLUMNS = Prisma.sql`
+  c.id,
+  c.content,
+  c."pageNum",
+  c.location,
+  c."sectionPath",
+  c."pdfId",
+  p.title AS "pdfTitle",
+  p."contentHash"`;
+
+/**
+ * The scope as conditions on "Chunk" c JOIN "PDF" p: access control, the
+ * PDF restriction and excluded chunks
+ */
+function scopeConditions(scope: SearchScope): Prisma.Sql {
+  const conditions = [pdfAccessSql('p', scope.userId)];
+
+  if (scope.pdfIds && scope.pdfIds.length > 0) {
+    conditions.push(Prisma.sql`c."pdfId" = ANY(${scope.pdfIds}::text[])`);
+  } else {
+    // Archived documents are only searched when asked for by id
+    conditions.push(Prisma.sql`p."archivedAt" IS NULL`);
+  }
+
+  if (scope.excludeChunkIds && scope.excludeChunkIds.length > 0) {
+    conditions.push(Prisma.sql`c.id <> ALL(${scope.excludeChunkIds}::text[])`);
+  }
+
+  return Prisma.join(conditions, ' AND ');
+}
+
+// Searches scoped to at most this many documents compare the query with
+// every chunk in scope; larger scopes (e.g. a big collection) walk the index
+export const MAX_EXACT_SEARCH_PDFS = 20;
+
+function searchesExactly(scope: SearchScope): boolean {
+  return !!scope.pdfIds && scope.pdfIds.length > 0 && scope.pdfIds.length <= MAX_EXACT_SEARCH_PDFS;
+}
+
+/**
+ * The chunks in scope nearest to a query vector in an embedding version,
+ * with a cosine similarity above the threshold. The version's size must be
+ * known.
+ *
+ * Unscoped searches take the nearest `limit` chunks ordered by the
+ * expression the version's ANN index is built on, so they walk the index
+ * rather than scanning; the threshold is applied to those few rows
+ * afterwards. Results are approximate, tuned per query with
+ * vectorSearchSettings. Searches scoped to up to MAX_EXACT_SEARCH_PDFS
+ * documents are exact instead: their chunks are a small part of a shared
+ * library, and an index scan filtered down to them could come back short.
+ * The chunks in scope are compared with the query first (the MATERIALIZED
+ * CTE keeps the planner from ordering through the index), then the nearest
+ * are taken. Larger scopes walk the index like unscoped searches, filtered
+ * to their documents, so a big collection doesn't make every search a full
+ * scan of its chunks; the iterative scan fills them past the candidates
+ * outside the scope.
+ */
+export function nearestChunksSql(
+  embedding: number[],
+  version: EmbeddingVersion,
+  scope: SearchScope,
+  limit: number,
+  threshold: number
+): Prisma.Sql {
+  const { distance, filter } = versionSearchSql('e', version, formatVectorForDB(embedding));
+  const inScope = Prisma.sql`
+    SELECT ${CHUNK_COLUMNS}, ${distance} AS distance
+    FROM "ChunkEmbedding" e
+    JOIN "Chunk" c ON c.id = e."chunkId"
+    JOIN "PDF" p ON p.id = c."pdfId"
+    WHERE ${filter}
+      AND ${scopeConditions(scope)}`;
+  const nearest = searchesExactly(scope)
+    ? Prisma.sql`
+      WITH in_scope AS MATERIALIZED (${inScope})
+      SELECT * FROM in_scope
+      ORDER BY distance, id
+      LIMIT ${limit}`
+    : Prisma.sql`${inScope}
+      ORDER BY distance, c.id
+      LIMIT ${limit}`;
+
+  return Prisma.sql`
+    SELECT
+      nearest.id,
+      nearest.content,
+      nearest."pageNum",
+      nearest.location,
+      nearest."sectionPath",
+      nearest."pdfId",
+      nearest."pdfTitle",
+      nearest."contentHash",
+      1 - nearest.distance AS score
+    FROM (${nearest}) nearest
+    WHERE 1 - nearest.distance > ${threshold}
+    ORDER BY nearest.distance, nearest.id
+  `;
+}
+
+/**
+ * Run nearestChunksSql, with the index's search settings for searches that
+ * walk the index
+ */
+export async function queryNearestChunks(
+  embedding: number[],
+  version: EmbeddingVersion,
+  scope: SearchScope,
+  limit: number,
+  threshold: number
+): Promise<RetrievedChunk[]> {
+  // No vectors stored in this version yet
+  if (!version.dimensions) return [];
+
+  const search = prisma.$queryRaw<RetrievedChunk[]>(nearestChunksSql(embedding, version, scope, limit, threshold));
+
+  // Settings are local to the transaction, so they don't leak into pooled connections
+  const settings = searchesExactly(scope) ? [] : Object.entries(await vectorSearchSettings(limit));
+  if (settings.length === 0) return search;
+
+  const results = await prisma.$transaction([
+    ...settings.map(([name, value]) => prisma.$queryRaw`SELECT set_config(${name}, ${value}, true)`),
+    search,
+  ]);
+  return results[results.length - 1] as RetrievedChunk[];
+}
+
+/**
+ * The chunks in scope matching a tsquery, ranked with ts_rank_cd (cover
+ * density). Backed by the GIN index on to_tsvector('english', content).
+ */
+export function keywordChunksSql(tsQuery: string, scope: SearchScope, limit: number): Prisma.Sql {
+  return Prisma.sql`
+    SELECT
+      ${CHUNK_COLUMNS},
+      ts_rank_cd(to_tsvector('english', c.content), to_tsquery('english', ${tsQuery}))::float8 AS score
+    FROM "Chunk" c
+    JOIN "PDF" p ON p.id = c."pdfId"
+    WHERE to_tsvector('english', c.content) @@ to_tsquery('english', ${tsQuery})
+      AND ${scopeConditions(scope)}
+    ORDER BY score DESC, c."pageNum", c.id
+    LIMIT ${limit}
+  `;
+}
+
+export async function queryKeywordChunks(
+  tsQuery: string,
+  scope: SearchScope,
+  limit: number
+): Promise<RetrievedChunk[]> {
+  return prisma.$queryRaw<RetrievedChunk[]>(keywordChunksSql(tsQuery, scope, limit));
+}
@@ -0,0 +1,66 @@
+/**
+ * Server-Sent Events helpers
+ *
+ * Used both to read upstream model streams and to produce/consume the
+ * /api/chat stream, so this module must stay free of server-only imports.
+ */
+
+export interface SSEEvent {
+  event: string;
+  data: string;
+}
+
+/**
+ * Format a single SSE frame; `data` is JSON-encoded
+ */
+export function formatSSE(event: string, data: unknown): string {
+  return `event: ${event}\ndata: ${JSON.stringify(data)}\n\n`;
+}
+
+/**
+ * Parse an SSE byte stream into events. Events without an explicit
+ * `event:` field are reported as "message".
+ */
+export async function* parseSSE(body: ReadableStream<Uint8Array>): AsyncGenerator<SSEEvent, void, unknown> {
+  const reader = body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = '';
+
+  try {
+    while (true) {
+      const { done, value } = await reader.read();
+      if (done) break;
+      buffer += decoder.decode(value, { stream: true });
+
+      // Frames are separated by a blank line
+      let boundary = buffer.search(/\r?\n\r?\n/);
+      while (boundary !== -1) {
+        const frame = buffer.slice(0, boundary);
+        buffer = buffer.slice(boundary).replace(/^\r?\n\r?\n/, '');
+        const parsed = parseFrame(frame);
+        if (parsed) yield parsed;
+        boundary = buffer.search(/\r?\n\r?\n/);
+      }
+    }
+
+    const parsed = parseFrame(buffer + decoder.decode());
+    if (parsed) yield parsed;
+  } finally {
+    reader.releaseLock();
+  }
+}
+
+function parseFrame(frame: string): SSEEvent | null {
+  let event = 'message';
+  const data: string[] = [];
+
+  for (const line of frame.split(/\r?\n/)) {
+    if (line.startsWith('event:')) {
+      event = line.slice(6).trim();
+    } else if (line.startsWith('data:')) {
+      data.push(line.slice(5).replace(/^ /, ''));
+    }
+  }
+
+  return data.length > 0 ? { event, data: data.join('\n') } : null;
+}
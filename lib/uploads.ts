@@ -0,0 +1,296 @@
+/**
+ * Resumable uploads for files larger than a single request body
+ *
+ * A client creates a session with the file's name, size and SHA-256, PUTs the
+ * file in fixed-size parts (in any order, retrying any that fail), and then
+ * completes the session. Parts are kept in FileStorage until completion, with
+ * a row in "UploadPart" for each, so an interrupted upload resumes by asking
+ * which parts arrived and sending the rest. Completion streams the parts
+ * into the document's file one at a time, hashing them on the way, and
+ * checks the result against the declared checksum before it becomes a
+ * document. A completion that dies half-way (e.g. the process crashed) can
+ * be retried once COMPLETION_TIMEOUT_MS has passed.
+ */
+
+import { createHash } from 'crypto';
+import type { IngestionJob, UploadSession } from '@prisma/client';
+import { prisma } from './prisma';
+import { getLatestJobs } from './jobs';
+import { createStoredDocument, documentStorageKey } from './documents';
+import { getFileStorage } from './file-storage';
+import { storedChunkingSettings, type ChunkingSettings } from './chunking';
+import { ACCEPTED_FILE_EXTENSIONS, detectDocumentFormat, formatMimeType, type DocumentFormat } from './document-formats';
+
+/**
+ * A request that can't be applied to an upload. `status` is the HTTP status
+ * to report.
+ */
+export class UploadError extends Error {
+  constructor(message: string, public status: number = 400) {
+    super(message);
+    this.name = 'UploadError';
+  }
+}
+
+// Stays under the 4.5MB request body limit on Vercel
+export const UPLOAD_PART_SIZE = 4 * 1024 * 1024;
+
+const DEFAULT_MAX_UPLOAD_BYTES = 250 * 1024 * 1024;
+
+// Unfinished sessions are deleted, parts and all, this long after creation
+const SESSION_TTL_MS = 24 * 60 * 60 * 1000;
+
+// A session still completing after this long was abandoned and can be completed again
+const COMPLETION_TIMEOUT_MS = 10 * 60 * 1000;
+
+const SHA256_HEX = /^[a-f0-9]{64}$/;
+
+export function getMaxUploadBytes(): number {
+  return parseInt(process.env.UPLOAD_MAX_BYTES || String(DEFAULT_MAX_UPLOAD_BYTES));
+}
+
+export function partCount(session: Pick<UploadSession, 'fileSize' | 'partSize'>): number {
+  return Math.max(1, Math.ceil(session.fileSize / session.partSize));
+}
+
+/**
+ * Size a part must have: partSize, except for the last part
+ */
+export function expectedPartSize(session: Pick<UploadSession, 'fileSize' | 'partSize'>, partNumber: number): number {
+  return Math.min(session.partSize, session.fileSize - (partNumber - 1) * session.partSize);
+}
+
+function partStorageKey(sessionId: string, partNumber: number): string {
+  return `uploads/${sessionId}/${partNumber}`;
+}
+
+/**
+ * Start a resumable upload. Also clears out expired sessions.
+ */
+export async function createUploadSession(
+  ownerId: string,
+  input: { fileName: unknown; fileSize: unknown; mimeType?: unknown; checksum: unknown; chunking: ChunkingSettings }
+): Promise<UploadSession> {
+  const fileName = typeof input.fileName === 'string' ? input.fileName.trim() : '';
+  if (!fileName) throw new UploadError('fileName is required');
+
+  const format = detectDocumentFormat(fileName, typeof input.mimeType === 'string' ? input.mimeType : '');
+  if (!format) throw new UploadError(`Unsupported file type. Supported files: ${ACCEPTED_FILE_EXTENSIONS.join(', ')}`);
+
+  const fileSize = Number(input.fileSize);
+  if (!Number.isInteger(fileSize) || fileSize <= 0) throw new UploadError('fileSize must be a positive whole number of bytes');
+  const maxBytes = getMaxUploadBytes();
+  if (fileSize > maxBytes) {
+    throw new UploadError(`File too large. Maximum size is ${(maxBytes / 1024 / 1024).toFixed(0)}MB.`, 413);
+  }
+
+  const checksum = typeof input.checksum === 'string' ? input.checksum.toLowerCase() : '';
+  if (!SHA256_HEX.test(checksum)) throw new UploadError('checksum must be the hex SHA-256 of the file');
+
+  const expired = await prisma.uploadSession.findMany({
+    where: { expiresAt: { lt: new Date() }, status: { not: 'completed' } },
+  });
+  for (const session of expired) {
+    await deleteUploadSession(session);
+  }
+
+  return prisma.uploadSession.create({
+    data: {
+      ownerId,
+      fileName,
+      fileSize,
+      format,
+      checksum,
+      partSize: UPLOAD_PART_SIZE,
+      chunkingStrategy: input.chunking.strategy,
+      chunkingOptions: JSON.parse(JSON.stringify(input.chunking.options)),
+      expiresAt: new Date(Date.now() + SESSION_TTL_MS),
+    },
+  });
+}
+
+/**
+ * A session owned by the user, or null if there is none (or it expired
+ * before completing)
+ */
+export async function getUploadSession(id: string, ownerId: string): Promise<UploadSession | null> {
+  const session = await prisma.uploadSession.findUnique({ where: { id } });
+  if (!session || session.ownerId !== ownerId) return null;
+  if (session.status !== 'completed' && session.expiresAt < new Date()) return null;
+  return session;
+}
+
+/**
+ * Numbers of the parts received so far, in order
+ */
+export async function getReceivedParts(sessionId: string): Promise<number[]> {
+  const parts = await prisma.uploadPart.findMany({
+    where: { sessionId },
+    select: { partNumber: true },
+    orderBy: { partNumber: 'asc' },
+  });
+  return parts.map(part => part.partNumber);
+}
+
+/**
+ * Store one part, replacing any earlier copy so retries are safe. When the
+ * client sends the part's SHA-256 (hex), the part is rejected if it doesn't
+ * match.
+ */
+export async function savePart(session: UploadSession, partNumber: number, data: Buffer, checksum?: string | null): Promise<string> {
+  if (session.status !== 'uploading') throw new UploadError('Upload is no longer accepting parts', 409);
+
+  if (!Number.isInteger(partNumber) || partNumber < 1 || partNumber > partCount(session)) {
+    throw new UploadError(`Part number must be between 1 and ${partCount(session)}`);
+  }
+
+  const expected = expectedPartSize(session, partNumber);
+  if (data.length !== expected) {
+    throw new UploadError(`Part ${partNumber} must be ${expected} bytes, got ${data.length}`);
+  }
+
+  const digest = createHash('sha256').update(data).digest('hex');
+  if (checksum && checksum.toLowerCase() !== digest) {
+    throw new UploadError(`Checksum mismatch for part ${partNumber}`, 422);
+  }
+
+  // The row is written last, so a part only counts as received once it's stored
+  await getFileStorage().upload(data, partStorageKey(session.id, partNumber));
+  await prisma.uploadPart.upsert({
+    where: { sessionId_partNumber: { sessionId: session.id, partNumber } },
+    create: { sessionId: session.id, partNumber, size: data.length, checksum: digest },
+    update: { size: data.length, checksum: digest },
+  });
+  return digest;
+}
+
+/**
+ * Delete an unfinished session and its stored parts
+ */
+export async function deleteUploadSession(session: UploadSession): Promise<void> {
+  await deleteStoredParts(session);
+  await prisma.uploadSession.delete({ where: { id: session.id } }).catch(() => {});
+}
+
+async function deleteStoredParts(session: UploadSession): Promise<void> {
+  const storage = getFileStorage();
+  for (let partNumber = 1; partNumber <= partCount(session); partNumber++) {
+    await storage.delete(partStorageKey(session.id, partNumber));
+  }
+}
+
+/**
+ * Assemble the parts, verify the file's checksum and create the document.
+ * Completing an already completed session returns its document again.
+ */
+export async function completeUpload(session: UploadSession): Promise<{ pdfId: string; job: IngestionJob | null }> {
+  if (session.status === 'completed' && session.pdfId) {
+    return { pdfId: session.pdfId, job: (await getLatestJobs([session.pdfId])).get(session.pdfId) ?? null };
+  }
+
+  // Only one request gets to assemble the file, unless an earlier one was abandoned
+  const claimed = await prisma.uploadSession.updateMany({
+    where: {
+      id: session.id,
+      OR: [
+        { status: 'uploading' },
+        { status: 'completing', updatedAt: { lt: new Date(Date.now() - COMPLETION_TIMEOUT_MS) } },
+      ],
+    },
+    data: { status: 'completing' },
+  });
+  if (claimed.count === 0) throw new UploadError('Upload is already being completed', 409);
+
+  // Keyed by the session, so a retried completion overwrites an abandoned attempt's file
+  const storageKey = documentStorageKey(session.format, `upload-${session.id}`);
+  let created = false;
+
+  try {
+    // An abandoned attempt may have got as far as creating the document
+    const existing = await prisma.document.findFirst({ where: { storageKey }, select: { id: true } });
+    if (existing) {
+      created = true;
+      await finishSession(session, existing.id);
+      return { pdfId: existing.id, job: (await getLatestJobs([existing.id])).get(existing.id) ?? null };
+    }
+
+    await assembleParts(session, storageKey);
+
+    const { document, job } = await createStoredDocument({
+      title: session.fileName,
+      format: session.format as DocumentFormat,
+      ownerId: session.ownerId,
+      chunking: storedChunkingSettings(session),
+      storageKey,
+      contentHash: session.checksum,
+      fileSize: session.fileSize,
+    });
+    created = true;
+    await finishSession(session, document.id);
+
+    return { pdfId: document.id, job };
+  } catch (error) {
+    if (!created) {
+      await getFileStorage().delete(storageKey).catch(() => {});
+      await prisma.uploadSession.update({ where: { id: session.id }, data: { status: 'uploading' } });
+    }
+    throw error;
+  }
+}
+
+/**
+ * Mark a session completed with its document and delete its parts
+ */
+async function finishSession(session: UploadSession, pdfId: string): Promise<void> {
+  await prisma.$transaction([
+    prisma.uploadSession.update({ where: { id: session.id }, data: { status: 'completed', pdfId } }),
+    prisma.uploadPart.deleteMany({ where: { sessionId: session.id } }),
+  ]);
+  await deleteStoredParts(session).catch(error => console.error(`⚠️ Failed to delete parts of upload ${session.id}:`, error));
+}
+
+/**
+ * Stream a session's parts, in order and one at a time, into the file at
+ * storageKey, checking the whole file's SHA-256 as they go
+ */
+async function assembleParts(session: UploadSession, storageKey: string): Promise<void> {
+  const received = await getReceivedParts(session.id);
+  const total = partCount(session);
+  if (received.length !== total) {
+    const missing = Array.from({ length: total }, (_, i) => i + 1).filter(n => !received.includes(n));
+    throw new UploadError(`Upload is missing parts: ${missing.slice(0, 20).join(', ')}${missing.length > 20 ? ', ...' : ''}`, 409);
+  }
+
+  const storage = getFileStorage();
+  const hash = createHash('sha256');
+  async function* parts() {
+    for (let partNumber = 1; partNumber <= total; partNumber++) {
+      const data = await storage.read(partStorageKey(session.id, partNumber));
+      hash.update(data);
+      yield data;
+    }
+  }
+  await storage.uploadStream(parts(), storageKey, formatMimeType(session.format as DocumentFormat));
+
+  if (hash.digest('hex') !== session.checksum) {
+    throw new UploadError('Checksum mismatch: the assembled file does not match the declared SHA-256. Re-send the parts and complete again.', 422);
+  }
+}
+
+export function serializeUploadSession(session: UploadSession, receivedParts: number[]) {
+  return {
+    uploadId: session.id,
+    fileName: session.fileName,
+    fileSize: session.fileSize,
+    format: session.format,
+    partSize: session.partSize,
+    partCount: partCount(session),
+    receivedParts,
+    receivedBytes: session.status === 'completed'
+      ? session.fileSize
+      : receivedParts.reduce((total, partNumber) => total + expectedPartSize(session, partNumber), 0),
+    status: session.status,
+    pdfId: session.pdfId,
+    expiresAt: session.expiresAt,
+  };
+}
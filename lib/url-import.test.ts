@@ -0,0 +1,133 @@
+import { after, afterEach, before, beforeEach, test } from 'node:test';
+import assert from 'node:assert/strict';
+import http from 'node:http';
+import type { AddressInfo } from 'node:net';
+import { fetchDocumentFromUrl, UrlImportError } from './url-import';
+
+const PDF = Buffer.from('%PDF-1.4\n% test document\n');
+
+let server: http.Server;
+let origin: string;
+// Resolves when the response of /endless closes, with whether it was cut short
+let endlessClosed: Promise<boolean>;
+
+function url(path: string): URL {
+  return new URL(path, origin);
+}
+
+before(async () => {
+  server = http.createServer((request, response) => {
+    const path = request.url ?? '/';
+
+    if (path === '/paper' || path.endsWith('.pdf')) {
+      response.writeHead(200, { 'Content-Type': 'application/pdf' });
+      response.end(PDF);
+    } else if (path === '/article') {
+      response.writeHead(200, { 'Content-Type': 'text/html; charset=utf-8' });
+      response.end('<html><head><title>  Plant\n  Biology </title></head><body><p>Text</p></body></html>');
+    } else if (path === '/notes.md') {
+      response.writeHead(200, { 'Content-Type': 'application/octet-stream' });
+      response.end('# Notes\n\nSome notes.');
+    } else if (path === '/image.png') {
+      response.writeHead(200, { 'Content-Type': 'image/png' });
+      response.end(Buffer.alloc(16));
+    } else if (path.startsWith('/redirect-to-')) {
+      // The fixture has to be reachable for the first hop; from here on the
+      // server stands in for a public one redirecting to an internal address
+      process.env.URL_IMPORT_ALLOW_PRIVATE = 'false';
+      const host = path === '/redirect-to-ip' ? '127.0.0.1' : 'localhost';
+      response.writeHead(302, { Location: `http://${host}:${(server.address() as AddressInfo).port}/paper` });
+      response.end();
+    } else if (path === '/declared-large') {
+      response.writeHead(200, { 'Content-Type': 'application/pdf', 'Content-Length': '4096' });
+      response.end(Buffer.alloc(4096));
+    } else if (path === '/endless') {
+      response.writeHead(200, { 'Content-Type': 'application/pdf' });
+      endlessClosed = new Promise(resolve => response.on('close', () => resolve(!response.writableFinished)));
+      const timer = setInterval(() => response.write(Buffer.alloc(16 * 1024)), 5);
+      response.on('close', () => clearInterval(timer));
+    } else {
+      response.writeHead(404);
+      response.end();
+    }
+  });
+  await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+  origin = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+});
+
+after(async () => {
+  await new Promise(resolve => server.close(resolve));
+});
+
+// The fixture server is on loopback, so most tests allow private addresses
+beforeEach(() => {
+  process.env.URL_IMPORT_ALLOW_PRIVATE = 'true';
+});
+
+afterEach(() => {
+  delete process.env.URL_IMPORT_ALLOW_PRIVATE;
+  delete process.env.URL_IMPORT_MAX_BYTES;
+});
+
+test('fetchDocumentFromUrl rejects loopback and private addresses', async () => {
+  process.env.URL_IMPORT_ALLOW_PRIVATE = 'false';
+  const port = (server.address() as AddressInfo).port;
+
+  for (const target of [
+    `http://127.0.0.1:${port}/paper`,
+    `http://localhost:${port}/paper`,
+    `http://[::1]:${port}/paper`,
+    'http://10.1.2.3/paper',
+    'http://169.254.169.254/latest/meta-data/',
+  ]) {
+    await assert.rejects(fetchDocumentFromUrl(new URL(target)), { name: 'UrlImportError', status: 400 }, target);
+  }
+});
+
+test('fetchDocumentFromUrl rejects redirects to private addresses', async () => {
+  for (const path of ['/redirect-to-ip', '/redirect-to-localhost']) {
+    process.env.URL_IMPORT_ALLOW_PRIVATE = 'true';
+    await assert.rejects(fetchDocumentFromUrl(url(path)), (error: unknown) => {
+      assert.ok(error instanceof UrlImportError);
+      assert.equal(error.status, 400);
+      assert.match(error.message, /private address/);
+      return true;
+    }, path);
+  }
+});
+
+test('fetchDocumentFromUrl refuses bodies over URL_IMPORT_MAX_BYTES', async () => {
+  process.env.URL_IMPORT_MAX_BYTES = '1024';
+
+  await assert.rejects(fetchDocumentFromUrl(url('/declared-large')), { name: 'UrlImportError', status: 413 });
+});
+
+test('fetchDocumentFromUrl aborts a body once it passes the size limit', { timeout: 10_000 }, async () => {
+  process.env.URL_IMPORT_MAX_BYTES = String(256 * 1024);
+
+  await assert.rejects(fetchDocumentFromUrl(url('/endless')), { name: 'UrlImportError', status: 413 });
+  assert.equal(await endlessClosed, true);
+});
+
+test('fetchDocumentFromUrl detects the format from the content type, then the URL', async () => {
+  const pdf = await fetchDocumentFromUrl(url('/paper'));
+  assert.equal(pdf.format, 'pdf');
+  assert.deepEqual(pdf.data, PDF);
+  assert.equal(pdf.url, url('/paper').toString());
+
+  const html = await fetchDocumentFromUrl(url('/article'));
+  assert.equal(html.format, 'html');
+  assert.equal(html.title, 'Plant Biology');
+
+  const markdown = await fetchDocumentFromUrl(url('/notes.md'));
+  assert.equal(markdown.format, 'md');
+  assert.equal(markdown.title, 'notes.md');
+
+  await assert.rejects(fetchDocumentFromUrl(url('/image.png')), { name: 'UrlImportError', status: 415 });
+  await assert.rejects(fetchDocumentFromUrl(url('/missing')), { name: 'UrlImportError', status: 502 });
+});
+
+test('fetchDocumentFromUrl titles files with their decoded name, or the raw one when it is malformed', async () => {
+  assert.equal((await fetchDocumentFromUrl(url('/papers/Plant%20Biology.pdf'))).title, 'Plant Biology.pdf');
+  assert.equal((await fetchDocumentFromUrl(url('/papers/100%.pdf'))).title, '100%.pdf');
+});
@@ -0,0 +1,218 @@
+/**
+ * Server-side import of documents from a URL
+ *
+ * Only http(s) URLs on public addresses are fetched. Addresses are checked
+ * when each connection is made, redirects included, so a hostname that
+ * resolves (or re-resolves) to an internal address can't be used to reach
+ * internal services. Set URL_IMPORT_ALLOW_PRIVATE=true to allow private and
+ * loopback addresses, e.g. for a local development server.
+ */
+
+import http, { type IncomingMessage } from 'http';
+import https from 'https';
+import { lookup as dnsLookup, type LookupAddress } from 'dns';
+import { BlockList, isIP, type LookupFunction } from 'net';
+import { parse as parseHtml } from 'node-html-parser';
+import { detectDocumentFormat, type DocumentFormat } from './document-formats';
+
+export interface FetchedDocument {
+  url: string; // after redirects
+  title: string;
+  format: DocumentFormat;
+  data: Buffer;
+}
+
+/**
+ * A URL that can't be imported. `status` is the HTTP status to report.
+ */
+export class UrlImportError extends Error {
+  constructor(message: string, public status: number = 400) {
+    super(message);
+    this.name = 'UrlImportError';
+  }
+}
+
+// Fits inside the import route's 10s limit on Vercel Hobby
+const FETCH_TIMEOUT_MS = 8_000;
+const MAX_REDIRECTS = 5;
+const DEFAULT_MAX_IMPORT_BYTES = 10 * 1024 * 1024;
+const MAX_TITLE_LENGTH = 200;
+
+const USER_AGENT = 'BeyondChatsImporter/1.0 (+https://github.com/beyondchats)';
+
+// Loopback, private, link-local, shared, reserved and multicast ranges
+const NON_PUBLIC_ADDRESSES = new BlockList();
+for (const [network, prefix] of [
+  ['0.0.0.0', 8], ['10.0.0.0', 8], ['100.64.0.0', 10], ['127.0.0.0', 8], ['169.254.0.0', 16],
+  ['172.16.0.0', 12], ['192.0.0.0', 24], ['192.168.0.0', 16], ['198.18.0.0', 15], ['224.0.0.0', 3],
+] as const) {
+  NON_PUBLIC_ADDRESSES.addSubnet(network, prefix, 'ipv4');
+}
+for (const [network, prefix] of [
+  ['::', 127], ['::ffff:0:0', 96], ['64:ff9b::', 96], ['fc00::', 7], ['fe80::', 10], ['ff00::', 8],
+] as const) {
+  NON_PUBLIC_ADDRESSES.addSubnet(network, prefix, 'ipv6');
+}
+
+export function getMaxImportBytes(): number {
+  return parseInt(process.env.URL_IMPORT_MAX_BYTES || String(DEFAULT_MAX_IMPORT_BYTES));
+}
+
+function allowsPrivateAddresses(): boolean {
+  return process.env.URL_IMPORT_ALLOW_PRIVATE === 'true';
+}
+
+function isPublicAddress(address: string): boolean {
+  const family = isIP(address);
+  if (family === 0) return false;
+  return !NON_PUBLIC_ADDRESSES.check(address, family === 4 ? 'ipv4' : 'ipv6');
+}
+
+/**
+ * Validate a URL from a request. Returns null unless it's an absolute http(s)
+ * URL without credentials.
+ */
+export function parseImportUrl(value: unknown): URL | null {
+  if (typeof value !== 'string' || value.length > 2048) return null;
+  try {
+    const url = new URL(value.trim());
+    if (url.protocol !== 'http:' && url.protocol !== 'https:') return null;
+    if (url.username || url.password) return null;
+    return url;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * DNS lookup that fails when a name resolves to a non-public address
+ */
+const publicLookup = ((hostname: string, options: { all?: boolean }, callback: (...args: unknown[]) => void) => {
+  dnsLookup(hostname, { ...options, all: true }, (error, addresses: LookupAddress[]) => {
+    if (error) return callback(error);
+    if (!allowsPrivateAddresses() && addresses.some(({ address }) => !isPublicAddress(address))) {
+      return callback(new UrlImportError(`${hostname} resolves to a private address`));
+    }
+    if (options.all) return callback(null, addresses);
+    callback(null, addresses[0].address, addresses[0].family);
+  });
+}) as LookupFunction;
+
+/**
+ * GET a URL, checking the address it connects to
+ */
+function get(url: URL, signal: AbortSignal): Promise<IncomingMessage> {
+  // IP literals never go through the lookup
+  const host = url.hostname.replace(/^\[|\]$/g, '');
+  if (isIP(host) && !isPublicAddress(host) && !allowsPrivateAddresses()) {
+    return Promise.reject(new UrlImportError(`${host} is a private address`));
+  }
+
+  const client = url.protocol === 'https:' ? https : http;
+  return new Promise((resolve, reject) => {
+    const request = client.get(url, {
+      lookup: publicLookup,
+      signal,
+      headers: {
+        'User-Agent': USER_AGENT,
+        Accept: 'application/pdf, text/html;q=0.9, */*;q=0.5',
+      },
+    }, resolve);
+    request.on('error', reject);
+  });
+}
+
+/**
+ * Read a response body, failing once it passes maxBytes
+ */
+async function readBody(response: IncomingMessage, maxBytes: number): Promise<Buffer> {
+  const declared = parseInt(response.headers['content-length'] ?? '');
+  if (declared > maxBytes) {
+    response.destroy();
+    throw new UrlImportError(`The document is larger than ${(maxBytes / 1024 / 1024).toFixed(1)}MB`, 413);
+  }
+
+  const chunks: Buffer[] = [];
+  let size = 0;
+  for await (const chunk of response) {
+    size += chunk.length;
+    if (size > maxBytes) {
+      response.destroy();
+      throw new UrlImportError(`The document is larger than ${(maxBytes / 1024 / 1024).toFixed(1)}MB`, 413);
+    }
+    chunks.push(chunk);
+  }
+  return Buffer.concat(chunks);
+}
+
+/**
+ * Download a document, following redirects. Throws UrlImportError when the
+ * URL can't be fetched or doesn't point at a supported document.
+ */
+export async function fetchDocumentFromUrl(input: URL): Promise<FetchedDocument> {
+  const signal = AbortSignal.timeout(FETCH_TIMEOUT_MS);
+  let url = input;
+
+  try {
+    for (let redirects = 0; ; redirects++) {
+      const response = await get(url, signal);
+      const status = response.statusCode ?? 0;
+
+      if (status >= 300 && status < 400 && response.headers.location) {
+        response.resume();
+        if (redirects >= MAX_REDIRECTS) throw new UrlImportError('Too many redirects', 502);
+        const next = parseImportUrl(new URL(response.headers.location, url).toString());
+        if (!next) throw new UrlImportError('Redirected to an unsupported URL', 502);
+        url = next;
+        continue;
+      }
+
+      if (status < 200 || status >= 300) {
+        response.resume();
+        throw new UrlImportError(`The server responded with HTTP ${status}`, 502);
+      }
+
+      // The server's content type is more reliable than a URL's extension
+      const contentType = response.headers['content-type'] ?? '';
+      const format = detectDocumentFormat('', contentType) ?? detectDocumentFormat(url.pathname, '');
+      if (!format) {
+        response.resume();
+        throw new UrlImportError(`Unsupported content type: ${contentType || 'unknown'}`, 415);
+      }
+
+      const data = await readBody(response, getMaxImportBytes());
+      return { url: url.toString(), title: documentTitle(url, format, data), format, data };
+    }
+  } catch (error) {
+    if (error instanceof UrlImportError) throw error;
+    if (signal.aborted) throw new UrlImportError('Timed out fetching the URL', 504);
+    // Connection errors wrap a failed lookup's UrlImportError
+    const cause = error instanceof Error ? error.cause ?? error : error;
+    if (cause instanceof UrlImportError) throw cause;
+    throw new UrlImportError(`Could not fetch the URL: ${error instanceof Error ? error.message : 'unknown error'}`, 502);
+  }
+}
+
+/**
+ * A title for an imported document: the page's own title for HTML, else the
+ * file name from the URL
+ */
+function documentTitle(url: URL, format: DocumentFormat, data: Buffer): string {
+  if (format === 'html') {
+    const root = parseHtml(data.toString('utf-8'));
+    const title = root.querySelector('meta[property="og:title"]')?.getAttribute('content')
+      || root.querySelector('title')?.text
+      || root.querySelector('h1')?.text;
+    const clean = title?.replace(/\s+/g, ' ').trim();
+    if (clean) return clean.slice(0, MAX_TITLE_LENGTH);
+  }
+
+  const segment = url.pathname.split('/').filter(Boolean).pop() ?? '';
+  let fileName = segment;
+  try {
+    fileName = decodeURIComponent(segment);
+  } catch {
+    // Malformed percent-encoding (e.g. "100%.pdf"): keep the segment as it is
+  }
+  return (fileName || url.hostname).slice(0, MAX_TITLE_LENGTH);
+}
@@ -0,0 +1,259 @@
+/**
+ * Approximate nearest neighbour (ANN) indexes for vector search
+ *
+ * "ChunkEmbedding".embedding has no fixed size, since versions from
+ * different models share the table, and pgvector only indexes vectors of
+ * one size. Each embedding version therefore gets its own partial index on
+ * the column cast to the version's size:
+ *
+ *   CREATE INDEX "ChunkEmbedding_hnsw_<version>" ON "ChunkEmbedding"
+ *     USING hnsw ((embedding::vector(768)) vector_cosine_ops) WHERE "versionId" = '<version>'
+ *
+ * Searches only use it when they order by the same expression and filter on
+ * the version id as a literal (see versionSearchSql). The index type is set
+ * with VECTOR_INDEX_TYPE:
+ * - hnsw (default): built as soon as a version's size is known and kept up
+ *   to date as vectors are added. Needs pgvector 0.5.0 or later.
+ * - ivfflat: clusters existing vectors into lists, so it is only built once a
+ *   version has IVFFLAT_MIN_ROWS vectors and should be rebuilt
+ *   (npm run embeddings:migrate -- --reindex) after the library grows a lot
+ * - none: every search scans the version's vectors exactly
+ *
+ * Indexes are created CONCURRENTLY, so ingestion and search carry on while
+ * they build; that's why they are built by the app (on worker start, after
+ * vectors are stored and on activation) rather than by a migration, which
+ * would block writes to "ChunkEmbedding" for the whole build. Searches
+ * before an index exists are exact, just slower.
+ */
+
+import { Prisma, type EmbeddingVersion } from '@prisma/client';
+import { prisma } from './prisma';
+
+export type VectorIndexType = 'hnsw' | 'ivfflat' | 'none';
+
+// pgvector indexes "vector" columns of up to 2,000 dimensions
+export const MAX_INDEXED_DIMENSIONS = 2000;
+
+// IVFFlat lists are learnt from the vectors present when the index is built
+const IVFFLAT_MIN_ROWS = 10000;
+
+// pgvector's own defaults
+const DEFAULT_HNSW_M = 16;
+const DEFAULT_HNSW_EF_CONSTRUCTION = 64;
+const DEFAULT_EF_SEARCH = 40;
+const MAX_EF_SEARCH = 1000;
+const DEFAULT_PROBES = 10;
+
+// Indexes known to exist, so ingestion doesn't check the catalog every time
+const ensuredIndexes = new Set<string>();
+
+// Whether the installed pgvector has iterative index scans (0.8.0+), once known
+let iterativeScanSupport: Promise<boolean> | null = null;
+
+function envInt(name: string, fallback: number): number {
+  const value = parseInt(process.env[name] || '', 10);
+  return value > 0 ? value : fallback;
+}
+
+export function vectorIndexType(): VectorIndexType {
+  const type = process.env.VECTOR_INDEX_TYPE || 'hnsw';
+  if (type === 'hnsw' || type === 'ivfflat' || type === 'none') return type;
+  console.warn(`Unknown vector index type: ${type}, falling back to hnsw`);
+  return 'hnsw';
+}
+
+// Version ids are written into index names and predicates, so they must be plain
+function safeVersionId(version: Pick<EmbeddingVersion, 'id'>): string {
+  if (!/^[A-Za-z0-9_]+$/.test(version.id)) {
+    throw new Error(`Embedding version id ${version.id} can't be used in an index definition`);
+  }
+  return version.id;
+}
+
+export function vectorIndexName(version: Pick<EmbeddingVersion, 'id'>, type: Exclude<VectorIndexType, 'none'>): string {
+  return `ChunkEmbedding_${type}_${safeVersionId(version)}`;
+}
+
+/**
+ * The access method and options of an index on `column`, a vector(N)
+ * expression: "USING hnsw ((...) vector_cosine_ops) WITH (...)"
+ */
+export function vectorIndexMethodSql(
+  type: Exclude<VectorIndexType, 'none'>,
+  column: string,
+  options: { rows?: number } = {}
+): string {
+  if (type === 'hnsw') {
+    const m = envInt('HNSW_M', DEFAULT_HNSW_M);
+    const efConstruction = envInt('HNSW_EF_CONSTRUCTION', DEFAULT_HNSW_EF_CONSTRUCTION);
+    return `USING hnsw ((${column}) vector_cosine_ops) WITH (m = ${m}, ef_construction = ${efConstruction})`;
+  }
+
+  // pgvector's guidance: rows / 1000 lists up to a million rows, sqrt(rows) beyond
+  const rows = options.rows ?? 0;
+  const lists = Math.max(1, Math.round(rows <= 1_000_000 ? rows / 1000 : Math.sqrt(rows)));
+  return `USING ivfflat ((${column}) vector_cosine_ops) WITH (lists = ${lists})`;
+}
+
+/**
+ * SQL for the cosine distance between a version's vectors in `alias` and the
+ * query vector (bound as a parameter), and the filter selecting the version.
+ * Both match the version's partial index, so ORDER BY distance LIMIT k can
+ * walk the index instead of comparing against every vector.
+ */
+export function versionSearchSql(
+  alias: string,
+  version: EmbeddingVersion,
+  queryVector: string
+): { distance: Prisma.Sql; filter: Prisma.Sql } {
+  const table = Prisma.raw(alias);
+  const vectorType = Prisma.raw(`vector(${version.dimensions})`);
+  return {
+    distance: Prisma.sql`(${table}.embedding::${vectorType}) <=> ${queryVector}::${vectorType}`,
+    filter: Prisma.sql`${table}."versionId" = ${Prisma.raw(`'${safeVersionId(version)}'`)}`,
+  };
+}
+
+/**
+ * Whether the installed pgvector has iterative index scans (0.8.0+)
+ */
+export function supportsIterativeScan(): Promise<boolean> {
+  iterativeScanSupport ??= prisma.$queryRaw<{ version: string }[]>`
+    SELECT extversion AS version FROM pg_extension WHERE extname = 'vector'
+  `
+    .then(([extension]) => {
+      const [major, minor] = (extension?.version ?? '0.0').split('.').map(Number);
+      return major > 0 || minor >= 8;
+    })
+    .catch(error => {
+      iterativeScanSupport = null;
+      console.warn('⚠️ Could not check the pgvector version:', error);
+      return false;
+    });
+  return iterativeScanSupport;
+}
+
+/**
+ * Per-query planner settings for the configured index type. ef_search (HNSW)
+ * and probes (IVFFlat) trade speed for recall; an HNSW scan never returns
+ * more than ef_search rows, so it is raised to the limit when lower.
+ *
+ * Access and scope filters are applied to the rows an index scan returns,
+ * so without an iterative scan a filtered search can come back with fewer
+ * results than asked for, or none. Iterative scans (pgvector 0.8.0+) keep
+ * scanning until enough rows pass the filters. They are on (relaxed_order;
+ * searches re-sort their results) unless VECTOR_SEARCH_ITERATIVE_SCAN is
+ * "off", and skipped on older pgvector, which doesn't know the setting.
+ */
+export async function vectorSearchSettings(limit: number): Promise<Record<string, string>> {
+  const type = vectorIndexType();
+  if (type === 'none') return {};
+
+  const settings: Record<string, string> = {};
+  if (type === 'hnsw') {
+    const efSearch = Math.min(Math.max(envInt('VECTOR_SEARCH_EF_SEARCH', DEFAULT_EF_SEARCH), limit), MAX_EF_SEARCH);
+    settings['hnsw.ef_search'] = String(efSearch);
+  } else {
+    settings['ivfflat.probes'] = String(envInt('VECTOR_SEARCH_PROBES', DEFAULT_PROBES));
+  }
+
+  const iterativeScan = process.env.VECTOR_SEARCH_ITERATIVE_SCAN || 'relaxed_order';
+  if (iterativeScan !== 'off' && await supportsIterativeScan()) {
+    // IVFFlat only supports relaxed ordering
+    settings[`${type}.iterative_scan`] = type === 'hnsw' && iterativeScan === 'strict_order' ? 'strict_order' : 'relaxed_order';
+  }
+  return settings;
+}
+
+async function indexState(name: string): Promise<'valid' | 'building' | 'invalid' | 'missing'> {
+  const [index] = await prisma.$queryRaw<{ valid: boolean; building: boolean }[]>`
+    SELECT
+      i.indisvalid AS valid,
+      EXISTS (SELECT 1 FROM pg_stat_progress_create_index b WHERE b.index_relid = c.oid) AS building
+    FROM pg_class c
+    JOIN pg_index i ON i.indexrelid = c.oid
+    WHERE c.relname = ${name}
+  `;
+  if (!index) return 'missing';
+  if (index.valid) return 'valid';
+  return index.building ? 'building' : 'invalid';
+}
+
+/**
+ * Create the configured index for a version if it doesn't exist yet. Does
+ * nothing until the version's size is known, for versions too large to
+ * index, and (IVFFlat) until the version has enough vectors to cluster.
+ * Failures are logged rather than thrown: searches still work, exactly.
+ */
+export async function ensureVectorIndex(version: EmbeddingVersion, options: { rebuild?: boolean } = {}): Promise<void> {
+  const type = vectorIndexType();
+  if (type === 'none' || !version.dimensions) return;
+
+  const name = vectorIndexName(version, type);
+  if (ensuredIndexes.has(name) && !options.rebuild) return;
+
+  if (version.dimensions > MAX_INDEXED_DIMENSIONS) {
+    console.warn(`⚠️ Embedding version ${version.id} has ${version.dimensions} dimensions; ` +
+      `vectors over ${MAX_INDEXED_DIMENSIONS} can't be indexed, so its searches scan every vector`);
+    ensuredIndexes.add(name);
+    return;
+  }
+
+  try {
+    const state = await indexState(name);
+    if (state === 'valid' && !options.rebuild) {
+      ensuredIndexes.add(name);
+      return;
+    }
+    // Another process is building it
+    if (state === 'building') return;
+
+    let rows: number | undefined;
+    if (type === 'ivfflat') {
+      rows = await prisma.chunkEmbedding.count({ where: { versionId: version.id } });
+      if (rows < IVFFLAT_MIN_ROWS) return;
+    }
+
+    // A concurrent build that failed leaves an invalid index behind
+    if (state !== 'missing') {
+      await prisma.$executeRawUnsafe(`DROP INDEX CONCURRENTLY IF EXISTS "${name}"`);
+    }
+
+    console.log(`🗂️ Building ${type} index for embedding version ${version.id}...`);
+    await prisma.$executeRawUnsafe(
+      `CREATE INDEX CONCURRENTLY IF NOT EXISTS "${name}" ON "ChunkEmbedding" ` +
+      `${vectorIndexMethodSql(type, `embedding::vector(${version.dimensions})`, { rows })} ` +
+      `WHERE "versionId" = '${safeVersionId(version)}'`
+    );
+    ensuredIndexes.add(name);
+    console.log(`✅ Built ${type} index ${name}`);
+  } catch (error) {
+    // e.g. another worker is building it, or pgvector is too old for HNSW
+    console.warn(`⚠️ Could not build vector index ${name}:`, error);
+  }
+}
+
+/**
+ * Ensure indexes for the versions searches use or will use: the active one
+ * and any being built. Called after vectors are stored, since a version's
+ * size is only known once it has its first vector.
+ */
+export async function ensureVectorIndexes(): Promise<void> {
+  const versions = await prisma.embeddingVersion.findMany({
+    where: { status: { in: ['active', 'building'] } },
+  });
+  for (const version of versions) {
+    await ensureVectorIndex(version);
+  }
+}
+
+/**
+ * Drop every index built for a version, of any type
+ */
+export async function dropVectorIndexes(version: Pick<EmbeddingVersion, 'id'>): Promise<void> {
+  for (const type of ['hnsw', 'ivfflat'] as const) {
+    const name = vectorIndexName(version, type);
+    await prisma.$executeRawUnsafe(`DROP INDEX CONCURRENTLY IF EXISTS "${name}"`);
+    ensuredIndexes.delete(name);
+  }
+}
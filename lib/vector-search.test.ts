@@ -0,0 +1,17 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { parseSimilarityThreshold } from './vector-search';
+
+test('parseSimilarityThreshold accepts numbers from 0 to 1, and no threshold at all', () => {
+  assert.equal(parseSimilarityThreshold(0), 0);
+  assert.equal(parseSimilarityThreshold(0.35), 0.35);
+  assert.equal(parseSimilarityThreshold(1), 1);
+  assert.equal(parseSimilarityThreshold(undefined), undefined);
+  assert.equal(parseSimilarityThreshold(null), undefined);
+});
+
+test('parseSimilarityThreshold rejects anything else', () => {
+  for (const value of [-0.1, 1.5, NaN, Infinity, '0.5', '', true, [0.5], { value: 0.5 }]) {
+    assert.equal(parseSimilarityThreshold(value), null, String(value));
+  }
+});
@@ -1,119 +1,261 @@
 import { prisma } from '@/lib/prisma';
-import { generateQueryEmbedding, formatVectorForDB } from '@/lib/embeddings';
+import { generateQueryEmbedding } from '@/lib/embeddings';
+import { getActiveEmbeddingVersion, versionProvider } from '@/lib/embedding-versions';
+import {
+  MAX_EXACT_SEARCH_PDFS,
+  queryKeywordChunks,
+  queryNearestChunks,
+  type RetrievedChunk,
+  type SearchScope,
+} from '@/lib/retrieval-queries';
+import { canAccessPdf } from '@/lib/access';
+import { formatLocation, type ChunkLocation } from '@/lib/chunking';
+
+export type { SearchScope } from '@/lib/retrieval-queries';
 
 export interface SearchResult {
   id: string;
   content: string;
   pageNum: number;
+  location: ChunkLocation | null; // slide, section or line range, for non-PDF documents
+  sectionPath: string | null;
   similarity: number;
   pdfId: string;
+  pdfTitle: string;
+}
+
+export interface HybridSearchResult extends SearchResult {
+  score: number; // Reciprocal rank fusion score
+  semanticRank?: number; // 1-based rank in the vector results, if present
+  keywordRank?: number; // 1-based rank in the full-text results, if present
+}
+
+// Upper bound on the documents a single search or chat can be scoped to by
+// id, so explicit scopes are always searched exactly
+export const MAX_SCOPE_PDFS = MAX_EXACT_SEARCH_PDFS;
+
+// Upper bound on the chunks a search can be asked to leave out
+export const MAX_EXCLUDED_CHUNKS = 200;
+
+// Upper bound on the results (or chat context chunks) a single request can ask for
+export const MAX_RESULT_COUNT = 50;
+
+// Standard RRF constant: dampens the influence of top ranks from either list
+const RRF_K = 60;
+
+// Hybrid search fetches this many candidates per ranking before fusing
+const HYBRID_CANDIDATE_MULTIPLIER = 4;
+
+// Upper bound on query terms sent to the full-text search
+const MAX_QUERY_TERMS = 32;
+
+/**
+ * Combine the single `pdfId` and `pdfIds` request fields into one de-duplicated
+ * list. Returns null when either field is malformed or the list is too long.
+ */
+export function parsePdfIds(pdfId: unknown, pdfIds: unknown): string[] | null {
+  const ids: unknown[] = [];
+  if (pdfId !== undefined && pdfId !== null && pdfId !== '') ids.push(pdfId);
+  if (pdfIds !== undefined && pdfIds !== null) {
+    if (!Array.isArray(pdfIds)) return null;
+    ids.push(...pdfIds);
+  }
+
+  if (!ids.every(id => typeof id === 'string' && id.length > 0)) return null;
+  const unique = [...new Set(ids as string[])];
+  return unique.length <= MAX_SCOPE_PDFS ? unique : null;
+}
+
+/**
+ * A request's result count (`limit` or `k`), clamped to 1..MAX_RESULT_COUNT.
+ * Missing or non-numeric values get the fallback.
+ */
+export function parseResultCount(value: unknown, fallback = 5): number {
+  const count = typeof value === 'string' ? parseInt(value, 10) : Number(value);
+  if (value === undefined || value === null || value === '' || !Number.isFinite(count)) return fallback;
+  return Math.min(Math.max(Math.floor(count), 1), MAX_RESULT_COUNT);
 }
 
 /**
- * Perform semantic search using vector similarity
+ * A request's minimum similarity: a number from 0 to 1, or undefined when
+ * it isn't given. Returns null for anything else.
+ */
+export function parseSimilarityThreshold(value: unknown): number | null | undefined {
+  if (value === undefined || value === null) return undefined;
+  if (typeof value !== 'number' || !Number.isFinite(value) || value < 0 || value > 1) return null;
+  return value;
+}
+
+/**
+ * Validate a request's list of chunk ids to leave out of the results (e.g.
+ * ones already shown, to fetch more). Returns null when it is malformed or
+ * too long.
+ */
+export function parseExcludedChunkIds(value: unknown): string[] | null {
+  if (value === undefined || value === null) return [];
+  if (!Array.isArray(value) || !value.every(id => typeof id === 'string' && id.length > 0)) return null;
+  const unique = [...new Set(value as string[])];
+  return unique.length <= MAX_EXCLUDED_CHUNKS ? unique : null;
+}
+
+function toSearchResult(chunk: RetrievedChunk): SearchResult {
+  return {
+    id: chunk.id,
+    content: chunk.content,
+    pageNum: chunk.pageNum,
+    location: chunk.location,
+    sectionPath: chunk.sectionPath,
+    similarity: chunk.score,
+    pdfId: chunk.pdfId,
+    pdfTitle: chunk.pdfTitle,
+  };
+}
+
+/**
+ * Turn free text into an OR-ed tsquery string of its words, so that chunks
+ * matching more query terms rank higher rather than requiring all of them.
+ * Returns null when the query has no searchable words.
+ */
+function buildFullTextQuery(query: string): string | null {
+  const terms = [...new Set(query.toLowerCase().match(/[\p{L}\p{N}]+/gu) || [])].slice(0, MAX_QUERY_TERMS);
+  return terms.length > 0 ? terms.join(' | ') : null;
+}
+
+/**
+ * The chunks nearest to a query, embedded with the active embedding
+ * version's model and compared with that version's vectors only
+ */
+async function nearestChunks(
+  query: string,
+  scope: SearchScope,
+  limit: number,
+  threshold: number
+): Promise<RetrievedChunk[]> {
+  const version = await getActiveEmbeddingVersion();
+  // No vectors stored in this version yet
+  if (!version.dimensions) return [];
+
+  const queryEmbedding = await generateQueryEmbedding(query, versionProvider(version));
+  return queryNearestChunks(queryEmbedding, version, scope, limit, threshold);
+}
+
+/**
+ * Perform semantic search using vector similarity (see queryNearestChunks)
  */
 export async function searchSimilarChunks(
   query: string,
-  pdfId?: string,
+  scope: SearchScope,
   limit: number = 5,
   threshold: number = 0.7
 ): Promise<SearchResult[]> {
   try {
-    // Generate embedding for the query
-    const queryEmbedding = await generateQueryEmbedding(query);
-    const queryVector = formatVectorForDB(queryEmbedding);
-
-    // Build the SQL query based on whether pdfId is provided
-    let sqlQuery;
-    let queryParams;
-
-    if (pdfId) {
-      sqlQuery = `
-        SELECT 
-          id,
-          content,
-          "pageNum",
-          "pdfId",
-          1 - (embedding <=> $1::vector) as similarity
-        FROM "Chunk"
-        WHERE "pdfId" = $2
-          AND embedding IS NOT NULL
-          AND 1 - (embedding <=> $1::vector) > $3
-        ORDER BY embedding <=> $1::vector
-        LIMIT $4
-      `;
-      queryParams = [queryVector, pdfId, threshold, limit];
-    } else {
-      sqlQuery = `
-        SELECT 
-          id,
-          content,
-          "pageNum",
-          "pdfId",
-          1 - (embedding <=> $1::vector) as similarity
-        FROM "Chunk"
-        WHERE embedding IS NOT NULL
-          AND 1 - (embedding <=> $1::vector) > $2
-        ORDER BY embedding <=> $1::vector
-        LIMIT $3
-      `;
-      queryParams = [queryVector, threshold, limit];
-    }
-
-    // Execute the search query
-    const results = await prisma.$queryRawUnsafe<SearchResult[]>(
-      sqlQuery,
-      ...queryParams
-    );
-
-    return results;
+    return (await nearestChunks(query, scope, limit, threshold)).map(toSearchResult);
   } catch (error) {
     console.error('Error performing vector search:', error);
     throw new Error('Failed to perform semantic search');
   }
 }
 
+/**
+ * Full-text search ranked with ts_rank_cd (cover density), backed by the
+ * GIN index on to_tsvector('english', content). `similarity` holds the rank.
+ */
+export async function searchKeywordChunks(
+  query: string,
+  scope: SearchScope,
+  limit: number = 5
+): Promise<SearchResult[]> {
+  const tsQuery = buildFullTextQuery(query);
+  if (!tsQuery) return [];
+
+  try {
+    return (await queryKeywordChunks(tsQuery, scope, limit)).map(toSearchResult);
+  } catch (error) {
+    console.error('Error performing keyword search:', error);
+    throw new Error('Failed to perform keyword search');
+  }
+}
+
+/**
+ * Hybrid search: run vector and full-text search independently and fuse the
+ * two rankings with reciprocal rank fusion (score = sum of 1 / (k + rank)).
+ * If one side fails (e.g. embeddings unavailable) the other is used alone.
+ */
+export async function hybridSearch(
+  query: string,
+  scope: SearchScope,
+  limit: number = 5,
+  threshold: number = 0.3
+): Promise<HybridSearchResult[]> {
+  const candidates = limit * HYBRID_CANDIDATE_MULTIPLIER;
+
+  const [semantic, keyword] = await Promise.allSettled([
+    searchSimilarChunks(query, scope, candidates, threshold),
+    searchKeywordChunks(query, scope, candidates),
+  ]);
+
+  if (semantic.status === 'rejected' && keyword.status === 'rejected') {
+    throw new Error('Failed to perform hybrid search');
+  }
+  if (semantic.status === 'rejected') {
+    console.warn('Hybrid search: vector search failed, using full-text results only');
+  }
+  if (keyword.status === 'rejected') {
+    console.warn('Hybrid search: full-text search failed, using vector results only');
+  }
+
+  const fused = new Map<string, HybridSearchResult>();
+
+  const addRanking = (results: SearchResult[], rankField: 'semanticRank' | 'keywordRank') => {
+    results.forEach((result, index) => {
+      const rank = index + 1;
+      const existing = fused.get(result.id);
+      if (existing) {
+        existing.score += 1 / (RRF_K + rank);
+        existing[rankField] = rank;
+      } else {
+        fused.set(result.id, {
+          ...result,
+          // Only vector results carry a cosine similarity
+          similarity: rankField === 'semanticRank' ? result.similarity : 0,
+          score: 1 / (RRF_K + rank),
+          [rankField]: rank,
+        });
+      }
+    });
+  };
+
+  if (semantic.status === 'fulfilled') addRanking(semantic.value, 'semanticRank');
+  if (keyword.status === 'fulfilled') addRanking(keyword.value, 'keywordRank');
+
+  return [...fused.values()]
+    .sort((a, b) => b.score - a.score)
+    .slice(0, limit);
+}
+
 /**
  * Get context chunks for a specific PDF using hybrid search (semantic + keyword)
  */
 export async function getRelevantContext(
   query: string,
   pdfId: string,
+  userId: string | null,
   maxChunks: number = 5
 ): Promise<string> {
+  if (!(await canAccessPdf(pdfId, userId))) {
+    return '';
+  }
+
   try {
-    // Perform vector search
-    const semanticResults = await searchSimilarChunks(query, pdfId, maxChunks, 0.3);
-    
-    // If we don't have enough semantic results, fall back to keyword search
-    if (semanticResults.length < maxChunks) {
-      const keywordResults = await prisma.$queryRaw<SearchResult[]>`
-        SELECT 
-          id,
-          content,
-          "pageNum",
-          "pdfId",
-          0.5 as similarity
-        FROM "Chunk"
-        WHERE "pdfId" = ${pdfId}
-          AND (content ILIKE ${'%' + query + '%'} OR content ILIKE ${'%' + query.toLowerCase() + '%'})
-          AND id NOT IN (${semanticResults.map(r => r.id).join(',') || "''"})
-        ORDER BY "pageNum"
-        LIMIT ${maxChunks - semanticResults.length}
-      `;
-      
-      semanticResults.push(...keywordResults);
-    }
+    const results = await hybridSearch(query, { userId, pdfIds: [pdfId] }, maxChunks);
 
     // Sort by page number for better context flow
-    const sortedResults = semanticResults
-      .sort((a, b) => a.pageNum - b.pageNum)
-      .slice(0, maxChunks);
+    const sortedResults = results.sort((a, b) => a.pageNum - b.pageNum);
 
     // Combine the content into a single context string
     const context = sortedResults
       .map((result, index) => 
-        `[Chunk ${index + 1} - Page ${result.pageNum}]:\n${result.content}\n`
+        `[Chunk ${index + 1} - ${formatLocation(result.pageNum, result.location)}]:\n${result.content}\n`
       )
       .join('\n---\n\n');
 
@@ -137,41 +279,39 @@ export async function getRelevantContext(
 
     return fallbackResults
       .map((result, index) => 
-        `[Chunk ${index + 1} - Page ${result.pageNum}]:\n${result.content}\n`
+        `[Chunk ${index + 1} - ${formatLocation(result.pageNum, result.location as ChunkLocation | null)}]:\n${result.content}\n`
       )
       .join('\n---\n\n');
   }
 }
 
 /**
- * Search across all PDFs with vector similarity
+ * Search across all PDFs the user can read with vector similarity
  */
 export async function globalSemanticSearch(
   query: string,
+  userId: string | null,
   limit: number = 10,
-  threshold: number = 0.5
-): Promise<(SearchResult & { pdfTitle?: string })[]> {
+  threshold: number = 0.5,
+  excludeChunkIds: string[] = []
+): Promise<SearchResult[]> {
   try {
-    const results = await searchSimilarChunks(query, undefined, limit, threshold);
-    
-    // Enrich results with PDF titles
-    const enrichedResults = await Promise.all(
-      results.map(async (result) => {
-        const pdf = await prisma.pDF.findUnique({
-          where: { id: result.pdfId },
-          select: { title: true },
-        });
-        
-        return {
-          ...result,
-          pdfTitle: pdf?.title,
-        };
-      })
-    );
+    // Over-fetch, since copies of the same file return the same chunks
+    const results = await nearestChunks(query, { userId, excludeChunkIds }, limit * 2, threshold);
 
-    return enrichedResults;
+    // Keep one copy of each chunk across identical files
+    const seen = new Set<string>();
+    return results
+      .filter(result => {
+        const key = `${result.contentHash ?? result.pdfId}:${result.pageNum}:${result.content}`;
+        if (seen.has(key)) return false;
+        seen.add(key);
+        return true;
+      })
+      .slice(0, limit)
+      .map(toSearchResult);
   } catch (error) {
     console.error('Error performing global semantic search:', error);
     throw new Error('Failed to perform global search');
   }
-}
\ No newline at end of file
+}
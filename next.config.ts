@@ -7,6 +7,9 @@ const nextConfig: NextConfig = {
       bodySizeLimit: '50mb',
     },
   },
+
+  // OCR spawns its own worker thread and uses a native canvas; load both from node_modules
+  serverExternalPackages: ['tesseract.js', '@napi-rs/canvas'],
   
   // Webpack configuration for serverless PDF processing
   webpack: (config, { isServer }) => {
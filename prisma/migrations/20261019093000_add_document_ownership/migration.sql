@@ -0,0 +1,64 @@
+-- AlterTable
+ALTER TABLE "PDF" ADD COLUMN     "ownerId" TEXT,
+ADD COLUMN     "visibility" TEXT NOT NULL DEFAULT 'private';
+
+-- AlterTable
+ALTER TABLE "Quiz" ADD COLUMN     "visibility" TEXT NOT NULL DEFAULT 'private';
+
+-- Drop creator ids that do not reference a real account
+UPDATE "Quiz" SET "createdBy" = NULL
+WHERE "createdBy" IS NOT NULL
+  AND NOT EXISTS (SELECT 1 FROM "User" u WHERE u."id" = "Quiz"."createdBy");
+
+-- Documents and quizzes created before accounts existed were visible to
+-- everyone; keep them readable rather than orphaning them.
+UPDATE "PDF" SET "visibility" = 'public' WHERE "ownerId" IS NULL;
+UPDATE "Quiz" SET "visibility" = 'public' WHERE "createdBy" IS NULL;
+
+-- CreateTable
+CREATE TABLE "PdfShare" (
+    "pdfId" TEXT NOT NULL,
+    "userId" TEXT NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "PdfShare_pkey" PRIMARY KEY ("pdfId","userId")
+);
+
+-- CreateTable
+CREATE TABLE "QuizShare" (
+    "quizId" TEXT NOT NULL,
+    "userId" TEXT NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "QuizShare_pkey" PRIMARY KEY ("quizId","userId")
+);
+
+-- CreateIndex
+CREATE INDEX "PDF_ownerId_idx" ON "PDF"("ownerId");
+
+-- CreateIndex
+CREATE INDEX "PdfShare_userId_idx" ON "PdfShare"("userId");
+
+-- CreateIndex
+CREATE INDEX "Quiz_createdBy_idx" ON "Quiz"("createdBy");
+
+-- CreateIndex
+CREATE INDEX "QuizShare_userId_idx" ON "QuizShare"("userId");
+
+-- AddForeignKey
+ALTER TABLE "PDF" ADD CONSTRAINT "PDF_ownerId_fkey" FOREIGN KEY ("ownerId") REFERENCES "User"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "PdfShare" ADD CONSTRAINT "PdfShare_pdfId_fkey" FOREIGN KEY ("pdfId") REFERENCES "PDF"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "PdfShare" ADD CONSTRAINT "PdfShare_userId_fkey" FOREIGN KEY ("userId") REFERENCES "User"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "Quiz" ADD CONSTRAINT "Quiz_createdBy_fkey" FOREIGN KEY ("createdBy") REFERENCES "User"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "QuizShare" ADD CONSTRAINT "QuizShare_quizId_fkey" FOREIGN KEY ("quizId") REFERENCES "Quiz"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "QuizShare" ADD CONSTRAINT "QuizShare_userId_fkey" FOREIGN KEY ("userId") REFERENCES "User"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,3 @@
+-- Full-text index backing hybrid (vector + keyword) search.
+-- Queries must use the same expression, to_tsvector('english', content), to hit it.
+CREATE INDEX IF NOT EXISTS "Chunk_content_fts_idx" ON "Chunk" USING GIN (to_tsvector('english', "content"));
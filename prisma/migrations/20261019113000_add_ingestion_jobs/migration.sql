@@ -0,0 +1,30 @@
+-- CreateTable
+CREATE TABLE "IngestionJob" (
+    "id" TEXT NOT NULL,
+    "pdfId" TEXT NOT NULL,
+    "type" TEXT NOT NULL DEFAULT 'ingest',
+    "status" TEXT NOT NULL DEFAULT 'queued',
+    "stage" TEXT,
+    "progress" INTEGER NOT NULL DEFAULT 0,
+    "attempts" INTEGER NOT NULL DEFAULT 0,
+    "maxAttempts" INTEGER NOT NULL DEFAULT 3,
+    "error" TEXT,
+    "result" JSONB,
+    "runAfter" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "lockedAt" TIMESTAMP(3),
+    "lockedBy" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+    "finishedAt" TIMESTAMP(3),
+
+    CONSTRAINT "IngestionJob_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "IngestionJob_status_runAfter_idx" ON "IngestionJob"("status", "runAfter");
+
+-- CreateIndex
+CREATE INDEX "IngestionJob_pdfId_createdAt_idx" ON "IngestionJob"("pdfId", "createdAt");
+
+-- AddForeignKey
+ALTER TABLE "IngestionJob" ADD CONSTRAINT "IngestionJob_pdfId_fkey" FOREIGN KEY ("pdfId") REFERENCES "PDF"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,2 @@
+-- AlterTable
+ALTER TABLE "PDF" ADD COLUMN     "metadata" JSONB;
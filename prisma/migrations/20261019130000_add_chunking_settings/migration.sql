@@ -0,0 +1,4 @@
+-- AlterTable
+ALTER TABLE "PDF" ADD COLUMN     "chunkingOptions" JSONB,
+ADD COLUMN     "chunkingStrategy" TEXT NOT NULL DEFAULT 'structure',
+ADD COLUMN     "chunksVersion" INTEGER NOT NULL DEFAULT 0;
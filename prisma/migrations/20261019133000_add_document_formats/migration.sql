@@ -0,0 +1,5 @@
+-- AlterTable
+ALTER TABLE "PDF" ADD COLUMN     "format" TEXT NOT NULL DEFAULT 'pdf';
+
+-- AlterTable
+ALTER TABLE "Chunk" ADD COLUMN     "location" JSONB;
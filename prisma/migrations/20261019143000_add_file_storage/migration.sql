@@ -0,0 +1,8 @@
+-- AlterTable
+ALTER TABLE "PDF" ADD COLUMN     "storageKey" TEXT;
+
+-- Parts of unfinished uploads were stored in this table; clients re-send them
+DELETE FROM "UploadPart";
+
+-- AlterTable
+ALTER TABLE "UploadPart" DROP COLUMN "data";
@@ -0,0 +1,13 @@
+-- AlterTable
+ALTER TABLE "PDF" ADD COLUMN     "contentHash" TEXT,
+ADD COLUMN     "pageFingerprints" TEXT[] DEFAULT ARRAY[]::TEXT[];
+
+-- Files still stored in the database can be hashed here; the rest are hashed
+-- the next time they are ingested
+UPDATE "PDF" SET "contentHash" = encode(sha256("fileData"), 'hex') WHERE "fileData" IS NOT NULL;
+
+-- CreateIndex
+CREATE INDEX "PDF_contentHash_idx" ON "PDF"("contentHash");
+
+-- CreateIndex
+CREATE INDEX "PDF_pageFingerprints_idx" ON "PDF" USING GIN ("pageFingerprints" array_ops);
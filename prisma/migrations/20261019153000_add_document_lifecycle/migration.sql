@@ -0,0 +1,12 @@
+-- AlterTable
+ALTER TABLE "PDF" ADD COLUMN     "archivedAt" TIMESTAMP(3),
+ADD COLUMN     "deletedAt" TIMESTAMP(3);
+
+-- CreateIndex
+CREATE INDEX "PDF_deletedAt_idx" ON "PDF"("deletedAt");
+
+-- Purging a document removes its chunks (and their embeddings) with it
+ALTER TABLE "Chunk" DROP CONSTRAINT "Chunk_pdfId_fkey";
+
+-- AddForeignKey
+ALTER TABLE "Chunk" ADD CONSTRAINT "Chunk_pdfId_fkey" FOREIGN KEY ("pdfId") REFERENCES "PDF"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,14 @@
+-- Chunks can hold vectors of any size, so embedding models can be swapped.
+-- Each vector records the model and dimension it came from, and search only
+-- compares vectors of the same model.
+ALTER TABLE "Chunk" ALTER COLUMN "embedding" TYPE vector;
+
+-- AlterTable
+ALTER TABLE "Chunk" ADD COLUMN     "embeddingModel" TEXT,
+ADD COLUMN     "embeddingDimensions" INTEGER;
+
+-- Every existing vector came from Gemini's text-embedding-004
+UPDATE "Chunk" SET "embeddingModel" = 'text-embedding-004', "embeddingDimensions" = 768 WHERE "embedding" IS NOT NULL;
+
+-- CreateIndex
+CREATE INDEX "Chunk_embeddingModel_embeddingDimensions_idx" ON "Chunk"("embeddingModel", "embeddingDimensions");
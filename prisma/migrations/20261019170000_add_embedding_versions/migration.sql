@@ -0,0 +1,67 @@
+-- CreateTable
+CREATE TABLE "EmbeddingVersion" (
+    "id" TEXT NOT NULL,
+    "provider" TEXT NOT NULL,
+    "model" TEXT NOT NULL,
+    "dimensions" INTEGER,
+    "requestedDimensions" INTEGER,
+    "baseUrl" TEXT,
+    "status" TEXT NOT NULL DEFAULT 'building',
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "activatedAt" TIMESTAMP(3),
+
+    CONSTRAINT "EmbeddingVersion_pkey" PRIMARY KEY ("id")
+);
+
+-- At most one version serves searches
+CREATE UNIQUE INDEX "EmbeddingVersion_active_key" ON "EmbeddingVersion"("status") WHERE "status" = 'active';
+
+-- CreateTable
+CREATE TABLE "ChunkEmbedding" (
+    "chunkId" TEXT NOT NULL,
+    "versionId" TEXT NOT NULL,
+    "embedding" vector NOT NULL,
+
+    CONSTRAINT "ChunkEmbedding_pkey" PRIMARY KEY ("chunkId","versionId")
+);
+
+-- CreateIndex
+CREATE INDEX "ChunkEmbedding_versionId_idx" ON "ChunkEmbedding"("versionId");
+
+-- AddForeignKey
+ALTER TABLE "ChunkEmbedding" ADD CONSTRAINT "ChunkEmbedding_chunkId_fkey" FOREIGN KEY ("chunkId") REFERENCES "Chunk"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "ChunkEmbedding" ADD CONSTRAINT "ChunkEmbedding_versionId_fkey" FOREIGN KEY ("versionId") REFERENCES "EmbeddingVersion"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- Existing vectors become one version per model and size; the most used one is active
+INSERT INTO "EmbeddingVersion" ("id", "provider", "model", "dimensions", "requestedDimensions", "status", "activatedAt")
+SELECT
+    'ev_' || md5("embeddingModel" || ':' || "embeddingDimensions"),
+    CASE
+        WHEN "embeddingModel" = 'fake-embedding' THEN 'fake'
+        WHEN "embeddingModel" IN ('text-embedding-004', 'embedding-001') OR "embeddingModel" LIKE 'gemini-%' THEN 'gemini'
+        ELSE 'openai'
+    END,
+    "embeddingModel",
+    "embeddingDimensions",
+    CASE WHEN "embeddingModel" = 'fake-embedding' THEN "embeddingDimensions" END,
+    CASE WHEN row_number() OVER (ORDER BY count(*) DESC) = 1 THEN 'active' ELSE 'retired' END,
+    CURRENT_TIMESTAMP
+FROM "Chunk"
+WHERE "embedding" IS NOT NULL AND "embeddingModel" IS NOT NULL
+GROUP BY "embeddingModel", "embeddingDimensions";
+
+INSERT INTO "ChunkEmbedding" ("chunkId", "versionId", "embedding")
+SELECT c."id", v."id", c."embedding"
+FROM "Chunk" c
+JOIN "EmbeddingVersion" v ON v."model" = c."embeddingModel" AND v."dimensions" = c."embeddingDimensions"
+WHERE c."embedding" IS NOT NULL;
+
+-- DropIndex
+DROP INDEX "Chunk_embeddingModel_embeddingDimensions_idx";
+
+-- AlterTable
+ALTER TABLE "Chunk" DROP COLUMN "embedding",
+DROP COLUMN "embeddingModel",
+DROP COLUMN "embeddingDimensions";
@@ -0,0 +1,13 @@
+-- CreateTable
+CREATE TABLE "QueryEmbedding" (
+    "key" TEXT NOT NULL,
+    "model" TEXT NOT NULL,
+    "embedding" DOUBLE PRECISION[],
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "lastUsedAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "QueryEmbedding_pkey" PRIMARY KEY ("key")
+);
+
+-- CreateIndex
+CREATE INDEX "QueryEmbedding_lastUsedAt_idx" ON "QueryEmbedding"("lastUsedAt");
@@ -0,0 +1,228 @@
+/**
+ * Measure vector search recall and latency on a synthetic corpus, to pick
+ * index and search settings (VECTOR_INDEX_TYPE, HNSW_*, VECTOR_SEARCH_*).
+ *
+ *   npm run embeddings:benchmark
+ *   npm run embeddings:benchmark -- --rows 50000 --dims 768 --queries 200 --k 10
+ *   npm run embeddings:benchmark -- --index ivfflat --probes 1,5,10,20
+ *   npm run embeddings:benchmark -- --index hnsw --ef 10,40,100,200
+ *
+ * Clustered random vectors are loaded into a scratch table in DATABASE_URL,
+ * which is dropped afterwards; the library's own data isn't touched. Exact
+ * search is timed before the index is built; recall@k for each setting is
+ * the share of the exact top k the indexed search also returns.
+ *
+ * Rows are spread over --docs documents, and every setting is also measured
+ * for searches scoped to one document, with and without iterative scans,
+ * next to the exact search the app uses for scoped queries: a filtered index
+ * scan only sees ef_search candidates, so scoped recall can collapse.
+ */
+
+import { config } from 'dotenv';
+
+// Load env before the app modules, which read it at import time
+config({ path: ['.env.local', '.env'] });
+
+const INSERT_BATCH_SIZE = 500;
+const WARMUP_QUERIES = 5;
+
+function argValue(flag: string): string | undefined {
+  const index = process.argv.indexOf(flag);
+  return index === -1 ? undefined : process.argv[index + 1];
+}
+
+function intArg(flag: string, fallback: number): number {
+  const value = parseInt(argValue(flag) || '', 10);
+  return value > 0 ? value : fallback;
+}
+
+function listArg(flag: string, fallback: number[]): number[] {
+  const values = (argValue(flag) || '').split(',').map(value => parseInt(value, 10)).filter(value => value > 0);
+  return values.length > 0 ? values : fallback;
+}
+
+// Seeded PRNG (mulberry32), so runs with the same options use the same corpus
+function createRandom(seed: number): () => number {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+function gaussian(random: () => number): number {
+  return Math.sqrt(-2 * Math.log(1 - random())) * Math.cos(2 * Math.PI * random());
+}
+
+function normalize(vector: Float32Array): Float32Array {
+  const norm = Math.sqrt(vector.reduce((sum, value) => sum + value * value, 0)) || 1;
+  return vector.map(value => value / norm);
+}
+
+// Points scattered around cluster centres, like embeddings of related passages
+function syntheticCorpus(rows: number, dims: number, random: () => number): Float32Array[] {
+  const centres = Array.from({ length: Math.max(10, Math.round(rows / 100)) }, () =>
+    normalize(Float32Array.from({ length: dims }, () => gaussian(random)))
+  );
+  return Array.from({ length: rows }, () => {
+    const centre = centres[Math.floor(random() * centres.length)];
+    return normalize(centre.map(value => value + gaussian(random) * 0.5 / Math.sqrt(dims)));
+  });
+}
+
+// Exact top k by cosine similarity (dot product of unit vectors), among the ids accepted
+function exactNeighbours(corpus: Float32Array[], query: Float32Array, k: number, accept: (id: number) => boolean = () => true): number[] {
+  return corpus
+    .map((vector, id) => {
+      let dot = 0;
+      for (let i = 0; i < vector.length; i++) dot += vector[i] * query[i];
+      return { id, dot };
+    })
+    .filter(({ id }) => accept(id))
+    .sort((a, b) => b.dot - a.dot)
+    .slice(0, k)
+    .map(({ id }) => id);
+}
+
+function percentile(sorted: number[], p: number): number {
+  return sorted[Math.min(sorted.length - 1, Math.floor(sorted.length * p))];
+}
+
+function formatVector(vector: Float32Array): string {
+  return `[${Array.from(vector, value => value.toFixed(6)).join(',')}]`;
+}
+
+async function main() {
+  const rows = intArg('--rows', 10000);
+  const dims = intArg('--dims', 384);
+  const queryCount = intArg('--queries', 100);
+  const k = intArg('--k', 10);
+  const docs = intArg('--docs', 100);
+
+  const { prisma } = await import('../lib/prisma');
+  const {
+    MAX_INDEXED_DIMENSIONS,
+    supportsIterativeScan,
+    vectorIndexMethodSql,
+    vectorIndexType,
+  } = await import('../lib/vector-index');
+  const iterativeScans = await supportsIterativeScan();
+
+  const requested = argValue('--index') || vectorIndexType();
+  const type = requested === 'ivfflat' ? 'ivfflat' : 'hnsw';
+  if (requested !== type) console.warn(`⚠️ Benchmarking hnsw instead of ${requested}`);
+  if (dims > MAX_INDEXED_DIMENSIONS) {
+    throw new Error(`pgvector can't index vectors of more than ${MAX_INDEXED_DIMENSIONS} dimensions`);
+  }
+  const setting = type === 'hnsw' ? 'hnsw.ef_search' : 'ivfflat.probes';
+  const values = type === 'hnsw' ? listArg('--ef', [10, 20, 40, 80, 160]) : listArg('--probes', [1, 5, 10, 20, 40]);
+
+  const table = `VectorBenchmark_${process.pid}`;
+  const random = createRandom(42);
+
+  try {
+    console.log(`🧪 Generating ${rows} vectors of ${dims} dimensions and ${queryCount} queries...`);
+    const corpus = syntheticCorpus(rows, dims, random);
+    // Queries near stored vectors, as questions are near the passages answering them
+    // Each query is scoped to the document of the vector it was made near
+    const docOf = (id: number) => id % docs;
+    const targets = Array.from({ length: queryCount }, () => Math.floor(random() * rows));
+    const queries = targets.map(target =>
+      normalize(corpus[target].map(value => value + gaussian(random) * 0.5 / Math.sqrt(dims)))
+    );
+    const truth = queries.map(query => exactNeighbours(corpus, query, k));
+    const scopedTruth = queries.map((query, index) =>
+      exactNeighbours(corpus, query, k, id => docOf(id) === docOf(targets[index]))
+    );
+
+    await prisma.$executeRawUnsafe(`CREATE UNLOGGED TABLE "${table}" (id integer PRIMARY KEY, doc integer NOT NULL, embedding vector(${dims}) NOT NULL)`);
+    for (let i = 0; i < rows; i += INSERT_BATCH_SIZE) {
+      const batch = corpus.slice(i, i + INSERT_BATCH_SIZE);
+      await prisma.$executeRawUnsafe(
+        `INSERT INTO "${table}" (id, doc, embedding) SELECT * FROM unnest($1::int[], $2::int[], $3::text[]::vector[])`,
+        batch.map((_, j) => i + j),
+        batch.map((_, j) => docOf(i + j)),
+        batch.map(formatVector)
+      );
+    }
+    await prisma.$executeRawUnsafe(`CREATE INDEX ON "${table}" (doc)`);
+    await prisma.$executeRawUnsafe(`ANALYZE "${table}"`);
+
+    const searchSql = `SELECT id FROM "${table}" ORDER BY embedding <=> $1::vector LIMIT ${k}`;
+    const scopedSql = `SELECT id FROM "${table}" WHERE doc = $2 ORDER BY embedding <=> $1::vector LIMIT ${k}`;
+    // As the app searches scoped queries: compare everything in scope, then sort
+    const scopedExactSql = `WITH in_scope AS MATERIALIZED (SELECT id, embedding <=> $1::vector AS distance FROM "${table}" WHERE doc = $2) ` +
+      `SELECT id FROM in_scope ORDER BY distance LIMIT ${k}`;
+
+    // Latency and recall of every query for one search and settings
+    const run = async (label: string, sql: string, expected: number[][], settings: Record<string, string> = {}) => {
+      const latencies: number[] = [];
+      let found = 0;
+      let wanted = 0;
+      for (const [index, query] of [...queries.slice(0, WARMUP_QUERIES), ...queries].entries()) {
+        const queryIndex = Math.max(0, index - WARMUP_QUERIES);
+        const params = [formatVector(query), docOf(targets[queryIndex])].slice(0, sql.includes('$2') ? 2 : 1);
+        const started = performance.now();
+        const search = prisma.$queryRawUnsafe<{ id: number }[]>(sql, ...params);
+        const results = Object.keys(settings).length === 0
+          ? await search
+          : (await prisma.$transaction([
+            ...Object.entries(settings).map(([name, value]) => prisma.$queryRaw`SELECT set_config(${name}, ${value}, true)`),
+            search,
+          ])).at(-1) as { id: number }[];
+        const elapsed = performance.now() - started;
+        if (index < WARMUP_QUERIES) continue;
+
+        latencies.push(elapsed);
+        const ids = new Set(results.map(row => row.id));
+        found += expected[queryIndex].filter(id => ids.has(id)).length;
+        wanted += expected[queryIndex].length;
+      }
+      latencies.sort((a, b) => a - b);
+      console.log(
+        `${label.padEnd(40)}  recall@${k} ${(found / Math.max(1, wanted)).toFixed(3)}  ` +
+        `p50 ${percentile(latencies, 0.5).toFixed(1)} ms  p95 ${percentile(latencies, 0.95).toFixed(1)} ms`
+      );
+    };
+
+    await run('exact (no index)', searchSql, truth);
+    await run('scoped, exact (no index)', scopedSql, scopedTruth);
+
+    const method = vectorIndexMethodSql(type, 'embedding', { rows });
+    console.log(`🗂️ Building index: ${method}`);
+    const buildStarted = performance.now();
+    await prisma.$executeRawUnsafe(`CREATE INDEX ON "${table}" ${method}`);
+    console.log(`🗂️ Built in ${((performance.now() - buildStarted) / 1000).toFixed(1)} s`);
+
+    for (const value of values) {
+      await run(`${setting} = ${value}`, searchSql, truth, { [setting]: String(value) });
+    }
+
+    console.log(`🔎 Scoped to one of ${docs} documents (${Math.round(rows / docs)} vectors each)`);
+    await run('scoped, exact search (as the app does)', scopedExactSql, scopedTruth);
+    for (const value of values) {
+      await run(`scoped, ${setting} = ${value}`, scopedSql, scopedTruth, {
+        [setting]: String(value),
+        ...(iterativeScans && { [`${type}.iterative_scan`]: 'off' }),
+      });
+      if (iterativeScans) {
+        await run(`scoped, ${setting} = ${value}, iterative`, scopedSql, scopedTruth, {
+          [setting]: String(value),
+          [`${type}.iterative_scan`]: 'relaxed_order',
+        });
+      }
+    }
+    if (!iterativeScans) console.warn('⚠️ pgvector 0.8.0 or later is needed for iterative scans; not measured');
+  } finally {
+    await prisma.$executeRawUnsafe(`DROP TABLE IF EXISTS "${table}"`);
+    await prisma.$disconnect();
+  }
+}
+
+main().catch(error => {
+  console.error('❌ Vector search benchmark failed:', error);
+  process.exitCode = 1;
+});
@@ -0,0 +1,91 @@
+/**
+ * Ingestion worker: processes queued document jobs (text extraction,
+ * chunking, embedding) outside the request cycle.
+ *
+ *   npm run worker           # poll forever
+ *   npm run worker -- --once # drain the queue and exit (e.g. from cron)
+ *
+ * Run as many workers as needed; jobs are claimed with FOR UPDATE SKIP LOCKED.
+ * Workers also purge documents that have outlived their time in the trash,
+ * and cached query embeddings that haven't been used for a while.
+ */
+
+import { config } from 'dotenv';
+
+// Load env before the app modules, which read it at import time
+config({ path: ['.env.local', '.env'] });
+
+const POLL_INTERVAL_MS = parseInt(process.env.INGESTION_POLL_INTERVAL_MS || '5000');
+
+// How often a long-running worker purges the trash and the query embedding cache
+const PURGE_INTERVAL_MS = 60 * 60 * 1000;
+
+let stopping = false;
+
+function sleep(ms: number) {
+  return new Promise(resolve => setTimeout(resolve, ms));
+}
+
+async function main() {
+  const { prisma } = await import('../lib/prisma');
+  const { createWorkerId, drainJobQueue, processNextJob } = await import('../lib/jobs');
+  const { purgeExpiredDocuments } = await import('../lib/documents');
+  const { purgeExpiredQueryEmbeddings } = await import('../lib/embedding-cache');
+  const { ensureVectorIndexes } = await import('../lib/vector-index');
+
+  async function purgeExpired() {
+    const purged = await purgeExpiredDocuments();
+    if (purged > 0) console.log(`🗑️ Purged ${purged} document(s) from the trash`);
+    const expired = await purgeExpiredQueryEmbeddings();
+    if (expired > 0) console.log(`🗑️ Purged ${expired} cached query embedding(s)`);
+  }
+
+  const workerId = createWorkerId();
+  const once = process.argv.includes('--once');
+  console.log(`👷 Ingestion worker ${workerId} started${once ? ' (--once)' : ''}`);
+
+  try {
+    // Vector indexes for existing embedding versions are built here, concurrently,
+    // rather than by a migration that would block writes while they build
+    await ensureVectorIndexes().catch(error => console.error('⚠️ Could not ensure vector indexes:', error));
+
+    if (once) {
+      const processed = await drainJobQueue(workerId);
+      console.log(`👷 Processed ${processed} job(s)`);
+      await purgeExpired();
+      return;
+    }
+
+    // Finish the current job before exiting on SIGINT/SIGTERM
+    for (const signal of ['SIGINT', 'SIGTERM'] as const) {
+      process.on(signal, () => {
+        console.log(`👷 ${signal} received, stopping after the current job`);
+        stopping = true;
+      });
+    }
+
+    let lastPurge = 0;
+    while (!stopping) {
+      try {
+        if (Date.now() - lastPurge >= PURGE_INTERVAL_MS) {
+          lastPurge = Date.now();
+          await purgeExpired();
+        }
+
+        const jobId = await processNextJob(workerId);
+        if (!jobId) await sleep(POLL_INTERVAL_MS);
+      } catch (error) {
+        // Database hiccups shouldn't kill the worker
+        console.error('❌ Worker loop error:', error);
+        await sleep(POLL_INTERVAL_MS);
+      }
+    }
+  } finally {
+    await prisma.$disconnect();
+  }
+}
+
+main().catch(error => {
+  console.error('❌ Ingestion worker crashed:', error);
+  process.exitCode = 1;
+});
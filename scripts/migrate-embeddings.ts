@@ -0,0 +1,137 @@
+/**
+ * Move stored vectors to the configured embedding provider (EMBEDDING_*)
+ * without interrupting search, and manage embedding versions.
+ *
+ *   npm run embeddings:migrate                    # start re-embedding with the configured provider
+ *   npm run embeddings:migrate -- --status        # versions and how many chunks each covers
+ *   npm run embeddings:migrate -- --rollback      # switch back to the previously active version
+ *   npm run embeddings:migrate -- --activate <id> # switch to a version now (--force if it has gaps)
+ *   npm run embeddings:migrate -- --drop <id>     # delete a version that isn't active, with its vectors
+ *   npm run embeddings:migrate -- --reindex       # rebuild the active version's vector index (VECTOR_INDEX_TYPE)
+ *
+ * Re-embedding runs in the ingestion workers (npm run worker), one 'embed'
+ * job per document. Searches keep using the active version until every
+ * chunk has a vector in the new one; then it becomes active in a single
+ * update. Starting again resumes where a previous run stopped.
+ */
+
+import { config } from 'dotenv';
+import type { EmbeddingCoverage } from '../lib/embedding-versions';
+
+// Load env before the app modules, which read it at import time
+config({ path: ['.env.local', '.env'] });
+
+function argValue(flag: string): string | undefined {
+  const index = process.argv.indexOf(flag);
+  return index === -1 ? undefined : process.argv[index + 1];
+}
+
+function describe({ version, embeddedChunks, totalChunks }: EmbeddingCoverage): string {
+  const percent = totalChunks > 0 ? Math.floor((embeddedChunks / totalChunks) * 100) : 100;
+  const size = version.dimensions ? `, ${version.dimensions} dimensions` : '';
+  return `${version.id}  ${version.status.padEnd(8)}  ${version.provider}/${version.model}${size}  ` +
+    `${embeddedChunks}/${totalChunks} chunks (${percent}%)`;
+}
+
+async function main() {
+  const { prisma } = await import('../lib/prisma');
+  const {
+    activateEmbeddingVersion,
+    deleteEmbeddingVersion,
+    getEmbeddingCoverage,
+    rollbackEmbeddingVersion,
+    startEmbeddingMigration,
+  } = await import('../lib/embedding-versions');
+  const { ensureVectorIndex } = await import('../lib/vector-index');
+
+  try {
+    if (process.argv.includes('--status')) {
+      const coverage = await getEmbeddingCoverage();
+      if (coverage.length === 0) console.log('🧮 No embedding versions yet');
+      coverage.forEach(entry => console.log(describe(entry)));
+
+      const jobs = await prisma.ingestionJob.groupBy({
+        by: ['status'],
+        where: { type: 'embed', status: { in: ['queued', 'running', 'failed'] } },
+        _count: { _all: true },
+      });
+      if (jobs.length > 0) {
+        console.log(`🧮 Embed jobs: ${jobs.map(job => `${job._count._all} ${job.status}`).join(', ')}`);
+      }
+      return;
+    }
+
+    if (process.argv.includes('--rollback')) {
+      const rolledBack = await rollbackEmbeddingVersion();
+      if (!rolledBack) {
+        console.error('❌ No previously active embedding version to roll back to');
+        process.exitCode = 1;
+        return;
+      }
+      console.log(`⏪ Embedding version ${rolledBack.version.id} (${rolledBack.version.model}) is active again`);
+      if (rolledBack.queued > 0) {
+        console.log(`🧮 Queued ${rolledBack.queued} document(s) with chunks added since it was replaced`);
+      }
+      return;
+    }
+
+    const activateId = argValue('--activate');
+    if (activateId) {
+      const entry = (await getEmbeddingCoverage()).find(({ version }) => version.id === activateId);
+      if (!entry) {
+        console.error(`❌ Embedding version ${activateId} not found`);
+        process.exitCode = 1;
+        return;
+      }
+      const missing = entry.totalChunks - entry.embeddedChunks;
+      if (missing > 0 && !process.argv.includes('--force')) {
+        console.error(`❌ ${missing} chunk(s) have no vector in ${activateId} and would drop out of vector search; use --force to activate anyway`);
+        process.exitCode = 1;
+        return;
+      }
+      const version = await activateEmbeddingVersion(activateId);
+      console.log(`🔀 Embedding version ${version.id} (${version.model}) is now active`);
+      return;
+    }
+
+    if (process.argv.includes('--reindex')) {
+      const active = await prisma.embeddingVersion.findFirst({ where: { status: 'active' } });
+      if (!active?.dimensions) {
+        console.error('❌ The active embedding version has no vectors to index yet');
+        process.exitCode = 1;
+        return;
+      }
+      // Searches scan exactly while the index is rebuilt
+      await ensureVectorIndex(active, { rebuild: true });
+      return;
+    }
+
+    const dropId = argValue('--drop');
+    if (dropId) {
+      if (await deleteEmbeddingVersion(dropId)) {
+        console.log(`🗑️ Deleted embedding version ${dropId} and its vectors`);
+      } else {
+        console.error(`❌ No inactive embedding version ${dropId}`);
+        process.exitCode = 1;
+      }
+      return;
+    }
+
+    const { version, queued } = await startEmbeddingMigration();
+    if (version.status === 'active') {
+      console.log(`✅ Embedding version ${version.id} (${version.provider}/${version.model}) is active` +
+        `${queued > 0 ? `; queued ${queued} document(s) with missing vectors` : ''}`);
+    } else {
+      console.log(`🧮 Building embedding version ${version.id} (${version.provider}/${version.model}): ` +
+        `queued ${queued} document(s). Run workers (npm run worker) to re-embed; ` +
+        `search switches over once every chunk is embedded. Check progress with --status.`);
+    }
+  } finally {
+    await prisma.$disconnect();
+  }
+}
+
+main().catch(error => {
+  console.error('❌ Embedding migration failed:', error);
+  process.exitCode = 1;
+});
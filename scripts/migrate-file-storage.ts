@@ -0,0 +1,93 @@
+/**
+ * Move document files out of the database into the configured FileStorage
+ * backend (FILE_STORAGE_TYPE), clearing PDF.fileData as it goes.
+ *
+ *   npm run storage:migrate              # move every remaining file
+ *   npm run storage:migrate -- --dry-run # only count what would move
+ *
+ * Each file is uploaded and its size checked before the column is cleared,
+ * so the command can be interrupted and re-run at any point.
+ */
+
+import { config } from 'dotenv';
+import type { DocumentFormat } from '../lib/document-formats';
+
+// Load env before the app modules, which read it at import time
+config({ path: ['.env.local', '.env'] });
+
+// Files are read from the database a few at a time to bound memory
+const BATCH_SIZE = 10;
+
+async function main() {
+  const { prisma } = await import('../lib/prisma');
+  const { documentStorageKey } = await import('../lib/documents');
+  const { getFileStorage, validateStorageConfig } = await import('../lib/file-storage');
+  const { formatMimeType, DOCUMENT_FORMATS } = await import('../lib/document-formats');
+
+  const dryRun = process.argv.includes('--dry-run');
+  const storage = getFileStorage();
+
+  const { errors } = validateStorageConfig();
+  errors.forEach(error => console.warn(`⚠️ ${error}`));
+
+  const where = { storageKey: null, fileData: { not: null } };
+
+  try {
+    const remaining = await prisma.document.count({ where });
+    console.log(`📦 ${remaining} document file(s) stored in the database (backend: ${process.env.FILE_STORAGE_TYPE || 'local'})`);
+    if (dryRun || remaining === 0) return;
+
+    let moved = 0;
+    let failed = 0;
+    const failedIds: string[] = [];
+
+    while (true) {
+      const documents = await prisma.document.findMany({
+        where: { ...where, id: { notIn: failedIds } },
+        select: { id: true, title: true, format: true, fileData: true },
+        orderBy: { id: 'asc' },
+        take: BATCH_SIZE,
+      });
+      if (documents.length === 0) break;
+
+      for (const document of documents) {
+        const data = Buffer.from(document.fileData!);
+        const format = DOCUMENT_FORMATS.includes(document.format as DocumentFormat) ? document.format as DocumentFormat : 'pdf';
+        const key = documentStorageKey(format);
+
+        try {
+          await storage.upload(data, key, formatMimeType(format));
+          const storedSize = await storage.size(key);
+          if (storedSize !== data.length) {
+            throw new Error(`stored ${storedSize ?? 0} of ${data.length} bytes`);
+          }
+
+          // Only clear the column if nothing else moved the file meanwhile
+          const updated = await prisma.document.updateMany({
+            where: { id: document.id, storageKey: null },
+            data: { storageKey: key, fileData: null, fileSize: data.length },
+          });
+          if (updated.count === 0) await storage.delete(key);
+
+          moved++;
+          console.log(`✅ ${document.title} (${document.id}, ${data.length} bytes) → ${key}`);
+        } catch (error) {
+          failed++;
+          failedIds.push(document.id);
+          await storage.delete(key).catch(() => {});
+          console.error(`❌ ${document.title} (${document.id}):`, error instanceof Error ? error.message : error);
+        }
+      }
+    }
+
+    console.log(`📦 Moved ${moved} file(s)${failed ? `, ${failed} failed (still in the database; re-run to retry)` : ''}`);
+    if (failed) process.exitCode = 1;
+  } finally {
+    await prisma.$disconnect();
+  }
+}
+
+main().catch(error => {
+  console.error('❌ Storage migration failed:', error);
+  process.exitCode = 1;
+});